@@ -4,9 +4,12 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { StyleSheet } from 'react-native';
 import { RootNavigator } from './src/navigation/RootNavigator';
 import { ErrorBoundary } from './src/components';
+import { useTrashPurge } from './src/hooks/useTrashPurge';
 import { colors } from './src/theme';
 
 export default function App() {
+  useTrashPurge();
+
   return (
     <ErrorBoundary>
       <GestureHandlerRootView style={styles.container}>
@@ -0,0 +1,433 @@
+#!/usr/bin/env node
+/**
+ * Cupper Sync Reference Server
+ * Implements the sync protocol (docs/SYNC_PROTOCOL.md) over a JSON file,
+ * with no dependencies beyond Node itself. Meant for development and for
+ * testing sync end to end, not for production use.
+ *
+ * Usage: npm run sync-server -- [--port 8787] [--data server/data/sessions.json]
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const PROTOCOL_VERSION = 1;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const ACCESS_TOKEN_TTL_S = 60 * 60;
+const REFRESH_TOKEN_TTL_S = 30 * 24 * 60 * 60;
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index !== -1 && process.argv[index + 1]) {
+    return process.argv[index + 1];
+  }
+  return fallback;
+}
+
+const PORT = Number(readOption('port', process.env.PORT || 8787));
+const DATA_FILE = path.resolve(
+  readOption('data', process.env.SYNC_DATA_FILE || path.join(__dirname, 'data/sessions.json'))
+);
+
+/**
+ * Owner of the sessions synced without an account
+ */
+const GUEST_OWNER = 'guest';
+
+/**
+ * Store: every session the server has seen, deleted ones included so other
+ * devices can pull the delete, kept apart per owner (a user ID, or
+ * GUEST_OWNER). `seq` numbers each write across all sessions and is the
+ * pull cursor. Accounts are keyed by email; tokens by their SHA-256, so the
+ * file never holds a usable token.
+ */
+function loadStore() {
+  if (!fs.existsSync(DATA_FILE)) {
+    return { seq: 0, sessions: {}, users: {}, tokens: {} };
+  }
+  const store = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  const sessions = store.sessions || {};
+
+  // Stores written before sessions had owners hold one flat map of sessions;
+  // nobody can tell whose they were, so they go to the guests
+  const flat = Object.entries(sessions).filter(([, value]) => typeof value.revision === 'number');
+  if (flat.length > 0) {
+    const guest = {};
+    for (const [id, entry] of flat) {
+      guest[id] = entry;
+      delete sessions[id];
+    }
+    sessions[GUEST_OWNER] = { ...guest, ...sessions[GUEST_OWNER] };
+  }
+
+  return {
+    seq: store.seq || 0,
+    sessions,
+    users: store.users || {},
+    tokens: store.tokens || {},
+  };
+}
+
+function saveStore(store) {
+  // Write to a temporary file first so a crash never leaves half a store
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  const tempFile = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(store));
+  fs.renameSync(tempFile, DATA_FILE);
+}
+
+const store = loadStore();
+
+function toRemoteSession(entry) {
+  return {
+    id: entry.id,
+    revision: entry.revision,
+    deleted: entry.deleted,
+    version: entry.version,
+    session: entry.session,
+  };
+}
+
+function sendJson(res, status, body) {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(json),
+  });
+  res.end(json);
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : null);
+      } catch (e) {
+        reject(Object.assign(new Error('Body is not valid JSON'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function hashPassword(password, salt) {
+  return crypto.scryptSync(password, salt, 32).toString('hex');
+}
+
+/**
+ * Issue an access and refresh token pair. Pairs renewed from the same
+ * sign-in share a grant, so revoking either token ends the whole sign-in.
+ */
+function issueTokens(user, grantId) {
+  const now = Date.now();
+  for (const [hash, entry] of Object.entries(store.tokens)) {
+    if (entry.expiresAt < now) delete store.tokens[hash];
+  }
+
+  const accessToken = crypto.randomBytes(32).toString('base64url');
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  store.tokens[hashToken(accessToken)] = {
+    type: 'access',
+    userId: user.id,
+    grantId,
+    expiresAt: now + ACCESS_TOKEN_TTL_S * 1000,
+  };
+  store.tokens[hashToken(refreshToken)] = {
+    type: 'refresh',
+    userId: user.id,
+    grantId,
+    expiresAt: now + REFRESH_TOKEN_TTL_S * 1000,
+  };
+  saveStore(store);
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_S,
+    refresh_token: refreshToken,
+    user: { id: user.id, email: user.email, name: user.name },
+  };
+}
+
+function revokeGrant(grantId) {
+  for (const [hash, entry] of Object.entries(store.tokens)) {
+    if (entry.grantId === grantId) delete store.tokens[hash];
+  }
+}
+
+/**
+ * Look up a valid token of a type.
+ */
+function findToken(token, type) {
+  const entry = typeof token === 'string' ? store.tokens[hashToken(token)] : undefined;
+  if (!entry || entry.type !== type || entry.expiresAt < Date.now()) {
+    return null;
+  }
+  return entry;
+}
+
+/**
+ * OAuth 2.0 token endpoint (RFC 6749) with the password and refresh_token
+ * grants, taking JSON. Unknown emails are signed up on their first sign-in.
+ */
+function grantToken(res, body) {
+  const params = body && typeof body === 'object' ? body : {};
+
+  if (params.grant_type === 'password') {
+    const email = typeof params.username === 'string' ? params.username.trim().toLowerCase() : '';
+    if (!email || typeof params.password !== 'string' || !params.password) {
+      sendJson(res, 400, {
+        error: 'invalid_request',
+        error_description: 'username and password are required',
+      });
+      return;
+    }
+
+    let user = store.users[email];
+    if (!user) {
+      const salt = crypto.randomBytes(16).toString('hex');
+      user = {
+        id: crypto.randomUUID(),
+        email,
+        name: typeof params.name === 'string' && params.name ? params.name : email.split('@')[0],
+        salt,
+        passwordHash: hashPassword(params.password, salt),
+      };
+      store.users[email] = user;
+      console.log(`[SyncServer] Signed up ${email}`);
+    } else {
+      const expected = Buffer.from(user.passwordHash, 'hex');
+      const actual = Buffer.from(hashPassword(params.password, user.salt), 'hex');
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        sendJson(res, 400, {
+          error: 'invalid_grant',
+          error_description: 'Wrong email or password',
+        });
+        return;
+      }
+    }
+
+    sendJson(res, 200, issueTokens(user, crypto.randomUUID()));
+  } else if (params.grant_type === 'refresh_token') {
+    const entry = findToken(params.refresh_token, 'refresh');
+    const user =
+      entry && Object.values(store.users).find(candidate => candidate.id === entry.userId);
+    if (!entry || !user) {
+      sendJson(res, 400, {
+        error: 'invalid_grant',
+        error_description: 'Refresh token is not valid',
+      });
+      return;
+    }
+
+    // Rotate: the old pair stops working once the new one is issued
+    revokeGrant(entry.grantId);
+    sendJson(res, 200, issueTokens(user, entry.grantId));
+  } else {
+    sendJson(res, 400, { error: 'unsupported_grant_type' });
+  }
+}
+
+/**
+ * Token revocation (RFC 7009). Unknown tokens are not an error.
+ */
+function revokeToken(res, body) {
+  const token = body && typeof body === 'object' ? body.token : undefined;
+  const entry = typeof token === 'string' ? store.tokens[hashToken(token)] : undefined;
+  if (entry) {
+    revokeGrant(entry.grantId);
+    saveStore(store);
+  }
+  sendJson(res, 200, {});
+}
+
+/**
+ * Find whose sessions a sync request works on. Requests may be made as a
+ * guest, with no Authorization header, but a bearer token that is sent must
+ * be valid.
+ *
+ * @returns The owner (a user ID, or GUEST_OWNER), or null once a 401 is sent
+ */
+function authorize(req, res) {
+  const header = req.headers.authorization;
+  if (!header) return GUEST_OWNER;
+
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  const entry = match ? findToken(match[1], 'access') : null;
+  if (entry) return entry.userId;
+
+  res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+  sendJson(res, 401, { error: 'invalid_token' });
+  return null;
+}
+
+/**
+ * Sessions of one owner, by ID
+ */
+function sessionsOf(owner) {
+  if (!store.sessions[owner]) {
+    store.sessions[owner] = {};
+  }
+  return store.sessions[owner];
+}
+
+function listChanges(res, owner, query) {
+  const since = Number(query.get('since') || 0);
+  const limit = query.get('limit') ? Number(query.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(since) || since < 0) {
+    sendJson(res, 400, { error: 'invalid-cursor', message: 'since must be a cursor' });
+    return;
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    sendJson(res, 400, { error: 'invalid-request', message: 'limit must be a positive integer' });
+    return;
+  }
+  const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+
+  const changed = Object.values(sessionsOf(owner))
+    .filter(entry => entry.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  const page = changed.slice(0, pageSize);
+  const cursor = page.length > 0 ? page[page.length - 1].seq : Math.max(since, 0);
+
+  sendJson(res, 200, {
+    changes: page.map(toRemoteSession),
+    cursor: String(cursor),
+    hasMore: changed.length > page.length,
+  });
+}
+
+function validatePush(id, body) {
+  if (!body || typeof body !== 'object') {
+    return 'Body must be a JSON object';
+  }
+  if (!Number.isInteger(body.baseRevision) || body.baseRevision < 0) {
+    return 'baseRevision must be a non-negative integer';
+  }
+  if (typeof body.deleted !== 'boolean') {
+    return 'deleted must be a boolean';
+  }
+  if (!body.deleted) {
+    if (!body.session || typeof body.session !== 'object' || body.session.id !== id) {
+      return 'session must be an object with the ID of the URL';
+    }
+    if (typeof body.version !== 'string') {
+      return 'version must be the export format version of session';
+    }
+  }
+  return null;
+}
+
+function pushSession(res, owner, id, body) {
+  const error = validatePush(id, body);
+  if (error) {
+    sendJson(res, 400, { error: 'invalid-request', message: error });
+    return;
+  }
+
+  // A session the server has never seen takes any base revision, so devices
+  // can re-upload after the store was reset
+  const sessions = sessionsOf(owner);
+  const entry = sessions[id];
+  if (entry && body.baseRevision !== entry.revision) {
+    sendJson(res, 409, { error: 'conflict', current: toRemoteSession(entry) });
+    return;
+  }
+
+  store.seq += 1;
+  const next = {
+    id,
+    revision: (entry ? entry.revision : 0) + 1,
+    deleted: body.deleted,
+    version: body.deleted ? null : body.version,
+    session: body.deleted ? null : body.session,
+    seq: store.seq,
+    updatedAt: new Date().toISOString(),
+  };
+  sessions[id] = next;
+  saveStore(store);
+
+  console.log(
+    `[SyncServer] ${body.deleted ? 'Deleted' : 'Stored'} ${id} at revision ${next.revision}`
+  );
+  sendJson(res, 200, { id, revision: next.revision });
+}
+
+async function handleRequest(req, res) {
+  const url = new URL(req.url, 'http://localhost');
+  const sessionMatch = url.pathname.match(/^\/v1\/sessions\/([^/]+)$/);
+
+  if (req.method === 'POST' && url.pathname === '/v1/auth/token') {
+    grantToken(res, await readBody(req));
+    return;
+  }
+  if (req.method === 'POST' && url.pathname === '/v1/auth/revoke') {
+    revokeToken(res, await readBody(req));
+    return;
+  }
+  if (req.method === 'GET' && url.pathname === '/v1/health') {
+    sendJson(res, 200, {
+      protocol: PROTOCOL_VERSION,
+      serverTime: new Date().toISOString(),
+      sessions: Object.values(store.sessions).reduce(
+        (count, sessions) => count + Object.keys(sessions).length,
+        0
+      ),
+    });
+    return;
+  }
+
+  const owner = url.pathname.startsWith('/v1/sessions') ? authorize(req, res) : GUEST_OWNER;
+  if (owner === null) {
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/v1/sessions') {
+    listChanges(res, owner, url.searchParams);
+  } else if (req.method === 'GET' && sessionMatch) {
+    const entry = sessionsOf(owner)[decodeURIComponent(sessionMatch[1])];
+    if (entry) {
+      sendJson(res, 200, toRemoteSession(entry));
+    } else {
+      sendJson(res, 404, { error: 'not-found' });
+    }
+  } else if (req.method === 'PUT' && sessionMatch) {
+    pushSession(res, owner, decodeURIComponent(sessionMatch[1]), await readBody(req));
+  } else {
+    sendJson(res, 404, { error: 'not-found' });
+  }
+}
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error('[SyncServer]', error.message);
+    if (!res.headersSent) {
+      sendJson(res, error.status || 500, { error: 'server-error', message: error.message });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[SyncServer] Listening on port ${PORT} (protocol v${PROTOCOL_VERSION})`);
+  console.log(`[SyncServer] Data file: ${DATA_FILE}`);
+  console.log(`[SyncServer] Point the app at http://<this machine's LAN address>:${PORT}`);
+});
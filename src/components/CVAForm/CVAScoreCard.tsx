@@ -0,0 +1,206 @@
+/**
+ * CVAScoreCard Component
+ *
+ * Read-only summary of a sample's CVA forms across its cups: the sample
+ * score, mean hedonic scores, mean descriptive intensities, checked
+ * descriptors and non-uniform/defective cup counts. Cups with recorded
+ * defects count as defective.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { Cup, CVAAffectiveForm, CVADescriptiveForm } from '../../types/session.types';
+import { flavorService } from '../../services/flavorService';
+import {
+  CVA_AFFECTIVE_ATTRIBUTES,
+  CVA_DESCRIPTIVE_ATTRIBUTES,
+  CVA_HEDONIC_SCALE,
+  CVA_INTENSITY_SCALE,
+  calculateCVASampleScore,
+  withCupDefects,
+} from '../../utils/scoring';
+import { colors, typography, spacing } from '../../theme';
+
+export interface CVAScoreCardProps {
+  cups: Array<Pick<Cup, 'cvaDescriptive' | 'cvaAffective' | 'defects'>>;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Names of the descriptors checked on any cup, most frequent first
+ */
+function getDescriptorNames(
+  forms: CVADescriptiveForm[],
+  key: 'aromaDescriptors' | 'flavorDescriptors'
+): string[] {
+  const counts = new Map<number, number>();
+  for (const form of forms) {
+    for (const id of form[key]) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => flavorService.getFlavorById(id)?.name)
+    .filter((name): name is string => !!name);
+}
+
+export const CVAScoreCard: React.FC<CVAScoreCardProps> = ({ cups }) => {
+  const affective = cups
+    .map(cup => cup.cvaAffective && withCupDefects(cup.cvaAffective, cup.defects))
+    .filter((form): form is CVAAffectiveForm => !!form);
+  const descriptive = cups
+    .map(cup => cup.cvaDescriptive)
+    .filter((form): form is CVADescriptiveForm => !!form);
+
+  const score = calculateCVASampleScore(affective);
+  const nonUniform = affective.filter(form => form.nonUniform).length;
+  const defective = affective.filter(form => form.defective).length;
+  const aromaDescriptors = getDescriptorNames(descriptive, 'aromaDescriptors');
+  const flavorDescriptors = getDescriptorNames(descriptive, 'flavorDescriptors');
+
+  return (
+    <View style={styles.container}>
+      {/* Sample score */}
+      <View style={styles.finalRow}>
+        <View>
+          <Text style={styles.finalLabel}>CVA Score</Text>
+          <Text style={styles.caption}>
+            {affective.length} of {cups.length} cups scored
+          </Text>
+        </View>
+        <Text style={styles.finalScore}>{score !== null ? score.toFixed(2) : '—'}</Text>
+      </View>
+      {(nonUniform > 0 || defective > 0) && (
+        <Text style={styles.defects}>
+          Non-uniform {nonUniform} (−{nonUniform * 2}) · Defective {defective} (−{defective * 4})
+        </Text>
+      )}
+
+      {/* Hedonic means */}
+      {affective.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Affective (1-9)</Text>
+          {CVA_AFFECTIVE_ATTRIBUTES.map(({ key, label }) => {
+            const value = mean(affective.map(form => form[key]));
+            const percentage =
+              ((value - CVA_HEDONIC_SCALE.min) / (CVA_HEDONIC_SCALE.max - CVA_HEDONIC_SCALE.min)) *
+              100;
+            return (
+              <View key={key} style={styles.scoreRow}>
+                <Text style={styles.scoreName}>{label}</Text>
+                <View style={styles.scoreBarContainer}>
+                  <View style={[styles.scoreBar, { width: `${percentage}%` }]} />
+                </View>
+                <Text style={styles.scoreValue}>{value.toFixed(1)}</Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Intensity means and descriptors */}
+      {descriptive.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Descriptive (0-15)</Text>
+          {CVA_DESCRIPTIVE_ATTRIBUTES.map(({ key, label }) => {
+            const value = mean(descriptive.map(form => form[key]));
+            const percentage = (value / CVA_INTENSITY_SCALE.max) * 100;
+            return (
+              <View key={key} style={styles.scoreRow}>
+                <Text style={styles.scoreName}>{label}</Text>
+                <View style={styles.scoreBarContainer}>
+                  <View style={[styles.intensityBar, { width: `${percentage}%` }]} />
+                </View>
+                <Text style={styles.scoreValue}>{value.toFixed(1)}</Text>
+              </View>
+            );
+          })}
+          {aromaDescriptors.length > 0 && (
+            <Text style={styles.descriptors}>Aroma: {aromaDescriptors.join(', ')}</Text>
+          )}
+          {flavorDescriptors.length > 0 && (
+            <Text style={styles.descriptors}>Flavor: {flavorDescriptors.join(', ')}</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  finalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  finalLabel: {
+    ...typography.heading4,
+    color: colors.text.primary,
+  },
+  finalScore: {
+    ...typography.heading1,
+    color: colors.primary,
+  },
+  caption: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  defects: {
+    ...typography.bodySmall,
+    color: colors.error,
+  },
+  section: {
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+    paddingTop: spacing.sm,
+    gap: spacing.sm,
+  },
+  sectionTitle: {
+    ...typography.bodySmallMedium,
+    color: colors.text.primary,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  scoreName: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    width: 100,
+  },
+  scoreBarContainer: {
+    flex: 1,
+    height: 8,
+    backgroundColor: colors.border,
+    borderRadius: spacing.xs,
+    overflow: 'hidden',
+  },
+  scoreBar: {
+    height: '100%',
+    backgroundColor: colors.primary,
+    borderRadius: spacing.xs,
+  },
+  intensityBar: {
+    height: '100%',
+    backgroundColor: colors.text.secondary,
+    borderRadius: spacing.xs,
+  },
+  scoreValue: {
+    ...typography.bodySmallMedium,
+    color: colors.primary,
+    width: 40,
+    textAlign: 'right',
+  },
+  descriptors: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+});
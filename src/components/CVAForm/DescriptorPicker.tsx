@@ -0,0 +1,191 @@
+/**
+ * DescriptorPicker Component
+ *
+ * Check-all-that-apply descriptor list for the CVA descriptive form.
+ * Descriptors come from the flavor lexicon: pick a category, then tap
+ * flavors to check them. Selected descriptors are shown as removable chips.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { flavorService } from '../../services/flavorService';
+import { colors, typography, spacing } from '../../theme';
+
+export interface DescriptorPickerProps {
+  label: string;
+  selectedIds: number[];
+  onChange: (selectedIds: number[]) => void;
+  maxSelections: number;
+  disabled?: boolean;
+}
+
+export const DescriptorPicker: React.FC<DescriptorPickerProps> = ({
+  label,
+  selectedIds,
+  onChange,
+  maxSelections,
+  disabled = false,
+}) => {
+  const categories = useMemo(() => flavorService.getAllCategories(), []);
+  const [category, setCategory] = useState<string | null>(categories[0]?.name ?? null);
+
+  const flavors = useMemo(
+    () => (category ? flavorService.getFlavorsByCategory(category) : []),
+    [category]
+  );
+  const isFull = selectedIds.length >= maxSelections;
+
+  const toggleFlavor = (flavorId: number) => {
+    if (selectedIds.includes(flavorId)) {
+      onChange(selectedIds.filter(id => id !== flavorId));
+    } else if (!isFull) {
+      onChange([...selectedIds, flavorId]);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.count}>
+          {selectedIds.length}/{maxSelections}
+        </Text>
+      </View>
+
+      {/* Checked descriptors */}
+      {selectedIds.length > 0 && (
+        <View style={styles.chipRow}>
+          {selectedIds.map(id => {
+            const flavor = flavorService.getFlavorById(id);
+            return (
+              <TouchableOpacity
+                key={id}
+                style={[styles.chip, styles.chipSelected]}
+                onPress={() => toggleFlavor(id)}
+                disabled={disabled}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${flavor?.name ?? 'descriptor'}`}
+              >
+                <Text style={styles.chipTextSelected}>{flavor?.name ?? `#${id}`} ✕</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Lexicon categories */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.categoryRow}>
+          {categories.map(item => {
+            const isActive = item.name === category;
+            return (
+              <TouchableOpacity
+                key={item.name}
+                style={[styles.category, isActive && { borderColor: item.color }]}
+                onPress={() => setCategory(item.name)}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text style={[styles.categoryText, isActive && styles.categoryTextActive]}>
+                  {item.displayName}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+
+      {/* Flavors in the category */}
+      <View style={styles.chipRow}>
+        {flavors.map(flavor => {
+          const isChecked = selectedIds.includes(flavor.id);
+          return (
+            <TouchableOpacity
+              key={flavor.id}
+              style={[
+                styles.chip,
+                isChecked && styles.chipSelected,
+                !isChecked && isFull && styles.chipDisabled,
+              ]}
+              onPress={() => toggleFlavor(flavor.id)}
+              disabled={disabled || (!isChecked && isFull)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isChecked }}
+            >
+              <Text style={isChecked ? styles.chipTextSelected : styles.chipText}>
+                {flavor.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: spacing.sm,
+    gap: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  count: {
+    ...typography.bodySmallMedium,
+    color: colors.text.tertiary,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  category: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.lg,
+    borderWidth: 2,
+    borderColor: colors.border,
+  },
+  categoryText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  categoryTextActive: {
+    ...typography.bodySmallMedium,
+    color: colors.text.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.md,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+  chipTextSelected: {
+    ...typography.bodySmallMedium,
+    color: colors.text.primary,
+  },
+});
@@ -0,0 +1,112 @@
+/**
+ * ScaleStepper Component
+ *
+ * Whole-number stepper for a CVA scale: 0-15 intensities on the descriptive
+ * form and 1-9 hedonic scores on the affective form.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, typography, spacing } from '../../theme';
+
+export interface ScaleStepperProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  caption?: string; // Shown under the label, e.g. the hedonic anchor
+  disabled?: boolean;
+}
+
+export const ScaleStepper: React.FC<ScaleStepperProps> = ({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+  caption,
+  disabled = false,
+}) => {
+  const canDecrease = !disabled && value > min;
+  const canIncrease = !disabled && value < max;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelColumn}>
+        <Text style={styles.label}>{label}</Text>
+        {caption && <Text style={styles.caption}>{caption}</Text>}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.stepButton, !canDecrease && styles.stepButtonDisabled]}
+        onPress={() => onChange(value - 1)}
+        disabled={!canDecrease}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label}`}
+      >
+        <Text style={styles.stepText}>−</Text>
+      </TouchableOpacity>
+
+      <Text
+        style={styles.value}
+        accessibilityLabel={`${label} ${value} of ${max}`}
+        accessibilityRole="adjustable"
+      >
+        {value}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.stepButton, !canIncrease && styles.stepButtonDisabled]}
+        onPress={() => onChange(value + 1)}
+        disabled={!canIncrease}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label}`}
+      >
+        <Text style={styles.stepText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  labelColumn: {
+    flex: 1,
+  },
+  label: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  caption: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonDisabled: {
+    opacity: 0.4,
+  },
+  stepText: {
+    ...typography.heading3,
+    color: colors.text.primary,
+  },
+  value: {
+    ...typography.heading3,
+    color: colors.primary,
+    width: 48,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,12 @@
+/**
+ * CVA Form Components Export
+ */
+
+export { ScaleStepper } from './ScaleStepper';
+export type { ScaleStepperProps } from './ScaleStepper';
+
+export { DescriptorPicker } from './DescriptorPicker';
+export type { DescriptorPickerProps } from './DescriptorPicker';
+
+export { CVAScoreCard } from './CVAScoreCard';
+export type { CVAScoreCardProps } from './CVAScoreCard';
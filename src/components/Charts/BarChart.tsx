@@ -0,0 +1,106 @@
+/**
+ * BarChart Component
+ *
+ * SVG vertical bar chart for counts (sessions per period, score histograms).
+ * Bars scale to the largest value; each bar shows its value above it.
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Rect, Line, Text as SvgText } from 'react-native-svg';
+import { colors } from '../../theme';
+
+export interface Bar {
+  label: string;
+  value: number;
+}
+
+export interface BarChartProps {
+  bars: Bar[];
+  height?: number;
+  color?: string;
+  showValues?: boolean;
+}
+
+const PADDING = { top: 16, right: 4, bottom: 20, left: 4 };
+
+export const BarChart: React.FC<BarChartProps> = ({
+  bars,
+  height = 140,
+  color = colors.primary,
+  showValues = true,
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(1, ...bars.map(bar => bar.value));
+  const slot = bars.length > 0 ? plotWidth / bars.length : 0;
+  const barWidth = Math.max(2, slot * 0.7);
+
+  // Skip x labels when they would overlap
+  const labelStep = Math.max(1, Math.ceil(36 / Math.max(slot, 1)));
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {/* Baseline */}
+          <Line
+            x1={PADDING.left}
+            y1={PADDING.top + plotHeight}
+            x2={width - PADDING.right}
+            y2={PADDING.top + plotHeight}
+            stroke={colors.border}
+            strokeWidth={1}
+          />
+
+          {bars.map((bar, index) => {
+            const barHeight = (bar.value / maxValue) * plotHeight;
+            const x = PADDING.left + index * slot + (slot - barWidth) / 2;
+            const y = PADDING.top + plotHeight - barHeight;
+
+            return (
+              <React.Fragment key={`bar-${index}`}>
+                <Rect x={x} y={y} width={barWidth} height={barHeight} fill={color} rx={2} />
+                {showValues && bar.value > 0 && slot >= 16 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={y - 4}
+                    fontSize={10}
+                    fontWeight="600"
+                    fill={colors.text.secondary}
+                    textAnchor="middle"
+                  >
+                    {bar.value}
+                  </SvgText>
+                )}
+                {index % labelStep === 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={height - 6}
+                    fontSize={10}
+                    fill={colors.text.tertiary}
+                    textAnchor="middle"
+                  >
+                    {bar.label}
+                  </SvgText>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
@@ -0,0 +1,148 @@
+/**
+ * ScoreTrendChart Component
+ *
+ * SVG line chart of one score attribute over time.
+ * Each point can carry an annotation drawn above it (e.g., days since roast).
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Polyline, Circle, Line, Text as SvgText } from 'react-native-svg';
+import { colors } from '../../theme';
+
+export interface TrendPoint {
+  value: number | null; // null = not scored, no point drawn
+  label: string; // X-axis label
+  annotation?: string; // Drawn above the point
+}
+
+export interface ScoreTrendChartProps {
+  points: TrendPoint[];
+  min?: number;
+  max?: number;
+  height?: number;
+  color?: string;
+}
+
+const PADDING = { top: 20, right: 16, bottom: 22, left: 24 };
+
+export const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({
+  points,
+  min = 1,
+  max = 5,
+  height = 140,
+  color = colors.primary,
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const getX = (index: number) =>
+    PADDING.left + (points.length > 1 ? (index / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const getY = (value: number) =>
+    PADDING.top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+
+  // Grid lines at each whole score
+  const gridValues: number[] = [];
+  for (let value = min; value <= max; value++) {
+    gridValues.push(value);
+  }
+
+  const plotted = points
+    .map((point, index) => ({ ...point, index }))
+    .filter(
+      (point): point is TrendPoint & { index: number; value: number } => point.value !== null
+    );
+
+  // Skip x labels when they would overlap
+  const labelStep = Math.max(1, Math.ceil((points.length * 48) / Math.max(plotWidth, 1)));
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {/* Grid */}
+          {gridValues.map(value => (
+            <React.Fragment key={`grid-${value}`}>
+              <Line
+                x1={PADDING.left}
+                y1={getY(value)}
+                x2={width - PADDING.right}
+                y2={getY(value)}
+                stroke={colors.border}
+                strokeWidth={1}
+                opacity={0.4}
+              />
+              <SvgText
+                x={PADDING.left - 8}
+                y={getY(value)}
+                fontSize={10}
+                fill={colors.text.tertiary}
+                textAnchor="end"
+                alignmentBaseline="middle"
+              >
+                {value}
+              </SvgText>
+            </React.Fragment>
+          ))}
+
+          {/* Line */}
+          {plotted.length > 1 && (
+            <Polyline
+              points={plotted.map(point => `${getX(point.index)},${getY(point.value)}`).join(' ')}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+            />
+          )}
+
+          {/* Points and annotations */}
+          {plotted.map(point => (
+            <React.Fragment key={`point-${point.index}`}>
+              <Circle cx={getX(point.index)} cy={getY(point.value)} r={4} fill={color} />
+              {point.annotation && (
+                <SvgText
+                  x={getX(point.index)}
+                  y={getY(point.value) - 9}
+                  fontSize={10}
+                  fontWeight="600"
+                  fill={colors.text.secondary}
+                  textAnchor="middle"
+                >
+                  {point.annotation}
+                </SvgText>
+              )}
+            </React.Fragment>
+          ))}
+
+          {/* X labels */}
+          {points.map((point, index) =>
+            index % labelStep === 0 || index === points.length - 1 ? (
+              <SvgText
+                key={`label-${index}`}
+                x={getX(index)}
+                y={height - 6}
+                fontSize={10}
+                fill={colors.text.tertiary}
+                textAnchor="middle"
+              >
+                {point.label}
+              </SvgText>
+            ) : null
+          )}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
@@ -0,0 +1,9 @@
+/**
+ * Chart Components Export
+ */
+
+export { ScoreTrendChart } from './ScoreTrendChart';
+export type { ScoreTrendChartProps, TrendPoint } from './ScoreTrendChart';
+
+export { BarChart } from './BarChart';
+export type { BarChartProps, Bar } from './BarChart';
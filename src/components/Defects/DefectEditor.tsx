@@ -0,0 +1,241 @@
+/**
+ * DefectEditor Component
+ *
+ * Records defects against a cup: pick a defect type from the catalog, mark
+ * it a taint or a fault, and set the cups affected and, for green and roast
+ * defects, the defective beans counted.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import type { CupDefect, DefectCategory, DefectSeverity } from '../../types/defect.types';
+import { ScaleStepper } from '../CVAForm';
+import {
+  DEFECT_CATALOG,
+  DEFECT_CATEGORY_LABELS,
+  MAX_DEFECT_CUPS,
+  createCupDefect,
+  getDefectType,
+  getDefectLabel,
+} from '../../utils/defects';
+import { SCA_DEFECT_INTENSITY } from '../../utils/scoring';
+import { colors, typography, spacing } from '../../theme';
+
+export interface DefectEditorProps {
+  defects: CupDefect[];
+  onChange: (defects: CupDefect[]) => void;
+  title?: string;
+  disabled?: boolean;
+}
+
+const CATEGORIES: DefectCategory[] = ['cup', 'roast', 'green'];
+const SEVERITIES: DefectSeverity[] = ['taint', 'fault'];
+const SEVERITY_LABELS: Record<DefectSeverity, string> = { taint: 'Taint', fault: 'Fault' };
+
+// Highest bean count the stepper offers (a 350 g green sample rarely has more)
+const MAX_BEAN_COUNT = 99;
+
+export const DefectEditor: React.FC<DefectEditorProps> = ({
+  defects,
+  onChange,
+  title = 'Defects',
+  disabled = false,
+}) => {
+  const [isPicking, setIsPicking] = useState(false);
+
+  const updateDefect = (index: number, changes: Partial<CupDefect>) => {
+    onChange(defects.map((defect, i) => (i === index ? { ...defect, ...changes } : defect)));
+  };
+
+  const removeDefect = (index: number) => {
+    onChange(defects.filter((_, i) => i !== index));
+  };
+
+  const recorded = new Set(defects.map(defect => defect.defectId));
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+
+      {defects.length === 0 && <Text style={styles.emptyText}>No defects recorded</Text>}
+
+      {defects.map((defect, index) => {
+        const defectType = getDefectType(defect.defectId);
+        const label = getDefectLabel(defect.defectId);
+        return (
+          <View key={defect.defectId} style={styles.defectCard}>
+            <View style={styles.defectHeader}>
+              <Text style={styles.defectLabel}>{label}</Text>
+              <TouchableOpacity
+                onPress={() => removeDefect(index)}
+                disabled={disabled}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${label}`}
+              >
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.chipRow}>
+              {SEVERITIES.map(severity => {
+                const isSelected = defect.severity === severity;
+                return (
+                  <TouchableOpacity
+                    key={severity}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => updateDefect(index, { severity })}
+                    disabled={disabled}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: isSelected }}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {SEVERITY_LABELS[severity]} (−{SCA_DEFECT_INTENSITY[severity]} per cup)
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <ScaleStepper
+              label="Cups affected"
+              value={defect.cupCount}
+              min={1}
+              max={MAX_DEFECT_CUPS}
+              onChange={cupCount => updateDefect(index, { cupCount })}
+              disabled={disabled}
+            />
+            {defectType?.countsBeans && (
+              <ScaleStepper
+                label="Defective beans"
+                value={defect.beanCount ?? 0}
+                min={0}
+                max={MAX_BEAN_COUNT}
+                onChange={beanCount => updateDefect(index, { beanCount })}
+                disabled={disabled}
+              />
+            )}
+          </View>
+        );
+      })}
+
+      {isPicking ? (
+        <View style={styles.picker}>
+          {CATEGORIES.map(category => (
+            <View key={category} style={styles.pickerGroup}>
+              <Text style={styles.pickerGroupTitle}>{DEFECT_CATEGORY_LABELS[category]}</Text>
+              <View style={styles.chipRow}>
+                {DEFECT_CATALOG.filter(
+                  defect => defect.category === category && !recorded.has(defect.id)
+                ).map(defect => (
+                  <TouchableOpacity
+                    key={defect.id}
+                    style={styles.chip}
+                    onPress={() => {
+                      onChange([...defects, createCupDefect(defect)]);
+                      setIsPicking(false);
+                    }}
+                    accessibilityRole="button"
+                    accessibilityHint={defect.description}
+                  >
+                    <Text style={styles.chipText}>{defect.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))}
+          <TouchableOpacity onPress={() => setIsPicking(false)} accessibilityRole="button">
+            <Text style={styles.removeText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setIsPicking(true)}
+          disabled={disabled || recorded.size === DEFECT_CATALOG.length}
+          accessibilityRole="button"
+        >
+          <Text style={styles.addText}>+ Add defect</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  title: {
+    ...typography.heading4,
+    color: colors.text.primary,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+  },
+  defectCard: {
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.md,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.warning,
+  },
+  defectHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  defectLabel: {
+    ...typography.bodyBold,
+    color: colors.text.primary,
+  },
+  removeText: {
+    ...typography.bodySmall,
+    color: colors.error,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surfaceElevated,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.text.primary,
+  },
+  picker: {
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  pickerGroup: {
+    gap: spacing.xs,
+  },
+  pickerGroupTitle: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  addButton: {
+    paddingVertical: spacing.sm,
+  },
+  addText: {
+    ...typography.bodyMedium,
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,56 @@
+/**
+ * DefectList Component
+ *
+ * Read-only list of the defects recorded on a cup, faults first.
+ * Renders nothing when the cup has no defects.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { CupDefect } from '../../types/defect.types';
+import { formatCupDefect } from '../../utils/defects';
+import { colors, typography, spacing } from '../../theme';
+
+export interface DefectListProps {
+  defects: CupDefect[];
+  label?: string; // Shown before the list, e.g. "Cup 2"
+}
+
+export const DefectList: React.FC<DefectListProps> = ({ defects, label }) => {
+  if (defects.length === 0) return null;
+
+  const sorted = [...defects].sort(
+    (a, b) => Number(b.severity === 'fault') - Number(a.severity === 'fault')
+  );
+
+  return (
+    <View style={styles.container}>
+      {label && <Text style={styles.label}>{label}</Text>}
+      {sorted.map(defect => (
+        <Text
+          key={defect.defectId}
+          style={[styles.defect, defect.severity === 'fault' && styles.fault]}
+        >
+          ⚠ {formatCupDefect(defect)}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+  },
+  label: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  defect: {
+    ...typography.bodySmall,
+    color: colors.warning,
+  },
+  fault: {
+    color: colors.error,
+  },
+});
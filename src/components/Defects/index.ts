@@ -0,0 +1,9 @@
+/**
+ * Defect Components Export
+ */
+
+export { DefectEditor } from './DefectEditor';
+export type { DefectEditorProps } from './DefectEditor';
+
+export { DefectList } from './DefectList';
+export type { DefectListProps } from './DefectList';
@@ -3,22 +3,29 @@
  *
  * Form for editing coffee metadata (name, origin, roaster, etc.).
  * Includes validation and real-time error display.
+ * Optionally shows coffee library suggestions under the name field.
  */
 
 import React from 'react';
-import { View, StyleSheet, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { TextInput } from '../TextInput';
 import { DatePicker } from './DatePicker';
 import { RoastLevelPicker } from './RoastLevelPicker';
 import { useForm } from './useForm';
-import type { CoffeeFormData, ValidationError } from '../../types/session.types';
-import { spacing } from '../../theme';
+import type {
+  CatalogCoffee,
+  CoffeeFormData,
+  ValidationError,
+} from '../../types/session.types';
+import { colors, spacing, typography } from '../../theme';
 
 export interface CoffeeMetadataFormProps {
   initialValues?: Partial<CoffeeFormData>;
   onSubmit?: (values: CoffeeFormData) => void | Promise<void>;
   onChange?: (values: CoffeeFormData) => void;
   disabled?: boolean;
+  suggestions?: CatalogCoffee[]; // Coffee library matches for the name field
+  onSelectSuggestion?: (coffee: CatalogCoffee) => void;
 }
 
 /**
@@ -59,6 +66,30 @@ function validateCoffeeForm(values: CoffeeFormData): ValidationError[] {
     });
   }
 
+  // Process length validation
+  if (values.process && values.process.length > 100) {
+    errors.push({
+      field: 'process',
+      message: 'Process must be less than 100 characters',
+    });
+  }
+
+  // Variety length validation
+  if (values.variety && values.variety.length > 100) {
+    errors.push({
+      field: 'variety',
+      message: 'Variety must be less than 100 characters',
+    });
+  }
+
+  // Altitude length validation
+  if (values.altitude && values.altitude.length > 100) {
+    errors.push({
+      field: 'altitude',
+      message: 'Altitude must be less than 100 characters',
+    });
+  }
+
   // Brew method length validation
   if (values.brewMethod && values.brewMethod.length > 100) {
     errors.push({
@@ -87,12 +118,18 @@ export const CoffeeMetadataForm: React.FC<CoffeeMetadataFormProps> = ({
   onSubmit,
   onChange,
   disabled = false,
+  suggestions = [],
+  onSelectSuggestion,
 }) => {
   const form = useForm<CoffeeFormData>({
     initialValues: {
+      catalogId: initialValues.catalogId,
       name: initialValues.name || '',
       roaster: initialValues.roaster,
       origin: initialValues.origin,
+      process: initialValues.process,
+      variety: initialValues.variety,
+      altitude: initialValues.altitude,
       brewMethod: initialValues.brewMethod,
       roastLevel: initialValues.roastLevel,
       roastDate: initialValues.roastDate,
@@ -128,6 +165,33 @@ export const CoffeeMetadataForm: React.FC<CoffeeMetadataFormProps> = ({
           autoCapitalize="words"
         />
 
+        {/* Coffee Library Suggestions */}
+        {suggestions.length > 0 && onSelectSuggestion && (
+          <View style={styles.suggestions}>
+            <Text style={styles.suggestionsTitle}>From your library</Text>
+            {suggestions.map(coffee => (
+              <TouchableOpacity
+                key={coffee.id}
+                style={styles.suggestion}
+                onPress={() => onSelectSuggestion(coffee)}
+                disabled={disabled}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.suggestionName} numberOfLines={1}>
+                  {coffee.name}
+                </Text>
+                <Text style={styles.suggestionDetail} numberOfLines={1}>
+                  {[coffee.roaster, coffee.origin].filter(Boolean).join(' • ') ||
+                    'No roaster or origin'}
+                  {coffee.sessionCount > 0
+                    ? ` • Tasted ${coffee.sessionCount} time${coffee.sessionCount !== 1 ? 's' : ''}`
+                    : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Origin */}
         <TextInput
           label="Origin"
@@ -152,6 +216,41 @@ export const CoffeeMetadataForm: React.FC<CoffeeMetadataFormProps> = ({
           autoCapitalize="words"
         />
 
+        {/* Process */}
+        <TextInput
+          label="Process"
+          value={form.values.process}
+          onChangeText={(text) => form.setFieldValue('process', text)}
+          onBlur={() => form.setFieldTouched('process')}
+          error={form.getFieldError('process')}
+          placeholder="e.g., Washed, Natural, Honey"
+          disabled={disabled}
+          autoCapitalize="words"
+        />
+
+        {/* Variety */}
+        <TextInput
+          label="Variety"
+          value={form.values.variety}
+          onChangeText={(text) => form.setFieldValue('variety', text)}
+          onBlur={() => form.setFieldTouched('variety')}
+          error={form.getFieldError('variety')}
+          placeholder="e.g., Heirloom, Gesha, SL28"
+          disabled={disabled}
+          autoCapitalize="words"
+        />
+
+        {/* Altitude */}
+        <TextInput
+          label="Altitude"
+          value={form.values.altitude}
+          onChangeText={(text) => form.setFieldValue('altitude', text)}
+          onBlur={() => form.setFieldTouched('altitude')}
+          error={form.getFieldError('altitude')}
+          placeholder="e.g., 1900-2100 masl"
+          disabled={disabled}
+        />
+
         {/* Roast Level */}
         <RoastLevelPicker
           label="Roast Level"
@@ -204,4 +303,35 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: spacing.lg,
   },
+  suggestions: {
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    overflow: 'hidden',
+  },
+  suggestionsTitle: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+    paddingBottom: spacing.xs,
+  },
+  suggestion: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  suggestionName: {
+    ...typography.body,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  suggestionDetail: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
 });
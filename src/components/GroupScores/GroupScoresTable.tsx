@@ -0,0 +1,106 @@
+/**
+ * GroupScoresTable Component
+ *
+ * Scores of one coffee in a group session: a row per template attribute
+ * with each taster's score (averaged over the coffee's cups), the group
+ * mean and the spread (range and standard deviation). Wide spreads are
+ * highlighted as the attributes the group disagreed on.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import type { Cup } from '../../types/session.types';
+import type { SessionTaster } from '../../types/taster.types';
+import type { ScoringTemplate } from '../../types/template.types';
+import { summarizeGroupScores } from '../../utils/groupCupping';
+import { colors, typography, spacing } from '../../theme';
+
+export interface GroupScoresTableProps {
+  template: ScoringTemplate;
+  cups: Array<Pick<Cup, 'tasterScores'>>;
+  tasters: SessionTaster[];
+}
+
+// Spread, in scale steps, above which an attribute is highlighted
+const WIDE_SPREAD_STEPS = 2;
+
+function formatValue(value: number | undefined): string {
+  return value === undefined ? '–' : value.toFixed(1);
+}
+
+export const GroupScoresTable: React.FC<GroupScoresTableProps> = ({ template, cups, tasters }) => {
+  const rows = summarizeGroupScores(template, cups, tasters);
+  const tastersInOrder = [...tasters].sort((a, b) => a.position - b.position);
+  const wideRange = template.scale.step * WIDE_SPREAD_STEPS;
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View>
+        <View style={styles.row}>
+          <Text style={[styles.labelCell, styles.header]}>Attribute</Text>
+          {tastersInOrder.map(taster => (
+            <Text key={taster.tasterId} style={[styles.cell, styles.header]} numberOfLines={1}>
+              {taster.name}
+            </Text>
+          ))}
+          <Text style={[styles.cell, styles.header]}>Mean</Text>
+          <Text style={[styles.cell, styles.header]}>Range</Text>
+          <Text style={[styles.cell, styles.header]}>SD</Text>
+        </View>
+        {rows.map(row => {
+          const isWide = !!row.spread && row.spread.range > wideRange;
+          return (
+            <View key={row.key} style={styles.row}>
+              <Text style={styles.labelCell} numberOfLines={1}>
+                {row.label}
+              </Text>
+              {tastersInOrder.map(taster => (
+                <Text key={taster.tasterId} style={styles.cell}>
+                  {formatValue(row.byTaster[taster.tasterId])}
+                </Text>
+              ))}
+              <Text style={[styles.cell, styles.mean]}>{formatValue(row.spread?.mean)}</Text>
+              <Text style={[styles.cell, isWide && styles.wide]}>
+                {formatValue(row.spread?.range)}
+              </Text>
+              <Text style={[styles.cell, isWide && styles.wide]}>
+                {formatValue(row.spread?.stdDev)}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  labelCell: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    width: 96,
+  },
+  cell: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    width: 56,
+    textAlign: 'center',
+  },
+  header: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  mean: {
+    color: colors.primary,
+  },
+  wide: {
+    color: colors.warning,
+  },
+});
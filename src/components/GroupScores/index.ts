@@ -0,0 +1,6 @@
+/**
+ * Group Scores Components Export
+ */
+
+export { GroupScoresTable } from './GroupScoresTable';
+export type { GroupScoresTableProps } from './GroupScoresTable';
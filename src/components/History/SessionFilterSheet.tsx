@@ -0,0 +1,542 @@
+/**
+ * SessionFilterSheet Component
+ *
+ * Modal sheet for composing structured history filters:
+ * mode, coffee details, tags, scoring template and score ranges, flavors and
+ * flavor category.
+ * Filters can be saved as named presets and re-applied later.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Alert,
+} from 'react-native';
+import { Button } from '../Button';
+import { TextInput } from '../TextInput';
+import { Divider } from '../Divider';
+import { RoastLevelPicker } from '../Forms/RoastLevelPicker';
+import { TagSelector } from '../Forms/TagSelector';
+import { flavorService } from '../../services/flavorService';
+import { templateService } from '../../services/templateService';
+import type {
+  SessionFilters,
+  SessionFilterPreset,
+  SessionMode,
+  ScoreRange,
+} from '../../types/session.types';
+import { getScaleValues } from '../../utils/scoringTemplates';
+import { colors, spacing, typography } from '../../theme';
+
+export interface SessionFilterSheetProps {
+  visible: boolean;
+  filters: SessionFilters;
+  presets: SessionFilterPreset[];
+  onApply: (filters: SessionFilters) => void;
+  onClose: () => void;
+  onSavePreset: (name: string, filters: SessionFilters) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const MODE_OPTIONS: Array<{ label: string; value?: SessionMode }> = [
+  { label: 'Any' },
+  { label: 'Taste', value: 'taste' },
+  { label: 'Pro', value: 'pro' },
+];
+
+const isRangeSet = (range?: ScoreRange) => range?.min !== undefined || range?.max !== undefined;
+
+/**
+ * Drop empty values so saved and applied filters only contain active criteria
+ */
+const cleanFilters = (filters: SessionFilters): SessionFilters => {
+  const cleaned: SessionFilters = { ...filters };
+  (['roaster', 'origin', 'brewMethod'] as const).forEach(key => {
+    const value = cleaned[key]?.trim();
+    if (value) {
+      cleaned[key] = value;
+    } else {
+      delete cleaned[key];
+    }
+  });
+  if (!cleaned.tags?.length) delete cleaned.tags;
+  if (!cleaned.flavorIds?.length) delete cleaned.flavorIds;
+  if (!isRangeSet(cleaned.totalScore)) delete cleaned.totalScore;
+  if (cleaned.attributeScores) {
+    const attributeScores = { ...cleaned.attributeScores };
+    Object.keys(attributeScores).forEach(key => {
+      if (!isRangeSet(attributeScores[key])) delete attributeScores[key];
+    });
+    if (Object.keys(attributeScores).length > 0) {
+      cleaned.attributeScores = attributeScores;
+    } else {
+      delete cleaned.attributeScores;
+    }
+  }
+  return cleaned;
+};
+
+/**
+ * Count active structured filters (type, dates, sorting and paging are not counted)
+ */
+export const countActiveFilters = (filters: SessionFilters): number => {
+  const cleaned = cleanFilters(filters);
+  const activeFields = [
+    cleaned.mode,
+    cleaned.templateId,
+    cleaned.roaster,
+    cleaned.origin,
+    cleaned.brewMethod,
+    cleaned.roastLevel,
+    cleaned.tags,
+    cleaned.totalScore,
+    cleaned.flavorIds,
+    cleaned.category,
+  ].filter(value => value !== undefined).length;
+  return activeFields + Object.keys(cleaned.attributeScores || {}).length;
+};
+
+export const SessionFilterSheet: React.FC<SessionFilterSheetProps> = ({
+  visible,
+  filters,
+  presets,
+  onApply,
+  onClose,
+  onSavePreset,
+  onDeletePreset,
+}) => {
+  const [draft, setDraft] = useState<SessionFilters>(filters);
+  const [flavorQuery, setFlavorQuery] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [showAttributes, setShowAttributes] = useState(false);
+
+  const categories = useMemo(() => flavorService.getAllCategories(), []);
+  const templates = useMemo(() => templateService.getAllTemplates(), []);
+
+  // Score ranges use the filtered template's scale and attributes (default when unset)
+  const template = templateService.getTemplateOrDefault(draft.templateId);
+  const scoreOptions = getScaleValues(template.scale);
+
+  // Start from the applied filters each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+      setFlavorQuery('');
+      setPresetName('');
+      setShowAttributes(Object.keys(filters.attributeScores || {}).length > 0);
+    }
+  }, [visible, filters]);
+
+  const flavorResults = useMemo(() => {
+    if (flavorQuery.trim().length === 0) return [];
+    return flavorService
+      .searchFlavors(flavorQuery)
+      .filter(flavor => !draft.flavorIds?.includes(flavor.id))
+      .slice(0, 6);
+  }, [flavorQuery, draft.flavorIds]);
+
+  const update = (changes: Partial<SessionFilters>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateAttributeRange = (key: string, range: ScoreRange) => {
+    setDraft(prev => ({
+      ...prev,
+      attributeScores: { ...prev.attributeScores, [key]: range },
+    }));
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    onSavePreset(name, cleanFilters(draft));
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (preset: SessionFilterPreset) => {
+    Alert.alert('Delete Preset', `Delete the "${preset.name}" filter preset?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => onDeletePreset(preset.id) },
+    ]);
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key?: string) => (
+    <TouchableOpacity
+      key={key ?? label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderRange = (
+    label: string,
+    range: ScoreRange | undefined,
+    onChange: (range: ScoreRange) => void
+  ) => (
+    <View style={styles.rangeContainer}>
+      <Text style={styles.rangeLabel}>{label}</Text>
+      {(['min', 'max'] as const).map(bound => (
+        <View key={bound} style={styles.rangeRow}>
+          <Text style={styles.rangeBound}>{bound === 'min' ? 'At least' : 'At most'}</Text>
+          <View style={styles.chipRow}>
+            {renderChip('Any', range?.[bound] === undefined, () =>
+              onChange({ ...range, [bound]: undefined })
+            )}
+            {scoreOptions.map(score =>
+              renderChip(
+                String(score),
+                range?.[bound] === score,
+                () => onChange({ ...range, [bound]: score }),
+                `${bound}-${score}`
+              )
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => setDraft({})}>
+            <Text style={styles.headerAction}>Reset</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Filters</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Presets */}
+          {presets.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Presets</Text>
+              <Text style={styles.hint}>Tap to load, long-press to delete</Text>
+              <View style={styles.chipRow}>
+                {presets.map(preset => (
+                  <TouchableOpacity
+                    key={preset.id}
+                    style={styles.chip}
+                    onPress={() => setDraft(preset.filters)}
+                    onLongPress={() => handleDeletePreset(preset)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.chipText}>{preset.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Divider spacing="medium" />
+            </>
+          )}
+
+          {/* Mode */}
+          <Text style={styles.sectionTitle}>Mode</Text>
+          <View style={styles.chipRow}>
+            {MODE_OPTIONS.map(option =>
+              renderChip(option.label, draft.mode === option.value, () =>
+                update({ mode: option.value })
+              )
+            )}
+          </View>
+
+          <Divider spacing="medium" />
+
+          {/* Coffee */}
+          <Text style={styles.sectionTitle}>Coffee</Text>
+          <TextInput
+            label="Roaster"
+            value={draft.roaster || ''}
+            onChangeText={roaster => update({ roaster })}
+            placeholder="Any roaster"
+          />
+          <TextInput
+            label="Origin"
+            value={draft.origin || ''}
+            onChangeText={origin => update({ origin })}
+            placeholder="Any origin"
+          />
+          <TextInput
+            label="Brew Method"
+            value={draft.brewMethod || ''}
+            onChangeText={brewMethod => update({ brewMethod })}
+            placeholder="Any brew method"
+          />
+          <RoastLevelPicker
+            label="Roast Level"
+            value={draft.roastLevel}
+            onChange={roastLevel => update({ roastLevel })}
+          />
+
+          <Divider spacing="medium" />
+
+          {/* Tags */}
+          <Text style={styles.sectionTitle}>Tags</Text>
+          <Text style={styles.hint}>Sessions must have every selected tag</Text>
+          <TagSelector selectedTags={draft.tags || []} onTagsChange={tags => update({ tags })} />
+
+          <Divider spacing="medium" />
+
+          {/* Scores */}
+          <Text style={styles.sectionTitle}>Scores</Text>
+          {templates.length > 1 && (
+            <View style={styles.chipRow}>
+              {renderChip('Any template', draft.templateId === undefined, () =>
+                update({ templateId: undefined, totalScore: undefined, attributeScores: undefined })
+              )}
+              {templates.map(option =>
+                renderChip(option.name, draft.templateId === option.id, () =>
+                  update({
+                    templateId: option.id,
+                    totalScore: undefined,
+                    attributeScores: undefined,
+                  })
+                )
+              )}
+            </View>
+          )}
+          {renderRange('Average Score', draft.totalScore, totalScore => update({ totalScore }))}
+          <TouchableOpacity onPress={() => setShowAttributes(prev => !prev)}>
+            <Text style={styles.linkText}>
+              {showAttributes ? 'Hide attribute scores' : 'Filter by attribute score'}
+            </Text>
+          </TouchableOpacity>
+          {showAttributes &&
+            template.attributes.map(({ key, label }) => (
+              <View key={key}>
+                {renderRange(label, draft.attributeScores?.[key], range =>
+                  updateAttributeRange(key, range)
+                )}
+              </View>
+            ))}
+
+          <Divider spacing="medium" />
+
+          {/* Flavors */}
+          <Text style={styles.sectionTitle}>Flavors</Text>
+          <Text style={styles.hint}>Sessions must contain every selected flavor</Text>
+          {draft.flavorIds && draft.flavorIds.length > 0 && (
+            <View style={styles.chipRow}>
+              {draft.flavorIds.map(id =>
+                renderChip(
+                  `${flavorService.getFlavorById(id)?.name ?? `#${id}`} ✕`,
+                  true,
+                  () => update({ flavorIds: draft.flavorIds?.filter(flavorId => flavorId !== id) }),
+                  `flavor-${id}`
+                )
+              )}
+            </View>
+          )}
+          <TextInput
+            value={flavorQuery}
+            onChangeText={setFlavorQuery}
+            placeholder="Add a flavor..."
+            autoCorrect={false}
+          />
+          {flavorResults.length > 0 && (
+            <View style={styles.chipRow}>
+              {flavorResults.map(flavor =>
+                renderChip(
+                  `+ ${flavor.name}`,
+                  false,
+                  () => {
+                    update({ flavorIds: [...(draft.flavorIds || []), flavor.id] });
+                    setFlavorQuery('');
+                  },
+                  `result-${flavor.id}`
+                )
+              )}
+            </View>
+          )}
+
+          <Text style={styles.subsectionTitle}>Contains Category</Text>
+          <View style={styles.chipRow}>
+            {renderChip('Any', !draft.category, () => update({ category: undefined }))}
+            {categories.map(category =>
+              renderChip(
+                category.displayName,
+                draft.category === category.name,
+                () => update({ category: category.name }),
+                category.name
+              )
+            )}
+          </View>
+
+          <Divider spacing="medium" />
+
+          {/* Save Preset */}
+          <Text style={styles.sectionTitle}>Save as Preset</Text>
+          <View style={styles.presetRow}>
+            <View style={styles.presetInput}>
+              <TextInput
+                value={presetName}
+                onChangeText={setPresetName}
+                placeholder="Preset name"
+                maxLength={40}
+                onSubmitEditing={handleSavePreset}
+                returnKeyType="done"
+              />
+            </View>
+            <Button
+              title="Save"
+              onPress={handleSavePreset}
+              variant="outline"
+              size="small"
+              disabled={!presetName.trim()}
+            />
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Button title="Apply Filters" onPress={() => onApply(cleanFilters(draft))} fullWidth />
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerAction: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  title: {
+    ...typography.heading3,
+    color: colors.text.primary,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+  },
+  closeButtonText: {
+    ...typography.heading4,
+    color: colors.text.secondary,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  subsectionTitle: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    fontWeight: '600',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  hint: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: colors.background,
+  },
+  rangeContainer: {
+    marginBottom: spacing.md,
+  },
+  rangeLabel: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rangeBound: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    width: 64,
+    marginBottom: spacing.sm,
+  },
+  linkText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    fontWeight: '600',
+    marginBottom: spacing.md,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  presetInput: {
+    flex: 1,
+  },
+  footer: {
+    padding: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+});
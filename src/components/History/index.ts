@@ -0,0 +1,6 @@
+/**
+ * History Components Export
+ */
+
+export { SessionFilterSheet, countActiveFilters } from './SessionFilterSheet';
+export type { SessionFilterSheetProps } from './SessionFilterSheet';
@@ -0,0 +1,104 @@
+/**
+ * CupChecks Component
+ *
+ * Per-cup pass/fail boxes for uniformity, clean cup and sweetness on the
+ * SCA form. Each passing cup is worth 2 points.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, typography, spacing } from '../../theme';
+
+export interface CupChecksProps {
+  label: string;
+  cups: boolean[];
+  onChange: (cups: boolean[]) => void;
+  disabled?: boolean;
+}
+
+export const CupChecks: React.FC<CupChecksProps> = ({
+  label,
+  cups,
+  onChange,
+  disabled = false,
+}) => {
+  const points = cups.filter(Boolean).length * 2;
+
+  const toggleCup = (index: number) => {
+    onChange(cups.map((passed, i) => (i === index ? !passed : passed)));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.points}>{points.toFixed(2)}</Text>
+      </View>
+
+      <View style={styles.boxRow}>
+        {cups.map((passed, index) => (
+          <TouchableOpacity
+            key={index}
+            style={[styles.box, passed ? styles.boxPassed : styles.boxFailed]}
+            onPress={() => toggleCup(index)}
+            disabled={disabled}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: passed }}
+            accessibilityLabel={`${label}, cup ${index + 1}`}
+          >
+            <Text style={styles.boxText}>{passed ? '✓' : '✕'}</Text>
+            <Text style={styles.cupNumber}>{index + 1}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  label: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  points: {
+    ...typography.bodyBold,
+    color: colors.primary,
+  },
+  boxRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  box: {
+    width: 48,
+    height: 48,
+    borderRadius: spacing.sm,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  boxPassed: {
+    borderColor: colors.success,
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+  },
+  boxFailed: {
+    borderColor: colors.error,
+    backgroundColor: 'rgba(220, 38, 38, 0.15)',
+  },
+  boxText: {
+    ...typography.bodyBold,
+    color: colors.text.primary,
+  },
+  cupNumber: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+});
@@ -0,0 +1,115 @@
+/**
+ * IntensityScale Component
+ *
+ * Row of numbered chips for the descriptive marks on the SCA form
+ * (dry/break intensity, acidity intensity, body level) and defect cup counts.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, typography, spacing } from '../../theme';
+
+export interface IntensityScaleProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  lowLabel?: string;
+  highLabel?: string;
+  disabled?: boolean;
+}
+
+export const IntensityScale: React.FC<IntensityScaleProps> = ({
+  label,
+  value,
+  onChange,
+  min = 1,
+  max = 5,
+  lowLabel,
+  highLabel,
+  disabled = false,
+}) => {
+  const values: number[] = [];
+  for (let v = min; v <= max; v++) {
+    values.push(v);
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+
+      <View style={styles.chipRow}>
+        {values.map(v => {
+          const isSelected = v === value;
+          return (
+            <TouchableOpacity
+              key={v}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => onChange(v)}
+              disabled={disabled}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+              accessibilityLabel={`${label} ${v}`}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{v}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {(lowLabel || highLabel) && (
+        <View style={styles.descriptors}>
+          <Text style={styles.descriptor}>{lowLabel}</Text>
+          <Text style={styles.descriptor}>{highLabel}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: spacing.sm,
+  },
+  label: {
+    ...typography.bodySmallMedium,
+    color: colors.text.secondary,
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  chip: {
+    width: 40,
+    height: 32,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.bodySmallMedium,
+    color: colors.text.primary,
+  },
+  chipTextSelected: {
+    color: colors.text.primary,
+    fontWeight: '700',
+  },
+  descriptors: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  descriptor: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+});
@@ -0,0 +1,212 @@
+/**
+ * SCAScoreCard Component
+ *
+ * Read-only summary of an SCA cupping form: final score and quality
+ * classification, attribute scores, per-cup checks, intensities and defects.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { SCAForm } from '../../types/session.types';
+import type { CupDefect } from '../../types/defect.types';
+import {
+  SCA_CUPS,
+  SCA_CUP_CHECKS,
+  SCA_DEFECT_INTENSITY,
+  SCA_QUALITY_ATTRIBUTES,
+  SCA_SCALE,
+  calculateSCAScore,
+  getDefectDeduction,
+  getSCAQualityLabel,
+} from '../../utils/scoring';
+import { colors, typography, spacing } from '../../theme';
+
+export interface SCAScoreCardProps {
+  form: SCAForm;
+  cupDefects?: CupDefect[]; // Defects recorded on the sample's cups
+}
+
+export const SCAScoreCard: React.FC<SCAScoreCardProps> = ({ form, cupDefects = [] }) => {
+  const { totalScore, defects, finalScore } = calculateSCAScore(form, cupDefects);
+  const cupDefectPoints = getDefectDeduction(cupDefects);
+
+  return (
+    <View style={styles.container}>
+      {/* Final score */}
+      <View style={styles.finalRow}>
+        <View>
+          <Text style={styles.finalLabel}>SCA Final Score</Text>
+          <Text style={styles.quality}>{getSCAQualityLabel(finalScore)}</Text>
+        </View>
+        <Text style={styles.finalScore}>{finalScore.toFixed(2)}</Text>
+      </View>
+      <Text style={styles.caption}>
+        Total {totalScore.toFixed(2)} − Defects {defects}
+      </Text>
+
+      {/* Quality attributes */}
+      <View style={styles.section}>
+        {SCA_QUALITY_ATTRIBUTES.map(({ key, label }) => {
+          const percentage = ((form[key] - SCA_SCALE.min) / (SCA_SCALE.max - SCA_SCALE.min)) * 100;
+          return (
+            <View key={key} style={styles.scoreRow}>
+              <Text style={styles.scoreName}>{label}</Text>
+              <View style={styles.scoreBarContainer}>
+                <View style={[styles.scoreBar, { width: `${percentage}%` }]} />
+              </View>
+              <Text style={styles.scoreValue}>{form[key].toFixed(2)}</Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Per-cup checks */}
+      <View style={styles.section}>
+        {SCA_CUP_CHECKS.map(({ key, label }) => {
+          const passed = form[key].filter(Boolean).length;
+          return (
+            <View key={key} style={styles.detailRow}>
+              <Text style={styles.scoreName}>{label}</Text>
+              <Text style={styles.detailValue}>
+                {passed}/{SCA_CUPS} cups · {(passed * 2).toFixed(2)}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Intensities */}
+      <View style={styles.section}>
+        <View style={styles.detailRow}>
+          <Text style={styles.scoreName}>Dry / Break</Text>
+          <Text style={styles.detailValue}>
+            {form.dryIntensity} / {form.breakIntensity}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.scoreName}>Acidity Intensity</Text>
+          <Text style={styles.detailValue}>{form.acidityIntensity} of 5</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.scoreName}>Body Level</Text>
+          <Text style={styles.detailValue}>{form.bodyLevel} of 5</Text>
+        </View>
+      </View>
+
+      {/* Defects */}
+      {defects > 0 && (
+        <View style={styles.section}>
+          {form.taintCups > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.defectName}>Taint</Text>
+              <Text style={styles.defectValue}>
+                {form.taintCups} × {SCA_DEFECT_INTENSITY.taint} = −
+                {form.taintCups * SCA_DEFECT_INTENSITY.taint}
+              </Text>
+            </View>
+          )}
+          {form.faultCups > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.defectName}>Fault</Text>
+              <Text style={styles.defectValue}>
+                {form.faultCups} × {SCA_DEFECT_INTENSITY.fault} = −
+                {form.faultCups * SCA_DEFECT_INTENSITY.fault}
+              </Text>
+            </View>
+          )}
+          {cupDefectPoints > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.defectName}>Cup defects</Text>
+              <Text style={styles.defectValue}>−{cupDefectPoints}</Text>
+            </View>
+          )}
+        </View>
+      )}
+
+      {form.notes && <Text style={styles.notes}>{form.notes}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  finalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  finalLabel: {
+    ...typography.heading4,
+    color: colors.text.primary,
+  },
+  quality: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  finalScore: {
+    ...typography.heading1,
+    color: colors.primary,
+  },
+  caption: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  section: {
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+    paddingTop: spacing.sm,
+    gap: spacing.sm,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  scoreName: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    width: 120,
+  },
+  scoreBarContainer: {
+    flex: 1,
+    height: 8,
+    backgroundColor: colors.border,
+    borderRadius: spacing.xs,
+    overflow: 'hidden',
+  },
+  scoreBar: {
+    height: '100%',
+    backgroundColor: colors.primary,
+    borderRadius: spacing.xs,
+  },
+  scoreValue: {
+    ...typography.bodySmallMedium,
+    color: colors.primary,
+    width: 40,
+    textAlign: 'right',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  detailValue: {
+    ...typography.bodySmallMedium,
+    color: colors.text.primary,
+  },
+  defectName: {
+    ...typography.bodySmall,
+    color: colors.error,
+  },
+  defectValue: {
+    ...typography.bodySmallMedium,
+    color: colors.error,
+  },
+  notes: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,123 @@
+/**
+ * SCAScoreStepper Component
+ *
+ * Quarter-point stepper for an SCA quality attribute (6.00-10.00).
+ * Buttons step by 0.25; the value is shown with two decimals.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, typography, spacing } from '../../theme';
+import { SCA_SCALE, toSCAQuarterPoint } from '../../utils/scoring';
+
+export interface SCAScoreStepperProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Quality band of a quality attribute score on the SCA form
+ */
+function getBandLabel(value: number): string {
+  if (value >= 9) return 'Outstanding';
+  if (value >= 8) return 'Excellent';
+  if (value >= 7) return 'Very Good';
+  return 'Good';
+}
+
+export const SCAScoreStepper: React.FC<SCAScoreStepperProps> = ({
+  label,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const step = (direction: 1 | -1) => {
+    if (!disabled) {
+      onChange(toSCAQuarterPoint(value + direction * SCA_SCALE.step));
+    }
+  };
+
+  const canDecrease = !disabled && value > SCA_SCALE.min;
+  const canIncrease = !disabled && value < SCA_SCALE.max;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelColumn}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.band}>{getBandLabel(value)}</Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.stepButton, !canDecrease && styles.stepButtonDisabled]}
+        onPress={() => step(-1)}
+        disabled={!canDecrease}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label}`}
+      >
+        <Text style={styles.stepText}>−</Text>
+      </TouchableOpacity>
+
+      <Text
+        style={styles.value}
+        accessibilityLabel={`${label} ${value.toFixed(2)}`}
+        accessibilityRole="adjustable"
+      >
+        {value.toFixed(2)}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.stepButton, !canIncrease && styles.stepButtonDisabled]}
+        onPress={() => step(1)}
+        disabled={!canIncrease}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label}`}
+      >
+        <Text style={styles.stepText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  labelColumn: {
+    flex: 1,
+  },
+  label: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  band: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonDisabled: {
+    opacity: 0.4,
+  },
+  stepText: {
+    ...typography.heading3,
+    color: colors.text.primary,
+  },
+  value: {
+    ...typography.heading3,
+    color: colors.primary,
+    width: 64,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,15 @@
+/**
+ * SCA Cupping Form Components Export
+ */
+
+export { SCAScoreStepper } from './SCAScoreStepper';
+export type { SCAScoreStepperProps } from './SCAScoreStepper';
+
+export { IntensityScale } from './IntensityScale';
+export type { IntensityScaleProps } from './IntensityScale';
+
+export { CupChecks } from './CupChecks';
+export type { CupChecksProps } from './CupChecks';
+
+export { SCAScoreCard } from './SCAScoreCard';
+export type { SCAScoreCardProps } from './SCAScoreCard';
@@ -1,42 +1,60 @@
 /**
  * ScoreSlider Component
  *
- * Interactive slider for rating coffee attributes on 1-5 scale.
- * Used for structural scoring (acidity, sweetness, body, clarity, finish).
+ * Interactive slider for rating a coffee attribute on a scoring template's scale.
+ * Long-press a score to show its definition when the attribute has help text.
  */
 
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { colors, typography, spacing } from '../theme';
-import type { ScoreValue } from '../types/session.types';
 
 export interface ScoreSliderProps {
   label: string;
   leftLabel?: string; // Low end descriptor (e.g., "Flat")
   rightLabel?: string; // High end descriptor (e.g., "Bright")
-  value: ScoreValue;
-  onChange: (value: ScoreValue) => void;
+  values?: number[]; // Selectable scores, lowest first (default 1-5)
+  helpText?: Record<number, string>; // Definition per score, shown on long-press
+  value: number;
+  onChange: (value: number) => void;
   disabled?: boolean;
 }
 
-const SCORE_VALUES: ScoreValue[] = [1, 2, 3, 4, 5];
+const DEFAULT_VALUES = [1, 2, 3, 4, 5];
+
+// Scales with more scores than this use smaller buttons
+const COMPACT_THRESHOLD = 5;
+
+function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(2).replace(/0$/, '');
+}
 
 export const ScoreSlider: React.FC<ScoreSliderProps> = ({
   label,
   leftLabel,
   rightLabel,
+  values = DEFAULT_VALUES,
+  helpText,
   value,
   onChange,
   disabled = false,
 }) => {
-  const [hoveredValue, setHoveredValue] = useState<ScoreValue | null>(null);
+  const [hoveredValue, setHoveredValue] = useState<number | null>(null);
+  const [helpValue, setHelpValue] = useState<number | null>(null);
+  const isCompact = values.length > COMPACT_THRESHOLD;
 
-  const handlePress = (scoreValue: ScoreValue) => {
+  const handlePress = (scoreValue: number) => {
     if (!disabled) {
       onChange(scoreValue);
     }
   };
 
+  const handleLongPress = (scoreValue: number) => {
+    if (helpText?.[scoreValue]) {
+      setHelpValue(current => (current === scoreValue ? null : scoreValue));
+    }
+  };
+
   return (
     <View style={styles.container}>
       {/* Label */}
@@ -44,7 +62,7 @@ export const ScoreSlider: React.FC<ScoreSliderProps> = ({
 
       {/* Score buttons */}
       <View style={styles.scoreContainer}>
-        {SCORE_VALUES.map(scoreValue => {
+        {values.map(scoreValue => {
           const isSelected = value === scoreValue;
           const isHovered = hoveredValue === scoreValue;
 
@@ -53,11 +71,13 @@ export const ScoreSlider: React.FC<ScoreSliderProps> = ({
               key={scoreValue}
               style={[
                 styles.scoreButton,
+                isCompact && styles.scoreButtonCompact,
                 isSelected && styles.scoreButtonSelected,
                 (isHovered && !isSelected) && styles.scoreButtonHovered,
                 disabled && styles.scoreButtonDisabled,
               ]}
               onPress={() => handlePress(scoreValue)}
+              onLongPress={() => handleLongPress(scoreValue)}
               onPressIn={() => setHoveredValue(scoreValue)}
               onPressOut={() => setHoveredValue(null)}
               activeOpacity={0.7}
@@ -66,10 +86,11 @@ export const ScoreSlider: React.FC<ScoreSliderProps> = ({
               <Text
                 style={[
                   styles.scoreText,
+                  isCompact && styles.scoreTextCompact,
                   isSelected && styles.scoreTextSelected,
                 ]}
               >
-                {scoreValue}
+                {formatScore(scoreValue)}
               </Text>
             </TouchableOpacity>
           );
@@ -84,6 +105,13 @@ export const ScoreSlider: React.FC<ScoreSliderProps> = ({
           {rightLabel && <Text style={styles.descriptorRight}>{rightLabel}</Text>}
         </View>
       )}
+
+      {/* Score definition (long-press) */}
+      {helpValue !== null && helpText?.[helpValue] && (
+        <Text style={styles.helpText}>
+          {formatScore(helpValue)} · {helpText[helpValue]}
+        </Text>
+      )}
     </View>
   );
 };
@@ -112,6 +140,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  scoreButtonCompact: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
   scoreButtonSelected: {
     backgroundColor: colors.primary,
     borderColor: colors.primary,
@@ -128,6 +161,10 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     fontWeight: '600',
   },
+  scoreTextCompact: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
   scoreTextSelected: {
     color: colors.text.primary,
   },
@@ -147,4 +184,9 @@ const styles = StyleSheet.create({
     ...typography.bodySmall,
     color: colors.text.tertiary,
   },
+  helpText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginTop: spacing.sm,
+  },
 });
@@ -1,55 +1,73 @@
 /**
  * RadarChart Component
  *
- * SVG-based 5-axis radar chart for structural scores.
- * Supports both 1-5 and SCA (6-10) scales.
+ * SVG-based radar chart of a cup's scores, one axis per charted attribute
+ * of the scoring template, scaled to the template's range.
+ * Several series (e.g. compared coffees) can be overlaid, each in its own
+ * color with a legend below the chart.
  */
 
 import React from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet } from 'react-native';
 import Svg, { Polygon, Circle, Line, Text as SvgText } from 'react-native-svg';
-import type { StructuralScores } from '../../types/session.types';
-import { colors } from '../../theme';
+import type { CupScores } from '../../types/session.types';
+import type { ScoringTemplate } from '../../types/template.types';
+import { getChartAttributes } from '../../utils/scoringTemplates';
+import { colors, typography, spacing } from '../../theme';
+
+/**
+ * Overlaid scores, drawn in their own color
+ */
+export interface RadarChartSeries {
+  label: string; // Shown in the legend
+  scores: CupScores;
+  color: string;
+}
 
 export interface RadarChartProps {
-  scores: StructuralScores;
-  showSCAScores?: boolean;
+  scores?: CupScores; // Single series in the primary color
+  series?: RadarChartSeries[]; // Overlaid series with a legend, instead of scores
+  template: ScoringTemplate;
   size?: number;
 }
 
-const ATTRIBUTES: Array<keyof StructuralScores> = [
-  'acidity',
-  'sweetness',
-  'body',
-  'clarity',
-  'finish',
+/**
+ * Series colors in order, for up to ten overlaid series
+ */
+export const RADAR_SERIES_COLORS = [
+  colors.primary,
+  colors.warning,
+  colors.success,
+  colors.fruity,
+  colors.floral,
+  colors.spices,
+  colors.earthy,
+  colors.sweet,
+  colors.chemical,
+  colors.other,
 ];
 
-const ATTRIBUTE_LABELS: Record<keyof StructuralScores, string> = {
-  acidity: 'Acidity',
-  sweetness: 'Sweet',
-  body: 'Body',
-  clarity: 'Clarity',
-  finish: 'Finish',
-  enjoyment: 'Overall',
-};
-
 export const RadarChart: React.FC<RadarChartProps> = ({
-  scores,
-  showSCAScores = false,
+  scores = {},
+  series,
+  template,
   size = 240,
 }) => {
   const center = size / 2;
   const radius = size / 2 - 40; // Leave space for labels
-  const maxValue = showSCAScores ? 10 : 5;
-  const minValue = showSCAScores ? 6 : 1;
-  const numAxes = ATTRIBUTES.length;
+  const { min: minValue, max: maxValue } = template.scale;
+  const attributes = getChartAttributes(template);
+  const numAxes = attributes.length;
+
+  const allSeries = series ?? [{ label: '', scores, color: colors.primary }];
+
+  // Unscored attributes are drawn at the template default
+  const getScore = (values: CupScores, key: string) => values[key] ?? template.defaultScore;
 
   // Calculate point coordinates for a given value and index
   const getPoint = (index: number, value: number) => {
     const angle = (index * 2 * Math.PI) / numAxes - Math.PI / 2; // Start at top
-    const score = showSCAScores ? value + 5 : value;
-    const normalizedValue = (score - minValue) / (maxValue - minValue);
+    const normalizedValue = (value - minValue) / (maxValue - minValue);
     const r = radius * normalizedValue;
 
     return {
@@ -77,12 +95,17 @@ export const RadarChart: React.FC<RadarChartProps> = ({
     };
   };
 
-  // Generate polygon points for the data
-  const dataPoints = ATTRIBUTES.map((attr, i) => {
-    const value = scores[attr] || 3;
-    const point = getPoint(i, value);
-    return `${point.x},${point.y}`;
-  }).join(' ');
+  // Generate polygon points for a series
+  const getDataPoints = (values: CupScores) =>
+    attributes
+      .map((attribute, i) => {
+        const point = getPoint(i, getScore(values, attribute.key));
+        return `${point.x},${point.y}`;
+      })
+      .join(' ');
+
+  // Overlaid series are filled lighter so the ones below stay visible
+  const fillOpacity = allSeries.length > 1 ? 0.08 : 0.2;
 
   // Grid levels (concentric polygons)
   const gridLevels = [0.25, 0.5, 0.75, 1.0];
@@ -92,11 +115,13 @@ export const RadarChart: React.FC<RadarChartProps> = ({
       <Svg width={size} height={size}>
         {/* Background grid */}
         {gridLevels.map((level, levelIndex) => {
-          const gridPoints = ATTRIBUTES.map((_, i) => {
-            const angle = (i * 2 * Math.PI) / numAxes - Math.PI / 2;
-            const r = radius * level;
-            return `${center + r * Math.cos(angle)},${center + r * Math.sin(angle)}`;
-          }).join(' ');
+          const gridPoints = attributes
+            .map((_, i) => {
+              const angle = (i * 2 * Math.PI) / numAxes - Math.PI / 2;
+              const r = radius * level;
+              return `${center + r * Math.cos(angle)},${center + r * Math.sin(angle)}`;
+            })
+            .join(' ');
 
           return (
             <Polygon
@@ -111,7 +136,7 @@ export const RadarChart: React.FC<RadarChartProps> = ({
         })}
 
         {/* Axis lines */}
-        {ATTRIBUTES.map((_, i) => {
+        {attributes.map((_, i) => {
           const axisPoint = getAxisPoint(i);
           return (
             <Line
@@ -127,35 +152,38 @@ export const RadarChart: React.FC<RadarChartProps> = ({
           );
         })}
 
-        {/* Data polygon */}
-        <Polygon
-          points={dataPoints}
-          fill={colors.primary}
-          fillOpacity={0.2}
-          stroke={colors.primary}
-          strokeWidth={2}
-        />
-
-        {/* Data points */}
-        {ATTRIBUTES.map((attr, i) => {
-          const value = scores[attr] || 3;
-          const point = getPoint(i, value);
-          return (
-            <Circle
-              key={`point-${i}`}
-              cx={point.x}
-              cy={point.y}
-              r={4}
-              fill={colors.primary}
+        {allSeries.map((entry, seriesIndex) => (
+          <React.Fragment key={`series-${seriesIndex}`}>
+            {/* Data polygon */}
+            <Polygon
+              points={getDataPoints(entry.scores)}
+              fill={entry.color}
+              fillOpacity={fillOpacity}
+              stroke={entry.color}
+              strokeWidth={2}
             />
-          );
-        })}
+
+            {/* Data points */}
+            {attributes.map((attribute, i) => {
+              const point = getPoint(i, getScore(entry.scores, attribute.key));
+              return (
+                <Circle
+                  key={`point-${i}`}
+                  cx={point.x}
+                  cy={point.y}
+                  r={allSeries.length > 1 ? 3 : 4}
+                  fill={entry.color}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
 
         {/* Center point */}
         <Circle cx={center} cy={center} r={3} fill={colors.border} />
 
         {/* Labels */}
-        {ATTRIBUTES.map((attr, i) => {
+        {attributes.map((attribute, i) => {
           const labelPoint = getLabelPoint(i);
           return (
             <SvgText
@@ -168,11 +196,25 @@ export const RadarChart: React.FC<RadarChartProps> = ({
               textAnchor="middle"
               alignmentBaseline="middle"
             >
-              {ATTRIBUTE_LABELS[attr]}
+              {attribute.shortLabel ?? attribute.label}
             </SvgText>
           );
         })}
       </Svg>
+
+      {/* Legend */}
+      {series && series.length > 0 && (
+        <View style={styles.legend}>
+          {series.map((entry, seriesIndex) => (
+            <View key={`legend-${seriesIndex}`} style={styles.legendItem}>
+              <View style={[styles.legendColor, { backgroundColor: entry.color }]} />
+              <Text style={styles.legendText} numberOfLines={1}>
+                {entry.label}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
 };
@@ -182,4 +224,26 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    maxWidth: '45%',
+  },
+  legendColor: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  legendText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
 });
@@ -2,8 +2,8 @@
  * Session Summary Components Export
  */
 
-export { RadarChart } from './RadarChart';
-export type { RadarChartProps } from './RadarChart';
+export { RadarChart, RADAR_SERIES_COLORS } from './RadarChart';
+export type { RadarChartProps, RadarChartSeries } from './RadarChart';
 
 export { FlavorChips } from './FlavorChips';
 export type { FlavorChipsProps } from './FlavorChips';
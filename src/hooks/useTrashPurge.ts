@@ -0,0 +1,28 @@
+/**
+ * useTrashPurge Hook
+ *
+ * Permanently deletes trashed sessions older than the configured
+ * retention period. Runs once on mount, after the store has rehydrated
+ * so the persisted retention setting is used.
+ */
+
+import { useEffect } from 'react';
+import { useStore } from '../store';
+import { sessionService } from '../services/sessionService';
+
+export function useTrashPurge(): void {
+  useEffect(() => {
+    const purge = () => {
+      sessionService
+        .purgeDeletedSessions(useStore.getState().trashRetentionDays)
+        .catch(error => console.error('[useTrashPurge] Purge failed:', error));
+    };
+
+    if (useStore.persist.hasHydrated()) {
+      purge();
+      return undefined;
+    }
+
+    return useStore.persist.onFinishHydration(purge);
+  }, []);
+}
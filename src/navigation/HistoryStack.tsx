@@ -11,6 +11,8 @@ import { HistoryListScreen } from '../screens/history/HistoryListScreen';
 import { SessionDetailScreen } from '../screens/sessions/SessionDetailScreen';
 import { ComparisonScreen } from '../screens/comparison/ComparisonScreen';
 import { TableCuppingScreen } from '../screens/history/TableCuppingScreen';
+import { CoffeeTimelineScreen } from '../screens/history/CoffeeTimelineScreen';
+import { HistoryStatsScreen } from '../screens/history/HistoryStatsScreen';
 import { colors, typography } from '../theme';
 
 const Stack = createStackNavigator<HistoryStackParamList>();
@@ -57,9 +59,14 @@ export const HistoryStack: React.FC = () => {
         component={TableCuppingScreen}
         options={{ title: 'Table Cupping' }}
       />
+      <Stack.Screen
+        name="CoffeeTimeline"
+        component={CoffeeTimelineScreen}
+        options={{ title: 'Coffee History' }}
+      />
       <Stack.Screen
         name="HistoryStats"
-        component={HistoryListScreen} // Placeholder
+        component={HistoryStatsScreen}
         options={{ title: 'Statistics' }}
       />
     </Stack.Navigator>
@@ -11,6 +11,10 @@ import { SessionTypeSelectScreen } from '../screens/new-session/SessionTypeSelec
 import { CoffeeSetupScreen } from '../screens/new-session/CoffeeSetupScreen';
 import { FlavorSelectionScreen } from '../screens/new-session/FlavorSelectionScreen';
 import { StructureScoringScreen } from '../screens/new-session/StructureScoringScreen';
+import { SCAScoringScreen } from '../screens/new-session/SCAScoringScreen';
+import { CVAScoringScreen } from '../screens/new-session/CVAScoringScreen';
+import { TriangleTestScreen } from '../screens/new-session/TriangleTestScreen';
+import { GroupScoringScreen } from '../screens/new-session/GroupScoringScreen';
 import { colors, typography } from '../theme';
 
 const Stack = createStackNavigator<NewSessionStackParamList>();
@@ -57,6 +61,26 @@ export const NewSessionStack: React.FC = () => {
         component={StructureScoringScreen}
         options={{ title: 'Rate Structure' }}
       />
+      <Stack.Screen
+        name="SCAScoring"
+        component={SCAScoringScreen}
+        options={{ title: 'SCA Cupping Form' }}
+      />
+      <Stack.Screen
+        name="CVAScoring"
+        component={CVAScoringScreen}
+        options={{ title: 'CVA Forms' }}
+      />
+      <Stack.Screen
+        name="TriangleTest"
+        component={TriangleTestScreen}
+        options={{ title: 'Triangle Test' }}
+      />
+      <Stack.Screen
+        name="GroupScoring"
+        component={GroupScoringScreen}
+        options={{ title: 'Group Cupping' }}
+      />
       <Stack.Screen
         name="SessionNotes"
         component={FlavorSelectionScreen} // Placeholder
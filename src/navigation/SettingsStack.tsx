@@ -11,6 +11,12 @@ import { SettingsHomeScreen } from '../screens/settings/SettingsHomeScreen';
 import { DataManagementScreen } from '../screens/settings/DataManagementScreen';
 import { SettingsScreen } from '../screens/settings/SettingsScreen';
 import { FlavorWheelReferenceScreen } from '../screens/settings/FlavorWheelReferenceScreen';
+import { TrashScreen } from '../screens/settings/TrashScreen';
+import { SyncSettingsScreen } from '../screens/settings/SyncSettingsScreen';
+import { SyncConflictScreen } from '../screens/settings/SyncConflictScreen';
+import { AccountScreen } from '../screens/settings/AccountScreen';
+import { SignInScreen } from '../screens/settings/SignInScreen';
+import { BackupScreen } from '../screens/settings/BackupScreen';
 import { colors, typography } from '../theme';
 
 const Stack = createStackNavigator<SettingsStackParamList>();
@@ -57,6 +63,28 @@ export const SettingsStack: React.FC = () => {
         component={FlavorWheelReferenceScreen}
         options={{ title: 'Flavor Wheel' }}
       />
+      <Stack.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{ title: 'Trash' }}
+      />
+      <Stack.Screen
+        name="SyncSettings"
+        component={SyncSettingsScreen}
+        options={{ title: 'Sync' }}
+      />
+      <Stack.Screen
+        name="SyncConflict"
+        component={SyncConflictScreen}
+        options={{ title: 'Sync Conflict' }}
+      />
+      <Stack.Screen name="Account" component={AccountScreen} options={{ title: 'Account' }} />
+      <Stack.Screen name="SignIn" component={SignInScreen} options={{ title: 'Sign In' }} />
+      <Stack.Screen
+        name="Backups"
+        component={BackupScreen}
+        options={{ title: 'Backup & Restore' }}
+      />
     </Stack.Navigator>
   );
 };
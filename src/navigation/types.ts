@@ -7,7 +7,12 @@
 
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RouteProp } from '@react-navigation/native';
-import type { SessionType } from '../types/session.types';
+import type {
+  SessionType,
+  SessionMode,
+  ScoringProtocol,
+  BlindCoding,
+} from '../types/session.types';
 
 /**
  * Root Stack (contains tab navigator)
@@ -40,9 +45,20 @@ export type SessionsStackParamList = {
  */
 export type NewSessionStackParamList = {
   SessionTypeSelect: undefined;
-  CoffeeSetup: { sessionType: SessionType };
+  CoffeeSetup: {
+    sessionType: SessionType;
+    mode?: SessionMode;
+    protocol?: ScoringProtocol;
+    templateId?: string;
+    blindCoding?: BlindCoding | null;
+    group?: boolean; // Scored by several tasters on this device
+  };
   FlavorSelection: { sessionId: string; coffeeId: string; cupId: string };
   StructureScoring: { sessionId: string; coffeeId: string; cupId: string };
+  SCAScoring: { sessionId: string; coffeeId: string };
+  CVAScoring: { sessionId: string; coffeeId: string; cupId: string };
+  TriangleTest: { sessionId: string };
+  GroupScoring: { sessionId: string };
   SessionNotes: { sessionId: string };
   SessionSummary: { sessionId: string };
 };
@@ -53,8 +69,9 @@ export type NewSessionStackParamList = {
 export type HistoryStackParamList = {
   HistoryList: undefined;
   HistoryDetail: { sessionId: string };
-  Comparison: { sessionId: string; coffeeId1?: string; coffeeId2?: string };
+  Comparison: { sessionId: string; coffeeIds?: string[] }; // Default: every coffee of the session
   TableCupping: { sessionId: string; coffeeId: string };
+  CoffeeTimeline: { catalogId: string };
   HistoryStats: undefined;
 };
 
@@ -65,7 +82,13 @@ export type SettingsStackParamList = {
   SettingsHome: undefined;
   About: undefined;
   DataManagement: undefined;
+  Backups: undefined;
   FlavorWheelReference: undefined;
+  Trash: undefined;
+  SyncSettings: undefined;
+  SyncConflict: { sessionId: string };
+  Account: undefined;
+  SignIn: undefined;
 };
 
 /**
@@ -108,6 +131,10 @@ export type SessionDetailRouteProp = RouteProp<SessionsStackParamList, 'SessionD
 export type CoffeeSetupRouteProp = RouteProp<NewSessionStackParamList, 'CoffeeSetup'>;
 export type FlavorSelectionRouteProp = RouteProp<NewSessionStackParamList, 'FlavorSelection'>;
 export type StructureScoringRouteProp = RouteProp<NewSessionStackParamList, 'StructureScoring'>;
+export type SCAScoringRouteProp = RouteProp<NewSessionStackParamList, 'SCAScoring'>;
+export type CVAScoringRouteProp = RouteProp<NewSessionStackParamList, 'CVAScoring'>;
+export type TriangleTestRouteProp = RouteProp<NewSessionStackParamList, 'TriangleTest'>;
+export type GroupScoringRouteProp = RouteProp<NewSessionStackParamList, 'GroupScoring'>;
 export type SessionNotesRouteProp = RouteProp<NewSessionStackParamList, 'SessionNotes'>;
 export type SessionSummaryRouteProp = RouteProp<NewSessionStackParamList, 'SessionSummary'>;
 export type HistoryDetailRouteProp = RouteProp<HistoryStackParamList, 'HistoryDetail'>;
@@ -1,103 +1,131 @@
 /**
  * Comparison Screen
  *
- * Side-by-side comparison of multiple coffees from a session.
+ * Comparison of any number of coffees, from the session and from other
+ * sessions scored on the same template.
  * Features:
- * - Dual radar charts for visual score comparison
- * - Score delta calculations
- * - Flavor overlap and unique flavor analysis
+ * - Overlaid radar chart with a color and legend entry per coffee
+ * - Ranking by total and by each attribute
+ * - Flavor overlap matrix and descriptors unique to each coffee
  * - Coffee metadata comparison
  */
 
-import React, { useEffect, useState } from 'react';
-import {
-  View,
-  Text,
-  StyleSheet,
-  ScrollView,
-  SafeAreaView,
-  TouchableOpacity,
-} from 'react-native';
+import React, { useEffect, useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, SafeAreaView, TouchableOpacity } from 'react-native';
 import { useRoute } from '@react-navigation/native';
 import type { RouteProp } from '@react-navigation/native';
 import type { HistoryStackParamList } from '../../navigation/types';
 import { Card, Divider, ErrorState, LoadingSpinner } from '../../components';
-import { RadarChart } from '../../components/SessionSummary/RadarChart';
+import { RadarChart, RADAR_SERIES_COLORS } from '../../components/SessionSummary/RadarChart';
 import { sessionService } from '../../services/sessionService';
 import { analyticsService } from '../../services/analyticsService';
-import type { Session, CoffeeEntry } from '../../types/session.types';
-import type { CoffeeComparison } from '../../services/analyticsService';
+import { flavorService } from '../../services/flavorService';
+import { templateService } from '../../services/templateService';
+import type { Session, SessionSummary } from '../../types/session.types';
+import type {
+  CoffeeComparison,
+  ComparisonCoffeeRef,
+  ComparisonRank,
+} from '../../services/analyticsService';
 import { colors, spacing, typography } from '../../theme';
 import { handleError } from '../../utils/errorHandling';
+import { sealSession } from '../../utils/blind';
 
 type ComparisonRouteProp = RouteProp<HistoryStackParamList, 'Comparison'>;
 
+// One color per compared coffee
+const MAX_COMPARED = RADAR_SERIES_COLORS.length;
+
+// Other sessions offered to compare against, most recent first
+const OTHER_SESSIONS_LIMIT = 20;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const isSameCoffee = (a: ComparisonCoffeeRef, b: ComparisonCoffeeRef) =>
+  a.sessionId === b.sessionId && a.coffeeId === b.coffeeId;
+
 export const ComparisonScreen: React.FC = () => {
   const route = useRoute<ComparisonRouteProp>();
-  const { sessionId, coffeeId1: initialCoffeeId1, coffeeId2: initialCoffeeId2 } = route.params;
+  const { sessionId, coffeeIds } = route.params;
 
   const [session, setSession] = useState<Session | null>(null);
-  const [selectedCoffee1, setSelectedCoffee1] = useState<string | null>(initialCoffeeId1 || null);
-  const [selectedCoffee2, setSelectedCoffee2] = useState<string | null>(initialCoffeeId2 || null);
+  const [otherSessions, setOtherSessions] = useState<SessionSummary[]>([]);
+  const [showOtherSessions, setShowOtherSessions] = useState(false);
+  const [selected, setSelected] = useState<ComparisonCoffeeRef[]>([]);
   const [comparison, setComparison] = useState<CoffeeComparison | null>(null);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [showSCAScores, setShowSCAScores] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
 
-  // Load session
+  // Load the session and the other sessions scored on its template
   useEffect(() => {
-    const loadSession = async () => {
+    const loadSessions = async () => {
       try {
         setLoading(true);
         setError(null);
+        // Sealed blind sessions show each coffee by its code only
         const data = await sessionService.getSession(sessionId);
-        setSession(data);
-
-        // Auto-select first two coffees if not provided
-        if (data && data.coffees.length >= 2) {
-          if (!selectedCoffee1) {
-            setSelectedCoffee1(data.coffees[0].coffeeId);
-          }
-          if (!selectedCoffee2) {
-            setSelectedCoffee2(data.coffees[1].coffeeId);
-          }
-        }
+        setSession(data && sealSession(data));
+        if (!data) return;
+
+        // Preselect the requested coffees, or every coffee of the session
+        const initialIds = coffeeIds ?? data.coffees.map(coffee => coffee.coffeeId);
+        setSelected(initialIds.slice(0, MAX_COMPARED).map(coffeeId => ({ sessionId, coffeeId })));
+
+        const others = await sessionService.getSessionSummaries({
+          templateId: data.templateId,
+          sortBy: 'createdAt',
+          sortOrder: 'desc',
+          limit: OTHER_SESSIONS_LIMIT + 1,
+        });
+        setOtherSessions(
+          others
+            .filter(other => other.id !== sessionId && other.sessionType !== 'triangulation')
+            .slice(0, OTHER_SESSIONS_LIMIT)
+            .map(sealSession)
+        );
       } catch (err) {
-        const errorMessage = handleError(err, 'ComparisonScreen.loadSession');
+        const errorMessage = handleError(err, 'ComparisonScreen.loadSessions');
         setError(errorMessage);
       } finally {
         setLoading(false);
       }
     };
 
-    loadSession();
-  }, [sessionId, selectedCoffee1, selectedCoffee2, retryCount]);
+    loadSessions();
+  }, [sessionId, coffeeIds, retryCount]);
 
   // Load comparison data
   useEffect(() => {
     const loadComparison = async () => {
-      if (!selectedCoffee1 || !selectedCoffee2) {
+      if (selected.length < 2) {
         setComparison(null);
         return;
       }
 
       try {
-        const data = await analyticsService.getCoffeeComparison(
-          sessionId,
-          selectedCoffee1,
-          selectedCoffee2
-        );
-        setComparison(data);
-      } catch (error) {
-        console.error('[Comparison] Error loading comparison:', error);
+        setComparisonError(null);
+        setComparison(await analyticsService.compareCoffees(selected));
+      } catch (err) {
+        setComparisonError(handleError(err, 'ComparisonScreen.loadComparison'));
       }
     };
 
     loadComparison();
-  }, [sessionId, selectedCoffee1, selectedCoffee2]);
+  }, [selected]);
+
+  const toggleCoffee = useCallback((ref: ComparisonCoffeeRef) => {
+    setSelected(prev => {
+      if (prev.some(entry => isSameCoffee(entry, ref))) {
+        return prev.filter(entry => !isSameCoffee(entry, ref));
+      }
+      return prev.length < MAX_COMPARED ? [...prev, ref] : prev;
+    });
+  }, []);
 
-  if (loading || !session) {
+  if (loading) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -107,115 +135,57 @@ export const ComparisonScreen: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (error || !session) {
     return (
       <SafeAreaView style={styles.container}>
         <ErrorState
           title="Failed to Load Comparison"
-          message={error}
+          message={error ?? 'Session not found'}
           action={{
             title: 'Try Again',
-            onPress: () => setRetryCount((prev) => prev + 1),
+            onPress: () => setRetryCount(prev => prev + 1),
           }}
         />
       </SafeAreaView>
     );
   }
 
-  if (session.coffees.length < 2) {
-    return (
-      <SafeAreaView style={styles.container}>
-        <View style={styles.loadingContainer}>
-          <Text style={styles.errorText}>
-            This session needs at least 2 coffees for comparison
-          </Text>
-        </View>
-      </SafeAreaView>
-    );
-  }
-
-  const coffee1 = session.coffees.find((c) => c.coffeeId === selectedCoffee1);
-  const coffee2 = session.coffees.find((c) => c.coffeeId === selectedCoffee2);
-
-  // Calculate average scores for each coffee
-  const getAverageScores = (coffee: CoffeeEntry) => {
-    const cupCount = coffee.cups.length;
-    const avgScores = {
-      sweetness: 0,
-      acidity: 0,
-      body: 0,
-      clarity: 0,
-      finish: 0,
-    };
-
-    if (cupCount > 0) {
-      coffee.cups.forEach((cup) => {
-        avgScores.sweetness += cup.ratings.sweetness || 0;
-        avgScores.acidity += cup.ratings.acidity || 0;
-        avgScores.body += cup.ratings.body || 0;
-        avgScores.clarity += cup.ratings.clarity || 0;
-        avgScores.finish += cup.ratings.finish || 0;
-      });
-
-      return {
-        sweetness: avgScores.sweetness / cupCount,
-        acidity: avgScores.acidity / cupCount,
-        body: avgScores.body / cupCount,
-        clarity: avgScores.clarity / cupCount,
-        finish: avgScores.finish / cupCount,
-      };
-    }
-
-    return avgScores;
-  };
-
-  const scores1 = coffee1 ? getAverageScores(coffee1) : null;
-  const scores2 = coffee2 ? getAverageScores(coffee2) : null;
-
-  // Get flavors for each coffee
-  const flavors1 = coffee1
-    ? coffee1.cups.flatMap((cup) => cup.flavors || []).map((f) => f.flavorId)
-    : [];
-  const flavors2 = coffee2
-    ? coffee2.cups.flatMap((cup) => cup.flavors || []).map((f) => f.flavorId)
-    : [];
-
-  const uniqueFlavors1 = [...new Set(flavors1)];
-  const uniqueFlavors2 = [...new Set(flavors2)];
-  const overlapFlavors = uniqueFlavors1.filter((f) => uniqueFlavors2.includes(f));
-  const uniqueToFirst = uniqueFlavors1.filter((f) => !uniqueFlavors2.includes(f));
-  const uniqueToSecond = uniqueFlavors2.filter((f) => !uniqueFlavors1.includes(f));
-
-  // Coffee selector
-  const renderCoffeeSelector = (
-    label: string,
-    selected: string | null,
-    onSelect: (coffeeId: string) => void
+  const template = templateService.getTemplateOrDefault(session.templateId);
+  const coffees = comparison?.coffees ?? [];
+  const colorOf = (coffeeId: string) =>
+    RADAR_SERIES_COLORS[coffees.findIndex(coffee => coffee.coffeeId === coffeeId)] ??
+    colors.text.tertiary;
+  const nameOf = (coffeeId: string) =>
+    coffees.find(coffee => coffee.coffeeId === coffeeId)?.name ?? '';
+  const formatRanking = (ranking: ComparisonRank[]) =>
+    ranking.map(entry => `${entry.rank}. ${nameOf(entry.coffeeId)}`).join('  ');
+
+  // Coffee selector chips for one session
+  const renderCoffeeChips = (
+    sid: string,
+    sessionCoffees: Session['coffees'] | SessionSummary['coffees']
   ) => (
-    <View style={styles.selectorContainer}>
-      <Text style={styles.selectorLabel}>{label}</Text>
-      <View style={styles.selectorChips}>
-        {session.coffees.map((coffee) => (
+    <View style={styles.selectorChips}>
+      {sessionCoffees.map(coffee => {
+        const ref = { sessionId: sid, coffeeId: coffee.coffeeId };
+        const isSelected = selected.some(entry => isSameCoffee(entry, ref));
+        return (
           <TouchableOpacity
             key={coffee.coffeeId}
-            style={[
-              styles.selectorChip,
-              selected === coffee.coffeeId && styles.selectorChipActive,
-            ]}
-            onPress={() => onSelect(coffee.coffeeId)}
+            style={[styles.selectorChip, isSelected && styles.selectorChipActive]}
+            onPress={() => toggleCoffee(ref)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: isSelected }}
           >
             <Text
-              style={[
-                styles.selectorChipText,
-                selected === coffee.coffeeId && styles.selectorChipTextActive,
-              ]}
+              style={[styles.selectorChipText, isSelected && styles.selectorChipTextActive]}
               numberOfLines={1}
             >
               {coffee.name}
             </Text>
           </TouchableOpacity>
-        ))}
-      </View>
+        );
+      })}
     </View>
   );
 
@@ -229,192 +199,176 @@ export const ComparisonScreen: React.FC = () => {
         {/* Coffee Selectors */}
         <Card style={styles.section}>
           <Text style={styles.sectionTitle}>Select Coffees to Compare</Text>
-          {renderCoffeeSelector('Coffee A', selectedCoffee1, setSelectedCoffee1)}
-          {renderCoffeeSelector('Coffee B', selectedCoffee2, setSelectedCoffee2)}
+          <Text style={styles.helperText}>
+            {selected.length} selected · up to {MAX_COMPARED}
+          </Text>
+          <View style={styles.selectorContainer}>
+            <Text style={styles.selectorLabel}>This session</Text>
+            {renderCoffeeChips(session.id, session.coffees)}
+          </View>
+
+          {otherSessions.length > 0 && (
+            <TouchableOpacity
+              onPress={() => setShowOtherSessions(value => !value)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.toggleText}>
+                {showOtherSessions ? 'Hide other sessions' : 'Add coffees from other sessions'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {showOtherSessions &&
+            otherSessions.map(other => (
+              <View key={other.id} style={styles.selectorContainer}>
+                <Text style={styles.selectorLabel}>{formatDate(other.createdAt)}</Text>
+                {renderCoffeeChips(other.id, other.coffees)}
+              </View>
+            ))}
         </Card>
 
-        {coffee1 && coffee2 && scores1 && scores2 && (
+        {selected.length < 2 && (
+          <Text style={styles.errorText}>Select at least 2 coffees to compare</Text>
+        )}
+        {comparisonError && <Text style={styles.errorText}>{comparisonError}</Text>}
+
+        {comparison && (
           <>
-            {/* Side-by-Side Radar Charts */}
+            {/* Overlaid Radar Chart */}
             <Card style={styles.section}>
-              <View style={styles.chartHeader}>
-                <Text style={styles.sectionTitle}>Visual Comparison</Text>
-                <TouchableOpacity onPress={() => setShowSCAScores(!showSCAScores)}>
-                  <Text style={styles.scaleToggle}>
-                    {showSCAScores ? 'Show 1-5' : 'Show SCA (6-10)'}
-                  </Text>
-                </TouchableOpacity>
-              </View>
-
-              <View style={styles.chartsRow}>
-                <View style={styles.chartColumn}>
-                  <Text style={styles.chartLabel} numberOfLines={1}>
-                    {coffee1.name}
-                  </Text>
-                  <RadarChart
-                    scores={scores1 as import('../../types/session.types').StructuralScores}
-                    showSCAScores={showSCAScores}
-                    size={150}
-                  />
-                </View>
-
-                <View style={styles.chartColumn}>
-                  <Text style={styles.chartLabel} numberOfLines={1}>
-                    {coffee2.name}
-                  </Text>
-                  <RadarChart
-                    scores={scores2 as import('../../types/session.types').StructuralScores}
-                    showSCAScores={showSCAScores}
-                    size={150}
-                  />
-                </View>
-              </View>
+              <Text style={styles.sectionTitle}>Visual Comparison</Text>
+              <RadarChart
+                series={coffees.map((coffee, index) => ({
+                  label: coffee.name,
+                  scores: coffee.averageScores,
+                  color: RADAR_SERIES_COLORS[index],
+                }))}
+                template={template}
+                size={280}
+              />
             </Card>
 
-            {/* Score Deltas */}
-            {comparison && (
-              <Card style={styles.section}>
-                <Text style={styles.sectionTitle}>Score Differences</Text>
-                <Text style={styles.helperText}>
-                  Positive values favor {coffee1.name}, negative favor {coffee2.name}
-                </Text>
-
-                <View style={styles.deltaList}>
-                  {Object.entries(comparison.scoreDelta).map(([key, delta]) => {
-                    const absDelta = Math.abs(delta);
-                    const displayDelta = showSCAScores ? delta : delta;
-                    const isFavorFirst = delta > 0;
-                    const deltaColor =
-                      absDelta < 0.5
-                        ? colors.text.tertiary
-                        : isFavorFirst
-                          ? colors.primary
-                          : colors.warning;
-
-                    return (
-                      <View key={key} style={styles.deltaRow}>
-                        <Text style={styles.deltaAttribute}>
-                          {key.charAt(0).toUpperCase() + key.slice(1)}
-                        </Text>
-                        <Text style={[styles.deltaValue, { color: deltaColor }]}>
-                          {displayDelta > 0 ? '+' : ''}
-                          {displayDelta.toFixed(2)}
-                        </Text>
-                      </View>
-                    );
-                  })}
-                </View>
-
-                <Divider spacing="medium" />
-
-                <View style={styles.overallDelta}>
-                  <Text style={styles.overallDeltaLabel}>Overall Difference</Text>
-                  <Text
-                    style={[
-                      styles.overallDeltaValue,
-                      {
-                        color:
-                          comparison.scoreDelta.total > 0 ? colors.primary : colors.warning,
-                      },
-                    ]}
-                  >
-                    {comparison.scoreDelta.total > 0 ? '+' : ''}
-                    {comparison.scoreDelta.total.toFixed(2)}
-                  </Text>
-                </View>
-              </Card>
-            )}
-
-            {/* Flavor Analysis */}
+            {/* Rankings */}
             <Card style={styles.section}>
-              <Text style={styles.sectionTitle}>Flavor Analysis</Text>
-
-              <View style={styles.flavorStats}>
-                <View style={styles.flavorStat}>
-                  <Text style={styles.flavorStatValue}>{overlapFlavors.length}</Text>
-                  <Text style={styles.flavorStatLabel}>Shared Flavors</Text>
-                </View>
-                <View style={styles.flavorStat}>
-                  <Text style={styles.flavorStatValue}>{uniqueToFirst.length}</Text>
-                  <Text style={styles.flavorStatLabel}>Unique to A</Text>
-                </View>
-                <View style={styles.flavorStat}>
-                  <Text style={styles.flavorStatValue}>{uniqueToSecond.length}</Text>
-                  <Text style={styles.flavorStatLabel}>Unique to B</Text>
-                </View>
+              <Text style={styles.sectionTitle}>Ranking</Text>
+              <View style={styles.rankList}>
+                {comparison.totalRanking.map(entry => (
+                  <View key={entry.coffeeId} style={styles.rankRow}>
+                    <Text style={styles.rankNumber}>{entry.rank}</Text>
+                    <View style={[styles.colorDot, { backgroundColor: colorOf(entry.coffeeId) }]} />
+                    <Text style={styles.rankName} numberOfLines={1}>
+                      {nameOf(entry.coffeeId)}
+                    </Text>
+                    <Text style={styles.rankValue}>{entry.value.toFixed(1)}</Text>
+                  </View>
+                ))}
               </View>
 
-              {comparison && (() => {
-                // Calculate flavor overlap percentage
-                const totalUnique = comparison.sharedFlavors.length +
-                  comparison.uniqueToCoffee1.length +
-                  comparison.uniqueToCoffee2.length;
-                const overlapPercent = totalUnique > 0
-                  ? (comparison.sharedFlavors.length / totalUnique) * 100
-                  : 0;
+              <Divider spacing="medium" />
 
-                return (
-                  <>
-                    <Divider spacing="medium" />
+              <View style={styles.rankList}>
+                {template.attributes.map(attribute => (
+                  <View key={attribute.key}>
+                    <Text style={styles.attributeLabel}>{attribute.label}</Text>
+                    <Text style={styles.attributeRanking}>
+                      {formatRanking(comparison.attributeRankings[attribute.key] ?? []) || '-'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </Card>
 
-                    <View style={styles.flavorSimilarity}>
-                      <Text style={styles.flavorSimilarityLabel}>
-                        Flavor Similarity
-                      </Text>
-                      <View style={styles.similarityBarContainer}>
+            {/* Flavor Overlap Matrix */}
+            <Card style={styles.section}>
+              <Text style={styles.sectionTitle}>Flavor Overlap</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <View>
+                  <View style={styles.matrixRow}>
+                    <View style={styles.matrixLabel} />
+                    {coffees.map((coffee, index) => (
+                      <View key={coffee.coffeeId} style={styles.matrixCell}>
+                        <View
+                          style={[styles.colorDot, { backgroundColor: RADAR_SERIES_COLORS[index] }]}
+                        />
+                      </View>
+                    ))}
+                  </View>
+                  {coffees.map((coffee, rowIndex) => (
+                    <View key={coffee.coffeeId} style={styles.matrixRow}>
+                      <View style={styles.matrixLabel}>
                         <View
                           style={[
-                            styles.similarityBar,
-                            { width: `${overlapPercent}%` },
+                            styles.colorDot,
+                            { backgroundColor: RADAR_SERIES_COLORS[rowIndex] },
                           ]}
                         />
+                        <Text style={styles.matrixLabelText} numberOfLines={1}>
+                          {coffee.name}
+                        </Text>
                       </View>
-                      <Text style={styles.flavorSimilarityValue}>
-                        {overlapPercent.toFixed(0)}% similar
-                      </Text>
+                      {comparison.flavorOverlap[rowIndex].map((overlap, columnIndex) => (
+                        <View
+                          key={columnIndex}
+                          style={[
+                            styles.matrixCell,
+                            overlap !== null &&
+                              rowIndex !== columnIndex && {
+                                backgroundColor:
+                                  colors.primary +
+                                  Math.round(overlap * 128)
+                                    .toString(16)
+                                    .padStart(2, '0'),
+                              },
+                          ]}
+                        >
+                          <Text style={styles.matrixValue}>
+                            {rowIndex === columnIndex || overlap === null
+                              ? '–'
+                              : `${Math.round(overlap * 100)}%`}
+                          </Text>
+                        </View>
+                      ))}
                     </View>
-                  </>
-                );
-              })()}
+                  ))}
+                </View>
+              </ScrollView>
             </Card>
 
-            {/* Metadata Comparison */}
+            {/* Unique Descriptors and Details */}
             <Card style={styles.section}>
               <Text style={styles.sectionTitle}>Coffee Details</Text>
-
-              <View style={styles.metadataComparison}>
-                <View style={styles.metadataColumn}>
-                  <Text style={styles.metadataHeader}>{coffee1.name}</Text>
-                  {coffee1.roaster && (
-                    <Text style={styles.metadataText}>Roaster: {coffee1.roaster}</Text>
-                  )}
-                  {coffee1.origin && (
-                    <Text style={styles.metadataText}>Origin: {coffee1.origin}</Text>
-                  )}
-                  {coffee1.roastLevel && (
-                    <Text style={styles.metadataText}>
-                      Roast: {coffee1.roastLevel}
-                    </Text>
-                  )}
-                </View>
-
-                <View style={styles.metadataDivider} />
-
-                <View style={styles.metadataColumn}>
-                  <Text style={styles.metadataHeader}>{coffee2.name}</Text>
-                  {coffee2.roaster && (
-                    <Text style={styles.metadataText}>Roaster: {coffee2.roaster}</Text>
-                  )}
-                  {coffee2.origin && (
-                    <Text style={styles.metadataText}>Origin: {coffee2.origin}</Text>
-                  )}
-                  {coffee2.roastLevel && (
+              {coffees.map((coffee, index) => {
+                const entry = [session, ...otherSessions]
+                  .find(s => s.id === coffee.sessionId)
+                  ?.coffees.find(c => c.coffeeId === coffee.coffeeId);
+                const uniqueNames = coffee.uniqueFlavors
+                  .map(flavorId => flavorService.getFlavorById(flavorId)?.name)
+                  .filter(Boolean);
+                return (
+                  <View key={coffee.coffeeId} style={styles.metadataColumn}>
+                    {index > 0 && <Divider spacing="small" />}
+                    <View style={styles.metadataHeaderRow}>
+                      <View
+                        style={[styles.colorDot, { backgroundColor: RADAR_SERIES_COLORS[index] }]}
+                      />
+                      <Text style={styles.metadataHeader}>{coffee.name}</Text>
+                    </View>
+                    {coffee.sessionId !== session.id && (
+                      <Text style={styles.metadataText}>
+                        Session: {formatDate(coffee.sessionDate)}
+                      </Text>
+                    )}
+                    {entry?.roaster && (
+                      <Text style={styles.metadataText}>Roaster: {entry.roaster}</Text>
+                    )}
+                    {entry?.origin && (
+                      <Text style={styles.metadataText}>Origin: {entry.origin}</Text>
+                    )}
                     <Text style={styles.metadataText}>
-                      Roast: {coffee2.roastLevel}
+                      Only here: {uniqueNames.length > 0 ? uniqueNames.join(', ') : '-'}
                     </Text>
-                  )}
-                </View>
-              </View>
+                  </View>
+                );
+              })}
             </Card>
           </>
         )}
@@ -440,15 +394,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
-  loadingText: {
-    ...typography.body,
-    color: colors.text.tertiary,
-  },
   errorText: {
     ...typography.body,
     color: colors.error,
     textAlign: 'center',
     paddingHorizontal: spacing.xl,
+    marginBottom: spacing.lg,
   },
   section: {
     marginBottom: spacing.lg,
@@ -463,6 +414,11 @@ const styles = StyleSheet.create({
     color: colors.text.tertiary,
     marginBottom: spacing.md,
   },
+  toggleText: {
+    ...typography.bodyMedium,
+    color: colors.primary,
+    marginBottom: spacing.md,
+  },
   selectorContainer: {
     marginBottom: spacing.md,
   },
@@ -498,128 +454,87 @@ const styles = StyleSheet.create({
     color: colors.background,
     fontWeight: '600',
   },
-  chartHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: spacing.lg,
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
   },
-  scaleToggle: {
-    ...typography.bodySmall,
-    color: colors.primary,
-    fontWeight: '600',
+  rankList: {
+    gap: spacing.sm,
   },
-  chartsRow: {
+  rankRow: {
     flexDirection: 'row',
-    justifyContent: 'space-around',
-    gap: spacing.md,
-  },
-  chartColumn: {
-    flex: 1,
     alignItems: 'center',
-  },
-  chartLabel: {
-    ...typography.bodySmall,
-    color: colors.text.secondary,
-    fontWeight: '600',
-    marginBottom: spacing.sm,
-    textAlign: 'center',
-  },
-  deltaList: {
     gap: spacing.sm,
   },
-  deltaRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingVertical: spacing.xs,
+  rankNumber: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    width: 20,
   },
-  deltaAttribute: {
+  rankName: {
     ...typography.body,
     color: colors.text.primary,
+    flex: 1,
   },
-  deltaValue: {
+  rankValue: {
     ...typography.body,
+    color: colors.primary,
     fontWeight: 'bold',
     fontFamily: 'monospace',
   },
-  overallDelta: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
+  attributeLabel: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    fontWeight: '600',
   },
-  overallDeltaLabel: {
-    ...typography.heading4,
+  attributeRanking: {
+    ...typography.caption,
     color: colors.text.primary,
   },
-  overallDeltaValue: {
-    ...typography.heading3,
-    fontWeight: 'bold',
-    fontFamily: 'monospace',
-  },
-  flavorStats: {
+  matrixRow: {
     flexDirection: 'row',
-    justifyContent: 'space-around',
-    marginBottom: spacing.md,
-  },
-  flavorStat: {
     alignItems: 'center',
   },
-  flavorStatValue: {
-    ...typography.heading2,
-    color: colors.primary,
-    fontWeight: 'bold',
+  matrixLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    width: 110,
+    paddingRight: spacing.sm,
   },
-  flavorStatLabel: {
+  matrixLabelText: {
     ...typography.caption,
-    color: colors.text.tertiary,
-    marginTop: spacing.xs / 2,
-  },
-  flavorSimilarity: {
-    gap: spacing.sm,
-  },
-  flavorSimilarityLabel: {
-    ...typography.bodySmall,
     color: colors.text.secondary,
-    fontWeight: '500',
+    flex: 1,
   },
-  similarityBarContainer: {
-    height: 8,
-    backgroundColor: colors.border,
-    borderRadius: spacing.xs,
-    overflow: 'hidden',
+  matrixCell: {
+    width: 44,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.divider,
   },
-  similarityBar: {
-    height: '100%',
-    backgroundColor: colors.primary,
-    borderRadius: spacing.xs,
+  matrixValue: {
+    ...typography.caption,
+    color: colors.text.primary,
   },
-  flavorSimilarityValue: {
-    ...typography.bodySmall,
-    color: colors.primary,
-    fontWeight: 'bold',
-    textAlign: 'right',
+  metadataColumn: {
+    gap: spacing.xs,
   },
-  metadataComparison: {
+  metadataHeaderRow: {
     flexDirection: 'row',
-    gap: spacing.md,
-  },
-  metadataColumn: {
-    flex: 1,
+    alignItems: 'center',
     gap: spacing.xs,
   },
   metadataHeader: {
     ...typography.bodySmall,
     color: colors.text.primary,
     fontWeight: '600',
-    marginBottom: spacing.xs,
   },
   metadataText: {
     ...typography.caption,
     color: colors.text.secondary,
   },
-  metadataDivider: {
-    width: 1,
-    backgroundColor: colors.border,
-  },
 });
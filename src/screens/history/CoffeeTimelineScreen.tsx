@@ -0,0 +1,367 @@
+/**
+ * Coffee Timeline Screen
+ *
+ * Every tasting of one coffee from the coffee library, oldest first.
+ * Features:
+ * - Overall profile across tastings
+ * - Each template attribute charted over time, annotated with days since roast
+ * - Flavors noted each time and how often they recur
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity } from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import type { HistoryStackParamList, HistoryNavigationProp } from '../../navigation/types';
+import { Card, Badge, Divider, ErrorState, LoadingSpinner } from '../../components';
+import { RadarChart } from '../../components/SessionSummary/RadarChart';
+import { ScoreTrendChart } from '../../components/Charts/ScoreTrendChart';
+import { analyticsService } from '../../services/analyticsService';
+import type { CoffeeTimeline } from '../../services/analyticsService';
+import { templateService } from '../../services/templateService';
+import type { CupScores } from '../../types/session.types';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+
+type CoffeeTimelineRouteProp = RouteProp<HistoryStackParamList, 'CoffeeTimeline'>;
+
+const formatShortDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export const CoffeeTimelineScreen: React.FC = () => {
+  const route = useRoute<CoffeeTimelineRouteProp>();
+  const navigation = useNavigation<HistoryNavigationProp>();
+  const { catalogId } = route.params;
+
+  const [timeline, setTimeline] = useState<CoffeeTimeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  // Load timeline
+  useEffect(() => {
+    const loadTimeline = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await analyticsService.getCoffeeTimeline(catalogId);
+        if (!data) {
+          setError('Coffee not found');
+          return;
+        }
+
+        setTimeline(data);
+        navigation.setOptions({ title: data.coffee.name });
+      } catch (err) {
+        const errorMessage = handleError(err, 'CoffeeTimelineScreen.loadTimeline');
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTimeline();
+  }, [catalogId, navigation, retryCount]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <LoadingSpinner />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !timeline) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState
+          title="Failed to Load Timeline"
+          message={error || 'Coffee not found'}
+          action={{
+            title: 'Try Again',
+            onPress: () => setRetryCount(prev => prev + 1),
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const { coffee, entries, flavorRecurrence, averageScores } = timeline;
+  const details = [coffee.process, coffee.variety, coffee.altitude].filter(Boolean);
+
+  // Trends show tastings on the latest tasting's template; others are left unplotted
+  const template = templateService.getTemplateOrDefault(timeline.templateId);
+  const getEntryScore = (entry: CoffeeTimeline['entries'][number], key: string) =>
+    entry.templateId === timeline.templateId ? (entry.averageScores[key] ?? null) : null;
+  const chartedAttributes = template.attributes.filter(({ key }) =>
+    entries.some(entry => getEntryScore(entry, key) !== null)
+  );
+  const profileCount = entries.filter(entry => entry.templateId === timeline.templateId).length;
+  const profileScores: CupScores = {};
+  for (const [key, value] of Object.entries(averageScores)) {
+    if (value !== null) profileScores[key] = value;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Coffee Header */}
+        <Card style={styles.section}>
+          <Text style={styles.coffeeName}>{coffee.name}</Text>
+          {(coffee.roaster || coffee.origin) && (
+            <Text style={styles.coffeeDetail}>
+              {[coffee.roaster, coffee.origin].filter(Boolean).join(' • ')}
+            </Text>
+          )}
+          {details.length > 0 && <Text style={styles.coffeeDetail}>{details.join(' • ')}</Text>}
+          <View style={styles.headerBadges}>
+            <Badge
+              label={`${entries.length} tasting${entries.length !== 1 ? 's' : ''}`}
+              variant="primary"
+            />
+            {coffee.roastLevel && <Badge label={coffee.roastLevel} variant="default" />}
+          </View>
+        </Card>
+
+        {entries.length === 0 ? (
+          <Card style={styles.section}>
+            <Text style={styles.emptyText}>
+              No tastings of this coffee yet. Sessions in trash are not included.
+            </Text>
+          </Card>
+        ) : (
+          <>
+            {/* Overall Profile */}
+            <Card style={styles.section}>
+              <Text style={styles.sectionTitle}>Overall Profile</Text>
+              <RadarChart scores={profileScores} template={template} size={260} />
+              <Text style={styles.chartNote}>
+                Average of {profileCount} tasting{profileCount !== 1 ? 's' : ''}
+              </Text>
+            </Card>
+
+            {/* Attribute Trends */}
+            {chartedAttributes.length > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Scores Over Time</Text>
+                <Text style={styles.sectionHint}>Labels above points show days since roast</Text>
+                {chartedAttributes.map(({ key, label, shortLabel }, index) => (
+                  <View key={key}>
+                    {index > 0 && <Divider spacing="small" />}
+                    <View style={styles.trendHeader}>
+                      <Text style={styles.trendLabel}>{shortLabel ?? label}</Text>
+                      {averageScores[key] !== null && (
+                        <Text style={styles.trendAverage}>
+                          avg {averageScores[key]?.toFixed(1)}
+                        </Text>
+                      )}
+                    </View>
+                    <ScoreTrendChart
+                      points={entries.map(entry => ({
+                        value: getEntryScore(entry, key),
+                        label: formatShortDate(entry.tastedAt),
+                        annotation:
+                          entry.daysSinceRoast !== null ? `${entry.daysSinceRoast}d` : undefined,
+                      }))}
+                      min={template.scale.min}
+                      max={template.scale.max}
+                      height={120}
+                    />
+                  </View>
+                ))}
+              </Card>
+            )}
+
+            {/* Flavor Recurrence */}
+            {flavorRecurrence.length > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Recurring Flavors</Text>
+                {flavorRecurrence.map(flavor => (
+                  <View key={flavor.flavorId} style={styles.recurrenceRow}>
+                    <View style={styles.recurrenceLabel}>
+                      <Text style={styles.recurrenceName}>{flavor.flavorName}</Text>
+                      <Text style={styles.recurrenceCount}>
+                        {flavor.occurrences} of {entries.length}
+                      </Text>
+                    </View>
+                    <View style={styles.recurrenceBarContainer}>
+                      <View
+                        style={[styles.recurrenceBar, { width: `${flavor.recurrence * 100}%` }]}
+                      />
+                    </View>
+                  </View>
+                ))}
+              </Card>
+            )}
+
+            {/* Tastings */}
+            <Text style={styles.listTitle}>Tastings</Text>
+            {entries.map(entry => (
+              <TouchableOpacity
+                key={entry.coffeeId}
+                onPress={() => navigation.navigate('HistoryDetail', { sessionId: entry.sessionId })}
+                activeOpacity={0.7}
+              >
+                <Card style={styles.entryCard}>
+                  <View style={styles.entryHeader}>
+                    <Text style={styles.entryDate}>
+                      {new Date(entry.tastedAt).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                    </Text>
+                    {entry.daysSinceRoast !== null && (
+                      <Badge label={`Day ${entry.daysSinceRoast} off roast`} variant="default" />
+                    )}
+                  </View>
+                  {entry.brewMethod && <Text style={styles.entryDetail}>{entry.brewMethod}</Text>}
+                  {entry.flavors.length > 0 ? (
+                    <Text style={styles.entryFlavors}>
+                      {entry.flavors.map(flavor => flavor.flavorName).join(', ')}
+                    </Text>
+                  ) : (
+                    <Text style={styles.entryDetail}>No flavors noted</Text>
+                  )}
+                </Card>
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  coffeeName: {
+    ...typography.heading2,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  coffeeDetail: {
+    ...typography.body,
+    color: colors.text.secondary,
+    marginBottom: spacing.xs / 2,
+  },
+  headerBadges: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  sectionHint: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.sm,
+  },
+  chartNote: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  trendHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  trendLabel: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  trendAverage: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  recurrenceRow: {
+    marginBottom: spacing.sm,
+  },
+  recurrenceLabel: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs / 2,
+  },
+  recurrenceName: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+  recurrenceCount: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  recurrenceBarContainer: {
+    height: 6,
+    backgroundColor: colors.border,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  recurrenceBar: {
+    height: '100%',
+    backgroundColor: colors.primary,
+    borderRadius: 3,
+  },
+  listTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  entryCard: {
+    marginBottom: spacing.md,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  entryDate: {
+    ...typography.body,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  entryDetail: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+  },
+  entryFlavors: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+});
@@ -5,12 +5,13 @@
  * Features:
  * - Session cards with preview information
  * - Pull-to-refresh
- * - Search by coffee name
- * - Filter by session type and date range
+ * - Full-text search across coffees, notes, tags, and flavors
+ * - Filter by session type, plus a filter sheet for coffee, score and flavor criteria
+ * - Saved filter presets
  * - Delete and navigate to detail/edit
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -25,43 +26,58 @@ import {
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import type { HistoryNavigationProp } from '../../navigation/types';
 import { Card, Badge, ErrorState, LoadingSpinner } from '../../components';
+import { SessionFilterSheet, countActiveFilters } from '../../components/History';
 import { sessionService } from '../../services/sessionService';
-import type { Session, SessionType } from '../../types/session.types';
+import { templateService } from '../../services/templateService';
+import type { SessionFilters, SessionSummary, SessionType } from '../../types/session.types';
+import { useSettingsActions, useSettingsState } from '../../store';
 import { colors, spacing, typography } from '../../theme';
 import { useDebounce } from '../../hooks/useDebounce';
 import { handleError } from '../../utils/errorHandling';
+import { getChartAttributes } from '../../utils/scoringTemplates';
+import { sealSession } from '../../utils/blind';
 
 type FilterType = SessionType | 'all';
 
 export const HistoryListScreen: React.FC = () => {
   const navigation = useNavigation<HistoryNavigationProp>();
 
-  const [sessions, setSessions] = useState<Session[]>([]);
-  const [filteredSessions, setFilteredSessions] = useState<Session[]>([]);
+  const { filterPresets } = useSettingsState();
+  const { saveFilterPreset, deleteFilterPreset } = useSettingsActions();
+
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [searchResults, setSearchResults] = useState<SessionSummary[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<FilterType>('all');
-
-  // Load sessions
-  const loadSessions = useCallback(async (showLoading = true) => {
-    try {
-      if (showLoading) setLoading(true);
-      setError(null);
-      const allSessions = await sessionService.getAllSessions({
-        sortBy: 'createdAt',
-        sortOrder: 'desc',
-      });
-      setSessions(allSessions);
-      setFilteredSessions(allSessions);
-    } catch (err) {
-      const errorMessage = handleError(err, 'HistoryListScreen.loadSessions');
-      setError(errorMessage);
-    } finally {
-      if (showLoading) setLoading(false);
-    }
-  }, []);
+  const [filters, setFilters] = useState<SessionFilters>({});
+  const [showFilterSheet, setShowFilterSheet] = useState(false);
+  const searchRequestId = useRef(0);
+
+  // Load sessions matching the type and structured filters
+  const loadSessions = useCallback(
+    async (showLoading = true) => {
+      try {
+        if (showLoading) setLoading(true);
+        setError(null);
+        const allSessions = await sessionService.getSessionSummaries({
+          ...filters,
+          type: filterType !== 'all' ? filterType : undefined,
+          sortBy: 'createdAt',
+          sortOrder: 'desc',
+        });
+        setSessions(allSessions);
+      } catch (err) {
+        const errorMessage = handleError(err, 'HistoryListScreen.loadSessions');
+        setError(errorMessage);
+      } finally {
+        if (showLoading) setLoading(false);
+      }
+    },
+    [filters, filterType]
+  );
 
   // Initial load
   useEffect(() => {
@@ -82,57 +98,58 @@ export const HistoryListScreen: React.FC = () => {
     setRefreshing(false);
   }, [loadSessions]);
 
-  // Filter and search logic
-  const applyFilters = useCallback(
-    (query: string, type: FilterType) => {
-      let filtered = sessions;
+  // Full-text search across coffees, notes, tags and flavors
+  const runSearch = useCallback(async (query: string) => {
+    const requestId = ++searchRequestId.current;
+    if (query.trim().length === 0) {
+      setSearchResults(null);
+      return;
+    }
 
-      // Filter by type
-      if (type !== 'all') {
-        filtered = filtered.filter((s) => s.sessionType === type);
-      }
+    let results: SessionSummary[] = [];
+    try {
+      results = await sessionService.searchSessions(query);
+    } catch (err) {
+      handleError(err, 'HistoryListScreen.runSearch');
+    }
 
-      // Filter by search query (coffee names)
-      if (query.trim().length > 0) {
-        const lowerQuery = query.toLowerCase();
-        filtered = filtered.filter((s) =>
-          s.coffees.some(
-            (c) =>
-              c.name.toLowerCase().includes(lowerQuery) ||
-              c.roaster?.toLowerCase().includes(lowerQuery) ||
-              c.origin?.toLowerCase().includes(lowerQuery)
-          )
-        );
-      }
+    // A newer search started while this one ran
+    if (requestId === searchRequestId.current) {
+      setSearchResults(results);
+    }
+  }, []);
 
-      setFilteredSessions(filtered);
-    },
-    [sessions]
-  );
+  // Search results (best match first) limited to sessions matching the filters
+  const filteredSessions = useMemo(() => {
+    if (!searchResults) return sessions;
+    const matchingIds = new Set(sessions.map((s) => s.id));
+    return searchResults.filter((s) => matchingIds.has(s.id));
+  }, [sessions, searchResults]);
+
+  const activeFilterCount = countActiveFilters(filters);
 
   // Debounced search
-  const debouncedApplyFilters = useDebounce<(query: string, type: FilterType) => void>(
-    applyFilters,
-    300
-  );
+  const debouncedSearch = useDebounce<(query: string) => Promise<void>>(runSearch, 300);
 
   // Handle search change
   const handleSearchChange = useCallback(
     (text: string) => {
       setSearchQuery(text);
-      debouncedApplyFilters(text, filterType);
+      debouncedSearch(text);
     },
-    [filterType, debouncedApplyFilters]
+    [debouncedSearch]
   );
 
   // Handle filter change
-  const handleFilterChange = useCallback(
-    (type: FilterType) => {
-      setFilterType(type);
-      applyFilters(searchQuery, type);
-    },
-    [searchQuery, applyFilters]
-  );
+  const handleFilterChange = useCallback((type: FilterType) => {
+    setFilterType(type);
+  }, []);
+
+  // Apply filters from the filter sheet
+  const handleApplyFilters = useCallback((nextFilters: SessionFilters) => {
+    setFilters(nextFilters);
+    setShowFilterSheet(false);
+  }, []);
 
   // Navigate to detail
   const handleViewSession = useCallback(
@@ -144,10 +161,10 @@ export const HistoryListScreen: React.FC = () => {
 
   // Delete session
   const handleDeleteSession = useCallback(
-    (session: Session) => {
+    (session: SessionSummary) => {
       Alert.alert(
         'Delete Session',
-        `Are you sure you want to delete this ${session.sessionType} session? This action cannot be undone.`,
+        `Move this ${session.sessionType} session to trash? You can restore it from Settings → Trash.`,
         [
           { text: 'Cancel', style: 'cancel' },
           {
@@ -157,7 +174,7 @@ export const HistoryListScreen: React.FC = () => {
               try {
                 await sessionService.deleteSession(session.id);
                 await loadSessions(false);
-                Alert.alert('Success', 'Session deleted successfully.');
+                Alert.alert('Moved to Trash', 'Session moved to trash.');
               } catch (error) {
                 console.error('[HistoryList] Error deleting session:', error);
                 Alert.alert('Error', 'Failed to delete session. Please try again.');
@@ -172,8 +189,8 @@ export const HistoryListScreen: React.FC = () => {
 
   // Render session card
   const renderSessionCard = useCallback(
-    ({ item }: { item: Session }) => {
-      const firstCoffee = item.coffees[0];
+    ({ item }: { item: SessionSummary }) => {
+      const firstCoffee = sealSession(item).coffees[0];
       const coffeeCount = item.coffees.length;
       const date = new Date(item.createdAt);
       const dateStr = date.toLocaleDateString('en-US', {
@@ -182,21 +199,18 @@ export const HistoryListScreen: React.FC = () => {
         year: 'numeric',
       });
 
-      // Calculate average scores if available
+      // Calculate average scores if available (charted template attributes)
       let avgScore: number | null = null;
+      const chartAttributes = getChartAttributes(
+        templateService.getTemplateOrDefault(item.templateId)
+      );
       const totalCups = item.coffees.reduce((sum, c) => sum + c.cups.length, 0);
       if (totalCups > 0) {
         const totalScore = item.coffees.reduce(
           (sum, c) =>
             sum +
             c.cups.reduce((cSum, cup) => {
-              const scores = [
-                cup.ratings.sweetness,
-                cup.ratings.acidity,
-                cup.ratings.body,
-                cup.ratings.clarity,
-                cup.ratings.finish,
-              ];
+              const scores = chartAttributes.map(attribute => cup.ratings[attribute.key]);
               const validScores = scores.filter((s) => s !== undefined) as number[];
               const cupAvg =
                 validScores.length > 0
@@ -287,7 +301,7 @@ export const HistoryListScreen: React.FC = () => {
     <View style={styles.emptyContainer}>
       <Text style={styles.emptyTitle}>No Sessions Found</Text>
       <Text style={styles.emptyText}>
-        {searchQuery || filterType !== 'all'
+        {searchQuery || filterType !== 'all' || activeFilterCount > 0
           ? 'Try adjusting your search or filters'
           : 'Start a new tasting session to see it here'}
       </Text>
@@ -300,6 +314,7 @@ export const HistoryListScreen: React.FC = () => {
     { label: 'Single', value: 'single-coffee' },
     { label: 'Multi', value: 'multi-coffee' },
     { label: 'Table', value: 'table-cupping' },
+    { label: 'Triangle', value: 'triangulation' },
   ];
 
   if (loading) {
@@ -335,7 +350,7 @@ export const HistoryListScreen: React.FC = () => {
           style={styles.searchInput}
           value={searchQuery}
           onChangeText={handleSearchChange}
-          placeholder="Search by coffee name, origin, or roaster..."
+          placeholder="Search coffees, notes, tags, or flavors..."
           placeholderTextColor={colors.text.tertiary}
         />
       </View>
@@ -361,6 +376,16 @@ export const HistoryListScreen: React.FC = () => {
             </Text>
           </TouchableOpacity>
         ))}
+        <TouchableOpacity
+          style={[styles.filterChip, activeFilterCount > 0 && styles.filterChipActive]}
+          onPress={() => setShowFilterSheet(true)}
+        >
+          <Text
+            style={[styles.filterChipText, activeFilterCount > 0 && styles.filterChipTextActive]}
+          >
+            {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Session Count */}
@@ -368,6 +393,9 @@ export const HistoryListScreen: React.FC = () => {
         <Text style={styles.countText}>
           {filteredSessions.length} session{filteredSessions.length !== 1 ? 's' : ''}
         </Text>
+        <TouchableOpacity onPress={() => navigation.navigate('HistoryStats')}>
+          <Text style={styles.statsLink}>View Stats ›</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Session List */}
@@ -387,6 +415,17 @@ export const HistoryListScreen: React.FC = () => {
         ListEmptyComponent={renderEmptyState}
         showsVerticalScrollIndicator={false}
       />
+
+      {/* Filter Sheet */}
+      <SessionFilterSheet
+        visible={showFilterSheet}
+        filters={filters}
+        presets={filterPresets}
+        onApply={handleApplyFilters}
+        onClose={() => setShowFilterSheet(false)}
+        onSavePreset={saveFilterPreset}
+        onDeletePreset={deleteFilterPreset}
+      />
     </SafeAreaView>
   );
 };
@@ -445,6 +484,9 @@ const styles = StyleSheet.create({
     color: colors.background,
   },
   countContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     paddingHorizontal: spacing.lg,
     paddingBottom: spacing.sm,
   },
@@ -452,6 +494,11 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.text.tertiary,
   },
+  statsLink: {
+    ...typography.caption,
+    color: colors.primary,
+    fontWeight: '600',
+  },
   listContent: {
     padding: spacing.lg,
     paddingTop: spacing.sm,
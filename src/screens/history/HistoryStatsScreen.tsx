@@ -0,0 +1,496 @@
+/**
+ * History Stats Screen
+ *
+ * Long-range palate analytics across all sessions.
+ * Features:
+ * - Sessions per week or month
+ * - Average of each attribute of a scoring template over time
+ * - Top flavors and categories for the selected range
+ * - Score distribution histograms
+ * - Most-tasted origins and roasters
+ * - Triangle test accuracy and significance
+ */
+
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Card, Divider, ErrorState, LoadingSpinner } from '../../components';
+import { BarChart } from '../../components/Charts/BarChart';
+import { ScoreTrendChart } from '../../components/Charts/ScoreTrendChart';
+import { analyticsService } from '../../services/analyticsService';
+import type { PalateStats, StatsPeriod, TriangleStats } from '../../services/analyticsService';
+import { templateService } from '../../services/templateService';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+import { DEFAULT_TEMPLATE_ID, getScaleValues } from '../../utils/scoringTemplates';
+import { formatPValue } from '../../utils/triangle';
+
+type RangeOption = '30d' | '90d' | '1y' | 'all';
+
+const RANGE_OPTIONS: Array<{ label: string; value: RangeOption; days?: number }> = [
+  { label: '30 days', value: '30d', days: 30 },
+  { label: '90 days', value: '90d', days: 90 },
+  { label: '1 year', value: '1y', days: 365 },
+  { label: 'All time', value: 'all' },
+];
+
+const PERIOD_OPTIONS: Array<{ label: string; value: StatsPeriod }> = [
+  { label: 'Weekly', value: 'week' },
+  { label: 'Monthly', value: 'month' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most recent sets drawn in the running accuracy chart
+const TRIANGLE_TREND_POINTS = 20;
+
+const formatPeriod = (periodStart: string, period: StatsPeriod) => {
+  // Period starts are plain dates (YYYY-MM-DD); parse as local midnight
+  const date = new Date(`${periodStart}T00:00:00`);
+  return period === 'week'
+    ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    : date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+};
+
+export const HistoryStatsScreen: React.FC = () => {
+  const [range, setRange] = useState<RangeOption>('90d');
+  const [period, setPeriod] = useState<StatsPeriod>('week');
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [stats, setStats] = useState<PalateStats | null>(null);
+  const [triangleStats, setTriangleStats] = useState<TriangleStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load stats for the selected range and period
+  const loadStats = useCallback(async () => {
+    try {
+      setError(null);
+      const days = RANGE_OPTIONS.find(option => option.value === range)?.days;
+      const data = await analyticsService.getPalateStats({
+        startDate: days ? new Date(Date.now() - days * DAY_MS).toISOString() : undefined,
+        period,
+        templateId,
+      });
+      setStats(data);
+      setTriangleStats(await analyticsService.getTriangleStats());
+    } catch (err) {
+      const errorMessage = handleError(err, 'HistoryStatsScreen.loadStats');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [range, period, templateId]);
+
+  // Reload when screen comes into focus or options change
+  useFocusEffect(
+    useCallback(() => {
+      loadStats();
+    }, [loadStats])
+  );
+
+  const renderChips = <T extends string>(
+    options: Array<{ label: string; value: T }>,
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.chip, selected === option.value && styles.chipActive]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.chipText, selected === option.value && styles.chipTextActive]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderRankedList = (
+    items: Array<{ key: string; label: string; count: number }>,
+    unit: string
+  ) => {
+    const max = Math.max(1, ...items.map(item => item.count));
+    return items.map((item, index) => (
+      <View key={item.key} style={styles.rankRow}>
+        <View style={styles.rankLabel}>
+          <Text style={styles.rankName} numberOfLines={1}>
+            {index + 1}. {item.label}
+          </Text>
+          <Text style={styles.rankCount}>
+            {item.count} {unit}
+            {item.count !== 1 ? 's' : ''}
+          </Text>
+        </View>
+        <View style={styles.rankBarContainer}>
+          <View style={[styles.rankBar, { width: `${(item.count / max) * 100}%` }]} />
+        </View>
+      </View>
+    ));
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <LoadingSpinner />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState
+          title="Failed to Load Statistics"
+          message={error || 'No statistics available'}
+          action={{
+            title: 'Try Again',
+            onPress: () => loadStats(),
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  // Score series are per template; chips appear once more than one is registered
+  const templateOptions = templateService
+    .getAllTemplates()
+    .map(template => ({ label: template.name, value: template.id }));
+  const template = templateService.getTemplateOrDefault(stats.templateId);
+  const scaleValues = getScaleValues(template.scale);
+  const chartedAttributes = template.attributes.filter(({ key }) =>
+    stats.averagesPerPeriod.some(row => row.averageScores[key] !== null)
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Range and Period */}
+        {renderChips(RANGE_OPTIONS, range, setRange)}
+        {renderChips(PERIOD_OPTIONS, period, setPeriod)}
+        {templateOptions.length > 1 && renderChips(templateOptions, templateId, setTemplateId)}
+
+        {/* Totals */}
+        <Card style={styles.section}>
+          <View style={styles.totals}>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalValue}>{stats.totals.sessions}</Text>
+              <Text style={styles.totalLabel}>Sessions</Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalValue}>{stats.totals.coffees}</Text>
+              <Text style={styles.totalLabel}>Coffees</Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalValue}>{stats.totals.scoredCups}</Text>
+              <Text style={styles.totalLabel}>Scored Cups</Text>
+            </View>
+          </View>
+        </Card>
+
+        {stats.totals.sessions === 0 ? (
+          <Card style={styles.section}>
+            <Text style={styles.emptyText}>No sessions in this range yet.</Text>
+          </Card>
+        ) : (
+          <>
+            {/* Sessions per Period */}
+            <Card style={styles.section}>
+              <Text style={styles.sectionTitle}>
+                Sessions per {period === 'week' ? 'Week' : 'Month'}
+              </Text>
+              <BarChart
+                bars={stats.sessionsPerPeriod.map(row => ({
+                  label: formatPeriod(row.periodStart, period),
+                  value: row.count,
+                }))}
+              />
+            </Card>
+
+            {/* Attribute Averages over Time */}
+            {chartedAttributes.length > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Average Scores over Time</Text>
+                {chartedAttributes.map(({ key, label, shortLabel }, index) => (
+                  <View key={key}>
+                    {index > 0 && <Divider spacing="small" />}
+                    <Text style={styles.chartLabel}>{shortLabel ?? label}</Text>
+                    <ScoreTrendChart
+                      points={stats.averagesPerPeriod.map(row => ({
+                        value: row.averageScores[key],
+                        label: formatPeriod(row.periodStart, period),
+                      }))}
+                      min={template.scale.min}
+                      max={template.scale.max}
+                      height={110}
+                    />
+                  </View>
+                ))}
+              </Card>
+            )}
+
+            {/* Score Distribution */}
+            {stats.totals.scoredCups > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Score Distribution</Text>
+                <View style={styles.histogramGrid}>
+                  {template.attributes
+                    .filter(({ key }) => stats.scoreDistribution[key]?.some(count => count > 0))
+                    .map(({ key, label, shortLabel }) => (
+                      <View key={key} style={styles.histogram}>
+                        <Text style={styles.chartLabel}>{shortLabel ?? label}</Text>
+                        <BarChart
+                          bars={stats.scoreDistribution[key].map((count, index) => ({
+                            label: String(scaleValues[index]),
+                            value: count,
+                          }))}
+                          height={90}
+                        />
+                      </View>
+                    ))}
+                </View>
+              </Card>
+            )}
+
+            {/* Top Flavors */}
+            {stats.topFlavors.length > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Top Flavors</Text>
+                {renderRankedList(
+                  stats.topFlavors.map(flavor => ({
+                    key: String(flavor.flavorId),
+                    label: flavor.flavorName,
+                    count: flavor.count,
+                  })),
+                  'cup'
+                )}
+              </Card>
+            )}
+
+            {/* Top Categories */}
+            {stats.topCategories.length > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Top Categories</Text>
+                {renderRankedList(
+                  stats.topCategories.map(category => ({
+                    key: category.category,
+                    label: category.category,
+                    count: category.count,
+                  })),
+                  'note'
+                )}
+              </Card>
+            )}
+
+            {/* Origins */}
+            {stats.topOrigins.length > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Most-Tasted Origins</Text>
+                {renderRankedList(
+                  stats.topOrigins.map(origin => ({
+                    key: origin.value,
+                    label: origin.value,
+                    count: origin.sessionCount,
+                  })),
+                  'session'
+                )}
+              </Card>
+            )}
+
+            {/* Roasters */}
+            {stats.topRoasters.length > 0 && (
+              <Card style={styles.section}>
+                <Text style={styles.sectionTitle}>Most-Tasted Roasters</Text>
+                {renderRankedList(
+                  stats.topRoasters.map(roaster => ({
+                    key: roaster.value,
+                    label: roaster.value,
+                    count: roaster.sessionCount,
+                  })),
+                  'session'
+                )}
+              </Card>
+            )}
+          </>
+        )}
+
+        {/* Triangle Tests (all time, not limited to the range) */}
+        {triangleStats && triangleStats.summary.totalSets > 0 && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Triangle Tests</Text>
+            <View style={styles.totals}>
+              <View style={styles.totalItem}>
+                <Text style={styles.totalValue}>
+                  {triangleStats.summary.correctSets}/{triangleStats.summary.totalSets}
+                </Text>
+                <Text style={styles.totalLabel}>Correct Sets</Text>
+              </View>
+              <View style={styles.totalItem}>
+                <Text style={styles.totalValue}>
+                  {Math.round(triangleStats.summary.accuracy * 100)}%
+                </Text>
+                <Text style={styles.totalLabel}>Accuracy</Text>
+              </View>
+              <View style={styles.totalItem}>
+                <Text style={styles.totalValue}>{triangleStats.sessionCount}</Text>
+                <Text style={styles.totalLabel}>Sessions</Text>
+              </View>
+            </View>
+            <Text style={styles.triangleNote}>
+              {formatPValue(triangleStats.summary.pValue)} ·{' '}
+              {triangleStats.summary.significant
+                ? 'better than guessing'
+                : 'not yet distinguishable from guessing (33%)'}
+            </Text>
+
+            {triangleStats.history.length > 1 && (
+              <>
+                <Divider spacing="small" />
+                <Text style={styles.chartLabel}>Running Accuracy (%)</Text>
+                <ScoreTrendChart
+                  points={triangleStats.history.slice(-TRIANGLE_TREND_POINTS).map(point => ({
+                    value: Math.round(point.accuracy * 100),
+                    label: String(point.totalSets),
+                  }))}
+                  min={0}
+                  max={100}
+                  height={110}
+                />
+              </>
+            )}
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: colors.background,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+  totals: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  totalItem: {
+    alignItems: 'center',
+  },
+  totalValue: {
+    ...typography.heading2,
+    color: colors.primary,
+  },
+  totalLabel: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  triangleNote: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  chartLabel: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  histogramGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  histogram: {
+    width: '48%',
+    marginBottom: spacing.md,
+  },
+  rankRow: {
+    marginBottom: spacing.sm,
+  },
+  rankLabel: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs / 2,
+  },
+  rankName: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  rankCount: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  rankBarContainer: {
+    height: 6,
+    backgroundColor: colors.border,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  rankBar: {
+    height: '100%',
+    backgroundColor: colors.primary,
+    borderRadius: 3,
+  },
+});
@@ -6,6 +6,8 @@
  * - Side-by-side cup comparison
  * - Cup uniformity scoring
  * - Standard deviation analysis
+ * - Heatmap of cups × attributes with outlier and SCA-style pass/fail cups
+ * - Descriptors found in every cup versus only some
  * - Individual cup details
  */
 
@@ -21,15 +23,36 @@ import { useRoute } from '@react-navigation/native';
 import type { RouteProp } from '@react-navigation/native';
 import type { HistoryStackParamList } from '../../navigation/types';
 import { Card, Badge, Divider, ErrorState, LoadingSpinner } from '../../components';
+import { DefectList } from '../../components/Defects';
 import { sessionService } from '../../services/sessionService';
 import { analyticsService } from '../../services/analyticsService';
+import { templateService } from '../../services/templateService';
 import type { Session, CoffeeEntry, Cup } from '../../types/session.types';
 import type { UniformityScore } from '../../services/analyticsService';
+import type { ScoringTemplate } from '../../types/template.types';
 import { colors, spacing, typography } from '../../theme';
 import { handleError } from '../../utils/errorHandling';
+import { sealSession } from '../../utils/blind';
+import {
+  averageScores,
+  computeTemplateTotal,
+  getChartAttributes,
+} from '../../utils/scoringTemplates';
 
 type TableCuppingRouteProp = RouteProp<HistoryStackParamList, 'TableCupping'>;
 
+/**
+ * Heatmap tint of a cup's attribute score: blue above the attribute's mean,
+ * amber below, stronger the further out
+ */
+function getHeatColor(zScore: number | null): string | undefined {
+  if (zScore === null || Math.abs(zScore) < 0.5) return undefined;
+  const base = zScore > 0 ? colors.primary : colors.warning;
+  if (Math.abs(zScore) < 1) return base + '25';
+  if (Math.abs(zScore) < 1.5) return base + '50';
+  return base + '80';
+}
+
 export const TableCuppingScreen: React.FC = () => {
   const route = useRoute<TableCuppingRouteProp>();
   const { sessionId, coffeeId } = route.params;
@@ -48,12 +71,15 @@ export const TableCuppingScreen: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        const sessionData = await sessionService.getSession(sessionId);
-        if (!sessionData) {
+        const data = await sessionService.getSession(sessionId);
+        if (!data) {
           setError('Session not found');
           return;
         }
 
+        // Sealed blind sessions show each coffee by its code only
+        const sessionData = sealSession(data);
+
         setSession(sessionData);
 
         const coffeeData = sessionData.coffees.find((c) => c.coffeeId === coffeeId);
@@ -82,21 +108,14 @@ export const TableCuppingScreen: React.FC = () => {
     loadData();
   }, [sessionId, coffeeId, retryCount]);
 
-  // Calculate average score for all cups
-  const calculateAverageScore = useCallback((cups: Cup[]): number => {
+  // Calculate average template total for all cups
+  const calculateAverageScore = useCallback((template: ScoringTemplate, cups: Cup[]): number => {
     if (cups.length === 0) return 0;
 
-    const totalScore = cups.reduce((sum, cup) => {
-      return (
-        sum +
-        (cup.ratings.acidity || 0) +
-        (cup.ratings.sweetness || 0) +
-        (cup.ratings.body || 0) +
-        (cup.ratings.clarity || 0) +
-        (cup.ratings.finish || 0) +
-        (cup.ratings.enjoyment || 0)
-      );
-    }, 0);
+    const totalScore = cups.reduce(
+      (sum, cup) => sum + (computeTemplateTotal(template, cup.ratings) ?? 0),
+      0
+    );
 
     return totalScore / cups.length;
   }, []);
@@ -145,7 +164,13 @@ export const TableCuppingScreen: React.FC = () => {
     );
   }
 
-  const averageScore = calculateAverageScore(coffee.cups);
+  const template = templateService.getTemplateOrDefault(session.templateId);
+  const columns = getChartAttributes(template);
+  const columnAverages = averageScores(
+    template,
+    coffee.cups.map(cup => cup.ratings)
+  );
+  const averageScore = calculateAverageScore(template, coffee.cups);
   const uniformityRating = uniformity ? getUniformityRating(uniformity.uniformityScore) : null;
 
   return (
@@ -211,6 +236,12 @@ export const TableCuppingScreen: React.FC = () => {
                   {Math.max(...uniformity.cupScores.map((c) => c.totalScore)).toFixed(1)}
                 </Text>
               </View>
+              <View style={styles.gridItem}>
+                <Text style={styles.gridLabel}>Uniform Cups</Text>
+                <Text style={styles.gridValue}>
+                  {uniformity.uniformCups}/{uniformity.cupScores.length}
+                </Text>
+              </View>
             </View>
 
             <Text style={styles.helperText}>
@@ -226,6 +257,100 @@ export const TableCuppingScreen: React.FC = () => {
           </Card>
         )}
 
+        {/* Attribute Heatmap */}
+        {uniformity && (
+          <Card style={styles.tableCard}>
+            <Text style={styles.sectionTitle}>Attribute Uniformity</Text>
+
+            <View style={styles.table}>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeaderCell, styles.cupColumn]}>Cup</Text>
+                {uniformity.attributes.map(attribute => (
+                  <Text
+                    key={attribute.key}
+                    style={[styles.tableHeaderCell, styles.scoreColumn]}
+                    numberOfLines={1}
+                  >
+                    {attribute.label}
+                  </Text>
+                ))}
+                <Text style={[styles.tableHeaderCell, styles.scoreColumn]}>Pass</Text>
+              </View>
+
+              {uniformity.cupScores.map((cupScore, cupIndex) => (
+                <View key={cupScore.cupId} style={styles.tableRow}>
+                  <Text style={[styles.tableCell, styles.cupColumn]}>
+                    #{cupScore.position}
+                    {cupScore.isOutlier && ' ◆'}
+                  </Text>
+                  {uniformity.attributes.map(attribute => {
+                    const cell = attribute.cups[cupIndex];
+                    return (
+                      <Text
+                        key={attribute.key}
+                        style={[
+                          styles.tableCell,
+                          styles.scoreColumn,
+                          { backgroundColor: getHeatColor(cell.zScore) },
+                        ]}
+                      >
+                        {cell.value?.toFixed(1) ?? '-'}
+                      </Text>
+                    );
+                  })}
+                  <Text
+                    style={[
+                      styles.tableCell,
+                      styles.scoreColumn,
+                      cupScore.isUniform ? styles.passText : styles.failText,
+                    ]}
+                  >
+                    {cupScore.isUniform ? '✓' : '✗'}
+                  </Text>
+                </View>
+              ))}
+
+              <View style={[styles.tableRow, styles.averageRow]}>
+                <Text style={[styles.tableCell, styles.cupColumn, styles.averageLabel]}>SD</Text>
+                {uniformity.attributes.map(attribute => (
+                  <Text
+                    key={attribute.key}
+                    style={[styles.tableCell, styles.scoreColumn, styles.averageValue]}
+                  >
+                    {attribute.standardDeviation?.toFixed(2) ?? '-'}
+                  </Text>
+                ))}
+                <Text style={[styles.tableCell, styles.scoreColumn]} />
+              </View>
+            </View>
+
+            <Text style={styles.helperText}>
+              Blue cells score above the attribute&apos;s mean, amber below; ◆ marks an outlier cup.
+              A cup passes when every attribute is close to the other cups.
+            </Text>
+
+            {uniformity.flavorPresence.length > 0 && (
+              <>
+                <Divider spacing="medium" />
+                <Text style={styles.gridLabel}>In every cup</Text>
+                <Text style={styles.flavorList}>
+                  {uniformity.flavorPresence
+                    .filter(flavor => flavor.inAllCups)
+                    .map(flavor => flavor.flavorName)
+                    .join(', ') || '-'}
+                </Text>
+                <Text style={styles.gridLabel}>In some cups</Text>
+                <Text style={styles.flavorList}>
+                  {uniformity.flavorPresence
+                    .filter(flavor => !flavor.inAllCups)
+                    .map(flavor => `${flavor.flavorName} (${flavor.cupCount})`)
+                    .join(', ') || '-'}
+                </Text>
+              </>
+            )}
+          </Card>
+        )}
+
         {/* Cup Comparison Table */}
         <Card style={styles.tableCard}>
           <Text style={styles.sectionTitle}>Cup-by-Cup Analysis</Text>
@@ -234,11 +359,15 @@ export const TableCuppingScreen: React.FC = () => {
             {/* Table Header */}
             <View style={styles.tableHeader}>
               <Text style={[styles.tableHeaderCell, styles.cupColumn]}>Cup</Text>
-              <Text style={[styles.tableHeaderCell, styles.scoreColumn]}>Sweet</Text>
-              <Text style={[styles.tableHeaderCell, styles.scoreColumn]}>Acid</Text>
-              <Text style={[styles.tableHeaderCell, styles.scoreColumn]}>Body</Text>
-              <Text style={[styles.tableHeaderCell, styles.scoreColumn]}>Clarity</Text>
-              <Text style={[styles.tableHeaderCell, styles.scoreColumn]}>Finish</Text>
+              {columns.map(attribute => (
+                <Text
+                  key={attribute.key}
+                  style={[styles.tableHeaderCell, styles.scoreColumn]}
+                  numberOfLines={1}
+                >
+                  {attribute.shortLabel ?? attribute.label}
+                </Text>
+              ))}
               <Text style={[styles.tableHeaderCell, styles.totalColumn]}>Total</Text>
             </View>
 
@@ -246,13 +375,7 @@ export const TableCuppingScreen: React.FC = () => {
             {coffee.cups
               .sort((a, b) => a.position - b.position)
               .map((cup, index) => {
-                const total =
-                  (cup.ratings.acidity || 0) +
-                  (cup.ratings.sweetness || 0) +
-                  (cup.ratings.body || 0) +
-                  (cup.ratings.clarity || 0) +
-                  (cup.ratings.finish || 0) +
-                  (cup.ratings.enjoyment || 0);
+                const total = computeTemplateTotal(template, cup.ratings) ?? 0;
 
                 const isHighest =
                   uniformity &&
@@ -275,22 +398,13 @@ export const TableCuppingScreen: React.FC = () => {
                   >
                     <Text style={[styles.tableCell, styles.cupColumn]}>
                       #{cup.position}
+                      {cup.defects.length > 0 && ' ⚠'}
                     </Text>
-                    <Text style={[styles.tableCell, styles.scoreColumn]}>
-                      {(cup.ratings.sweetness || 0).toFixed(1)}
-                    </Text>
-                    <Text style={[styles.tableCell, styles.scoreColumn]}>
-                      {(cup.ratings.acidity || 0).toFixed(1)}
-                    </Text>
-                    <Text style={[styles.tableCell, styles.scoreColumn]}>
-                      {(cup.ratings.body || 0).toFixed(1)}
-                    </Text>
-                    <Text style={[styles.tableCell, styles.scoreColumn]}>
-                      {(cup.ratings.clarity || 0).toFixed(1)}
-                    </Text>
-                    <Text style={[styles.tableCell, styles.scoreColumn]}>
-                      {(cup.ratings.finish || 0).toFixed(1)}
-                    </Text>
+                    {columns.map(attribute => (
+                      <Text key={attribute.key} style={[styles.tableCell, styles.scoreColumn]}>
+                        {cup.ratings[attribute.key]?.toFixed(1) ?? '-'}
+                      </Text>
+                    ))}
                     <Text
                       style={[
                         styles.tableCell,
@@ -309,36 +423,14 @@ export const TableCuppingScreen: React.FC = () => {
               <Text style={[styles.tableCell, styles.cupColumn, styles.averageLabel]}>
                 Average
               </Text>
-              <Text style={[styles.tableCell, styles.scoreColumn, styles.averageValue]}>
-                {(
-                  coffee.cups.reduce((sum, c) => sum + (c.ratings.sweetness || 0), 0) /
-                  coffee.cups.length
-                ).toFixed(1)}
-              </Text>
-              <Text style={[styles.tableCell, styles.scoreColumn, styles.averageValue]}>
-                {(
-                  coffee.cups.reduce((sum, c) => sum + (c.ratings.acidity || 0), 0) /
-                  coffee.cups.length
-                ).toFixed(1)}
-              </Text>
-              <Text style={[styles.tableCell, styles.scoreColumn, styles.averageValue]}>
-                {(
-                  coffee.cups.reduce((sum, c) => sum + (c.ratings.body || 0), 0) /
-                  coffee.cups.length
-                ).toFixed(1)}
-              </Text>
-              <Text style={[styles.tableCell, styles.scoreColumn, styles.averageValue]}>
-                {(
-                  coffee.cups.reduce((sum, c) => sum + (c.ratings.clarity || 0), 0) /
-                  coffee.cups.length
-                ).toFixed(1)}
-              </Text>
-              <Text style={[styles.tableCell, styles.scoreColumn, styles.averageValue]}>
-                {(
-                  coffee.cups.reduce((sum, c) => sum + (c.ratings.finish || 0), 0) /
-                  coffee.cups.length
-                ).toFixed(1)}
-              </Text>
+              {columns.map(attribute => (
+                <Text
+                  key={attribute.key}
+                  style={[styles.tableCell, styles.scoreColumn, styles.averageValue]}
+                >
+                  {columnAverages[attribute.key]?.toFixed(1) ?? '-'}
+                </Text>
+              ))}
               <Text
                 style={[
                   styles.tableCell,
@@ -364,6 +456,16 @@ export const TableCuppingScreen: React.FC = () => {
           </View>
         </Card>
 
+        {/* Defects recorded on the cups */}
+        {coffee.cups.some(cup => cup.defects.length > 0) && (
+          <Card style={styles.defectsCard}>
+            <Text style={styles.sectionTitle}>Defects</Text>
+            {coffee.cups.map(cup => (
+              <DefectList key={cup.cupId} defects={cup.defects} label={`Cup ${cup.position}`} />
+            ))}
+          </Card>
+        )}
+
         {/* Professional Tips */}
         <Card style={styles.tipsCard}>
           <Text style={styles.sectionTitle}>Professional Cupping Tips</Text>
@@ -545,6 +647,17 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: colors.primary,
   },
+  passText: {
+    color: colors.success,
+  },
+  failText: {
+    color: colors.error,
+  },
+  flavorList: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
   averageLabel: {
     fontWeight: 'bold',
   },
@@ -571,6 +684,10 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.text.tertiary,
   },
+  defectsCard: {
+    marginBottom: spacing.lg,
+    gap: spacing.sm,
+  },
   tipsCard: {
     marginBottom: spacing.lg,
   },
@@ -0,0 +1,497 @@
+/**
+ * CVA Scoring Screen
+ *
+ * CVA (2024 Cupping Value Assessment) forms for CVA pro sessions.
+ * Each cup has a descriptive form (0-15 intensities and check-all-that-apply
+ * descriptors from the flavor lexicon) and an affective form (1-9 hedonic
+ * scores, non-uniform and defective flags). A cup with recorded defects
+ * counts as defective. The CVA score updates live.
+ * Table cupping coffees show a cup selector; every cup is saved together.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import type { CVAScoringRouteProp } from '../../navigation/types';
+import type { CVADescriptiveForm, CVAAffectiveForm } from '../../types/session.types';
+import type { CupDefect } from '../../types/defect.types';
+import { Button, LoadingSpinner, Divider, TextInput } from '../../components';
+import { ScaleStepper, DescriptorPicker } from '../../components/CVAForm';
+import { DefectEditor } from '../../components/Defects';
+import { sessionService } from '../../services/sessionService';
+import {
+  CVA_AFFECTIVE_ATTRIBUTES,
+  CVA_DESCRIPTIVE_ATTRIBUTES,
+  CVA_HEDONIC_LABELS,
+  CVA_HEDONIC_SCALE,
+  CVA_INTENSITY_SCALE,
+  CVA_MAX_DESCRIPTORS,
+  calculateCVACupScore,
+  calculateCVASampleScore,
+  createDefaultCVAAffectiveForm,
+  createDefaultCVADescriptiveForm,
+  withCupDefects,
+} from '../../utils/scoring';
+import { sealSession } from '../../utils/blind';
+import { colors, typography, spacing } from '../../theme';
+
+type FormTab = 'descriptive' | 'affective';
+
+interface CupForms {
+  cupId: string;
+  position: number;
+  descriptive: CVADescriptiveForm;
+  affective: CVAAffectiveForm;
+  defects: CupDefect[];
+}
+
+export const CVAScoringScreen: React.FC = () => {
+  const route = useRoute<CVAScoringRouteProp>();
+  const navigation = useNavigation();
+  const { sessionId, coffeeId, cupId } = route.params;
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [coffeeName, setCoffeeName] = useState('');
+  const [cups, setCups] = useState<CupForms[]>([]);
+  const [activeCupId, setActiveCupId] = useState(cupId);
+  const [tab, setTab] = useState<FormTab>('descriptive');
+
+  // Load existing forms for every cup of this coffee
+  useEffect(() => {
+    const loadForms = async () => {
+      try {
+        setIsLoading(true);
+        const session = await sessionService.getSession(sessionId);
+        // Sealed blind sessions show the coffee's code instead of its name
+        const coffee = session && sealSession(session).coffees.find(c => c.coffeeId === coffeeId);
+        if (coffee) {
+          setCoffeeName(coffee.name);
+          setCups(
+            coffee.cups.map(cup => ({
+              cupId: cup.cupId,
+              position: cup.position,
+              descriptive: cup.cvaDescriptive ?? createDefaultCVADescriptiveForm(),
+              affective: cup.cvaAffective ?? createDefaultCVAAffectiveForm(),
+              defects: cup.defects,
+            }))
+          );
+        }
+      } catch (error) {
+        console.error('[CVAScoring] Error loading forms:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadForms();
+  }, [sessionId, coffeeId]);
+
+  const updateDescriptive = useCallback(
+    <K extends keyof CVADescriptiveForm>(key: K, value: CVADescriptiveForm[K]) => {
+      setCups(prev =>
+        prev.map(cup =>
+          cup.cupId === activeCupId
+            ? { ...cup, descriptive: { ...cup.descriptive, [key]: value } }
+            : cup
+        )
+      );
+    },
+    [activeCupId]
+  );
+
+  const updateAffective = useCallback(
+    <K extends keyof CVAAffectiveForm>(key: K, value: CVAAffectiveForm[K]) => {
+      setCups(prev =>
+        prev.map(cup =>
+          cup.cupId === activeCupId
+            ? { ...cup, affective: { ...cup.affective, [key]: value } }
+            : cup
+        )
+      );
+    },
+    [activeCupId]
+  );
+
+  const updateDefects = useCallback(
+    (defects: CupDefect[]) => {
+      setCups(prev => prev.map(cup => (cup.cupId === activeCupId ? { ...cup, defects } : cup)));
+    },
+    [activeCupId]
+  );
+
+  // Save both forms and the defects for every cup and return
+  const handleSave = useCallback(async () => {
+    try {
+      setIsSaving(true);
+      for (const cup of cups) {
+        await sessionService.updateCVADescriptive(cup.cupId, cup.descriptive);
+        await sessionService.updateCVAAffective(cup.cupId, cup.affective);
+        await sessionService.updateCupDefects(cup.cupId, cup.defects);
+      }
+      navigation.goBack();
+    } catch (error) {
+      console.error('[CVAScoring] Error saving forms:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [cups, navigation]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner message="Loading CVA forms..." fullScreen />
+      </SafeAreaView>
+    );
+  }
+
+  const activeCup = cups.find(cup => cup.cupId === activeCupId) ?? cups[0];
+  if (!activeCup) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.subtitle}>Coffee not found</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const { descriptive, affective, defects } = activeCup;
+  const hasDefects = defects.length > 0;
+  const cupScore = calculateCVACupScore(withCupDefects(affective, defects));
+  const sampleScore = calculateCVASampleScore(
+    cups.map(cup => withCupDefects(cup.affective, cup.defects))
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>CVA Forms</Text>
+          <Text style={styles.subtitle}>
+            {coffeeName ? `${coffeeName} • ` : ''}Cup {activeCup.position}
+          </Text>
+        </View>
+
+        {/* Cup selector (table cupping) */}
+        {cups.length > 1 && (
+          <View style={styles.chipRow}>
+            {cups.map(cup => {
+              const isActive = cup.cupId === activeCup.cupId;
+              return (
+                <TouchableOpacity
+                  key={cup.cupId}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => setActiveCupId(cup.cupId)}
+                  accessibilityRole="tab"
+                  accessibilityState={{ selected: isActive }}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                    Cup {cup.position}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Form tabs */}
+        <View style={styles.tabRow}>
+          {(['descriptive', 'affective'] as const).map(option => {
+            const isActive = option === tab;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.tab, isActive && styles.tabActive]}
+                onPress={() => setTab(option)}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text style={[styles.tabText, isActive && styles.tabTextActive]}>
+                  {option === 'descriptive' ? 'Descriptive' : 'Affective'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {tab === 'descriptive' ? (
+          <>
+            {/* Intensities do not affect the score */}
+            <View style={styles.section}>
+              <Text style={styles.sectionCaption}>
+                Intensity from {CVA_INTENSITY_SCALE.min} (none) to {CVA_INTENSITY_SCALE.max}{' '}
+                (extreme)
+              </Text>
+              {CVA_DESCRIPTIVE_ATTRIBUTES.map(({ key, label }) => (
+                <ScaleStepper
+                  key={key}
+                  label={label}
+                  value={descriptive[key]}
+                  min={CVA_INTENSITY_SCALE.min}
+                  max={CVA_INTENSITY_SCALE.max}
+                  onChange={value => updateDescriptive(key, value)}
+                />
+              ))}
+            </View>
+
+            <Divider spacing="medium" />
+
+            <DescriptorPicker
+              label="Fragrance/Aroma Descriptors"
+              selectedIds={descriptive.aromaDescriptors}
+              onChange={ids => updateDescriptive('aromaDescriptors', ids)}
+              maxSelections={CVA_MAX_DESCRIPTORS}
+            />
+
+            <Divider spacing="medium" />
+
+            <DescriptorPicker
+              label="Flavor/Aftertaste Descriptors"
+              selectedIds={descriptive.flavorDescriptors}
+              onChange={ids => updateDescriptive('flavorDescriptors', ids)}
+              maxSelections={CVA_MAX_DESCRIPTORS}
+            />
+
+            <Divider spacing="medium" />
+
+            <TextInput
+              label="Descriptive Notes"
+              value={descriptive.notes || ''}
+              onChangeText={text => updateDescriptive('notes', text)}
+              placeholder="Other descriptors, cup notes..."
+              multiline
+              numberOfLines={3}
+            />
+          </>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionCaption}>
+                How much you like each attribute, {CVA_HEDONIC_SCALE.min} to {CVA_HEDONIC_SCALE.max}
+              </Text>
+              {CVA_AFFECTIVE_ATTRIBUTES.map(({ key, label }) => (
+                <ScaleStepper
+                  key={key}
+                  label={label}
+                  caption={CVA_HEDONIC_LABELS[affective[key]]}
+                  value={affective[key]}
+                  min={CVA_HEDONIC_SCALE.min}
+                  max={CVA_HEDONIC_SCALE.max}
+                  onChange={value => updateAffective(key, value)}
+                />
+              ))}
+            </View>
+
+            <Divider spacing="medium" />
+
+            {/* Cup flags */}
+            <View style={styles.section}>
+              <View style={styles.flagRow}>
+                <View style={styles.flagInfo}>
+                  <Text style={styles.flagLabel}>Non-uniform</Text>
+                  <Text style={styles.flagDescription}>Differs from the other cups (−2)</Text>
+                </View>
+                <Switch
+                  value={affective.nonUniform}
+                  onValueChange={value => updateAffective('nonUniform', value)}
+                  trackColor={{ false: colors.border, true: colors.primary + '80' }}
+                  thumbColor={affective.nonUniform ? colors.primary : colors.text.tertiary}
+                />
+              </View>
+              <View style={styles.flagRow}>
+                <View style={styles.flagInfo}>
+                  <Text style={styles.flagLabel}>Defective</Text>
+                  <Text style={styles.flagDescription}>
+                    {hasDefects ? 'Set by the recorded defects (−4)' : 'Has a taint or fault (−4)'}
+                  </Text>
+                </View>
+                <Switch
+                  value={affective.defective || hasDefects}
+                  onValueChange={value => updateAffective('defective', value)}
+                  disabled={hasDefects}
+                  trackColor={{ false: colors.border, true: colors.error + '80' }}
+                  thumbColor={
+                    affective.defective || hasDefects ? colors.error : colors.text.tertiary
+                  }
+                />
+              </View>
+            </View>
+
+            <Divider spacing="medium" />
+
+            <DefectEditor defects={defects} onChange={updateDefects} />
+
+            <Divider spacing="medium" />
+
+            <TextInput
+              label="Affective Notes"
+              value={affective.notes || ''}
+              onChangeText={text => updateAffective('notes', text)}
+              placeholder="Impressions, defect descriptions..."
+              multiline
+              numberOfLines={3}
+            />
+          </>
+        )}
+
+        {/* Score Summary */}
+        <View style={styles.summary}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Cup {activeCup.position} Score</Text>
+            <Text style={styles.summaryValue}>{cupScore.toFixed(2)}</Text>
+          </View>
+          {cups.length > 1 && sampleScore !== null && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Sample Score</Text>
+              <Text style={styles.finalValue}>{sampleScore.toFixed(2)}</Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        <Button title="Save & Continue" onPress={handleSave} loading={isSaving} fullWidth />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  title: {
+    ...typography.heading2,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.lg,
+    borderWidth: 2,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  chipTextActive: {
+    ...typography.bodySmallMedium,
+    color: colors.primary,
+  },
+  tabRow: {
+    flexDirection: 'row',
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.xs,
+    marginBottom: spacing.lg,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: spacing.sm,
+    alignItems: 'center',
+  },
+  tabActive: {
+    backgroundColor: colors.surfaceElevated,
+  },
+  tabText: {
+    ...typography.bodyMedium,
+    color: colors.text.secondary,
+  },
+  tabTextActive: {
+    color: colors.primary,
+  },
+  section: {
+    gap: spacing.xs,
+  },
+  sectionCaption: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  flagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  flagInfo: {
+    flex: 1,
+  },
+  flagLabel: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  flagDescription: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  summary: {
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  summaryLabel: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  summaryValue: {
+    ...typography.heading4,
+    color: colors.text.primary,
+  },
+  finalValue: {
+    ...typography.heading2,
+    color: colors.primary,
+  },
+  actions: {
+    padding: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+});
@@ -2,10 +2,15 @@
  * Coffee Setup Screen
  *
  * Configure coffee details for the tasting session.
- * Supports single-coffee, multi-coffee, and table-cupping modes.
+ * Supports single-coffee, multi-coffee, table-cupping and triangulation modes;
+ * a triangle test takes exactly two coffees before its sets are poured.
+ * Coffees can be picked from the coffee library as the name is typed.
+ * In a blind session each coffee is listed with the code its cups are
+ * labelled with; scoring screens show only the code.
+ * Group sessions go on to pick their tasters and hand the device around.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -19,31 +24,122 @@ import type {
   CoffeeSetupRouteProp,
   NewSessionNavigationProp,
 } from '../../navigation/types';
-import type { CoffeeFormData, SessionType } from '../../types/session.types';
+import type { CatalogCoffee, CoffeeFormData, SessionType } from '../../types/session.types';
 import { CoffeeMetadataForm, Button, LoadingSpinner } from '../../components';
 import { sessionService } from '../../services/sessionService';
+import { coffeeLibraryService } from '../../services/coffeeLibraryService';
+import { useDebounce } from '../../hooks/useDebounce';
+import { formatBlindCode } from '../../utils/blind';
 import { colors, typography, spacing } from '../../theme';
 
+/**
+ * Whether the form still describes the picked library coffee
+ * (editing the name or roaster makes it a different coffee)
+ */
+function matchesLibraryCoffee(coffee: CatalogCoffee, values: CoffeeFormData): boolean {
+  const normalize = (value?: string) => (value || '').trim().toLowerCase();
+  return (
+    normalize(coffee.name) === normalize(values.name) &&
+    normalize(coffee.roaster) === normalize(values.roaster)
+  );
+}
+
+/**
+ * Coffee added to the session so far (multi-coffee list)
+ */
+interface AddedCoffee {
+  id: string;
+  name: string;
+  blindCode?: string | null; // Blind sessions only
+}
+
+// Coffees a triangle test compares
+const TRIANGLE_COFFEES = 2;
+
+const BLIND_NOTICE =
+  "Blind session • Label each coffee's cups with its code. Scoring screens show only the code until the coffees are revealed on the summary.";
+
 export const CoffeeSetupScreen: React.FC = () => {
   const route = useRoute<CoffeeSetupRouteProp>();
   const navigation = useNavigation<NewSessionNavigationProp>();
-  const { sessionType } = route.params;
+  const {
+    sessionType,
+    mode = 'taste',
+    protocol = 'sca',
+    templateId,
+    blindCoding = null,
+    group = false,
+  } = route.params;
+  // Coffees are added one by one into a list before continuing
+  const isCoffeeList = sessionType === 'multi-coffee' || sessionType === 'triangulation';
 
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [coffeeFormData, setCoffeeFormData] = useState<CoffeeFormData>({
     name: '',
   });
-  const [coffees, setCoffees] = useState<Array<{ id: string; name: string }>>([]);
+  const [coffees, setCoffees] = useState<AddedCoffee[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
+  // Coffee library autocomplete
+  const [libraryCoffee, setLibraryCoffee] = useState<CatalogCoffee | null>(null);
+  const [suggestions, setSuggestions] = useState<CatalogCoffee[]>([]);
+  const [formKey, setFormKey] = useState(0); // Remounts the form to load new values
+
+  const isLibraryCoffee =
+    libraryCoffee !== null && matchesLibraryCoffee(libraryCoffee, coffeeFormData);
+
+  // Search library (debounced)
+  const searchLibrary = useDebounce(async (query: string) => {
+    try {
+      const results = await coffeeLibraryService.searchCoffees(query);
+      setSuggestions(results);
+    } catch (error) {
+      console.error('[CoffeeSetup] Error searching coffee library:', error);
+    }
+  }, 250);
+
+  // Update suggestions as the coffee name is typed
+  useEffect(() => {
+    const query = coffeeFormData.name.trim();
+    if (query.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    searchLibrary(query);
+  }, [coffeeFormData.name, searchLibrary]);
+
+  // Fill the form from a library coffee
+  const handleSelectLibraryCoffee = useCallback((coffee: CatalogCoffee) => {
+    setLibraryCoffee(coffee);
+    setCoffeeFormData(prev => ({
+      ...prev,
+      catalogId: coffee.id,
+      name: coffee.name,
+      roaster: coffee.roaster,
+      origin: coffee.origin,
+      process: coffee.process,
+      variety: coffee.variety,
+      altitude: coffee.altitude,
+      roastLevel: coffee.roastLevel ?? prev.roastLevel,
+    }));
+    setSuggestions([]);
+    setFormKey(key => key + 1);
+  }, []);
+
   // Initialize session on first coffee add
   const initializeSession = useCallback(async (): Promise<string> => {
     if (sessionId) return sessionId;
 
     setIsLoading(true);
     try {
-      const session = await sessionService.createSession(sessionType);
+      const session = await sessionService.createSession(
+        sessionType,
+        mode,
+        protocol,
+        templateId,
+        blindCoding
+      );
       setSessionId(session.id);
       return session.id;
     } catch (error) {
@@ -53,18 +149,22 @@ export const CoffeeSetupScreen: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [sessionId, sessionType]);
+  }, [sessionId, sessionType, mode, protocol, templateId, blindCoding]);
 
   // Continue to flavor selection
   const handleContinue = useCallback(
     (sid: string, coffeeId: string, cupId: string) => {
+      if (group) {
+        navigation.navigate('GroupScoring', { sessionId: sid });
+        return;
+      }
       navigation.navigate('FlavorSelection', {
         sessionId: sid,
         coffeeId,
         cupId,
       });
     },
-    [navigation]
+    [navigation, group]
   );
 
   // Add coffee to session
@@ -80,20 +180,25 @@ export const CoffeeSetupScreen: React.FC = () => {
       // Initialize session if needed
       const currentSessionId = await initializeSession();
 
-      // Add coffee to database
-      const coffee = await sessionService.addCoffeeToSession(
-        currentSessionId,
-        coffeeFormData
-      );
+      // Add coffee to database (linked to the picked library coffee if unchanged)
+      const coffee = await sessionService.addCoffeeToSession(currentSessionId, {
+        ...coffeeFormData,
+        catalogId: isLibraryCoffee && libraryCoffee ? libraryCoffee.id : undefined,
+      });
 
       // Add to local list
-      setCoffees(prev => [...prev, { id: coffee.coffeeId, name: coffee.name }]);
+      setCoffees(prev => [
+        ...prev,
+        { id: coffee.coffeeId, name: coffee.name, blindCode: coffee.blindCode },
+      ]);
 
       // Reset form for next coffee
       setCoffeeFormData({ name: '' });
+      setLibraryCoffee(null);
+      setFormKey(key => key + 1);
 
       // For single-coffee and table-cupping, automatically proceed
-      if (sessionType !== 'multi-coffee') {
+      if (!isCoffeeList) {
         handleContinue(currentSessionId, coffee.coffeeId, coffee.cups[0].cupId);
       }
     } catch (error) {
@@ -102,9 +207,16 @@ export const CoffeeSetupScreen: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [coffeeFormData, initializeSession, sessionType, handleContinue]);
+  }, [
+    coffeeFormData,
+    initializeSession,
+    isLibraryCoffee,
+    libraryCoffee,
+    isCoffeeList,
+    handleContinue,
+  ]);
 
-  // Continue with multiple coffees (multi-coffee mode)
+  // Continue with multiple coffees (multi-coffee and triangulation modes)
   const handleContinueMulti = useCallback(async () => {
     if (coffees.length === 0) {
       Alert.alert('No Coffees', 'Please add at least one coffee to continue.');
@@ -113,6 +225,20 @@ export const CoffeeSetupScreen: React.FC = () => {
 
     if (!sessionId) return;
 
+    if (sessionType === 'triangulation') {
+      if (coffees.length !== TRIANGLE_COFFEES) {
+        Alert.alert('Two Coffees', 'A triangle test compares exactly two coffees.');
+        return;
+      }
+      navigation.navigate('TriangleTest', { sessionId });
+      return;
+    }
+
+    if (group) {
+      navigation.navigate('GroupScoring', { sessionId });
+      return;
+    }
+
     try {
       // Fetch the session to get the first coffee's cup ID
       const session = await sessionService.getSession(sessionId);
@@ -130,7 +256,7 @@ export const CoffeeSetupScreen: React.FC = () => {
       console.error('[CoffeeSetup] Error fetching session:', error);
       Alert.alert('Error', 'Failed to proceed. Please try again.');
     }
-  }, [coffees, sessionId, navigation]);
+  }, [coffees, sessionId, sessionType, group, navigation]);
 
   const getInstructions = (type: SessionType): string => {
     switch (type) {
@@ -140,6 +266,8 @@ export const CoffeeSetupScreen: React.FC = () => {
         return 'Add multiple coffees to compare side-by-side';
       case 'table-cupping':
         return 'Add coffee details for professional table cupping (5 cups)';
+      case 'triangulation':
+        return 'Add the two coffees to tell apart; each set pours two cups of one and one of the other';
       default:
         return '';
     }
@@ -167,8 +295,8 @@ export const CoffeeSetupScreen: React.FC = () => {
           <Text style={styles.subtitle}>{getInstructions(sessionType)}</Text>
         </View>
 
-        {/* Added Coffees List (for multi-coffee) */}
-        {sessionType === 'multi-coffee' && coffees.length > 0 && (
+        {/* Added Coffees List (for multi-coffee and triangulation) */}
+        {isCoffeeList && coffees.length > 0 && (
           <View style={styles.coffeesList}>
             <Text style={styles.coffeesListTitle}>
               Added Coffees ({coffees.length})
@@ -176,29 +304,56 @@ export const CoffeeSetupScreen: React.FC = () => {
             {coffees.map((coffee, index) => (
               <View key={coffee.id} style={styles.coffeeItem}>
                 <Text style={styles.coffeeItemText}>
-                  {index + 1}. {coffee.name}
+                  {coffee.blindCode
+                    ? `${formatBlindCode(coffee.blindCode)} · ${coffee.name}`
+                    : `${index + 1}. ${coffee.name}`}
                 </Text>
               </View>
             ))}
           </View>
         )}
 
+        {/* Blind session notice */}
+        {blindCoding && (
+          <View style={styles.libraryBanner}>
+            <Text style={styles.libraryBannerText}>{BLIND_NOTICE}</Text>
+          </View>
+        )}
+
+        {/* Library Coffee Indicator */}
+        {isLibraryCoffee && libraryCoffee && (
+          <View style={styles.libraryBanner}>
+            <Text style={styles.libraryBannerText}>
+              From your coffee library
+              {libraryCoffee.sessionCount > 0
+                ? ` • Tasted ${libraryCoffee.sessionCount} time${
+                    libraryCoffee.sessionCount !== 1 ? 's' : ''
+                  } before`
+                : ''}
+            </Text>
+          </View>
+        )}
+
         {/* Coffee Metadata Form */}
         <CoffeeMetadataForm
+          key={formKey}
           initialValues={coffeeFormData}
           onChange={setCoffeeFormData}
           disabled={isSaving}
+          suggestions={isLibraryCoffee ? [] : suggestions}
+          onSelectSuggestion={handleSelectLibraryCoffee}
         />
       </ScrollView>
 
       {/* Actions */}
       <View style={styles.actions}>
-        {sessionType === 'multi-coffee' ? (
+        {isCoffeeList ? (
           <>
             <Button
               title="Add Coffee"
               onPress={handleAddCoffee}
               loading={isSaving}
+              disabled={sessionType === 'triangulation' && coffees.length >= TRIANGLE_COFFEES}
               variant="secondary"
               style={styles.addButton}
             />
@@ -266,6 +421,19 @@ const styles = StyleSheet.create({
     ...typography.body,
     color: colors.text.secondary,
   },
+  libraryBanner: {
+    marginBottom: spacing.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: spacing.sm,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
+  libraryBannerText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
   actions: {
     flexDirection: 'row',
     padding: spacing.lg,
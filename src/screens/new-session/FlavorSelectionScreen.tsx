@@ -12,6 +12,7 @@ import type { FlavorSelectionRouteProp, NewSessionNavigationProp } from '../../n
 import { FlavorWheel, FlavorDetailPanel, useFlavorWheel } from '../../components/flavor-wheel';
 import { Button } from '../../components';
 import { sessionService } from '../../services/sessionService';
+import type { SessionMode, ScoringProtocol } from '../../types/session.types';
 import { colors, spacing } from '../../theme';
 
 export const FlavorSelectionScreen: React.FC = () => {
@@ -21,6 +22,8 @@ export const FlavorSelectionScreen: React.FC = () => {
 
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [mode, setMode] = useState<SessionMode>('taste');
+  const [protocol, setProtocol] = useState<ScoringProtocol | null>(null);
 
   const {
     selectedFlavors,
@@ -38,7 +41,11 @@ export const FlavorSelectionScreen: React.FC = () => {
     const loadFlavors = async () => {
       try {
         setIsLoading(true);
-        await sessionService.getSession(sessionId);
+        const session = await sessionService.getSession(sessionId);
+        if (session) {
+          setMode(session.mode);
+          setProtocol(session.protocol ?? null);
+        }
         // TODO: Load cup flavors from session and set as initial selection
         // For now, just mark as loaded
       } catch (error) {
@@ -58,14 +65,20 @@ export const FlavorSelectionScreen: React.FC = () => {
       // Save flavors to cup
       await sessionService.updateCupFlavors(cupId, selectedFlavors);
 
-      // Navigate to structure scoring
-      navigation.navigate('StructureScoring', { sessionId, coffeeId: _coffeeId, cupId });
+      // Pro sessions are scored on the protocol's forms, taste sessions on structure
+      if (mode === 'pro' && protocol === 'cva') {
+        navigation.navigate('CVAScoring', { sessionId, coffeeId: _coffeeId, cupId });
+      } else if (mode === 'pro') {
+        navigation.navigate('SCAScoring', { sessionId, coffeeId: _coffeeId });
+      } else {
+        navigation.navigate('StructureScoring', { sessionId, coffeeId: _coffeeId, cupId });
+      }
     } catch (error) {
       console.error('[FlavorSelection] Error saving flavors:', error);
     } finally {
       setIsSaving(false);
     }
-  }, [cupId, selectedFlavors, navigation, sessionId, _coffeeId]);
+  }, [cupId, selectedFlavors, navigation, sessionId, _coffeeId, mode, protocol]);
 
   if (isLoading) {
     return (
@@ -0,0 +1,499 @@
+/**
+ * Group Scoring Screen
+ *
+ * Runs a group cupping session on one shared device. The tasters are
+ * picked first (or added as new profiles), in the order the device is
+ * handed around. Each taster then scores every cup in private: the screen
+ * shows only their own draft, and other tasters' scores stay hidden until
+ * everyone has submitted. Once the group is complete each coffee's scores
+ * are shown per taster with the group mean and spread.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import type { GroupScoringRouteProp, NewSessionNavigationProp } from '../../navigation/types';
+import type { CupScores, Session } from '../../types/session.types';
+import type { Taster, SessionTaster } from '../../types/taster.types';
+import type { ScoringTemplate } from '../../types/template.types';
+import { ScoreSlider, Button, LoadingSpinner, Divider, TextInput } from '../../components';
+import { DescriptorPicker } from '../../components/CVAForm';
+import { GroupScoresTable } from '../../components/GroupScores';
+import { sessionService } from '../../services/sessionService';
+import { tasterService } from '../../services/tasterService';
+import { templateService } from '../../services/templateService';
+import { sealSession } from '../../utils/blind';
+import { createDefaultScores, getScaleValues } from '../../utils/scoringTemplates';
+import { MIN_GROUP_TASTERS, getNextTaster, isGroupComplete } from '../../utils/groupCupping';
+import { handleError } from '../../utils/errorHandling';
+import { colors, typography, spacing } from '../../theme';
+
+// Flavors a taster can note per cup, recorded at medium intensity
+const GROUP_MAX_FLAVORS = 5;
+const GROUP_FLAVOR_INTENSITY = 3;
+
+/**
+ * A taster's unsubmitted scores for one cup
+ */
+interface CupDraft {
+  ratings: CupScores;
+  flavorIds: number[];
+}
+
+/**
+ * Cup being scored, with the name (or blind code) of its coffee
+ */
+interface ScoringCup {
+  cupId: string;
+  coffeeName: string;
+  position: number;
+  cupCount: number; // Cups of the coffee
+}
+
+function getScoringCups(session: Session): ScoringCup[] {
+  return sealSession(session).coffees.flatMap(coffee =>
+    coffee.cups.map(cup => ({
+      cupId: cup.cupId,
+      coffeeName: coffee.name,
+      position: cup.position,
+      cupCount: coffee.cups.length,
+    }))
+  );
+}
+
+export const GroupScoringScreen: React.FC = () => {
+  const route = useRoute<GroupScoringRouteProp>();
+  const navigation = useNavigation<NewSessionNavigationProp>();
+  const { sessionId } = route.params;
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [template, setTemplate] = useState<ScoringTemplate>(() =>
+    templateService.getDefaultTemplate()
+  );
+
+  // Taster setup
+  const [profiles, setProfiles] = useState<Taster[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [newName, setNewName] = useState('');
+
+  // Private scoring of the taster holding the device
+  const [activeTaster, setActiveTaster] = useState<SessionTaster | null>(null);
+  const [cupIndex, setCupIndex] = useState(0);
+  const [drafts, setDrafts] = useState<Record<string, CupDraft>>({});
+
+  const loadSession = useCallback(async () => {
+    const loaded = await sessionService.getSession(sessionId);
+    setSession(loaded);
+    if (loaded) {
+      setTemplate(templateService.getTemplateOrDefault(loaded.templateId));
+    }
+    return loaded;
+  }, [sessionId]);
+
+  // Load the session, and the taster profiles until the group is picked
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const loaded = await loadSession();
+        if (loaded && loaded.tasters.length === 0) {
+          setProfiles(await tasterService.getTasters());
+        }
+      } catch (error) {
+        handleError(error, 'GroupScoringScreen.load');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [loadSession]);
+
+  const toggleProfile = useCallback((tasterId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(tasterId) ? prev.filter(id => id !== tasterId) : [...prev, tasterId]
+    );
+  }, []);
+
+  const handleAddTaster = useCallback(async () => {
+    try {
+      const taster = await tasterService.createTaster(newName);
+      setProfiles(prev => [...prev, taster]);
+      setSelectedIds(prev => [...prev, taster.id]);
+      setNewName('');
+    } catch (error) {
+      const errorMessage = handleError(error, 'GroupScoringScreen.handleAddTaster');
+      Alert.alert('Error', errorMessage);
+    }
+  }, [newName]);
+
+  // Tasters are handed the device in the order they were picked
+  const handleStart = useCallback(async () => {
+    try {
+      setIsSaving(true);
+      await sessionService.setSessionTasters(sessionId, selectedIds);
+      await loadSession();
+    } catch (error) {
+      const errorMessage = handleError(error, 'GroupScoringScreen.handleStart');
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [sessionId, selectedIds, loadSession]);
+
+  const handleBeginScoring = useCallback(
+    (taster: SessionTaster) => {
+      if (!session) return;
+      const initial: Record<string, CupDraft> = {};
+      for (const cup of getScoringCups(session)) {
+        initial[cup.cupId] = { ratings: createDefaultScores(template), flavorIds: [] };
+      }
+      setDrafts(initial);
+      setCupIndex(0);
+      setActiveTaster(taster);
+    },
+    [session, template]
+  );
+
+  const updateDraft = useCallback((cupId: string, update: Partial<CupDraft>) => {
+    setDrafts(prev => ({ ...prev, [cupId]: { ...prev[cupId], ...update } }));
+  }, []);
+
+  // Submitting is final; the drafts are cleared before the device is passed on
+  const handleSubmit = useCallback(async () => {
+    if (!activeTaster) return;
+
+    try {
+      setIsSaving(true);
+      await sessionService.submitTasterScores(
+        sessionId,
+        activeTaster.tasterId,
+        Object.entries(drafts).map(([cupId, draft]) => ({
+          cupId,
+          ratings: draft.ratings,
+          flavors: draft.flavorIds.map(flavorId => ({
+            flavorId,
+            intensity: GROUP_FLAVOR_INTENSITY,
+            dominant: false,
+          })),
+        }))
+      );
+      setActiveTaster(null);
+      setDrafts({});
+      await loadSession();
+    } catch (error) {
+      const errorMessage = handleError(error, 'GroupScoringScreen.handleSubmit');
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [sessionId, activeTaster, drafts, loadSession]);
+
+  const confirmSubmit = useCallback(() => {
+    Alert.alert('Submit Scores', 'Your scores cannot be changed after submitting.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Submit', onPress: handleSubmit },
+    ]);
+  }, [handleSubmit]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner message="Loading session..." fullScreen />
+      </SafeAreaView>
+    );
+  }
+
+  if (!session) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.subtitle}>Session not found</Text>
+      </SafeAreaView>
+    );
+  }
+
+  // Pick the group
+  if (session.tasters.length === 0) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>Who is cupping?</Text>
+            <Text style={styles.subtitle}>
+              Pick at least {MIN_GROUP_TASTERS} tasters in the order the device is handed around.
+            </Text>
+          </View>
+
+          {profiles.map(profile => {
+            const order = selectedIds.indexOf(profile.id);
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={[styles.tasterRow, order >= 0 && styles.tasterRowSelected]}
+                onPress={() => toggleProfile(profile.id)}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: order >= 0 }}
+              >
+                <Text style={styles.tasterName}>{profile.name}</Text>
+                <Text style={styles.tasterStatus}>{order >= 0 ? `#${order + 1}` : ''}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <Divider spacing="medium" />
+
+          <TextInput
+            label="New taster"
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="Name"
+            onSubmitEditing={handleAddTaster}
+          />
+          <Button
+            title="Add Taster"
+            onPress={handleAddTaster}
+            variant="secondary"
+            disabled={!newName.trim()}
+          />
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button
+            title="Start Cupping"
+            onPress={handleStart}
+            loading={isSaving}
+            disabled={selectedIds.length < MIN_GROUP_TASTERS}
+            fullWidth
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Private scoring of the taster holding the device
+  if (activeTaster) {
+    const cups = getScoringCups(session);
+    const cup = cups[cupIndex];
+    const draft = drafts[cup.cupId];
+    const isLastCup = cupIndex === cups.length - 1;
+
+    return (
+      <SafeAreaView style={styles.container}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {cup.coffeeName}
+              {cup.cupCount > 1 ? ` · Cup ${cup.position}` : ''}
+            </Text>
+            <Text style={styles.subtitle}>
+              {activeTaster.name} · {cupIndex + 1} of {cups.length}
+            </Text>
+          </View>
+
+          {template.attributes.map((attribute, index) => (
+            <View key={attribute.key}>
+              <ScoreSlider
+                label={attribute.label}
+                leftLabel={attribute.leftLabel}
+                rightLabel={attribute.rightLabel}
+                values={getScaleValues(template.scale)}
+                helpText={attribute.helpText}
+                value={draft.ratings[attribute.key] ?? template.defaultScore}
+                onChange={value =>
+                  updateDraft(cup.cupId, { ratings: { ...draft.ratings, [attribute.key]: value } })
+                }
+              />
+              {index < template.attributes.length - 1 && <Divider spacing="medium" />}
+            </View>
+          ))}
+
+          <Divider spacing="medium" />
+
+          <DescriptorPicker
+            label="Flavors"
+            selectedIds={draft.flavorIds}
+            onChange={flavorIds => updateDraft(cup.cupId, { flavorIds })}
+            maxSelections={GROUP_MAX_FLAVORS}
+            disabled={isSaving}
+          />
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button
+            title="Back"
+            onPress={() => setCupIndex(index => index - 1)}
+            variant="secondary"
+            disabled={cupIndex === 0 || isSaving}
+            style={styles.actionButton}
+          />
+          {isLastCup ? (
+            <Button
+              title="Submit"
+              onPress={confirmSubmit}
+              loading={isSaving}
+              style={styles.actionButton}
+            />
+          ) : (
+            <Button
+              title="Next Cup"
+              onPress={() => setCupIndex(index => index + 1)}
+              style={styles.actionButton}
+            />
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const nextTaster = getNextTaster(session.tasters);
+  const isComplete = isGroupComplete(session);
+  const tastersInOrder = [...session.tasters].sort((a, b) => a.position - b.position);
+
+  // Hand-around status, and the group's scores once everyone has submitted
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            {nextTaster ? `Hand the device to ${nextTaster.name}` : 'Everyone has submitted'}
+          </Text>
+          <Text style={styles.subtitle}>
+            {nextTaster
+              ? 'Scores stay private until every taster has submitted.'
+              : 'Group means are saved as the cup scores.'}
+          </Text>
+        </View>
+
+        {tastersInOrder.map(taster => (
+          <View key={taster.tasterId} style={styles.tasterRow}>
+            <Text style={styles.tasterName}>
+              {taster.position}. {taster.name}
+            </Text>
+            <Text style={[styles.tasterStatus, !!taster.submittedAt && styles.tasterSubmitted]}>
+              {taster.submittedAt ? '✓ Submitted' : 'Waiting'}
+            </Text>
+          </View>
+        ))}
+
+        {isComplete &&
+          sealSession(session).coffees.map(coffee => (
+            <View key={coffee.coffeeId} style={styles.groupCard}>
+              <Text style={styles.sectionTitle}>{coffee.name}</Text>
+              <GroupScoresTable template={template} cups={coffee.cups} tasters={session.tasters} />
+            </View>
+          ))}
+      </ScrollView>
+
+      <View style={styles.actions}>
+        {nextTaster ? (
+          <Button
+            title={`Start as ${nextTaster.name}`}
+            onPress={() => handleBeginScoring(nextTaster)}
+            fullWidth
+          />
+        ) : (
+          <Button
+            title="Finish"
+            onPress={() => navigation.navigate('SessionTypeSelect')}
+            fullWidth
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  title: {
+    ...typography.heading2,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  tasterRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  tasterRowSelected: {
+    borderColor: colors.primary,
+  },
+  tasterName: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  tasterStatus: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+  },
+  tasterSubmitted: {
+    color: colors.success,
+  },
+  groupCard: {
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  actions: {
+    flexDirection: 'row',
+    padding: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.surface,
+    gap: spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
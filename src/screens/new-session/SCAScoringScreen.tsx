@@ -0,0 +1,373 @@
+/**
+ * SCA Scoring Screen
+ *
+ * SCA cupping form for pro sessions, replacing the 1-5 structure scoring.
+ * Quality attributes use quarter points from 6.00 to 10.00; uniformity,
+ * clean cup and sweetness are marked per cup; taints and faults, tallied on
+ * the form or recorded as defects on the coffee's cups, are subtracted as
+ * cups × intensity. The final score updates live.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, SafeAreaView } from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import type { SCAScoringRouteProp } from '../../navigation/types';
+import type { SCAForm } from '../../types/session.types';
+import type { CupDefect } from '../../types/defect.types';
+import { Button, LoadingSpinner, Divider, TextInput } from '../../components';
+import { SCAScoreStepper, IntensityScale, CupChecks } from '../../components/SCAForm';
+import { DefectEditor } from '../../components/Defects';
+import { sessionService } from '../../services/sessionService';
+import {
+  SCA_CUPS,
+  SCA_CUP_CHECKS,
+  SCA_DEFECT_INTENSITY,
+  calculateSCAScore,
+  createDefaultSCAForm,
+  getSCAQualityLabel,
+} from '../../utils/scoring';
+import { sealSession } from '../../utils/blind';
+import { colors, typography, spacing } from '../../theme';
+
+interface CupDefects {
+  cupId: string;
+  position: number;
+  defects: CupDefect[];
+}
+
+export const SCAScoringScreen: React.FC = () => {
+  const route = useRoute<SCAScoringRouteProp>();
+  const navigation = useNavigation();
+  const { sessionId, coffeeId } = route.params;
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [coffeeName, setCoffeeName] = useState('');
+  const [form, setForm] = useState<SCAForm>(createDefaultSCAForm);
+  const [cups, setCups] = useState<CupDefects[]>([]);
+
+  // Load an existing form for this coffee
+  useEffect(() => {
+    const loadForm = async () => {
+      try {
+        setIsLoading(true);
+        const session = await sessionService.getSession(sessionId);
+        // Sealed blind sessions show the coffee's code instead of its name
+        const coffee = session && sealSession(session).coffees.find(c => c.coffeeId === coffeeId);
+        if (coffee) {
+          setCoffeeName(coffee.name);
+          if (coffee.scaForm) {
+            setForm(coffee.scaForm);
+          }
+          setCups(
+            coffee.cups.map(({ cupId, position, defects }) => ({ cupId, position, defects }))
+          );
+        }
+      } catch (error) {
+        console.error('[SCAScoring] Error loading form:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadForm();
+  }, [sessionId, coffeeId]);
+
+  const updateForm = useCallback(<K extends keyof SCAForm>(key: K, value: SCAForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  }, []);
+
+  const updateCupDefects = useCallback((cupId: string, defects: CupDefect[]) => {
+    setCups(prev => prev.map(cup => (cup.cupId === cupId ? { ...cup, defects } : cup)));
+  }, []);
+
+  // Save form and cup defects and return
+  const handleSave = useCallback(async () => {
+    try {
+      setIsSaving(true);
+      await sessionService.updateSCAForm(coffeeId, form);
+      for (const cup of cups) {
+        await sessionService.updateCupDefects(cup.cupId, cup.defects);
+      }
+      navigation.goBack();
+    } catch (error) {
+      console.error('[SCAScoring] Error saving form:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [coffeeId, form, cups, navigation]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner message="Loading cupping form..." fullScreen />
+      </SafeAreaView>
+    );
+  }
+
+  const { totalScore, defects, finalScore } = calculateSCAScore(
+    form,
+    cups.flatMap(cup => cup.defects)
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>SCA Cupping Form</Text>
+          <Text style={styles.subtitle}>
+            {coffeeName ? `${coffeeName} • ` : ''}Score 6.00 to 10.00 in quarter points
+          </Text>
+        </View>
+
+        {/* Fragrance / Aroma */}
+        <View style={styles.section}>
+          <SCAScoreStepper
+            label="Fragrance/Aroma"
+            value={form.fragranceAroma}
+            onChange={value => updateForm('fragranceAroma', value)}
+          />
+          <IntensityScale
+            label="Dry"
+            min={0}
+            value={form.dryIntensity}
+            onChange={value => updateForm('dryIntensity', value)}
+          />
+          <IntensityScale
+            label="Break"
+            min={0}
+            value={form.breakIntensity}
+            onChange={value => updateForm('breakIntensity', value)}
+          />
+        </View>
+
+        <Divider spacing="medium" />
+
+        <View style={styles.section}>
+          <SCAScoreStepper
+            label="Flavor"
+            value={form.flavor}
+            onChange={value => updateForm('flavor', value)}
+          />
+          <SCAScoreStepper
+            label="Aftertaste"
+            value={form.aftertaste}
+            onChange={value => updateForm('aftertaste', value)}
+          />
+        </View>
+
+        <Divider spacing="medium" />
+
+        {/* Acidity and body carry a descriptive mark that does not affect the score */}
+        <View style={styles.section}>
+          <SCAScoreStepper
+            label="Acidity"
+            value={form.acidity}
+            onChange={value => updateForm('acidity', value)}
+          />
+          <IntensityScale
+            label="Intensity"
+            value={form.acidityIntensity}
+            onChange={value => updateForm('acidityIntensity', value)}
+            lowLabel="Low"
+            highLabel="High"
+          />
+          <SCAScoreStepper
+            label="Body"
+            value={form.body}
+            onChange={value => updateForm('body', value)}
+          />
+          <IntensityScale
+            label="Level"
+            value={form.bodyLevel}
+            onChange={value => updateForm('bodyLevel', value)}
+            lowLabel="Thin"
+            highLabel="Heavy"
+          />
+        </View>
+
+        <Divider spacing="medium" />
+
+        <View style={styles.section}>
+          <SCAScoreStepper
+            label="Balance"
+            value={form.balance}
+            onChange={value => updateForm('balance', value)}
+          />
+        </View>
+
+        <Divider spacing="medium" />
+
+        {/* Per-cup checks */}
+        <View style={styles.section}>
+          {SCA_CUP_CHECKS.map(({ key, label }) => (
+            <CupChecks
+              key={key}
+              label={label}
+              cups={form[key]}
+              onChange={cups => updateForm(key, cups)}
+            />
+          ))}
+        </View>
+
+        <Divider spacing="medium" />
+
+        <View style={styles.section}>
+          <SCAScoreStepper
+            label="Overall"
+            value={form.overall}
+            onChange={value => updateForm('overall', value)}
+          />
+        </View>
+
+        <Divider spacing="medium" />
+
+        {/* Defects */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Defects</Text>
+          <IntensityScale
+            label={`Taint cups (intensity ${SCA_DEFECT_INTENSITY.taint})`}
+            min={0}
+            max={SCA_CUPS}
+            value={form.taintCups}
+            onChange={value => updateForm('taintCups', value)}
+          />
+          <IntensityScale
+            label={`Fault cups (intensity ${SCA_DEFECT_INTENSITY.fault})`}
+            min={0}
+            max={SCA_CUPS}
+            value={form.faultCups}
+            onChange={value => updateForm('faultCups', value)}
+          />
+          <Text style={styles.sectionHint}>
+            Tally defects here, or record them on the cups below to keep their type
+          </Text>
+        </View>
+
+        {cups.map(cup => (
+          <View key={cup.cupId} style={styles.cupDefects}>
+            <DefectEditor
+              title={cups.length > 1 ? `Cup ${cup.position} Defects` : 'Cup Defects'}
+              defects={cup.defects}
+              onChange={defects => updateCupDefects(cup.cupId, defects)}
+            />
+          </View>
+        ))}
+
+        <Divider spacing="medium" />
+
+        <TextInput
+          label="Cupping Notes"
+          value={form.notes || ''}
+          onChangeText={text => updateForm('notes', text)}
+          placeholder="Defect descriptions, cup notes..."
+          multiline
+          numberOfLines={3}
+        />
+
+        {/* Score Summary */}
+        <View style={styles.summary}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Total Score</Text>
+            <Text style={styles.summaryValue}>{totalScore.toFixed(2)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Defects</Text>
+            <Text style={styles.summaryValue}>−{defects}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Final Score</Text>
+            <Text style={styles.finalValue}>{finalScore.toFixed(2)}</Text>
+          </View>
+          <Text style={styles.qualityLabel}>{getSCAQualityLabel(finalScore)}</Text>
+        </View>
+      </ScrollView>
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        <Button title="Save & Continue" onPress={handleSave} loading={isSaving} fullWidth />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  title: {
+    ...typography.heading2,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  section: {
+    gap: spacing.xs,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+  },
+  sectionHint: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  cupDefects: {
+    marginTop: spacing.md,
+  },
+  summary: {
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  summaryLabel: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  summaryValue: {
+    ...typography.heading4,
+    color: colors.text.primary,
+  },
+  finalValue: {
+    ...typography.heading2,
+    color: colors.primary,
+  },
+  qualityLabel: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    textAlign: 'right',
+  },
+  actions: {
+    padding: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+});
@@ -3,6 +3,8 @@
  *
  * Final screen in session flow showing complete session overview.
  * Displays coffee metadata, radar chart, flavor chips, and action buttons.
+ * A blind session shows its coffees by code until they are revealed here.
+ * A group session shows each taster's scores once everyone has submitted.
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -23,9 +25,17 @@ import type { Session } from '../../types/session.types';
 import { Button, Card, LoadingSpinner, Divider } from '../../components';
 import { RadarChart } from '../../components/SessionSummary/RadarChart';
 import { FlavorChips } from '../../components/SessionSummary/FlavorChips';
+import { SCAScoreCard } from '../../components/SCAForm';
+import { CVAScoreCard } from '../../components/CVAForm';
+import { GroupScoresTable } from '../../components/GroupScores';
 import { sessionService } from '../../services/sessionService';
 import { analyticsService } from '../../services/analyticsService';
 import type { SessionStats } from '../../services/analyticsService';
+import { templateService } from '../../services/templateService';
+import { computeTemplateTotal, getMaxTotal } from '../../utils/scoringTemplates';
+import { formatBlindCode, hasSightedEdits, isSealed, sealSession } from '../../utils/blind';
+import { isGroupComplete } from '../../utils/groupCupping';
+import { handleError } from '../../utils/errorHandling';
 import { colors, typography, spacing } from '../../theme';
 
 export const SessionSummaryScreen: React.FC = () => {
@@ -38,6 +48,7 @@ export const SessionSummaryScreen: React.FC = () => {
   const [showSCAScores, setShowSCAScores] = useState(false);
   const [loading, setLoading] = useState(true);
   const [duplicating, setDuplicating] = useState(false);
+  const [revealing, setRevealing] = useState(false);
 
   useEffect(() => {
     loadSession();
@@ -97,6 +108,30 @@ export const SessionSummaryScreen: React.FC = () => {
     }
   }, [session, sessionId, navigation]);
 
+  const handleReveal = useCallback(() => {
+    Alert.alert(
+      'Reveal Coffees',
+      'Show the names behind the blind codes? This cannot be undone. Scores changed after the reveal are marked as sighted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reveal',
+          onPress: async () => {
+            try {
+              setRevealing(true);
+              await sessionService.revealSession(sessionId);
+              setSession(await sessionService.getSession(sessionId));
+            } catch (error) {
+              Alert.alert('Error', handleError(error, 'SessionSummary.handleReveal'));
+            } finally {
+              setRevealing(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [sessionId]);
+
   const handleFinish = useCallback(() => {
     // Navigate to history/home
     Alert.alert(
@@ -126,7 +161,9 @@ export const SessionSummaryScreen: React.FC = () => {
     );
   }
 
-  const coffee = session.coffees[0];
+  // Sealed blind sessions show each coffee by its code only
+  const sealed = isSealed(session);
+  const coffee = sealSession(session).coffees[0];
   const cup = coffee?.cups[0];
 
   if (!coffee || !cup) {
@@ -140,17 +177,15 @@ export const SessionSummaryScreen: React.FC = () => {
     );
   }
 
-  // Calculate total score
-  const totalScore =
-    (cup.ratings.acidity || 0) +
-    (cup.ratings.sweetness || 0) +
-    (cup.ratings.body || 0) +
-    (cup.ratings.clarity || 0) +
-    (cup.ratings.finish || 0) +
-    (cup.ratings.enjoyment || 0);
+  // Calculate total score on the session template; the SCA view (templates
+  // with an SCA offset only) shifts every scored attribute onto 6-10
+  const template = templateService.getTemplateOrDefault(session.templateId);
+  const scaOffset = showSCAScores ? (template.scaOffset ?? 0) : 0;
+  const scoredAttributes = template.attributes.filter(a => cup.ratings[a.key] !== undefined);
+  const totalScore = computeTemplateTotal(template, cup.ratings) ?? 0;
 
-  const scaTotal = showSCAScores ? totalScore + 30 : totalScore;
-  const maxScore = showSCAScores ? 60 : 30;
+  const scaTotal = totalScore + scaOffset * scoredAttributes.length;
+  const maxScore = getMaxTotal(template) + scaOffset * template.attributes.length;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -167,6 +202,47 @@ export const SessionSummaryScreen: React.FC = () => {
           </Text>
         </View>
 
+        {/* Blind session */}
+        {session.blindCoding && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Blind Session</Text>
+            {sealed ? (
+              <>
+                <Text style={styles.metadata}>
+                  Coffees are shown by their codes. Reveal them once every coffee is scored.
+                </Text>
+                <Button
+                  title="Reveal Coffees"
+                  onPress={handleReveal}
+                  loading={revealing}
+                  style={styles.revealButton}
+                />
+              </>
+            ) : (
+              <>
+                {session.revealedAt && (
+                  <Text style={styles.metadata}>
+                    Revealed {new Date(session.revealedAt).toLocaleString()}
+                  </Text>
+                )}
+                {session.coffees
+                  .filter(c => c.blindCode)
+                  .map(c => (
+                    <Text key={c.coffeeId} style={styles.revealRow}>
+                      {formatBlindCode(c.blindCode as string)} → {c.name}
+                      {c.roaster ? ` (${c.roaster})` : ''}
+                    </Text>
+                  ))}
+                {hasSightedEdits(session) && (
+                  <Text style={styles.sightedNote}>
+                    Edited after the reveal: some scores were not given blind.
+                  </Text>
+                )}
+              </>
+            )}
+          </Card>
+        )}
+
         {/* Coffee Metadata */}
         <Card style={styles.section}>
           <Text style={styles.sectionTitle}>{coffee.name}</Text>
@@ -201,42 +277,38 @@ export const SessionSummaryScreen: React.FC = () => {
         {/* Structural Scores */}
         <Card style={styles.section}>
           <View style={styles.chartHeader}>
-            <Text style={styles.sectionTitle}>Structural Profile</Text>
-            <Button
-              title={showSCAScores ? '1-5 Scale' : 'SCA Scale'}
-              onPress={() => setShowSCAScores(!showSCAScores)}
-              variant="secondary"
-              size="small"
-            />
+            <Text style={styles.sectionTitle}>{template.name} Profile</Text>
+            {template.scaOffset !== undefined && (
+              <Button
+                title={
+                  showSCAScores ? `${template.scale.min}-${template.scale.max} Scale` : 'SCA Scale'
+                }
+                onPress={() => setShowSCAScores(!showSCAScores)}
+                variant="secondary"
+                size="small"
+              />
+            )}
           </View>
 
-          <RadarChart
-            scores={cup.ratings}
-            showSCAScores={showSCAScores}
-            size={260}
-          />
+          <RadarChart scores={cup.ratings} template={template} size={260} />
 
           <View style={styles.totalScore}>
             <Text style={styles.totalScoreLabel}>Total Score</Text>
             <Text style={styles.totalScoreValue}>
-              {scaTotal} / {maxScore}
+              {Math.round(scaTotal * 10) / 10} / {maxScore}
             </Text>
           </View>
 
           <Divider spacing="medium" />
 
           {/* Score breakdown */}
-          {Object.entries(cup.ratings).map(([attr, value]) => {
-            if (attr === 'enjoyment' && !value) return null;
-
-            const displayValue = showSCAScores ? (value || 0) + 5 : value || 0;
-            const maxValue = showSCAScores ? 10 : 5;
+          {scoredAttributes.map(attribute => {
+            const displayValue = cup.ratings[attribute.key] + scaOffset;
+            const maxValue = template.scale.max + scaOffset;
 
             return (
-              <View key={attr} style={styles.scoreRow}>
-                <Text style={styles.scoreLabel}>
-                  {attr.charAt(0).toUpperCase() + attr.slice(1)}
-                </Text>
+              <View key={attribute.key} style={styles.scoreRow}>
+                <Text style={styles.scoreLabel}>{attribute.shortLabel ?? attribute.label}</Text>
                 <View style={styles.scoreBar}>
                   <View
                     style={[
@@ -251,6 +323,31 @@ export const SessionSummaryScreen: React.FC = () => {
           })}
         </Card>
 
+        {/* Each taster's scores (group sessions, once complete) */}
+        {isGroupComplete(session) && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Group Scores</Text>
+            <GroupScoresTable template={template} cups={coffee.cups} tasters={session.tasters} />
+          </Card>
+        )}
+
+        {/* SCA Cupping Form (pro sessions) */}
+        {coffee.scaForm && (
+          <Card style={styles.section}>
+            <SCAScoreCard
+              form={coffee.scaForm}
+              cupDefects={coffee.cups.flatMap(cup => cup.defects)}
+            />
+          </Card>
+        )}
+
+        {/* CVA forms (CVA sessions) */}
+        {coffee.cups.some(cup => cup.cvaDescriptive || cup.cvaAffective) && (
+          <Card style={styles.section}>
+            <CVAScoreCard cups={coffee.cups} />
+          </Card>
+        )}
+
         {/* Session Notes */}
         {session.notes && (
           <Card style={styles.section}>
@@ -354,6 +451,19 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     marginBottom: spacing.xs,
   },
+  revealButton: {
+    marginTop: spacing.md,
+  },
+  revealRow: {
+    ...typography.body,
+    color: colors.text.primary,
+    marginTop: spacing.xs,
+  },
+  sightedNote: {
+    ...typography.bodySmall,
+    color: colors.warning,
+    marginTop: spacing.md,
+  },
   flavorCount: {
     ...typography.bodySmall,
     color: colors.text.tertiary,
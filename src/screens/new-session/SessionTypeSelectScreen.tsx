@@ -2,15 +2,27 @@
  * Session Type Select Screen
  *
  * First step in creating a new tasting session.
- * User selects session type: single-coffee, multi-coffee, or table-cupping.
+ * User selects session type: single-coffee, multi-coffee, table-cupping or a
+ * triangle test, and the scoring mode: taste (1-5 structure) or pro with the SCA cupping form
+ * or the CVA descriptive and affective forms. When more than one scoring
+ * template is registered, the template of the cups' ratings is chosen too.
+ * A blind session hides each coffee behind a code until it is revealed.
+ * Taste sessions can be cupped by a group, handing one device around.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { NewSessionNavigationProp } from '../../navigation/types';
-import type { SessionType } from '../../types/session.types';
+import type {
+  SessionType,
+  SessionMode,
+  ScoringProtocol,
+  BlindCoding,
+} from '../../types/session.types';
 import { useSessionActions } from '../../store';
+import { templateService } from '../../services/templateService';
+import { DEFAULT_TEMPLATE_ID } from '../../utils/scoringTemplates';
 import { colors, typography, spacing } from '../../theme';
 
 interface SessionTypeOption {
@@ -35,15 +47,83 @@ const SESSION_TYPES: SessionTypeOption[] = [
     title: 'Table Cupping',
     description: 'Professional cupping with 5 cups per coffee',
   },
+  {
+    type: 'triangulation',
+    title: 'Triangle Test',
+    description: 'Find the odd cup out of three, over many sets',
+  },
+];
+
+interface SessionModeOption {
+  key: string;
+  mode: SessionMode;
+  protocol?: ScoringProtocol;
+  title: string;
+  description: string;
+}
+
+const SESSION_MODES: SessionModeOption[] = [
+  { key: 'taste', mode: 'taste', title: 'Taste', description: 'Flavors and 1-5 structure scores' },
+  {
+    key: 'sca',
+    mode: 'pro',
+    protocol: 'sca',
+    title: 'SCA',
+    description: 'Flavors and the SCA cupping form',
+  },
+  {
+    key: 'cva',
+    mode: 'pro',
+    protocol: 'cva',
+    title: 'CVA',
+    description: 'Descriptive and affective CVA forms',
+  },
+];
+
+interface BlindOption {
+  coding: BlindCoding | null;
+  title: string;
+  description: string;
+}
+
+const BLIND_OPTIONS: BlindOption[] = [
+  { coding: null, title: 'Sighted', description: 'Coffees shown by name' },
+  { coding: 'letters', title: 'Blind A-B-C', description: 'Coffees coded A, B, C…' },
+  { coding: 'digits', title: 'Blind 3-digit', description: 'Random codes like 482' },
+];
+
+interface TasterOption {
+  group: boolean;
+  title: string;
+  description: string;
+}
+
+const TASTER_OPTIONS: TasterOption[] = [
+  { group: false, title: 'Solo', description: 'One taster' },
+  { group: true, title: 'Group', description: 'Hand the device around' },
 ];
 
 export const SessionTypeSelectScreen: React.FC = () => {
   const navigation = useNavigation<NewSessionNavigationProp>();
   const { createSession } = useSessionActions();
+  const [selected, setSelected] = useState<SessionModeOption>(SESSION_MODES[0]);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [blindCoding, setBlindCoding] = useState<BlindCoding | null>(null);
+  const [group, setGroup] = useState(false);
+  const templates = templateService.getAllTemplates();
 
   const handleSelectType = async (type: SessionType) => {
-    await createSession(type);
-    navigation.navigate('CoffeeSetup', { sessionType: type });
+    const { mode, protocol } = selected;
+    await createSession(type, mode, protocol, templateId, blindCoding);
+    navigation.navigate('CoffeeSetup', {
+      sessionType: type,
+      mode,
+      protocol,
+      templateId,
+      blindCoding,
+      // Triangle tests are answered by one taster at a time
+      group: group && mode === 'taste' && type !== 'triangulation',
+    });
   };
 
   return (
@@ -51,6 +131,94 @@ export const SessionTypeSelectScreen: React.FC = () => {
       <Text style={styles.title}>Start New Tasting</Text>
       <Text style={styles.subtitle}>Choose your session type</Text>
 
+      {/* Scoring mode */}
+      <View style={styles.modeRow}>
+        {SESSION_MODES.map(option => {
+          const isSelected = option.key === selected.key;
+          return (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.modeOption, isSelected && styles.modeOptionSelected]}
+              onPress={() => setSelected(option)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Text style={[styles.modeTitle, isSelected && styles.modeTitleSelected]}>
+                {option.title}
+              </Text>
+              <Text style={styles.modeDescription}>{option.description}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Scoring template */}
+      {templates.length > 1 && (
+        <View style={styles.modeRow}>
+          {templates.map(template => {
+            const isSelected = template.id === templateId;
+            return (
+              <TouchableOpacity
+                key={template.id}
+                style={[styles.modeOption, isSelected && styles.modeOptionSelected]}
+                onPress={() => setTemplateId(template.id)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.modeTitle, isSelected && styles.modeTitleSelected]}>
+                  {template.name}
+                </Text>
+                <Text style={styles.modeDescription}>{template.description}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Blind cupping */}
+      <View style={styles.modeRow}>
+        {BLIND_OPTIONS.map(option => {
+          const isSelected = option.coding === blindCoding;
+          return (
+            <TouchableOpacity
+              key={option.coding ?? 'sighted'}
+              style={[styles.modeOption, isSelected && styles.modeOptionSelected]}
+              onPress={() => setBlindCoding(option.coding)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Text style={[styles.modeTitle, isSelected && styles.modeTitleSelected]}>
+                {option.title}
+              </Text>
+              <Text style={styles.modeDescription}>{option.description}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Group cupping */}
+      {selected.mode === 'taste' && (
+        <View style={styles.modeRow}>
+          {TASTER_OPTIONS.map(option => {
+            const isSelected = option.group === group;
+            return (
+              <TouchableOpacity
+                key={option.title}
+                style={[styles.modeOption, isSelected && styles.modeOptionSelected]}
+                onPress={() => setGroup(option.group)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.modeTitle, isSelected && styles.modeTitleSelected]}>
+                  {option.title}
+                </Text>
+                <Text style={styles.modeDescription}>{option.description}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
       {SESSION_TYPES.map(option => (
         <TouchableOpacity
           key={option.type}
@@ -81,6 +249,34 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     marginBottom: spacing.xl,
   },
+  modeRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginBottom: spacing.xl,
+  },
+  modeOption: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.md,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  modeOptionSelected: {
+    borderColor: colors.primary,
+  },
+  modeTitle: {
+    ...typography.bodyBold,
+    color: colors.text.secondary,
+    marginBottom: spacing.xs,
+  },
+  modeTitleSelected: {
+    color: colors.primary,
+  },
+  modeDescription: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
   optionCard: {
     backgroundColor: colors.surface,
     borderRadius: spacing.md,
@@ -1,72 +1,31 @@
 /**
  * Structure Scoring Screen
  *
- * Rate structural attributes (acidity, sweetness, body, clarity, finish, enjoyment).
- * Uses ScoreSlider components for 1-5 scale ratings.
+ * Rate the attributes of the session's scoring template (Cupper Classic:
+ * acidity, sweetness, body, clarity, finish, enjoyment).
+ * Uses ScoreSlider components on the template's scale. Defects found in
+ * the cup are recorded below the scores.
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, ScrollView, SafeAreaView } from 'react-native';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import type { StructureScoringRouteProp } from '../../navigation/types';
-import type { StructuralScores, ScoreValue } from '../../types/session.types';
+import type { CupScores } from '../../types/session.types';
+import type { ScoringTemplate } from '../../types/template.types';
+import type { CupDefect } from '../../types/defect.types';
 import { ScoreSlider, Button, LoadingSpinner, Divider } from '../../components';
+import { DefectEditor } from '../../components/Defects';
 import { sessionService } from '../../services/sessionService';
+import { templateService } from '../../services/templateService';
+import {
+  createDefaultScores,
+  computeTemplateTotal,
+  getMaxTotal,
+  getScaleValues,
+} from '../../utils/scoringTemplates';
 import { colors, typography, spacing } from '../../theme';
 
-interface ScoreAttribute {
-  key: keyof StructuralScores;
-  label: string;
-  leftLabel: string;
-  rightLabel: string;
-  description: string;
-}
-
-const SCORE_ATTRIBUTES: ScoreAttribute[] = [
-  {
-    key: 'acidity',
-    label: 'Acidity',
-    leftLabel: 'Flat',
-    rightLabel: 'Bright',
-    description: 'The brightness and liveliness of the coffee',
-  },
-  {
-    key: 'sweetness',
-    label: 'Sweetness',
-    leftLabel: 'Lacking',
-    rightLabel: 'Intense',
-    description: 'The natural sweetness and pleasant taste',
-  },
-  {
-    key: 'body',
-    label: 'Body',
-    leftLabel: 'Light',
-    rightLabel: 'Heavy',
-    description: 'The weight and texture in the mouth',
-  },
-  {
-    key: 'clarity',
-    label: 'Clarity',
-    leftLabel: 'Muddy',
-    rightLabel: 'Clear',
-    description: 'The cleanness and definition of flavors',
-  },
-  {
-    key: 'finish',
-    label: 'Finish',
-    leftLabel: 'Short',
-    rightLabel: 'Long',
-    description: 'How long the flavors linger after swallowing',
-  },
-  {
-    key: 'enjoyment',
-    label: 'Overall Enjoyment',
-    leftLabel: 'Poor',
-    rightLabel: 'Excellent',
-    description: 'Your overall impression of this coffee',
-  },
-];
-
 export const StructureScoringScreen: React.FC = () => {
   const route = useRoute<StructureScoringRouteProp>();
   const navigation = useNavigation();
@@ -74,18 +33,15 @@ export const StructureScoringScreen: React.FC = () => {
 
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [template, setTemplate] = useState<ScoringTemplate>(() =>
+    templateService.getDefaultTemplate()
+  );
 
-  // Score state - initialize with default values
-  const [scores, setScores] = useState<StructuralScores>({
-    acidity: 3,
-    sweetness: 3,
-    body: 3,
-    clarity: 3,
-    finish: 3,
-    enjoyment: 3,
-  });
+  // Score state - initialize with the template defaults
+  const [scores, setScores] = useState<CupScores>(() => createDefaultScores(template));
+  const [defects, setDefects] = useState<CupDefect[]>([]);
 
-  // Load existing scores
+  // Load the session template and existing scores
   useEffect(() => {
     const loadScores = async () => {
       try {
@@ -93,12 +49,16 @@ export const StructureScoringScreen: React.FC = () => {
         const session = await sessionService.getSession(sessionId);
 
         if (session) {
+          const sessionTemplate = templateService.getTemplateOrDefault(session.templateId);
+          setTemplate(sessionTemplate);
+
           // Find the cup in the session
           for (const coffee of session.coffees) {
             const cup = coffee.cups.find(c => c.cupId === cupId);
             if (cup) {
-              // Load existing scores
-              setScores(cup.ratings);
+              // Unscored attributes start at the template default
+              setScores({ ...createDefaultScores(sessionTemplate), ...cup.ratings });
+              setDefects(cup.defects);
               break;
             }
           }
@@ -114,7 +74,7 @@ export const StructureScoringScreen: React.FC = () => {
   }, [sessionId, cupId]);
 
   // Update a single score
-  const handleScoreChange = useCallback((key: keyof StructuralScores, value: ScoreValue) => {
+  const handleScoreChange = useCallback((key: string, value: number) => {
     setScores(prev => ({ ...prev, [key]: value }));
   }, []);
 
@@ -123,8 +83,9 @@ export const StructureScoringScreen: React.FC = () => {
     try {
       setIsSaving(true);
 
-      // Save scores to database
+      // Save scores and defects to database
       await sessionService.updateCupScores(cupId, scores);
+      await sessionService.updateCupDefects(cupId, defects);
 
       // Navigate back to sessions list
       // TODO: Navigate to summary or next step based on session flow
@@ -134,7 +95,7 @@ export const StructureScoringScreen: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [cupId, scores, navigation]);
+  }, [cupId, scores, defects, navigation]);
 
   if (isLoading) {
     return (
@@ -144,6 +105,16 @@ export const StructureScoringScreen: React.FC = () => {
     );
   }
 
+  const scaleValues = getScaleValues(template.scale);
+  const total = computeTemplateTotal(template, scores) ?? 0;
+  const scoredValues = template.attributes
+    .map(attribute => scores[attribute.key])
+    .filter(value => value !== undefined);
+  const average =
+    scoredValues.length > 0
+      ? scoredValues.reduce((sum, value) => sum + value, 0) / scoredValues.length
+      : 0;
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView
@@ -153,46 +124,51 @@ export const StructureScoringScreen: React.FC = () => {
       >
         {/* Header */}
         <View style={styles.header}>
-          <Text style={styles.title}>Rate Structural Attributes</Text>
+          <Text style={styles.title}>Rate {template.name} Attributes</Text>
           <Text style={styles.subtitle}>
-            Score each attribute on a scale of 1 (low) to 5 (high)
+            Score each attribute on a scale of {template.scale.min} (low) to{' '}
+            {template.scale.max} (high). Long-press a score for its definition.
           </Text>
         </View>
 
         {/* Score Sliders */}
         <View style={styles.scoresContainer}>
-          {SCORE_ATTRIBUTES.map((attribute, index) => (
+          {template.attributes.map((attribute, index) => (
             <View key={attribute.key}>
               <ScoreSlider
                 label={attribute.label}
                 leftLabel={attribute.leftLabel}
                 rightLabel={attribute.rightLabel}
-                value={scores[attribute.key] || 3}
-                onChange={(value) => handleScoreChange(attribute.key, value)}
+                values={scaleValues}
+                helpText={attribute.helpText}
+                value={scores[attribute.key] ?? template.defaultScore}
+                onChange={value => handleScoreChange(attribute.key, value)}
               />
-              <Text style={styles.description}>{attribute.description}</Text>
+              {attribute.description && (
+                <Text style={styles.description}>{attribute.description}</Text>
+              )}
 
               {/* Divider between attributes (except last one) */}
-              {index < SCORE_ATTRIBUTES.length - 1 && (
-                <Divider spacing="medium" />
-              )}
+              {index < template.attributes.length - 1 && <Divider spacing="medium" />}
             </View>
           ))}
         </View>
 
+        <DefectEditor defects={defects} onChange={setDefects} />
+
         {/* Score Summary */}
         <View style={styles.summary}>
           <Text style={styles.summaryTitle}>Score Summary</Text>
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Total Points:</Text>
             <Text style={styles.summaryValue}>
-              {Object.values(scores).reduce((sum, val) => sum + (val || 0), 0)}/30
+              {Math.round(total * 10) / 10}/{getMaxTotal(template)}
             </Text>
           </View>
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Average:</Text>
             <Text style={styles.summaryValue}>
-              {(Object.values(scores).reduce((sum, val) => sum + (val || 0), 0) / 6).toFixed(1)}/5
+              {average.toFixed(1)}/{template.scale.max}
             </Text>
           </View>
         </View>
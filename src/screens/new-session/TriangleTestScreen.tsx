@@ -0,0 +1,428 @@
+/**
+ * Triangle Test Screen
+ *
+ * Runs the sets of a triangulation session. Each set pours three cups, two
+ * of one coffee and one of the other, laid out at random. The pouring guide
+ * is for whoever prepares the cups; the taster then picks the odd cup and
+ * can note descriptors. After each answer the set's result is shown with the
+ * session's running accuracy and its binomial significance.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, SafeAreaView, TouchableOpacity } from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import type { NewSessionNavigationProp, TriangleTestRouteProp } from '../../navigation/types';
+import type { CoffeeEntry } from '../../types/session.types';
+import type { TrianglePosition, TriangleSet } from '../../types/triangle.types';
+import { Button, LoadingSpinner, Divider, TextInput } from '../../components';
+import { DescriptorPicker } from '../../components/CVAForm';
+import { sessionService } from '../../services/sessionService';
+import { sealSession } from '../../utils/blind';
+import {
+  TRIANGLE_MAX_DESCRIPTORS,
+  TRIANGLE_POSITIONS,
+  formatPValue,
+  getCupCoffeeId,
+  isTriangleAnswered,
+  isTriangleCorrect,
+  summarizeTriangleSets,
+} from '../../utils/triangle';
+import { handleError } from '../../utils/errorHandling';
+import { colors, typography, spacing } from '../../theme';
+
+export const TriangleTestScreen: React.FC = () => {
+  const route = useRoute<TriangleTestRouteProp>();
+  const navigation = useNavigation<NewSessionNavigationProp>();
+  const { sessionId } = route.params;
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [coffees, setCoffees] = useState<Array<Omit<CoffeeEntry, 'cups'>>>([]);
+  const [sets, setSets] = useState<TriangleSet[]>([]);
+  const [showPourGuide, setShowPourGuide] = useState(false);
+  const [chosenPosition, setChosenPosition] = useState<TrianglePosition | null>(null);
+  const [descriptors, setDescriptors] = useState<number[]>([]);
+  const [notes, setNotes] = useState('');
+
+  // Load the session and carry on with its open set, or pour the first one
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        setIsLoading(true);
+        const session = await sessionService.getSession(sessionId);
+        if (!session) return;
+
+        // Sealed blind sessions show the coffees' codes instead of their names
+        setCoffees(sealSession(session).coffees);
+        const current = session.triangleSets[session.triangleSets.length - 1];
+        if (current && !isTriangleAnswered(current)) {
+          setSets(session.triangleSets);
+        } else {
+          const set = await sessionService.createTriangleSet(sessionId);
+          setSets([...session.triangleSets, set]);
+        }
+      } catch (error) {
+        handleError(error, 'TriangleTestScreen.loadSession');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSession();
+  }, [sessionId]);
+
+  const currentSet = sets[sets.length - 1];
+
+  // Record the taster's pick; the set's layout is shown from here on
+  const handleSubmit = useCallback(async () => {
+    if (!currentSet || chosenPosition === null) return;
+
+    try {
+      setIsSaving(true);
+      await sessionService.answerTriangleSet(
+        currentSet.setId,
+        chosenPosition,
+        descriptors,
+        notes.trim() || undefined
+      );
+      setSets(prev =>
+        prev.map(set =>
+          set.setId === currentSet.setId
+            ? {
+                ...set,
+                chosenPosition,
+                descriptors,
+                notes: notes.trim() || undefined,
+                answeredAt: new Date().toISOString(),
+              }
+            : set
+        )
+      );
+    } catch (error) {
+      handleError(error, 'TriangleTestScreen.handleSubmit');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [currentSet, chosenPosition, descriptors, notes]);
+
+  const handleNextSet = useCallback(async () => {
+    try {
+      setIsSaving(true);
+      const set = await sessionService.createTriangleSet(sessionId);
+      setSets(prev => [...prev, set]);
+      setShowPourGuide(false);
+      setChosenPosition(null);
+      setDescriptors([]);
+      setNotes('');
+    } catch (error) {
+      handleError(error, 'TriangleTestScreen.handleNextSet');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [sessionId]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner message="Pouring set..." fullScreen />
+      </SafeAreaView>
+    );
+  }
+
+  if (!currentSet || coffees.length !== 2) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.subtitle}>Triangle test not found</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const coffeeIds: [string, string] = [coffees[0].coffeeId, coffees[1].coffeeId];
+  const coffeeName = (position: TrianglePosition) =>
+    coffees.find(c => c.coffeeId === getCupCoffeeId(currentSet, position, coffeeIds))?.name ?? '';
+  const isAnswered = isTriangleAnswered(currentSet);
+  const isCorrect = isTriangleCorrect(currentSet);
+  const summary = summarizeTriangleSets(sets);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>Set {currentSet.setNumber}</Text>
+          <Text style={styles.subtitle}>
+            {coffees[0].name} vs {coffees[1].name}
+          </Text>
+        </View>
+
+        {/* Pouring guide, for whoever prepares the cups */}
+        {!isAnswered && (
+          <View style={styles.guide}>
+            <TouchableOpacity
+              onPress={() => setShowPourGuide(value => !value)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.guideToggle}>
+                {showPourGuide ? 'Hide pouring guide' : 'Show pouring guide (not for the taster)'}
+              </Text>
+            </TouchableOpacity>
+            {showPourGuide &&
+              TRIANGLE_POSITIONS.map(position => (
+                <Text key={position} style={styles.guideText}>
+                  Cup {position}: {coffeeName(position)}
+                </Text>
+              ))}
+          </View>
+        )}
+
+        {/* Cup pick */}
+        <Text style={styles.sectionTitle}>Which cup is the odd one?</Text>
+        <View style={styles.cupRow}>
+          {TRIANGLE_POSITIONS.map(position => {
+            const isChosen = (isAnswered ? currentSet.chosenPosition : chosenPosition) === position;
+            const isOdd = isAnswered && currentSet.oddPosition === position;
+            return (
+              <TouchableOpacity
+                key={position}
+                style={[styles.cup, isChosen && styles.cupChosen, isOdd && styles.cupOdd]}
+                onPress={() => setChosenPosition(position)}
+                disabled={isAnswered || isSaving}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: isChosen }}
+              >
+                <Text style={[styles.cupText, isChosen && styles.cupTextChosen]}>
+                  Cup {position}
+                </Text>
+                {isAnswered && <Text style={styles.cupCoffee}>{coffeeName(position)}</Text>}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {isAnswered ? (
+          <View style={[styles.result, isCorrect ? styles.resultCorrect : styles.resultWrong]}>
+            <Text style={styles.resultTitle}>{isCorrect ? 'Correct' : 'Not this time'}</Text>
+            <Text style={styles.resultText}>
+              The odd cup was Cup {currentSet.oddPosition}: {coffeeName(currentSet.oddPosition)}
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Divider spacing="medium" />
+
+            <DescriptorPicker
+              label="What set the cup apart?"
+              selectedIds={descriptors}
+              onChange={setDescriptors}
+              maxSelections={TRIANGLE_MAX_DESCRIPTORS}
+              disabled={isSaving}
+            />
+
+            <Divider spacing="medium" />
+
+            <TextInput
+              label="Notes"
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="How the odd cup differed..."
+              multiline
+              numberOfLines={3}
+            />
+          </>
+        )}
+
+        {/* Running accuracy of the session */}
+        {summary.totalSets > 0 && (
+          <View style={styles.summary}>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Correct</Text>
+              <Text style={styles.summaryValue}>
+                {summary.correctSets} of {summary.totalSets} ({Math.round(summary.accuracy * 100)}%)
+              </Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Against guessing</Text>
+              <Text style={styles.summaryValue}>{formatPValue(summary.pValue)}</Text>
+            </View>
+            <Text style={styles.summaryNote}>
+              {summary.significant
+                ? 'Better than chance: the coffees can be told apart.'
+                : summary.minCorrect !== null
+                  ? `Not yet significant: ${summary.minCorrect} of ${summary.totalSets} correct needed.`
+                  : 'Not enough sets yet to beat chance; keep going.'}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        {isAnswered ? (
+          <>
+            <Button
+              title="Finish"
+              onPress={() => navigation.navigate('SessionTypeSelect')}
+              variant="secondary"
+              style={styles.actionButton}
+            />
+            <Button
+              title="Next Set"
+              onPress={handleNextSet}
+              loading={isSaving}
+              style={styles.actionButton}
+            />
+          </>
+        ) : (
+          <Button
+            title="Submit"
+            onPress={handleSubmit}
+            loading={isSaving}
+            disabled={chosenPosition === null}
+            fullWidth
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  title: {
+    ...typography.heading2,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  guide: {
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    gap: spacing.xs,
+  },
+  guideToggle: {
+    ...typography.bodyMedium,
+    color: colors.primary,
+  },
+  guideText: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  cupRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  cup: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.lg,
+    borderRadius: spacing.md,
+    borderWidth: 2,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  cupChosen: {
+    borderColor: colors.primary,
+  },
+  cupOdd: {
+    backgroundColor: colors.surfaceElevated,
+  },
+  cupText: {
+    ...typography.bodyMedium,
+    color: colors.text.secondary,
+  },
+  cupTextChosen: {
+    color: colors.primary,
+  },
+  cupCoffee: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginTop: spacing.xs,
+    textAlign: 'center',
+  },
+  result: {
+    borderRadius: spacing.md,
+    padding: spacing.md,
+    borderLeftWidth: 3,
+  },
+  resultCorrect: {
+    backgroundColor: colors.surface,
+    borderLeftColor: colors.success,
+  },
+  resultWrong: {
+    backgroundColor: colors.surface,
+    borderLeftColor: colors.error,
+  },
+  resultTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  resultText: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  summary: {
+    backgroundColor: colors.surface,
+    borderRadius: spacing.md,
+    padding: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  summaryLabel: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  summaryValue: {
+    ...typography.heading4,
+    color: colors.text.primary,
+  },
+  summaryNote: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+  },
+  actions: {
+    flexDirection: 'row',
+    padding: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.surface,
+    gap: spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
@@ -4,6 +4,9 @@
  * Comprehensive read-only view of a completed tasting session.
  * Shows all session data including scores, flavors, and notes.
  * Used in the History tab for viewing past sessions.
+ * Sealed blind sessions show each coffee by its code only.
+ * Group sessions show each taster's scores once everyone has submitted,
+ * with a calibration report of how far each taster sat from the group.
  */
 
 import React, { useEffect, useState, useCallback } from 'react';
@@ -23,11 +26,34 @@ import type {
 import { Card, Badge, Divider, Button, ErrorState, LoadingSpinner } from '../../components';
 import { RadarChart } from '../../components/SessionSummary/RadarChart';
 import { FlavorChips } from '../../components/SessionSummary/FlavorChips';
+import { SCAScoreCard } from '../../components/SCAForm';
+import { CVAScoreCard } from '../../components/CVAForm';
+import { DefectList } from '../../components/Defects';
+import { GroupScoresTable } from '../../components/GroupScores';
 import { sessionService } from '../../services/sessionService';
+import { analyticsService } from '../../services/analyticsService';
+import type { CalibrationReport } from '../../services/analyticsService';
+import { templateService } from '../../services/templateService';
 import type { Session } from '../../types/session.types';
+import { averageScores, getChartAttributes } from '../../utils/scoringTemplates';
+import { hasSightedEdits, sealSession } from '../../utils/blind';
+import {
+  formatPValue,
+  isTriangleAnswered,
+  isTriangleCorrect,
+  summarizeTriangleSets,
+} from '../../utils/triangle';
+import { isGroupComplete } from '../../utils/groupCupping';
+import { flavorService } from '../../services/flavorService';
 import { colors, spacing, typography } from '../../theme';
 import { handleError } from '../../utils/errorHandling';
 
+// Direction of a taster's bias against the group mean, e.g. " · high by 0.25"
+function formatBias(meanBias: number | null): string {
+  if (!meanBias) return '';
+  return ` · ${meanBias > 0 ? 'high' : 'low'} by ${Math.abs(meanBias).toFixed(2)}`;
+}
+
 export const SessionDetailScreen: React.FC = () => {
   const route = useRoute<SessionDetailRouteProp | HistoryDetailRouteProp>();
   const navigation = useNavigation<HistoryNavigationProp>();
@@ -37,6 +63,7 @@ export const SessionDetailScreen: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showSCAScores, setShowSCAScores] = useState(false);
+  const [calibration, setCalibration] = useState<CalibrationReport | null>(null);
   const [retryCount, setRetryCount] = useState(0);
 
   // Load session data
@@ -46,7 +73,10 @@ export const SessionDetailScreen: React.FC = () => {
         setLoading(true);
         setError(null);
         const data = await sessionService.getSession(sessionId);
-        setSession(data);
+        setSession(data && sealSession(data));
+        if (data && isGroupComplete(data)) {
+          setCalibration(await analyticsService.getCalibrationReport(sessionId));
+        }
       } catch (err) {
         const errorMessage = handleError(err, 'SessionDetailScreen.loadSession');
         setError(errorMessage);
@@ -66,11 +96,7 @@ export const SessionDetailScreen: React.FC = () => {
   // Navigate to comparison screen
   const handleCompare = useCallback(() => {
     if (session && session.coffees.length >= 2) {
-      navigation.navigate('Comparison', {
-        sessionId: session.id,
-        coffeeId1: session.coffees[0].coffeeId,
-        coffeeId2: session.coffees[1].coffeeId,
-      });
+      navigation.navigate('Comparison', { sessionId: session.id });
     }
   }, [session, navigation]);
 
@@ -114,6 +140,12 @@ export const SessionDetailScreen: React.FC = () => {
     );
   }
 
+  // SCA (6-10) view only for templates that map onto the SCA scale
+  const template = templateService.getTemplateOrDefault(session.templateId);
+  const scaOffset = showSCAScores ? (template.scaOffset ?? 0) : 0;
+  const maxDisplayValue = template.scale.max + scaOffset;
+  const triangleSummary = summarizeTriangleSets(session.triangleSets);
+
   const date = new Date(session.createdAt);
   const dateStr = date.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -140,6 +172,16 @@ export const SessionDetailScreen: React.FC = () => {
             {dateStr} at {timeStr}
           </Text>
 
+          {session.blindCoding && (
+            <View style={[styles.tagsContainer, styles.blindBadges]}>
+              <Badge
+                label={session.revealedAt ? 'Blind · revealed' : 'Blind · sealed'}
+                variant="primary"
+              />
+              {hasSightedEdits(session) && <Badge label="Edited after reveal" variant="warning" />}
+            </View>
+          )}
+
           {session.tags && session.tags.length > 0 && (
             <View style={styles.tagsContainer}>
               {session.tags.map((tag, idx) => (
@@ -149,8 +191,8 @@ export const SessionDetailScreen: React.FC = () => {
           )}
         </Card>
 
-        {/* Compare Button - only show if 2+ coffees */}
-        {session.coffees.length >= 2 && (
+        {/* Compare Button - only show if 2+ coffees (triangle tests have no cup scores) */}
+        {session.coffees.length >= 2 && session.sessionType !== 'triangulation' && (
           <Button
             title="Compare Coffees"
             onPress={handleCompare}
@@ -160,35 +202,92 @@ export const SessionDetailScreen: React.FC = () => {
           />
         )}
 
+        {/* Group calibration */}
+        {calibration && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Calibration</Text>
+            <Text style={styles.calibrationSummary}>
+              {calibration.kendallW !== null
+                ? `Ranking agreement (Kendall's W) ${calibration.kendallW.toFixed(2)} · `
+                : ''}
+              Flavor overlap{' '}
+              {calibration.flavorAgreement.mean !== null
+                ? `${Math.round(calibration.flavorAgreement.mean * 100)}%`
+                : '–'}
+            </Text>
+            <View style={styles.calibrationTasters}>
+              {calibration.tasters.map(taster => (
+                <Text
+                  key={taster.tasterId}
+                  style={[styles.calibrationTaster, taster.isOutlier && styles.calibrationOutlier]}
+                >
+                  {taster.name}: {taster.distance?.toFixed(2) ?? '–'} from the mean
+                  {formatBias(taster.meanBias)}
+                </Text>
+              ))}
+            </View>
+            <Text style={styles.calibrationDetail}>
+              Widest spread:{' '}
+              {[...calibration.attributes]
+                .filter(attribute => attribute.stdDev !== null)
+                .sort((a, b) => (b.stdDev ?? 0) - (a.stdDev ?? 0))
+                .slice(0, 3)
+                .map(attribute => `${attribute.label} (SD ${attribute.stdDev?.toFixed(2)})`)
+                .join(', ') || '–'}
+            </Text>
+          </Card>
+        )}
+
+        {/* Triangle Test Results */}
+        {session.sessionType === 'triangulation' && session.triangleSets.length > 0 && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Triangle Test</Text>
+            <Text style={styles.triangleSummary}>
+              {triangleSummary.correctSets} of {triangleSummary.totalSets} correct (
+              {Math.round(triangleSummary.accuracy * 100)}%) ·{' '}
+              {formatPValue(triangleSummary.pValue)}
+              {triangleSummary.significant ? ' · better than guessing' : ''}
+            </Text>
+
+            <Divider spacing="medium" />
+
+            <View style={styles.triangleSets}>
+              {session.triangleSets.map(set => {
+                const oddCoffee = session.coffees.find(c => c.coffeeId === set.oddCoffeeId);
+                const descriptors = set.descriptors
+                  .map(id => flavorService.getFlavorById(id)?.name)
+                  .filter(Boolean);
+                return (
+                  <View key={set.setId}>
+                    <Text style={styles.triangleSetTitle}>
+                      Set {set.setNumber}
+                      {isTriangleAnswered(set)
+                        ? ` · ${isTriangleCorrect(set) ? '✓' : '✗'} picked Cup ${set.chosenPosition}`
+                        : ' · Not answered'}
+                    </Text>
+                    <Text style={styles.triangleSetDetail}>
+                      Odd cup: Cup {set.oddPosition}
+                      {oddCoffee ? ` (${oddCoffee.name})` : ''}
+                    </Text>
+                    {descriptors.length > 0 && (
+                      <Text style={styles.triangleSetDetail}>{descriptors.join(', ')}</Text>
+                    )}
+                    {set.notes ? <Text style={styles.triangleSetDetail}>{set.notes}</Text> : null}
+                  </View>
+                );
+              })}
+            </View>
+          </Card>
+        )}
+
         {/* Coffee Cards */}
         {session.coffees.map((coffee, coffeeIdx) => {
           // Calculate average scores for this coffee
           const cupCount = coffee.cups.length;
-          let avgScores = {
-            sweetness: 0,
-            acidity: 0,
-            body: 0,
-            clarity: 0,
-            finish: 0,
-          };
-
-          if (cupCount > 0) {
-            coffee.cups.forEach((cup) => {
-              avgScores.sweetness += cup.ratings.sweetness || 0;
-              avgScores.acidity += cup.ratings.acidity || 0;
-              avgScores.body += cup.ratings.body || 0;
-              avgScores.clarity += cup.ratings.clarity || 0;
-              avgScores.finish += cup.ratings.finish || 0;
-            });
-
-            avgScores = {
-              sweetness: avgScores.sweetness / cupCount,
-              acidity: avgScores.acidity / cupCount,
-              body: avgScores.body / cupCount,
-              clarity: avgScores.clarity / cupCount,
-              finish: avgScores.finish / cupCount,
-            };
-          }
+          const avgScores = averageScores(
+            template,
+            coffee.cups.map(cup => cup.ratings)
+          );
 
           // Get selected flavors from all cups for this coffee
           const allFlavors = coffee.cups.flatMap((cup) => cup.flavors || []);
@@ -234,6 +333,25 @@ export const SessionDetailScreen: React.FC = () => {
                   </View>
                 )}
 
+                {/* Coffee Timeline Button - show for library coffees */}
+                {coffee.catalogId && (
+                  <>
+                    <Divider spacing="medium" />
+                    <Button
+                      title="Tasting History"
+                      onPress={() =>
+                        navigation.navigate('CoffeeTimeline', {
+                          catalogId: coffee.catalogId as string,
+                        })
+                      }
+                      variant="outline"
+                      fullWidth
+                      accessibilityLabel={`View every tasting of ${coffee.name}`}
+                      accessibilityHint="Shows scores and flavors across all sessions with this coffee"
+                    />
+                  </>
+                )}
+
                 {/* Table Cupping Button - show if 3+ cups */}
                 {cupCount >= 3 && (
                   <>
@@ -259,17 +377,17 @@ export const SessionDetailScreen: React.FC = () => {
                 {/* Radar Chart */}
                 <View style={styles.chartSection}>
                   <View style={styles.chartHeader}>
-                    <Text style={styles.sectionTitle}>Structural Scores</Text>
-                    <Text style={styles.scaleToggle} onPress={handleToggleSCAScores}>
-                      {showSCAScores ? 'Show 1-5' : 'Show SCA (6-10)'}
-                    </Text>
+                    <Text style={styles.sectionTitle}>{template.name} Scores</Text>
+                    {template.scaOffset !== undefined && (
+                      <Text style={styles.scaleToggle} onPress={handleToggleSCAScores}>
+                        {showSCAScores
+                          ? `Show ${template.scale.min}-${template.scale.max}`
+                          : 'Show SCA (6-10)'}
+                      </Text>
+                    )}
                   </View>
 
-                  <RadarChart
-                    scores={avgScores as import('../../types/session.types').StructuralScores}
-                    size={280}
-                    showSCAScores={showSCAScores}
-                  />
+                  <RadarChart scores={avgScores} template={template} size={280} />
 
                   {cupCount > 1 && (
                     <Text style={styles.chartNote}>
@@ -284,17 +402,17 @@ export const SessionDetailScreen: React.FC = () => {
                 <View style={styles.scoresSection}>
                   <Text style={styles.sectionTitle}>Score Breakdown</Text>
 
-                  {Object.entries(avgScores).map(([key, value]) => {
-                    const displayValue = showSCAScores ? value + 5 : value;
-                    const maxValue = showSCAScores ? 10 : 5;
-                    const percentage = (displayValue / maxValue) * 100;
+                  {getChartAttributes(template).map(attribute => {
+                    const value = avgScores[attribute.key];
+                    if (value === undefined) return null;
+
+                    const displayValue = value + scaOffset;
+                    const percentage = (displayValue / maxDisplayValue) * 100;
 
                     return (
-                      <View key={key} style={styles.scoreRow}>
+                      <View key={attribute.key} style={styles.scoreRow}>
                         <View style={styles.scoreLabel}>
-                          <Text style={styles.scoreName}>
-                            {key.charAt(0).toUpperCase() + key.slice(1)}
-                          </Text>
+                          <Text style={styles.scoreName}>{attribute.label}</Text>
                           <Text style={styles.scoreValue}>
                             {displayValue.toFixed(1)}
                           </Text>
@@ -312,6 +430,57 @@ export const SessionDetailScreen: React.FC = () => {
                   })}
                 </View>
 
+                {/* SCA Cupping Form (pro sessions) */}
+                {coffee.scaForm && (
+                  <>
+                    <Divider spacing="medium" />
+                    <SCAScoreCard
+                      form={coffee.scaForm}
+                      cupDefects={coffee.cups.flatMap(cup => cup.defects)}
+                    />
+                  </>
+                )}
+
+                {/* CVA forms (CVA sessions) */}
+                {coffee.cups.some(cup => cup.cvaDescriptive || cup.cvaAffective) && (
+                  <>
+                    <Divider spacing="medium" />
+                    <CVAScoreCard cups={coffee.cups} />
+                  </>
+                )}
+
+                {/* Each taster's scores (group sessions, once complete) */}
+                {isGroupComplete(session) && (
+                  <>
+                    <Divider spacing="medium" />
+                    <View style={styles.groupScoresSection}>
+                      <Text style={styles.sectionTitle}>Group Scores</Text>
+                      <GroupScoresTable
+                        template={template}
+                        cups={coffee.cups}
+                        tasters={session.tasters}
+                      />
+                    </View>
+                  </>
+                )}
+
+                {/* Defects recorded on the cups */}
+                {coffee.cups.some(cup => cup.defects.length > 0) && (
+                  <>
+                    <Divider spacing="medium" />
+                    <View style={styles.defectsSection}>
+                      <Text style={styles.sectionTitle}>Defects</Text>
+                      {coffee.cups.map(cup => (
+                        <DefectList
+                          key={cup.cupId}
+                          defects={cup.defects}
+                          label={coffee.cups.length > 1 ? `Cup ${cup.position}` : undefined}
+                        />
+                      ))}
+                    </View>
+                  </>
+                )}
+
                 {/* Flavors */}
                 {allFlavors.length > 0 && (
                   <>
@@ -403,6 +572,9 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     gap: spacing.sm,
   },
+  blindBadges: {
+    marginBottom: spacing.sm,
+  },
   compareButton: {
     marginBottom: spacing.lg,
   },
@@ -498,6 +670,49 @@ const styles = StyleSheet.create({
   flavorsSection: {
     gap: spacing.md,
   },
+  defectsSection: {
+    gap: spacing.sm,
+  },
+  groupScoresSection: {
+    gap: spacing.sm,
+  },
+  triangleSummary: {
+    ...typography.body,
+    color: colors.text.primary,
+    marginTop: spacing.sm,
+  },
+  triangleSets: {
+    gap: spacing.md,
+  },
+  triangleSetTitle: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  triangleSetDetail: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  calibrationSummary: {
+    ...typography.body,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  calibrationTasters: {
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  calibrationTaster: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  calibrationOutlier: {
+    color: colors.warning,
+  },
+  calibrationDetail: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
   notesText: {
     ...typography.body,
     color: colors.text.primary,
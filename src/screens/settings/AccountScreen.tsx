@@ -0,0 +1,228 @@
+/**
+ * Account Screen
+ *
+ * Shows who is signed in, which sessions were claimed from guest mode, and
+ * signs out. In guest mode it explains what signing in does instead.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, Alert } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { Button, Card, Divider, ErrorState, LoadingSpinner } from '../../components';
+import { authService } from '../../services/authService';
+import type { SettingsNavigationProp } from '../../navigation/types';
+import type { AuthSession, GuestClaim } from '../../types/auth.types';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+
+export const AccountScreen: React.FC = () => {
+  const navigation = useNavigation<SettingsNavigationProp>();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [claim, setClaim] = useState<GuestClaim | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signingOut, setSigningOut] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAccount = useCallback(async () => {
+    try {
+      setError(null);
+      setSession(await authService.getSession());
+      setClaim(await authService.getGuestClaim());
+    } catch (err) {
+      const errorMessage = handleError(err, 'AccountScreen.loadAccount');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      loadAccount();
+    }, [loadAccount])
+  );
+
+  const signOut = useCallback(async () => {
+    setSigningOut(true);
+    try {
+      await authService.signOut();
+      await loadAccount();
+    } catch (err) {
+      const errorMessage = handleError(err, 'AccountScreen.signOut');
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSigningOut(false);
+    }
+  }, [loadAccount]);
+
+  const handleSignOut = useCallback(() => {
+    Alert.alert(
+      'Sign Out',
+      'Your sessions stay on this device. New sessions will be made as a guest until you sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: signOut },
+      ]
+    );
+  }, [signOut]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <LoadingSpinner />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState
+          title="Failed to Load Account"
+          message={error}
+          action={{
+            title: 'Try Again',
+            onPress: () => loadAccount(),
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (!session) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Guest</Text>
+            <Text style={styles.body}>
+              You are using Cupper without an account. Sign in to attach your sessions to an
+              account, so the sync server knows they are yours.
+            </Text>
+            {!claim && (
+              <Text style={styles.note}>
+                Sessions you made as a guest will be added to the first account you sign in with.
+              </Text>
+            )}
+          </Card>
+          <Button title="Sign In" onPress={() => navigation.navigate('SignIn')} fullWidth />
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  const provider = authService
+    .getProviders()
+    .find(candidate => candidate.id === session.providerId);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Card style={styles.section}>
+          <Text style={styles.name}>{session.user.displayName}</Text>
+          <Text style={styles.email}>{session.user.email}</Text>
+
+          <Divider spacing="small" />
+
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Signed in with</Text>
+            <Text style={styles.rowValue}>{provider?.name ?? session.providerId}</Text>
+          </View>
+          {session.issuer && (
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>Server</Text>
+              <Text style={styles.rowValue} numberOfLines={1}>
+                {session.issuer}
+              </Text>
+            </View>
+          )}
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Since</Text>
+            <Text style={styles.rowValue}>{new Date(session.signedInAt).toLocaleString()}</Text>
+          </View>
+        </Card>
+
+        {claim && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Guest Sessions</Text>
+            <Text style={styles.body}>
+              {claim.userId === session.user.id
+                ? `${claim.sessionCount} session(s) made as a guest were added to this account`
+                : `${claim.sessionCount} session(s) made as a guest were added to another account`}{' '}
+              on {new Date(claim.claimedAt).toLocaleDateString()}.
+            </Text>
+          </Card>
+        )}
+
+        <Button
+          title="Sign Out"
+          variant="outline"
+          onPress={handleSignOut}
+          loading={signingOut}
+          disabled={signingOut}
+          fullWidth
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+  name: {
+    ...typography.heading3,
+    color: colors.text.primary,
+  },
+  email: {
+    ...typography.body,
+    color: colors.text.secondary,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  rowLabel: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+  rowValue: {
+    ...typography.body,
+    color: colors.text.primary,
+    flexShrink: 1,
+    marginLeft: spacing.md,
+  },
+  body: {
+    ...typography.body,
+    color: colors.text.primary,
+  },
+  note: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    marginTop: spacing.sm,
+  },
+});
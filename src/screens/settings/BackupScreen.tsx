@@ -0,0 +1,424 @@
+/**
+ * Backup Screen
+ *
+ * Creates full backups (database and settings), optionally encrypted with
+ * a passphrase, and restores them from this device or from a file. Lists
+ * the automatic backups taken before destructive actions and upgrades.
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Button, Card, Divider, ErrorState, LoadingSpinner, TextInput } from '../../components';
+import { backupService, MIN_PASSPHRASE_LENGTH } from '../../services/backupService';
+import { useStore } from '../../store';
+import type { BackupDetails, BackupFile, BackupReason } from '../../types/backup.types';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+
+const REASON_LABELS: Record<BackupReason, string> = {
+  manual: 'Backup',
+  'before-migration': 'Before app upgrade',
+  'before-delete': 'Before permanent delete',
+  'before-clear': 'Before clearing all data',
+  'before-import': 'Before import',
+  'before-sync-overwrite': 'Before using server copy',
+  'before-restore': 'Before restoring a backup',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const BackupScreen: React.FC = () => {
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [pendingRestore, setPendingRestore] = useState<{
+    uri: string;
+    details: BackupDetails;
+  } | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setError(null);
+      setBackups(await backupService.getBackups());
+    } catch (err) {
+      const errorMessage = handleError(err, 'BackupScreen.loadBackups');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      loadBackups();
+    }, [loadBackups])
+  );
+
+  const shareBackup = useCallback(async (uri: string) => {
+    try {
+      await backupService.shareBackup(uri);
+    } catch (err) {
+      const errorMessage = handleError(err, 'BackupScreen.shareBackup');
+      Alert.alert('Error', errorMessage);
+    }
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (passphrase && passphrase !== confirmPassphrase) {
+      Alert.alert('Passphrases Differ', 'Enter the same passphrase twice.');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const backup = await backupService.createBackup(passphrase || null);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      await loadBackups();
+
+      Alert.alert(
+        'Backup Created',
+        `Saved ${formatSize(backup.size)} on this device. Share it to keep a copy elsewhere.` +
+          (passphrase ? ' Without the passphrase it cannot be restored.' : ''),
+        [
+          { text: 'Done', style: 'cancel' },
+          { text: 'Share', onPress: () => shareBackup(backup.uri) },
+        ]
+      );
+    } catch (err) {
+      const errorMessage = handleError(err, 'BackupScreen.handleCreate');
+      Alert.alert('Backup Failed', errorMessage);
+    } finally {
+      setCreating(false);
+    }
+  }, [passphrase, confirmPassphrase, loadBackups, shareBackup]);
+
+  const restore = useCallback(
+    async (uri: string, backupPassphrase: string | null) => {
+      setRestoring(true);
+      try {
+        const details = await backupService.restoreBackup(uri, backupPassphrase);
+        setPendingRestore(null);
+        setRestorePassphrase('');
+
+        // Pick up the restored settings and sessions
+        await useStore.persist.rehydrate();
+        useStore.getState().setCurrentSession(null);
+        await useStore.getState().loadAllSessions();
+        await loadBackups();
+
+        Alert.alert(
+          'Backup Restored',
+          `Your data is now as it was on ${new Date(details.createdAt).toLocaleString()}. ` +
+            'The data it replaced was backed up automatically.'
+        );
+      } catch (err) {
+        const errorMessage = handleError(err, 'BackupScreen.restore');
+        Alert.alert('Restore Failed', errorMessage);
+      } finally {
+        setRestoring(false);
+      }
+    },
+    [loadBackups]
+  );
+
+  const confirmRestore = useCallback(
+    (uri: string, details: BackupDetails, backupPassphrase: string | null) => {
+      Alert.alert(
+        'Restore Backup',
+        `Replace all sessions and settings with the backup from ` +
+          `${new Date(details.createdAt).toLocaleString()}? The current data is backed up first.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Restore',
+            style: 'destructive',
+            onPress: () => restore(uri, backupPassphrase),
+          },
+        ]
+      );
+    },
+    [restore]
+  );
+
+  const startRestore = useCallback(
+    async (uri: string) => {
+      try {
+        const details = await backupService.inspectBackup(uri);
+        if (details.encrypted) {
+          setRestorePassphrase('');
+          setPendingRestore({ uri, details });
+        } else {
+          confirmRestore(uri, details, null);
+        }
+      } catch (err) {
+        const errorMessage = handleError(err, 'BackupScreen.startRestore');
+        Alert.alert('Cannot Restore', errorMessage);
+      }
+    },
+    [confirmRestore]
+  );
+
+  const handleRestoreFromFile = useCallback(async () => {
+    try {
+      const uri = await backupService.pickBackupFile();
+      if (uri) {
+        await startRestore(uri);
+      }
+    } catch (err) {
+      const errorMessage = handleError(err, 'BackupScreen.handleRestoreFromFile');
+      Alert.alert('Error', errorMessage);
+    }
+  }, [startRestore]);
+
+  const handleBackupPress = useCallback(
+    (backup: BackupFile) => {
+      Alert.alert(REASON_LABELS[backup.reason], new Date(backup.createdAt).toLocaleString(), [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', onPress: () => startRestore(backup.uri) },
+        { text: 'Share', onPress: () => shareBackup(backup.uri) },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await backupService.deleteBackup(backup.uri);
+              await loadBackups();
+            } catch (err) {
+              const errorMessage = handleError(err, 'BackupScreen.deleteBackup');
+              Alert.alert('Error', errorMessage);
+            }
+          },
+        },
+      ]);
+    },
+    [startRestore, shareBackup, loadBackups]
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <LoadingSpinner />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState
+          title="Failed to Load Backups"
+          message={error}
+          action={{
+            title: 'Try Again',
+            onPress: () => loadBackups(),
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const passphraseTooShort = passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {pendingRestore && (
+          <Card style={[styles.section, styles.restoreSection]}>
+            <Text style={styles.sectionTitle}>Encrypted Backup</Text>
+            <Text style={styles.description}>
+              Backup from {new Date(pendingRestore.details.createdAt).toLocaleString()}. Enter the
+              passphrase it was made with.
+            </Text>
+            <TextInput
+              label="Passphrase"
+              value={restorePassphrase}
+              onChangeText={setRestorePassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Button
+              title="Restore"
+              onPress={() =>
+                confirmRestore(pendingRestore.uri, pendingRestore.details, restorePassphrase)
+              }
+              loading={restoring}
+              disabled={!restorePassphrase || restoring}
+              fullWidth
+            />
+            <Button
+              title="Cancel"
+              variant="ghost"
+              onPress={() => setPendingRestore(null)}
+              disabled={restoring}
+              fullWidth
+              style={styles.secondaryButton}
+            />
+          </Card>
+        )}
+
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Create Backup</Text>
+          <Text style={styles.description}>
+            Saves all sessions, coffees, tasters and settings in one file. Add a passphrase to
+            encrypt it.
+          </Text>
+          <TextInput
+            label="Passphrase (optional)"
+            value={passphrase}
+            onChangeText={setPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            error={passphraseTooShort ? `At least ${MIN_PASSPHRASE_LENGTH} characters` : undefined}
+          />
+          {passphrase.length > 0 && (
+            <TextInput
+              label="Confirm passphrase"
+              value={confirmPassphrase}
+              onChangeText={setConfirmPassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+          <Button
+            title="Create Backup"
+            onPress={handleCreate}
+            loading={creating}
+            disabled={creating || passphraseTooShort}
+            fullWidth
+          />
+        </Card>
+
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Restore</Text>
+          <Text style={styles.description}>
+            Replaces all data on this device with a backup. The current data is backed up first.
+          </Text>
+          <Button
+            title="Restore from File"
+            variant="outline"
+            onPress={handleRestoreFromFile}
+            disabled={restoring}
+            fullWidth
+          />
+        </Card>
+
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>On This Device</Text>
+          {backups.length === 0 ? (
+            <Text style={styles.empty}>No backups yet</Text>
+          ) : (
+            backups.map((backup, index) => (
+              <View key={backup.uri}>
+                {index > 0 && <Divider spacing="small" />}
+                <TouchableOpacity
+                  style={styles.backupRow}
+                  onPress={() => handleBackupPress(backup)}
+                  disabled={restoring}
+                >
+                  <View style={styles.backupInfo}>
+                    <Text style={styles.backupTitle}>{REASON_LABELS[backup.reason]}</Text>
+                    <Text style={styles.backupDetail}>
+                      {new Date(backup.createdAt).toLocaleString()} • {formatSize(backup.size)}
+                    </Text>
+                  </View>
+                  {backup.automatic && <Text style={styles.autoBadge}>Auto</Text>}
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  restoreSection: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginBottom: spacing.md,
+  },
+  secondaryButton: {
+    marginTop: spacing.sm,
+  },
+  empty: {
+    ...typography.body,
+    color: colors.text.tertiary,
+  },
+  backupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  backupInfo: {
+    flex: 1,
+  },
+  backupTitle: {
+    ...typography.body,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  backupDetail: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  autoBadge: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: spacing.xs,
+    paddingHorizontal: spacing.xs,
+    marginLeft: spacing.sm,
+  },
+});
@@ -1,8 +1,8 @@
 /**
  * Data Management Screen
  *
- * Allows users to export sessions as JSON and clear all data.
- * Export functionality requires expo-file-system and expo-sharing packages.
+ * Allows users to export sessions as JSON or CSV files and clear all data.
+ * Exports are written to the cache folder and handed to the share sheet.
  */
 
 import React, { useState } from 'react';
@@ -14,14 +14,55 @@ import {
   ScrollView,
   Alert,
 } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
 import { Button, Card } from '../../components';
 import { sessionService } from '../../services/sessionService';
-import { getDatabase } from '../../services/database/connection';
+import { createExportPayload } from '../../services/exportSchema';
+import { csvExportService } from '../../services/csvExportService';
 import { colors, typography, spacing } from '../../theme';
-import { handleError } from '../../utils/errorHandling';
+import type { Session } from '../../types/session.types';
+import { AppError, handleError } from '../../utils/errorHandling';
+
+type CsvTable = 'cups' | 'scores' | 'flavors';
+
+/**
+ * CSV tables, shared one per file; each carries session_id and cup_id so
+ * they join back together in a spreadsheet
+ */
+const CSV_TABLES: Record<CsvTable, { title: string; build: (sessions: Session[]) => string }> = {
+  cups: { title: 'Cups', build: sessions => csvExportService.exportCupsCsv(sessions) },
+  scores: { title: 'Scores', build: sessions => csvExportService.exportScoresCsv(sessions) },
+  flavors: { title: 'Flavors', build: sessions => csvExportService.exportFlavorsCsv(sessions) },
+};
+
+/**
+ * Write an export file and open the share sheet for it.
+ *
+ * @throws AppError if this device cannot share files
+ */
+async function shareExportFile(
+  fileName: string,
+  contents: string,
+  mimeType: string,
+  UTI: string
+): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new AppError(
+      'Sharing not available',
+      'SHARING_UNAVAILABLE',
+      'Sharing files is not available on this device.'
+    );
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, contents);
+  await Sharing.shareAsync(fileUri, { mimeType, UTI, dialogTitle: 'Export Cupper Data' });
+}
 
 export const DataManagementScreen: React.FC = () => {
   const [exporting, setExporting] = useState(false);
+  const [exportingCsv, setExportingCsv] = useState<CsvTable | null>(null);
   const [sessionCount, setSessionCount] = useState<number | null>(null);
 
   // Load session count on mount
@@ -52,34 +93,19 @@ export const DataManagementScreen: React.FC = () => {
       }
 
       // Prepare export data
-      const exportData = {
-        version: '1.0.0',
-        exportDate: new Date().toISOString(),
-        totalSessions: sessions.length,
-        sessions,
-      };
+      const exportData = createExportPayload(sessions);
 
       const json = JSON.stringify(exportData, null, 2);
 
-      // In a full implementation with expo-file-system and expo-sharing:
-      // const fileUri = FileSystem.documentDirectory + `cupper-export-${Date.now()}.json`;
-      // await FileSystem.writeAsStringAsync(fileUri, json);
-      // await Sharing.shareAsync(fileUri, {
-      //   mimeType: 'application/json',
-      //   dialogTitle: 'Export Cupper Data',
-      // });
-
-      // For now, show success with data size
-      const sizeInKB = Math.round(json.length / 1024);
-      Alert.alert(
-        'Export Ready',
-        `Prepared ${sessions.length} session${sessions.length !== 1 ? 's' : ''} for export (${sizeInKB} KB).\n\n` +
-          'Note: Full export functionality requires expo-file-system and expo-sharing packages. ' +
-          'This would normally save the JSON file and open the share dialog.',
-        [{ text: 'OK' }]
+      await shareExportFile(
+        `cupper-export-${Date.now()}.json`,
+        json,
+        'application/json',
+        'public.json'
       );
 
-      console.log('[DataManagement] Export data prepared:', {
+      const sizeInKB = Math.round(json.length / 1024);
+      console.log('[DataManagement] Export shared:', {
         sessionCount: sessions.length,
         sizeKB: sizeInKB,
       });
@@ -91,12 +117,44 @@ export const DataManagementScreen: React.FC = () => {
     }
   };
 
+  const handleExportCsv = async (table: CsvTable) => {
+    setExportingCsv(table);
+
+    try {
+      const sessions = await sessionService.getAllSessions();
+
+      if (sessions.length === 0) {
+        Alert.alert('No Data', 'You have no sessions to export.');
+        return;
+      }
+
+      const csv = CSV_TABLES[table].build(sessions);
+      await shareExportFile(
+        `cupper-${table}-${Date.now()}.csv`,
+        csv,
+        'text/csv',
+        'public.comma-separated-values-text'
+      );
+
+      console.log('[DataManagement] CSV export shared:', {
+        table,
+        sizeKB: Math.round(csv.length / 1024),
+      });
+    } catch (err) {
+      const errorMessage = handleError(err, 'DataManagementScreen.handleExportCsv');
+      Alert.alert('Export Failed', errorMessage);
+    } finally {
+      setExportingCsv(null);
+    }
+  };
+
   const handleClearData = () => {
     Alert.alert(
       'Clear All Data',
       `This will permanently delete all ${sessionCount || 0} session${
         sessionCount !== 1 ? 's' : ''
-      } from this device. This action cannot be undone.\n\nConsider exporting your data first.`,
+      } from this device. A backup is saved automatically first and can be restored under ` +
+        'Settings → Backup & Restore.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -104,15 +162,7 @@ export const DataManagementScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              const db = await getDatabase();
-
-              // Delete all data
-              await db.transactionAsync(async (tx) => {
-                await tx.executeSqlAsync('DELETE FROM selected_flavors');
-                await tx.executeSqlAsync('DELETE FROM cups');
-                await tx.executeSqlAsync('DELETE FROM coffees');
-                await tx.executeSqlAsync('DELETE FROM sessions');
-              }, false);
+              await sessionService.clearAllSessions();
 
               Alert.alert('Success', 'All data has been cleared.', [
                 {
@@ -156,7 +206,7 @@ export const DataManagementScreen: React.FC = () => {
           <Text style={styles.sectionTitle}>Export Data</Text>
           <Text style={styles.description}>
             Export all your tasting sessions to a JSON file for backup or
-            transfer to another device.
+            transfer to another device, or as CSV tables for spreadsheets.
           </Text>
 
           <View style={styles.featureList}>
@@ -175,6 +225,23 @@ export const DataManagementScreen: React.FC = () => {
             fullWidth
           />
 
+          {(Object.keys(CSV_TABLES) as CsvTable[]).map(table => (
+            <Button
+              key={table}
+              title={
+                exportingCsv === table
+                  ? 'Preparing CSV...'
+                  : `Export ${CSV_TABLES[table].title} as CSV`
+              }
+              onPress={() => handleExportCsv(table)}
+              loading={exportingCsv === table}
+              disabled={sessionCount === 0 || exportingCsv !== null}
+              variant="secondary"
+              fullWidth
+              style={styles.secondaryButton}
+            />
+          ))}
+
           {sessionCount === 0 && (
             <Text style={styles.disabledHint}>
               No sessions available to export
@@ -201,11 +268,11 @@ export const DataManagementScreen: React.FC = () => {
           <Text style={styles.sectionTitle}>Clear All Data</Text>
           <Text style={[styles.description, styles.warningText]}>
             ⚠️ Warning: This will permanently delete all your tasting sessions
-            from this device. This action cannot be undone.
+            from this device. Only a backup can bring them back.
           </Text>
 
           <Text style={styles.recommendation}>
-            We recommend exporting your data first as a backup.
+            A backup is saved automatically before clearing.
           </Text>
 
           <Button
@@ -282,6 +349,9 @@ const styles = StyleSheet.create({
     ...typography.bodySmall,
     color: colors.text.secondary,
   },
+  secondaryButton: {
+    marginTop: spacing.sm,
+  },
   warningText: {
     color: colors.error,
   },
@@ -1,12 +1,11 @@
 /**
  * Settings Home Screen
  *
- * Main settings screen for guest mode.
- * Includes app preferences, data management, and about sections.
- * Account/authentication features marked as "Coming Soon" for Phase 3.
+ * Main settings screen.
+ * Includes app preferences, data management, account, and about sections.
  */
 
-import React from 'react';
+import React, { useCallback } from 'react';
 import {
   View,
   Text,
@@ -16,8 +15,10 @@ import {
   TouchableOpacity,
   Switch,
 } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import type { SettingsNavigationProp } from '../../navigation/types';
+import type { AuthUser } from '../../types/auth.types';
+import { authService } from '../../services/authService';
 import { Card, Divider } from '../../components';
 import { colors, typography, spacing } from '../../theme';
 
@@ -27,6 +28,17 @@ export const SettingsHomeScreen: React.FC = () => {
   // App preferences state (would come from a settings store in production)
   const [haptics, setHaptics] = React.useState(true);
   const [showSCAScores, setShowSCAScores] = React.useState(false);
+  const [user, setUser] = React.useState<AuthUser | null>(null);
+
+  // Reload the signed-in user when coming back from the account screens
+  useFocusEffect(
+    useCallback(() => {
+      authService
+        .getCurrentUser()
+        .then(setUser)
+        .catch(() => setUser(null));
+    }, [])
+  );
 
   return (
     <SafeAreaView style={styles.container}>
@@ -103,39 +115,78 @@ export const SettingsHomeScreen: React.FC = () => {
             activeOpacity={0.7}
           >
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Export & Backup</Text>
+              <Text style={styles.settingLabel}>Export</Text>
               <Text style={styles.settingDescription}>
                 Export sessions as JSON
               </Text>
             </View>
             <Text style={styles.chevron}>›</Text>
           </TouchableOpacity>
-        </Card>
 
-        {/* Account Section - Coming Soon */}
-        <Card style={[styles.section, styles.comingSoonSection]}>
-          <View style={styles.comingSoonHeader}>
-            <Text style={styles.sectionTitle}>Account</Text>
-            <View style={styles.comingSoonBadge}>
-              <Text style={styles.comingSoonBadgeText}>Phase 3</Text>
+          <Divider spacing="small" />
+
+          <TouchableOpacity
+            style={styles.settingButton}
+            onPress={() => navigation.navigate('Backups')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Backup & Restore</Text>
+              <Text style={styles.settingDescription}>
+                Back up all data to a file, encrypted if you like
+              </Text>
             </View>
-          </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
 
-          <View style={styles.comingSoonContent}>
-            <Text style={styles.settingLabel}>Create an Account</Text>
-            <Text style={styles.comingSoonDescription}>
-              Sync your tastings across devices and share with the coffee
-              community. Authentication and cloud sync coming in Phase 3 -
-              Community Mode.
-            </Text>
-          </View>
+          <Divider spacing="small" />
 
-          <View style={styles.comingSoonFeatures}>
-            <Text style={styles.featureItem}>☁️ Cloud sync</Text>
-            <Text style={styles.featureItem}>📱 Multi-device access</Text>
-            <Text style={styles.featureItem}>👥 Share with community</Text>
-            <Text style={styles.featureItem}>📊 Compare with others</Text>
-          </View>
+          <TouchableOpacity
+            style={styles.settingButton}
+            onPress={() => navigation.navigate('Trash')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Trash</Text>
+              <Text style={styles.settingDescription}>
+                Restore or permanently delete sessions
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <Divider spacing="small" />
+
+          <TouchableOpacity
+            style={styles.settingButton}
+            onPress={() => navigation.navigate('SyncSettings')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Sync</Text>
+              <Text style={styles.settingDescription}>Sync sessions with your own sync server</Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+        </Card>
+
+        {/* Account */}
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Account</Text>
+
+          <TouchableOpacity
+            style={styles.settingButton}
+            onPress={() => navigation.navigate('Account')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{user ? user.displayName : 'Guest'}</Text>
+              <Text style={styles.settingDescription}>
+                {user ? `Signed in as ${user.email}` : 'Sign in to attach your sessions to an account'}
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
         </Card>
 
         {/* About */}
@@ -244,48 +295,4 @@ const styles = StyleSheet.create({
     ...typography.heading3,
     color: colors.text.tertiary,
   },
-  comingSoonSection: {
-    borderWidth: 2,
-    borderColor: colors.primary + '40',
-    backgroundColor: colors.primary + '08',
-  },
-  comingSoonHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    marginBottom: spacing.md,
-  },
-  comingSoonBadge: {
-    backgroundColor: colors.primary,
-    paddingHorizontal: spacing.sm,
-    paddingVertical: spacing.xs / 2,
-    borderRadius: spacing.sm,
-  },
-  comingSoonBadgeText: {
-    ...typography.caption,
-    color: colors.background,
-    fontWeight: '600',
-  },
-  comingSoonContent: {
-    marginBottom: spacing.md,
-  },
-  comingSoonDescription: {
-    ...typography.body,
-    color: colors.text.secondary,
-    marginTop: spacing.sm,
-    lineHeight: 24,
-  },
-  comingSoonFeatures: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: spacing.sm,
-  },
-  featureItem: {
-    ...typography.bodySmall,
-    color: colors.text.secondary,
-    backgroundColor: colors.surface,
-    paddingVertical: spacing.xs,
-    paddingHorizontal: spacing.sm,
-    borderRadius: spacing.sm,
-  },
 });
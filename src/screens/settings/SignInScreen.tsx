@@ -0,0 +1,207 @@
+/**
+ * Sign In Screen
+ *
+ * Signs in with one of the registered auth providers. The first sign-in on
+ * a device adds every session made as a guest to the account.
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { Button, Card, TextInput } from '../../components';
+import { authService } from '../../services/authService';
+import { syncService } from '../../services/syncService';
+import type { SettingsNavigationProp } from '../../navigation/types';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+
+export const SignInScreen: React.FC = () => {
+  const navigation = useNavigation<SettingsNavigationProp>();
+  const providers = authService.getProviders();
+  const [providerId, setProviderId] = useState(providers[0]?.id ?? '');
+  const [serverUrl, setServerUrl] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+
+  // Reload the sync server when coming back from Sync settings
+  useFocusEffect(
+    useCallback(() => {
+      syncService
+        .getServerUrl()
+        .then(setServerUrl)
+        .catch(err => handleError(err, 'SignInScreen.loadServerUrl'));
+    }, [])
+  );
+
+  const provider = providers.find(candidate => candidate.id === providerId);
+  const needsServer = !!provider?.requiresServer && !serverUrl;
+
+  const handleSignIn = useCallback(async () => {
+    setSigningIn(true);
+    try {
+      const { user, claim } = await authService.signIn(providerId, {
+        email,
+        password,
+        displayName,
+        serverUrl: serverUrl ?? undefined,
+      });
+
+      navigation.replace('Account');
+      if (claim && claim.sessionCount > 0) {
+        Alert.alert(
+          'Signed In',
+          `${claim.sessionCount} session(s) made as a guest now belong to ${user.displayName} ` +
+            'and will be uploaded on the next sync.'
+        );
+      }
+    } catch (err) {
+      const errorMessage = handleError(err, 'SignInScreen.handleSignIn');
+      Alert.alert('Sign In Failed', errorMessage);
+    } finally {
+      setSigningIn(false);
+    }
+  }, [navigation, providerId, email, password, displayName, serverUrl]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {providers.length > 1 && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Sign in with</Text>
+            {providers.map(option => {
+              const selected = option.id === providerId;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.provider, selected && styles.providerSelected]}
+                  onPress={() => setProviderId(option.id)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={styles.providerName}>{option.name}</Text>
+                  <Text style={styles.providerDescription}>{option.description}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </Card>
+        )}
+
+        <Card style={styles.section}>
+          {provider?.requiresServer && (
+            <View style={styles.server}>
+              <Text style={styles.serverLabel}>Server</Text>
+              {serverUrl ? (
+                <Text style={styles.serverUrl}>{serverUrl}</Text>
+              ) : (
+                <TouchableOpacity onPress={() => navigation.navigate('SyncSettings')}>
+                  <Text style={styles.serverMissing}>No sync server set. Set one up ›</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          <TextInput
+            label="Email"
+            value={email}
+            onChangeText={setEmail}
+            placeholder="you@example.com"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="email-address"
+            textContentType="emailAddress"
+          />
+          <TextInput
+            label="Password"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+            autoCapitalize="none"
+            textContentType="password"
+            helperText={
+              provider?.requiresServer ? 'New emails get an account on this server' : undefined
+            }
+          />
+          <TextInput
+            label="Name (optional)"
+            value={displayName}
+            onChangeText={setDisplayName}
+            placeholder="Shown on your sessions"
+            textContentType="name"
+          />
+        </Card>
+
+        <Button
+          title="Sign In"
+          onPress={handleSignIn}
+          loading={signingIn}
+          disabled={!provider || needsServer || !email.trim() || signingIn}
+          fullWidth
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+  provider: {
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  providerSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary + '14',
+  },
+  providerName: {
+    ...typography.body,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  providerDescription: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    marginTop: spacing.xs / 2,
+  },
+  server: {
+    marginBottom: spacing.md,
+  },
+  serverLabel: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginBottom: spacing.xs,
+  },
+  serverUrl: {
+    ...typography.body,
+    color: colors.text.primary,
+  },
+  serverMissing: {
+    ...typography.body,
+    color: colors.warning,
+  },
+});
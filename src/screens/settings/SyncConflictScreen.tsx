@@ -0,0 +1,400 @@
+/**
+ * Sync Conflict Screen
+ *
+ * Resolves a session changed both on this device and on the sync server.
+ * Changes to different fields are merged automatically; each field changed
+ * on both sides is shown with both versions so the taster can pick one.
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import { Button, Card, ErrorState, LoadingSpinner } from '../../components';
+import { syncService } from '../../services/syncService';
+import type { ConflictStrategy, SyncConflictDetails } from '../../services/syncService';
+import { flavorService } from '../../services/flavorService';
+import { templateService } from '../../services/templateService';
+import type { SettingsStackParamList } from '../../navigation/types';
+import type { MergeChoices, MergeConflict, MergeSide } from '../../types/merge.types';
+import type { Session } from '../../types/session.types';
+import type { SelectedFlavor } from '../../types/flavor.types';
+import type { CupDefect } from '../../types/defect.types';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+import { sealSession } from '../../utils/blind';
+import { formatCupDefect, getDefectLabel } from '../../utils/defects';
+
+type SyncConflictRouteProp = RouteProp<SettingsStackParamList, 'SyncConflict'>;
+
+const FIELD_LABELS: Record<string, string> = {
+  notes: 'Notes',
+  deletedAt: 'Trash',
+  revealedAt: 'Revealed',
+  userId: 'Owner',
+  mode: 'Mode',
+  protocol: 'Protocol',
+  templateId: 'Scoring template',
+  blindCoding: 'Blind coding',
+  sessionType: 'Session type',
+  catalogId: 'Library coffee',
+  name: 'Name',
+  roaster: 'Roaster',
+  origin: 'Origin',
+  process: 'Process',
+  variety: 'Variety',
+  altitude: 'Altitude',
+  brewMethod: 'Brew method',
+  roastLevel: 'Roast level',
+  roastDate: 'Roast date',
+  scaForm: 'SCA form',
+  blindCode: 'Blind code',
+  position: 'Position',
+  cvaDescriptive: 'CVA descriptive form',
+  cvaAffective: 'CVA affective form',
+  setNumber: 'Set number',
+  oddCoffeeId: 'Odd coffee',
+  oddPosition: 'Odd cup',
+  chosenPosition: 'Picked cup',
+  answeredAt: 'Answered',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+/**
+ * Name of the record a conflict is on, looked up in either copy (a record
+ * removed on one side only exists on the other)
+ */
+function describeRecord(conflict: MergeConflict, copies: Session[]): string {
+  const coffees = copies.flatMap(session => sealSession(session).coffees);
+
+  switch (conflict.entity) {
+    case 'session':
+      return 'Session';
+    case 'coffee':
+      return coffees.find(c => c.coffeeId === conflict.entityId)?.name ?? 'Coffee';
+    case 'cup': {
+      const coffee = coffees.find(c => c.cups.some(cup => cup.cupId === conflict.entityId));
+      const cup = coffee?.cups.find(c => c.cupId === conflict.entityId);
+      return coffee && cup ? `${coffee.name} · Cup ${cup.position}` : 'Cup';
+    }
+    case 'triangle-set': {
+      const set = copies
+        .flatMap(session => session.triangleSets)
+        .find(s => s.setId === conflict.entityId);
+      return set ? `Triangle set ${set.setNumber}` : 'Triangle set';
+    }
+  }
+}
+
+function describeField(conflict: MergeConflict, copies: Session[]): string {
+  if (conflict.field === null) return 'Removed on one side, changed on the other';
+
+  const [kind, key] = conflict.field.split('.');
+  const taster = copies.flatMap(session => session.tasters).find(t => t.tasterId === key);
+  switch (kind) {
+    case 'ratings':
+      return (
+        templateService
+          .getTemplateOrDefault(copies[0].templateId)
+          .attributes.find(attribute => attribute.key === key)?.label ?? key
+      );
+    case 'flavors':
+      return `Flavor: ${flavorService.getFlavorById(Number(key))?.name ?? key}`;
+    case 'defects':
+      return `Defect: ${getDefectLabel(key)}`;
+    case 'tasters':
+      return `Taster: ${taster?.name ?? key}`;
+    case 'tasterScores':
+      return `Scores of ${taster?.name ?? key}`;
+    default:
+      return FIELD_LABELS[conflict.field] ?? conflict.field;
+  }
+}
+
+function formatValue(conflict: MergeConflict, value: unknown): string {
+  const { field } = conflict;
+  if (value === undefined || value === null || value === '') {
+    if (field?.startsWith('ratings.')) return 'Not scored';
+    return field === null || field.includes('.') ? 'Removed' : 'Not set';
+  }
+  if (field === null) return 'Kept, with changes';
+  if (field === 'deletedAt') return 'In trash';
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  if (field.startsWith('flavors.')) {
+    const flavor = value as SelectedFlavor;
+    return `Intensity ${flavor.intensity}${flavor.dominant ? ' · dominant' : ''}`;
+  }
+  if (field.startsWith('defects.')) return formatCupDefect(value as CupDefect);
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return 'Filled in';
+  return String(value);
+}
+
+export const SyncConflictScreen: React.FC = () => {
+  const route = useRoute<SyncConflictRouteProp>();
+  const navigation = useNavigation();
+  const { sessionId } = route.params;
+
+  const [details, setDetails] = useState<SyncConflictDetails | null>(null);
+  const [choices, setChoices] = useState<MergeChoices>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConflict = useCallback(async () => {
+    try {
+      setError(null);
+      setDetails(await syncService.getConflictDetails(sessionId));
+    } catch (err) {
+      const errorMessage = handleError(err, 'SyncConflictScreen.loadConflict');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadConflict();
+  }, [loadConflict]);
+
+  const resolve = useCallback(
+    async (strategy: ConflictStrategy) => {
+      setSaving(true);
+      try {
+        await syncService.resolveConflict(sessionId, strategy, choices);
+        navigation.goBack();
+      } catch (err) {
+        const errorMessage = handleError(err, 'SyncConflictScreen.resolve');
+        Alert.alert('Error', errorMessage);
+        await loadConflict();
+      } finally {
+        setSaving(false);
+      }
+    },
+    [sessionId, choices, navigation, loadConflict]
+  );
+
+  const confirmResolve = useCallback(
+    (strategy: 'local-wins' | 'remote-wins') => {
+      Alert.alert(
+        strategy === 'local-wins' ? 'Keep This Device' : 'Use Server Version',
+        strategy === 'local-wins'
+          ? 'The server copy is replaced with the session on this device.'
+          : 'The session on this device is replaced with the server copy.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: () => resolve(strategy) },
+        ]
+      );
+    },
+    [resolve]
+  );
+
+  const pick = useCallback((conflictId: string, side: MergeSide) => {
+    setChoices(current => ({ ...current, [conflictId]: side }));
+  }, []);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <LoadingSpinner />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState
+          title="Failed to Load Conflict"
+          message={error ?? 'Conflict not found'}
+          action={{
+            title: 'Try Again',
+            onPress: () => loadConflict(),
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const { local, remote, merge } = details;
+  const copies = remote ? [local, remote] : [local];
+  const conflicts = merge?.conflicts ?? [];
+  const undecided = conflicts.filter(conflict => !choices[conflict.id]).length;
+  const firstCoffee = sealSession(local).coffees[0];
+
+  let summary = 'Changed on this device and on the server. ';
+  if (!remote) {
+    summary = 'Deleted on the server, but changed on this device since the last sync.';
+  } else if (conflicts.length === 0) {
+    summary += 'The changes do not overlap and can be merged.';
+  } else {
+    summary +=
+      'Other changes are merged; pick which version to keep for ' +
+      (conflicts.length === 1 ? 'this field.' : `these ${conflicts.length} fields.`);
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Card style={styles.section}>
+          <Text style={styles.sessionType}>{local.sessionType}</Text>
+          {firstCoffee && (
+            <Text style={styles.coffeeName} numberOfLines={1}>
+              {firstCoffee.name}
+              {local.coffees.length > 1 ? ` +${local.coffees.length - 1}` : ''}
+            </Text>
+          )}
+          <Text style={styles.summary}>{summary}</Text>
+        </Card>
+
+        {conflicts.map(conflict => (
+          <Card key={conflict.id} style={styles.section}>
+            <Text style={styles.recordName}>{describeRecord(conflict, copies)}</Text>
+            <Text style={styles.fieldName}>{describeField(conflict, copies)}</Text>
+            <View style={styles.options}>
+              {(['local', 'remote'] as const).map(side => (
+                <TouchableOpacity
+                  key={side}
+                  style={[styles.option, choices[conflict.id] === side && styles.optionSelected]}
+                  onPress={() => pick(conflict.id, side)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: choices[conflict.id] === side }}
+                >
+                  <Text style={styles.optionSide}>
+                    {side === 'local' ? 'This device' : 'Server'}
+                  </Text>
+                  <Text style={styles.optionValue}>{formatValue(conflict, conflict[side])}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </Card>
+        ))}
+
+        {remote ? (
+          <Button
+            title={undecided > 0 ? `Pick ${undecided} More` : 'Save Merge'}
+            onPress={() => resolve(conflicts.length > 0 ? 'ask-user' : 'merge')}
+            loading={saving}
+            disabled={undecided > 0 || saving}
+            fullWidth
+          />
+        ) : (
+          <Button
+            title="Accept Delete"
+            onPress={() => confirmResolve('remote-wins')}
+            disabled={saving}
+            fullWidth
+          />
+        )}
+        <View style={styles.secondaryActions}>
+          <Button
+            title="Keep This Device"
+            variant="outline"
+            onPress={() => confirmResolve('local-wins')}
+            disabled={saving}
+            style={styles.secondaryButton}
+          />
+          {remote && (
+            <Button
+              title="Use Server"
+              variant="outline"
+              onPress={() => confirmResolve('remote-wins')}
+              disabled={saving}
+              style={styles.secondaryButton}
+            />
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  sessionType: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    textTransform: 'capitalize',
+    marginBottom: spacing.xs / 2,
+  },
+  coffeeName: {
+    ...typography.body,
+    color: colors.text.primary,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  summary: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  recordName: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  fieldName: {
+    ...typography.bodyBold,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  option: {
+    flex: 1,
+    padding: spacing.md,
+    borderRadius: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  optionSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.surfaceElevated,
+  },
+  optionSide: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    marginBottom: spacing.xs,
+  },
+  optionValue: {
+    ...typography.body,
+    color: colors.text.primary,
+  },
+  secondaryActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  secondaryButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,305 @@
+/**
+ * Sync Settings Screen
+ *
+ * Connects the app to a sync server (see docs/SYNC_PROTOCOL.md), shows how
+ * many sessions are synced, waiting or in conflict, and syncs on demand.
+ * Sessions in conflict are listed for review on the Sync Conflict screen.
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { Button, Card, Divider, ErrorState, LoadingSpinner, TextInput } from '../../components';
+import { syncService } from '../../services/syncService';
+import type { SyncConflictDetails } from '../../services/syncService';
+import type { SettingsNavigationProp } from '../../navigation/types';
+import type { SyncStatus } from '../../types/session.types';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+import { sealSession } from '../../utils/blind';
+
+const STATUS_ROWS: Array<{ status: SyncStatus; label: string }> = [
+  { status: 'synced', label: 'Synced' },
+  { status: 'pending', label: 'Changed since last sync' },
+  { status: 'local-only', label: 'Not yet uploaded' },
+  { status: 'conflict', label: 'In conflict' },
+];
+
+export const SyncSettingsScreen: React.FC = () => {
+  const navigation = useNavigation<SettingsNavigationProp>();
+  const [serverUrl, setServerUrl] = useState<string | null>(null);
+  const [urlInput, setUrlInput] = useState('');
+  const [reachable, setReachable] = useState<boolean | null>(null);
+  const [lastSync, setLastSync] = useState<Date | null>(null);
+  const [counts, setCounts] = useState<Record<SyncStatus, number> | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflictDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setError(null);
+      const url = await syncService.getServerUrl();
+      setServerUrl(url);
+      setUrlInput(url ?? '');
+      setLastSync(await syncService.getLastSyncTime());
+      setCounts(await syncService.getStatusCounts());
+      setConflicts(await syncService.getConflicts());
+      setReachable(url ? await syncService.canSync() : null);
+    } catch (err) {
+      const errorMessage = handleError(err, 'SyncSettingsScreen.loadStatus');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      loadStatus();
+    }, [loadStatus])
+  );
+
+  const saveServerUrl = useCallback(
+    async (url: string | null) => {
+      try {
+        await syncService.setServerUrl(url);
+        await loadStatus();
+      } catch (err) {
+        const errorMessage = handleError(err, 'SyncSettingsScreen.saveServerUrl');
+        Alert.alert('Error', errorMessage);
+      }
+    },
+    [loadStatus]
+  );
+
+  const handleSaveServer = useCallback(() => {
+    const url = urlInput.trim() || null;
+    if (!serverUrl) {
+      saveServerUrl(url);
+      return;
+    }
+
+    Alert.alert(
+      url ? 'Change Sync Server' : 'Turn Off Sync',
+      'Sessions will no longer be linked to the current server. ' +
+        (url ? 'All sessions will be uploaded to the new server.' : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: url ? 'Change' : 'Turn Off', onPress: () => saveServerUrl(url) },
+      ]
+    );
+  }, [serverUrl, urlInput, saveServerUrl]);
+
+  const handleSyncNow = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const result = await syncService.syncAll();
+      await loadStatus();
+
+      if (!result.success) {
+        Alert.alert('Sync Failed', result.error || `${result.failedCount} session(s) failed.`);
+      } else if (result.conflicts.length > 0) {
+        Alert.alert(
+          'Sync Conflicts',
+          `${result.conflicts.length} session(s) changed the same fields here and on the server. ` +
+            'Review them under Conflicts; they are not synced until resolved.'
+        );
+      }
+    } catch (err) {
+      const errorMessage = handleError(err, 'SyncSettingsScreen.handleSyncNow');
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSyncing(false);
+    }
+  }, [loadStatus]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <LoadingSpinner />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState
+          title="Failed to Load Sync Status"
+          message={error}
+          action={{
+            title: 'Try Again',
+            onPress: () => loadStatus(),
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const urlChanged = (urlInput.trim() || null) !== serverUrl;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Server</Text>
+          <TextInput
+            label="Server address"
+            value={urlInput}
+            onChangeText={setUrlInput}
+            placeholder="http://192.168.1.10:8787"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            helperText="Run npm run sync-server on a computer on the same network"
+          />
+          <Button
+            title={urlInput.trim() ? 'Save Server' : 'Turn Off Sync'}
+            variant="outline"
+            onPress={handleSaveServer}
+            disabled={!urlChanged}
+          />
+          {serverUrl && (
+            <Text style={[styles.connection, reachable ? styles.connected : styles.disconnected]}>
+              {reachable ? '● Connected' : '● Server not reachable'}
+            </Text>
+          )}
+        </Card>
+
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Sessions</Text>
+          {STATUS_ROWS.map(({ status, label }, index) => (
+            <View key={status}>
+              {index > 0 && <Divider spacing="small" />}
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>{label}</Text>
+                <Text
+                  style={[
+                    styles.statusCount,
+                    status === 'conflict' && !!counts?.conflict && styles.conflictCount,
+                  ]}
+                >
+                  {counts?.[status] ?? 0}
+                </Text>
+              </View>
+            </View>
+          ))}
+          <Text style={styles.lastSync}>
+            {lastSync ? `Last synced ${lastSync.toLocaleString()}` : 'Never synced'}
+          </Text>
+        </Card>
+
+        {conflicts.length > 0 && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Conflicts</Text>
+            {conflicts.map(({ sessionId, local, merge }, index) => {
+              const firstCoffee = sealSession(local).coffees[0];
+              return (
+                <View key={sessionId}>
+                  {index > 0 && <Divider spacing="small" />}
+                  <TouchableOpacity
+                    onPress={() => navigation.navigate('SyncConflict', { sessionId })}
+                  >
+                    <Text style={styles.conflictTitle} numberOfLines={1}>
+                      {firstCoffee?.name ?? local.sessionType}
+                    </Text>
+                    <Text style={styles.conflictDetail}>
+                      {merge
+                        ? `${merge.conflicts.length} field(s) to pick`
+                        : 'Deleted on the server'}
+                      {' • '}Tasted {new Date(local.createdAt).toLocaleDateString()}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </Card>
+        )}
+
+        <Button
+          title="Sync Now"
+          onPress={handleSyncNow}
+          loading={syncing}
+          disabled={!serverUrl || syncing}
+          fullWidth
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+  connection: {
+    ...typography.bodySmall,
+    marginTop: spacing.md,
+  },
+  connected: {
+    color: colors.success,
+  },
+  disconnected: {
+    color: colors.warning,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  statusLabel: {
+    ...typography.body,
+    color: colors.text.primary,
+  },
+  statusCount: {
+    ...typography.bodyBold,
+    color: colors.text.secondary,
+  },
+  conflictCount: {
+    color: colors.error,
+  },
+  conflictTitle: {
+    ...typography.body,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  conflictDetail: {
+    ...typography.caption,
+    color: colors.error,
+  },
+  lastSync: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginTop: spacing.md,
+  },
+});
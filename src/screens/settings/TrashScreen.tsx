@@ -0,0 +1,375 @@
+/**
+ * Trash Screen
+ *
+ * Lists deleted sessions so they can be restored or permanently deleted.
+ * Sessions are purged automatically after the configured retention period.
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Card, ErrorState, LoadingSpinner } from '../../components';
+import { sessionService } from '../../services/sessionService';
+import type { SessionSummary } from '../../types/session.types';
+import { useSettingsState, useSettingsActions } from '../../store';
+import { TRASH_RETENTION_OPTIONS } from '../../store/settingsSlice';
+import { colors, spacing, typography } from '../../theme';
+import { handleError } from '../../utils/errorHandling';
+import { sealSession } from '../../utils/blind';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TrashScreen: React.FC = () => {
+  const { trashRetentionDays } = useSettingsState();
+  const { setTrashRetentionDays } = useSettingsActions();
+
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Purge expired sessions, then load what's left
+  const loadTrash = useCallback(async () => {
+    try {
+      setError(null);
+      await sessionService.purgeDeletedSessions(trashRetentionDays);
+      const deleted = await sessionService.getDeletedSessions();
+      setSessions(deleted);
+    } catch (err) {
+      const errorMessage = handleError(err, 'TrashScreen.loadTrash');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [trashRetentionDays]);
+
+  // Reload when screen comes into focus or retention changes
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const handleRestore = useCallback(
+    async (session: SessionSummary) => {
+      try {
+        await sessionService.restoreSession(session.id);
+        await loadTrash();
+      } catch (err) {
+        const errorMessage = handleError(err, 'TrashScreen.handleRestore');
+        Alert.alert('Error', errorMessage);
+      }
+    },
+    [loadTrash]
+  );
+
+  const handleDeleteForever = useCallback(
+    (session: SessionSummary) => {
+      Alert.alert(
+        'Delete Permanently',
+        `Permanently delete this ${session.sessionType} session? This action cannot be undone.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await sessionService.hardDeleteSession(session.id);
+                await loadTrash();
+              } catch (err) {
+                const errorMessage = handleError(err, 'TrashScreen.handleDeleteForever');
+                Alert.alert('Error', errorMessage);
+              }
+            },
+          },
+        ]
+      );
+    },
+    [loadTrash]
+  );
+
+  const handleEmptyTrash = useCallback(() => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${sessions.length} session${
+        sessions.length !== 1 ? 's' : ''
+      } in trash? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await sessionService.hardDeleteSessions(sessions.map(session => session.id));
+              await loadTrash();
+            } catch (err) {
+              const errorMessage = handleError(err, 'TrashScreen.handleEmptyTrash');
+              Alert.alert('Error', errorMessage);
+            }
+          },
+        },
+      ]
+    );
+  }, [sessions, loadTrash]);
+
+  const renderSessionCard = useCallback(
+    ({ item }: { item: SessionSummary }) => {
+      const firstCoffee = sealSession(item).coffees[0];
+      const deletedAt = item.deletedAt ? new Date(item.deletedAt) : new Date();
+      const daysLeft = Math.max(
+        0,
+        Math.ceil((deletedAt.getTime() + trashRetentionDays * DAY_MS - Date.now()) / DAY_MS)
+      );
+
+      return (
+        <Card style={styles.sessionCard}>
+          <View style={styles.cardContent}>
+            <Text style={styles.sessionType}>{item.sessionType}</Text>
+            {firstCoffee && (
+              <Text style={styles.coffeeName} numberOfLines={1}>
+                {firstCoffee.name}
+                {item.coffees.length > 1 ? ` +${item.coffees.length - 1}` : ''}
+              </Text>
+            )}
+            <Text style={styles.sessionDate}>
+              Tasted {new Date(item.createdAt).toLocaleDateString()} • Deleted{' '}
+              {deletedAt.toLocaleDateString()}
+            </Text>
+            <Text style={styles.expiry}>
+              {daysLeft === 0
+                ? 'Will be purged soon'
+                : `Purged in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`}
+            </Text>
+          </View>
+
+          <View style={styles.cardActions}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleRestore(item)}>
+              <Text style={styles.actionButtonText}>Restore</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.deleteButton]}
+              onPress={() => handleDeleteForever(item)}
+            >
+              <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Delete Forever</Text>
+            </TouchableOpacity>
+          </View>
+        </Card>
+      );
+    },
+    [trashRetentionDays, handleRestore, handleDeleteForever]
+  );
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.sectionTitle}>Keep deleted sessions for</Text>
+      <View style={styles.retentionOptions}>
+        {TRASH_RETENTION_OPTIONS.map(days => (
+          <TouchableOpacity
+            key={days}
+            style={[
+              styles.retentionChip,
+              trashRetentionDays === days && styles.retentionChipActive,
+            ]}
+            onPress={() => setTrashRetentionDays(days)}
+          >
+            <Text
+              style={[
+                styles.retentionChipText,
+                trashRetentionDays === days && styles.retentionChipTextActive,
+              ]}
+            >
+              {days} days
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {sessions.length > 0 && (
+        <TouchableOpacity style={styles.emptyTrashButton} onPress={handleEmptyTrash}>
+          <Text style={styles.emptyTrashText}>Empty Trash</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyTitle}>Trash is Empty</Text>
+      <Text style={styles.emptyText}>Deleted sessions will appear here</Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <LoadingSpinner />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState
+          title="Failed to Load Trash"
+          message={error}
+          action={{
+            title: 'Try Again',
+            onPress: () => loadTrash(),
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={sessions}
+        renderItem={renderSessionCard}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  listContent: {
+    padding: spacing.lg,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  retentionChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  retentionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  retentionChipText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    fontWeight: '500',
+  },
+  retentionChipTextActive: {
+    color: colors.background,
+  },
+  emptyTrashButton: {
+    alignSelf: 'flex-end',
+    marginTop: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  emptyTrashText: {
+    ...typography.bodySmall,
+    color: colors.error,
+    fontWeight: '600',
+  },
+  sessionCard: {
+    marginBottom: spacing.lg,
+    padding: 0,
+  },
+  cardContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  sessionType: {
+    ...typography.heading4,
+    color: colors.text.primary,
+    textTransform: 'capitalize',
+    marginBottom: spacing.xs / 2,
+  },
+  coffeeName: {
+    ...typography.body,
+    color: colors.text.primary,
+    fontWeight: '600',
+    marginBottom: spacing.xs / 2,
+  },
+  sessionDate: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+  },
+  expiry: {
+    ...typography.caption,
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    overflow: 'hidden',
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteButton: {
+    borderLeftWidth: 1,
+    borderLeftColor: colors.border,
+  },
+  actionButtonText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  deleteButtonText: {
+    color: colors.error,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xxxl * 2,
+  },
+  emptyTitle: {
+    ...typography.heading3,
+    color: colors.text.secondary,
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+  },
+});
@@ -6,13 +6,34 @@
  */
 
 import { getDatabase } from './database/connection';
-import type {
-  Session,
-  StructuralScores,
-  SessionType,
-} from '../types/session.types';
+import { analyticsQueries } from './database/queries';
+import type { Session, CupScores, SessionType, CatalogCoffee } from '../types/session.types';
+import type { ScoringTemplate } from '../types/template.types';
+import type { TriangleSummary } from '../types/triangle.types';
+import type { SessionTaster } from '../types/taster.types';
 import { sessionService } from './sessionService';
 import { flavorService } from './flavorService';
+import { coffeeLibraryService } from './coffeeLibraryService';
+import { templateService } from './templateService';
+import { calculateCVACupScore, withCupDefects } from '../utils/scoring';
+import { sealSession } from '../utils/blind';
+import { AppError } from '../utils/errorHandling';
+import { getDefectLabel } from '../utils/defects';
+import { summarizeTriangleResults } from '../utils/triangle';
+import {
+  getTasterAverages,
+  isGroupComplete,
+  jaccardIndex,
+  kendallsW,
+  summarizeGroupScores,
+  summarizeSpread,
+} from '../utils/groupCupping';
+import {
+  DEFAULT_TEMPLATE_ID,
+  averageScores as averageCupScores,
+  computeTemplateTotal,
+  getScaleValues,
+} from '../utils/scoringTemplates';
 
 /**
  * Session statistics
@@ -20,8 +41,8 @@ import { flavorService } from './flavorService';
 export interface SessionStats {
   totalFlavors: number;
   uniqueFlavors: number;
-  averageScores: StructuralScores;
-  totalScore: number;
+  averageScores: CupScores; // On the session's template
+  totalScore: number; // Sum of the cups' template totals
   topCategories: Array<{ category: string; count: number }>;
   duration?: number; // Minutes between created_at and updated_at
 }
@@ -48,42 +69,265 @@ export interface UniformityScore {
     cupId: string;
     position: number;
     totalScore: number;
+    isOutlier: boolean; // Some attribute's z-score at or past OUTLIER_Z_SCORE
+    isUniform: boolean; // SCA-style pass: every attribute close to the other cups
   }>;
   standardDeviation: number;
+  attributes: AttributeUniformity[];
+  flavorPresence: FlavorPresence[]; // In the most cups first
+  uniformCups: number; // Cups that pass, as counted on the SCA uniformity box
 }
 
 /**
- * Coffee comparison data
+ * Cup-to-cup consistency of one template attribute of a coffee
+ */
+export interface AttributeUniformity {
+  key: string; // Template attribute key
+  label: string;
+  mean: number | null; // Null when no cup was scored
+  standardDeviation: number | null;
+  range: number | null; // Highest minus lowest cup
+  cups: Array<{
+    cupId: string;
+    value: number | null; // Null when the cup was not scored
+    zScore: number | null; // Distance from the mean in standard deviations
+  }>; // Same order as cupScores
+}
+
+/**
+ * In how many of a coffee's cups a descriptor was picked
+ */
+export interface FlavorPresence {
+  flavorId: number;
+  flavorName: string;
+  cupCount: number;
+  inAllCups: boolean;
+}
+
+/**
+ * Coffee to compare, from any session
+ */
+export interface ComparisonCoffeeRef {
+  sessionId: string;
+  coffeeId: string;
+}
+
+/**
+ * Place of a coffee in a ranking; tied coffees share a rank
+ */
+export interface ComparisonRank {
+  coffeeId: string;
+  rank: number; // 1 = highest
+  value: number;
+}
+
+/**
+ * One coffee of a comparison, averaged over its cups
+ */
+export interface ComparedCoffee {
+  sessionId: string;
+  coffeeId: string;
+  name: string; // Blind code while its session is sealed
+  sessionDate: string; // ISO8601, when its session was created
+  averageScores: CupScores;
+  totalScore: number | null; // Null when no cup was scored
+  flavors: number[];
+  uniqueFlavors: number[]; // Picked for this coffee and none of the others
+}
+
+/**
+ * Comparison of any number of coffees scored on the same template
  */
 export interface CoffeeComparison {
-  coffee1: {
-    coffeeId: string;
-    name: string;
-    averageScores: StructuralScores;
-    totalScore: number;
-    flavors: number[];
-  };
-  coffee2: {
-    coffeeId: string;
-    name: string;
-    averageScores: StructuralScores;
-    totalScore: number;
-    flavors: number[];
+  templateId: string; // Template every compared coffee was scored on
+  coffees: ComparedCoffee[]; // In the order requested
+  totalRanking: ComparisonRank[]; // Highest total first; unscored coffees left out
+  attributeRankings: Record<string, ComparisonRank[]>; // Per template attribute key
+  flavorOverlap: Array<Array<number | null>>; // Jaccard overlap, indexed like coffees
+}
+
+/**
+ * Average score per template attribute key (null when no cup was scored)
+ */
+export type AttributeAverages = Record<string, number | null>;
+
+/**
+ * One tasting of a library coffee
+ */
+export interface CoffeeTimelineEntry {
+  sessionId: string;
+  coffeeId: string;
+  tastedAt: string; // ISO8601 (session created_at)
+  templateId: string; // Template the tasting was scored on
+  roastDate?: string;
+  daysSinceRoast: number | null; // Rest days at tasting, null without a roast date
+  brewMethod?: string;
+  cupCount: number;
+  averageScores: AttributeAverages;
+  flavors: Array<{
+    flavorId: number;
+    flavorName: string;
+    averageIntensity: number;
+    dominant: boolean;
+  }>;
+}
+
+/**
+ * How often a flavor recurs across tastings of one coffee
+ */
+export interface FlavorRecurrence {
+  flavorId: number;
+  flavorName: string;
+  category: string;
+  occurrences: number; // Tastings the flavor was noted in
+  recurrence: number; // occurrences / total tastings (0-1)
+  averageIntensity: number;
+}
+
+/**
+ * Every tasting of a library coffee, oldest first
+ */
+export interface CoffeeTimeline {
+  coffee: CatalogCoffee;
+  templateId: string; // Template of the latest tasting; averages cover tastings on it
+  entries: CoffeeTimelineEntry[];
+  flavorRecurrence: FlavorRecurrence[];
+  averageScores: AttributeAverages; // Across tastings on templateId
+}
+
+/**
+ * Grouping of defect frequency stats
+ * - coffee: per library coffee
+ * - roaster: per roaster (case-insensitive)
+ */
+export type DefectGroupBy = 'coffee' | 'roaster';
+
+/**
+ * How often cups of a coffee or roaster had defects recorded
+ */
+export interface DefectFrequency {
+  key: string; // Library coffee ID, or lower-case roaster name
+  label: string; // Coffee or roaster name
+  cupCount: number; // Cups tasted
+  defectiveCupCount: number; // Cups with at least one defect
+  defectRate: number; // defectiveCupCount / cupCount (0-1)
+  defects: Array<{
+    defectId: string;
+    label: string;
+    cupCount: number; // Cups this defect was recorded on
+    faultCount: number; // Of those, recorded as a fault
+  }>; // Most frequent first
+}
+
+/**
+ * Triangle test accuracy across all triangulation sessions
+ */
+export interface TriangleStats {
+  summary: TriangleSummary; // Every answered set
+  sessionCount: number; // Sessions with at least one answered set
+  history: Array<{
+    answeredAt: string; // ISO8601
+    totalSets: number; // Sets answered up to and including this one
+    accuracy: number; // Running accuracy (0-1)
+    pValue: number; // Running one-sided binomial p-value
+  }>; // Oldest first
+}
+
+/**
+ * Agreement between the tasters of a group session on one attribute
+ */
+export interface CalibrationAttribute {
+  key: string; // Template attribute key
+  label: string;
+  stdDev: number | null; // Tasters' standard deviation, averaged over the coffees
+  kendallW: number | null; // Agreement on the coffees' ranking (0-1), null with one coffee
+}
+
+/**
+ * How one taster of a group session scored against the group
+ */
+export interface TasterCalibration {
+  tasterId: string;
+  name: string;
+  bias: Record<string, number | null>; // Mean (taster - group mean) per attribute key
+  meanBias: number | null; // Over all attributes; positive scores high
+  distance: number | null; // Mean absolute difference from the group mean
+  flavorAgreement: number | null; // Mean Jaccard overlap with the other tasters' descriptors
+  isOutlier: boolean; // Distance over one standard deviation above the group's
+}
+
+/**
+ * Inter-rater calibration of a completed group session
+ */
+export interface CalibrationReport {
+  sessionId: string;
+  templateId: string;
+  coffeeCount: number;
+  attributes: CalibrationAttribute[];
+  kendallW: number | null; // Agreement on the ranking of the coffees' totals
+  tasters: TasterCalibration[]; // Furthest from consensus first
+  flavorAgreement: {
+    mean: number | null; // Over every pair of tasters
+    pairs: Array<{ tasterIds: [string, string]; jaccard: number | null }>;
   };
-  scoreDelta: {
-    acidity: number;
-    sweetness: number;
-    body: number;
-    clarity: number;
-    finish: number;
-    enjoyment: number;
-    total: number;
+}
+
+/**
+ * Bucket size for time-series stats
+ */
+export type StatsPeriod = 'week' | 'month';
+
+/**
+ * Options for long-range palate statistics
+ */
+export interface PalateStatsOptions {
+  startDate?: string; // ISO8601, inclusive (default: all time)
+  endDate?: string; // ISO8601, inclusive (default: now)
+  period?: StatsPeriod; // Default 'month'
+  limit?: number; // Rows in top lists (default 10)
+  templateId?: string; // Template of the score series (default Cupper Classic)
+}
+
+/**
+ * Long-range palate statistics for a date range (sessions not in trash)
+ */
+export interface PalateStats {
+  templateId: string; // Template the score series and histograms are on
+  totals: {
+    sessions: number;
+    coffees: number; // Distinct library coffees
+    cups: number;
+    scoredCups: number;
   };
-  sharedFlavors: number[];
-  uniqueToCoffee1: number[];
-  uniqueToCoffee2: number[];
+  sessionsPerPeriod: Array<{ periodStart: string; count: number }>;
+  averagesPerPeriod: Array<{
+    periodStart: string;
+    cupCount: number;
+    averageScores: AttributeAverages;
+  }>;
+  topFlavors: FlavorFrequency[];
+  topCategories: Array<{ category: string; count: number }>;
+  scoreDistribution: Record<string, number[]>; // Counts per template scale value, lowest first
+  topOrigins: Array<{ value: string; sessionCount: number }>;
+  topRoasters: Array<{ value: string; sessionCount: number }>;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// |z| from which a cup's attribute score marks the cup as an outlier
+const OUTLIER_Z_SCORE = 1.5;
+
+// A cup fails uniformity when an attribute differs from the other cups'
+// mean by more than this share of the template's scale range
+const NON_UNIFORM_SHARE = 0.25;
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+const round2 = (value: number | null) => (value === null ? null : Math.round(value * 100) / 100);
+
+const meanOf = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
 class AnalyticsService {
   /**
    * Get comprehensive statistics for a session.
@@ -127,37 +371,13 @@ class AnalyticsService {
     });
 
     // Calculate average scores across all cups
-    let totalAcidity = 0;
-    let totalSweetness = 0;
-    let totalBody = 0;
-    let totalClarity = 0;
-    let totalFinish = 0;
-    let totalEnjoyment = 0;
-    let cupCount = 0;
-
-    for (const coffee of session.coffees) {
-      for (const cup of coffee.cups) {
-        totalAcidity += cup.ratings.acidity || 0;
-        totalSweetness += cup.ratings.sweetness || 0;
-        totalBody += cup.ratings.body || 0;
-        totalClarity += cup.ratings.clarity || 0;
-        totalFinish += cup.ratings.finish || 0;
-        totalEnjoyment += cup.ratings.enjoyment || 0;
-        cupCount++;
-      }
-    }
-
-    const averageScores: StructuralScores = {
-      acidity: cupCount > 0 ? Math.round((totalAcidity / cupCount) * 10) / 10 as 1 | 2 | 3 | 4 | 5 : 3,
-      sweetness: cupCount > 0 ? Math.round((totalSweetness / cupCount) * 10) / 10 as 1 | 2 | 3 | 4 | 5 : 3,
-      body: cupCount > 0 ? Math.round((totalBody / cupCount) * 10) / 10 as 1 | 2 | 3 | 4 | 5 : 3,
-      clarity: cupCount > 0 ? Math.round((totalClarity / cupCount) * 10) / 10 as 1 | 2 | 3 | 4 | 5 : 3,
-      finish: cupCount > 0 ? Math.round((totalFinish / cupCount) * 10) / 10 as 1 | 2 | 3 | 4 | 5 : 3,
-      enjoyment: cupCount > 0 ? Math.round((totalEnjoyment / cupCount) * 10) / 10 as 1 | 2 | 3 | 4 | 5 : 3,
-    };
-
-    const totalScore =
-      totalAcidity + totalSweetness + totalBody + totalClarity + totalFinish + totalEnjoyment;
+    const template = templateService.getTemplateOrDefault(session.templateId);
+    const ratings = session.coffees.flatMap(coffee => coffee.cups.map(cup => cup.ratings));
+    const averageScores = this.calculateAverageScores(template, ratings);
+    const totalScore = ratings.reduce(
+      (sum, scores) => sum + (computeTemplateTotal(template, scores) ?? 0),
+      0
+    );
 
     // Get top categories
     const topCategories = await this.getTopCategories(sessionId, 5);
@@ -179,6 +399,7 @@ class AnalyticsService {
 
   /**
    * Get flavor frequency across all sessions or filtered sessions.
+   * Sessions in trash are excluded.
    *
    * @param filters - Optional filters (session type, date range, etc.)
    * @returns Array of flavors with usage counts and average intensity
@@ -200,7 +421,7 @@ class AnalyticsService {
       JOIN cups c ON sf.cup_id = c.id
       JOIN coffees co ON c.coffee_id = co.id
       JOIN sessions s ON co.session_id = s.id
-      WHERE 1=1
+      WHERE s.deleted_at IS NULL
     `;
 
     const params: (string | number)[] = [];
@@ -270,7 +491,9 @@ class AnalyticsService {
 
   /**
    * Get uniformity scores for table cupping sessions.
-   * Measures cup-to-cup consistency.
+   * Measures cup-to-cup consistency, overall (on cup totals) and per
+   * attribute, with z-score outliers, an SCA-style pass/fail per cup and
+   * the descriptors found in every cup versus only some.
    *
    * @param sessionId - Session ID (must be table-cupping type)
    * @returns Uniformity scores for each coffee
@@ -281,22 +504,26 @@ class AnalyticsService {
       return [];
     }
 
+    const template = templateService.getTemplateOrDefault(session.templateId);
     const uniformityScores: UniformityScore[] = [];
 
     for (const coffee of session.coffees) {
+      // CVA coffees compare cup scores once every cup has an affective form
+      const isCVAScored = coffee.cups.every(cup => cup.cvaAffective);
+
       const cupScores = coffee.cups.map(cup => {
-        const total =
-          (cup.ratings.acidity || 0) +
-          (cup.ratings.sweetness || 0) +
-          (cup.ratings.body || 0) +
-          (cup.ratings.clarity || 0) +
-          (cup.ratings.finish || 0) +
-          (cup.ratings.enjoyment || 0);
+        if (isCVAScored && cup.cvaAffective) {
+          return {
+            cupId: cup.cupId,
+            position: cup.position,
+            totalScore: calculateCVACupScore(withCupDefects(cup.cvaAffective, cup.defects)),
+          };
+        }
 
         return {
           cupId: cup.cupId,
           position: cup.position,
-          totalScore: total,
+          totalScore: computeTemplateTotal(template, cup.ratings) ?? 0,
         };
       });
 
@@ -310,12 +537,38 @@ class AnalyticsService {
       // Uniformity score: 100 - (std dev * 10), clamped to 0-100
       const uniformityScore = Math.max(0, Math.min(100, 100 - standardDeviation * 10));
 
+      const attributes = this.getAttributeUniformity(template, coffee.cups);
+      const tolerance = (template.scale.max - template.scale.min) * NON_UNIFORM_SHARE;
+      const cupResults = cupScores.map((cupScore, cupIndex) => {
+        const cup = coffee.cups[cupIndex];
+        return {
+          ...cupScore,
+          isOutlier: attributes.some(attribute => {
+            const zScore = attribute.cups[cupIndex].zScore;
+            return zScore !== null && Math.abs(zScore) >= OUTLIER_Z_SCORE;
+          }),
+          isUniform: template.attributes.every(attribute => {
+            const value = cup.ratings[attribute.key];
+            const others = coffee.cups
+              .filter(other => other.cupId !== cup.cupId)
+              .map(other => other.ratings[attribute.key])
+              .filter(other => other !== undefined);
+            if (value === undefined || others.length === 0) return true;
+            const othersMean = others.reduce((sum, other) => sum + other, 0) / others.length;
+            return Math.abs(value - othersMean) <= tolerance;
+          }),
+        };
+      });
+
       uniformityScores.push({
         coffeeId: coffee.coffeeId,
         coffeeName: coffee.name,
         uniformityScore: Math.round(uniformityScore * 10) / 10,
-        cupScores,
+        cupScores: cupResults,
         standardDeviation: Math.round(standardDeviation * 100) / 100,
+        attributes,
+        flavorPresence: this.getFlavorPresence(coffee.cups),
+        uniformCups: cupResults.filter(cup => cup.isUniform).length,
       });
     }
 
@@ -323,96 +576,375 @@ class AnalyticsService {
   }
 
   /**
-   * Compare two coffees in a multi-coffee session.
+   * Compare any number of coffees, from one session or several: rankings
+   * by total and by each attribute, the flavor overlap of every pair and
+   * the descriptors unique to each coffee. Coffees of sealed blind
+   * sessions are named by their code.
    *
-   * @param sessionId - Session ID
-   * @param coffeeId1 - First coffee ID
-   * @param coffeeId2 - Second coffee ID
-   * @returns Comparison data including score deltas and flavor overlap
+   * @param coffees - Coffees to compare, in display order
+   * @returns Comparison, or null when fewer than two of the coffees exist
+   * @throws AppError if the coffees were scored on different templates
    */
-  async getCoffeeComparison(
-    sessionId: string,
-    coffeeId1: string,
-    coffeeId2: string
-  ): Promise<CoffeeComparison | null> {
-    const session = await sessionService.getSession(sessionId);
-    if (!session) return null;
+  async compareCoffees(coffees: ComparisonCoffeeRef[]): Promise<CoffeeComparison | null> {
+    const sessions = new Map<string, Session>();
+    for (const sessionId of new Set(coffees.map(ref => ref.sessionId))) {
+      const session = await sessionService.getSession(sessionId);
+      if (session) sessions.set(sessionId, sealSession(session));
+    }
 
-    const coffee1 = session.coffees.find(c => c.coffeeId === coffeeId1);
-    const coffee2 = session.coffees.find(c => c.coffeeId === coffeeId2);
-
-    if (!coffee1 || !coffee2) return null;
-
-    // Calculate averages for coffee 1
-    const coffee1Scores = this.calculateAverageScores(coffee1.cups.map(c => c.ratings));
-    const coffee1Flavors = this.getUniqueFlavors(coffee1.cups);
-
-    // Calculate averages for coffee 2
-    const coffee2Scores = this.calculateAverageScores(coffee2.cups.map(c => c.ratings));
-    const coffee2Flavors = this.getUniqueFlavors(coffee2.cups);
-
-    // Calculate deltas
-    const scoreDelta = {
-      acidity: coffee1Scores.acidity - coffee2Scores.acidity,
-      sweetness: coffee1Scores.sweetness - coffee2Scores.sweetness,
-      body: coffee1Scores.body - coffee2Scores.body,
-      clarity: coffee1Scores.clarity - coffee2Scores.clarity,
-      finish: coffee1Scores.finish - coffee2Scores.finish,
-      enjoyment: (coffee1Scores.enjoyment || 0) - (coffee2Scores.enjoyment || 0),
-      total:
-        coffee1Scores.acidity +
-        coffee1Scores.sweetness +
-        coffee1Scores.body +
-        coffee1Scores.clarity +
-        coffee1Scores.finish +
-        (coffee1Scores.enjoyment || 0) -
-        (coffee2Scores.acidity +
-          coffee2Scores.sweetness +
-          coffee2Scores.body +
-          coffee2Scores.clarity +
-          coffee2Scores.finish +
-          (coffee2Scores.enjoyment || 0)),
-    };
+    const entries = coffees.flatMap(ref => {
+      const session = sessions.get(ref.sessionId);
+      const coffee = session?.coffees.find(c => c.coffeeId === ref.coffeeId);
+      return session && coffee ? [{ session, coffee }] : [];
+    });
+    if (entries.length < 2) return null;
+
+    if (new Set(entries.map(entry => entry.session.templateId)).size > 1) {
+      throw new AppError(
+        'Compared coffees were scored on different templates',
+        'TEMPLATE_MISMATCH',
+        'Only coffees scored on the same template can be compared.'
+      );
+    }
+    const template = templateService.getTemplateOrDefault(entries[0].session.templateId);
+
+    const compared = entries.map(({ session, coffee }) => {
+      const averageScores = this.calculateAverageScores(
+        template,
+        coffee.cups.map(c => c.ratings)
+      );
+      return {
+        sessionId: session.id,
+        coffeeId: coffee.coffeeId,
+        name: coffee.name,
+        sessionDate: session.createdAt,
+        averageScores,
+        totalScore: computeTemplateTotal(template, averageScores),
+        flavors: this.getUniqueFlavors(coffee.cups),
+        uniqueFlavors: [] as number[],
+      };
+    });
 
-    // Find shared and unique flavors
-    const sharedFlavors = coffee1Flavors.filter(f => coffee2Flavors.includes(f));
-    const uniqueToCoffee1 = coffee1Flavors.filter(f => !coffee2Flavors.includes(f));
-    const uniqueToCoffee2 = coffee2Flavors.filter(f => !coffee1Flavors.includes(f));
+    for (const coffee of compared) {
+      const others = new Set(
+        compared.filter(other => other !== coffee).flatMap(other => other.flavors)
+      );
+      coffee.uniqueFlavors = coffee.flavors.filter(flavorId => !others.has(flavorId));
+    }
+
+    const attributeRankings: Record<string, ComparisonRank[]> = {};
+    for (const { key } of template.attributes) {
+      attributeRankings[key] = this.rankCoffees(
+        compared.map(coffee => ({
+          coffeeId: coffee.coffeeId,
+          value: coffee.averageScores[key] ?? null,
+        }))
+      );
+    }
 
     return {
-      coffee1: {
-        coffeeId: coffee1.coffeeId,
-        name: coffee1.name,
-        averageScores: coffee1Scores,
-        totalScore:
-          coffee1Scores.acidity +
-          coffee1Scores.sweetness +
-          coffee1Scores.body +
-          coffee1Scores.clarity +
-          coffee1Scores.finish +
-          (coffee1Scores.enjoyment || 0),
-        flavors: coffee1Flavors,
-      },
-      coffee2: {
-        coffeeId: coffee2.coffeeId,
-        name: coffee2.name,
-        averageScores: coffee2Scores,
-        totalScore:
-          coffee2Scores.acidity +
-          coffee2Scores.sweetness +
-          coffee2Scores.body +
-          coffee2Scores.clarity +
-          coffee2Scores.finish +
-          (coffee2Scores.enjoyment || 0),
-        flavors: coffee2Flavors,
-      },
-      scoreDelta,
-      sharedFlavors,
-      uniqueToCoffee1,
-      uniqueToCoffee2,
+      templateId: template.id,
+      coffees: compared,
+      totalRanking: this.rankCoffees(
+        compared.map(coffee => ({ coffeeId: coffee.coffeeId, value: coffee.totalScore }))
+      ),
+      attributeRankings,
+      flavorOverlap: compared.map(a =>
+        compared.map(b => round2(jaccardIndex(a.flavors, b.flavors)))
+      ),
     };
   }
 
+  /**
+   * Get every tasting of a library coffee across sessions (not in trash).
+   * Scores are averaged per tasting; flavor recurrence counts the tastings
+   * each flavor was noted in.
+   *
+   * @param catalogId - Library coffee ID
+   * @returns Timeline oldest first, or null if the coffee is not in the library
+   */
+  async getCoffeeTimeline(catalogId: string): Promise<CoffeeTimeline | null> {
+    const coffee = await coffeeLibraryService.getCoffee(catalogId);
+    if (!coffee) return null;
+
+    const db = await getDatabase();
+
+    type EntryRow = {
+      session_id: string;
+      tasted_at: string;
+      template_id: string;
+      coffee_id: string;
+      roast_date: string | null;
+      brew_method: string | null;
+      cup_count: number;
+    };
+    type ScoreRow = {
+      coffee_id: string;
+      attribute: string;
+      avg_value: number;
+    };
+    type FlavorRow = {
+      coffee_id: string;
+      flavor_id: number;
+      avg_intensity: number;
+      dominant: number;
+    };
+
+    let entryRows: EntryRow[] = [];
+    let scoreRows: ScoreRow[] = [];
+    let flavorRows: FlavorRow[] = [];
+    await db.transactionAsync(async tx => {
+      const tastings = await tx.executeSqlAsync(analyticsQueries.getCoffeeTimelineEntries, [
+        catalogId,
+      ]);
+      entryRows = (tastings.rows || []) as EntryRow[];
+
+      const scores = await tx.executeSqlAsync(analyticsQueries.getCoffeeTimelineScores, [
+        catalogId,
+      ]);
+      scoreRows = (scores.rows || []) as ScoreRow[];
+
+      const flavors = await tx.executeSqlAsync(analyticsQueries.getCoffeeTimelineFlavors, [
+        catalogId,
+      ]);
+      flavorRows = (flavors.rows || []) as FlavorRow[];
+    }, true);
+
+    // Group scores and flavors by tasting
+    const scoresByCoffee = new Map<string, AttributeAverages>();
+    for (const row of scoreRows) {
+      const averages = scoresByCoffee.get(row.coffee_id) || {};
+      averages[row.attribute] = round(row.avg_value);
+      scoresByCoffee.set(row.coffee_id, averages);
+    }
+
+    const flavorsByCoffee = new Map<string, CoffeeTimelineEntry['flavors']>();
+    for (const row of flavorRows) {
+      const flavor = flavorService.getFlavorById(row.flavor_id);
+      if (!flavor) continue;
+
+      const list = flavorsByCoffee.get(row.coffee_id) || [];
+      list.push({
+        flavorId: row.flavor_id,
+        flavorName: flavor.name,
+        averageIntensity: Math.round(row.avg_intensity * 10) / 10,
+        dominant: row.dominant === 1,
+      });
+      flavorsByCoffee.set(row.coffee_id, list);
+    }
+
+    const entries: CoffeeTimelineEntry[] = entryRows.map(row => {
+      let daysSinceRoast: number | null = null;
+      if (row.roast_date) {
+        const days = Math.floor(
+          (new Date(row.tasted_at).getTime() - new Date(row.roast_date).getTime()) / DAY_MS
+        );
+        daysSinceRoast = Number.isNaN(days) || days < 0 ? null : days;
+      }
+
+      const flavors = (flavorsByCoffee.get(row.coffee_id) || []).sort(
+        (a, b) => Number(b.dominant) - Number(a.dominant) || b.averageIntensity - a.averageIntensity
+      );
+
+      return {
+        sessionId: row.session_id,
+        coffeeId: row.coffee_id,
+        tastedAt: row.tasted_at,
+        templateId: row.template_id,
+        roastDate: row.roast_date || undefined,
+        daysSinceRoast,
+        brewMethod: row.brew_method || undefined,
+        cupCount: row.cup_count,
+        averageScores: scoresByCoffee.get(row.coffee_id) || {},
+        flavors,
+      };
+    });
+
+    // Flavor recurrence across tastings
+    const recurrence = new Map<number, { occurrences: number; intensityTotal: number }>();
+    for (const entry of entries) {
+      for (const flavor of entry.flavors) {
+        const current = recurrence.get(flavor.flavorId) || { occurrences: 0, intensityTotal: 0 };
+        current.occurrences += 1;
+        current.intensityTotal += flavor.averageIntensity;
+        recurrence.set(flavor.flavorId, current);
+      }
+    }
+
+    const flavorRecurrence: FlavorRecurrence[] = [];
+    for (const [flavorId, { occurrences, intensityTotal }] of recurrence) {
+      const flavor = flavorService.getFlavorById(flavorId);
+      if (!flavor) continue;
+      flavorRecurrence.push({
+        flavorId,
+        flavorName: flavor.name,
+        category: flavor.category,
+        occurrences,
+        recurrence: entries.length > 0 ? occurrences / entries.length : 0,
+        averageIntensity: Math.round((intensityTotal / occurrences) * 10) / 10,
+      });
+    }
+    flavorRecurrence.sort(
+      (a, b) => b.occurrences - a.occurrences || b.averageIntensity - a.averageIntensity
+    );
+
+    // Overall averages across tastings on the latest tasting's template (each
+    // tasting weighted equally; scores on other templates are not comparable)
+    const templateId = entries[entries.length - 1]?.templateId ?? DEFAULT_TEMPLATE_ID;
+    const template = templateService.getTemplateOrDefault(templateId);
+    const comparable = entries.filter(entry => entry.templateId === templateId);
+    const averageScores: AttributeAverages = {};
+    for (const { key } of template.attributes) {
+      const values = comparable
+        .map(entry => entry.averageScores[key])
+        .filter((value): value is number => value !== null && value !== undefined);
+      averageScores[key] =
+        values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+    }
+
+    return { coffee, templateId, entries, flavorRecurrence, averageScores };
+  }
+
+  /**
+   * Get long-range palate statistics for a date range.
+   * Every metric is a SQL aggregate; no sessions are loaded.
+   *
+   * Score series and histograms cover sessions on one scoring template.
+   *
+   * @param options - Date range, bucket size, top-list length and template
+   * @returns Totals, time series, top flavors/categories, score histograms and top origins/roasters
+   */
+  async getPalateStats(options: PalateStatsOptions = {}): Promise<PalateStats> {
+    const db = await getDatabase();
+    const start = options.startDate || '';
+    const end = options.endDate || new Date().toISOString();
+    const period = options.period || 'month';
+    const limit = options.limit || 10;
+    const template = templateService.getTemplateOrDefault(
+      options.templateId || DEFAULT_TEMPLATE_ID
+    );
+    const scaleValues = getScaleValues(template.scale);
+
+    type AverageRow = {
+      period_start: string;
+      attribute: string;
+      avg_value: number;
+      cup_count: number;
+    };
+    type TopRow = { value: string; session_count: number };
+
+    const scoreDistribution: Record<string, number[]> = {};
+    for (const { key } of template.attributes) {
+      scoreDistribution[key] = scaleValues.map(() => 0);
+    }
+
+    const stats: PalateStats = {
+      templateId: template.id,
+      totals: { sessions: 0, coffees: 0, cups: 0, scoredCups: 0 },
+      sessionsPerPeriod: [],
+      averagesPerPeriod: [],
+      topFlavors: [],
+      topCategories: [],
+      scoreDistribution,
+      topOrigins: [],
+      topRoasters: [],
+    };
+
+    await db.transactionAsync(async tx => {
+      const overview = await tx.executeSqlAsync(analyticsQueries.getStatsOverview, [start, end]);
+      const totals = overview.rows[0];
+      if (totals) {
+        stats.totals = {
+          sessions: totals.session_count || 0,
+          coffees: totals.coffee_count || 0,
+          cups: totals.cup_count || 0,
+          scoredCups: totals.scored_cup_count || 0,
+        };
+      }
+
+      const counts = await tx.executeSqlAsync(analyticsQueries.getSessionCountsByPeriod, [
+        period,
+        start,
+        end,
+      ]);
+      stats.sessionsPerPeriod = counts.rows.map(row => ({
+        periodStart: row.period_start as string,
+        count: row.session_count as number,
+      }));
+
+      // One row per period and attribute; a period's cup count is its most-scored attribute
+      const averages = await tx.executeSqlAsync(analyticsQueries.getAverageScoresByPeriod, [
+        period,
+        template.id,
+        start,
+        end,
+      ]);
+      for (const row of averages.rows as AverageRow[]) {
+        let bucket = stats.averagesPerPeriod[stats.averagesPerPeriod.length - 1];
+        if (!bucket || bucket.periodStart !== row.period_start) {
+          const averageScores: AttributeAverages = {};
+          for (const { key } of template.attributes) {
+            averageScores[key] = null;
+          }
+          bucket = { periodStart: row.period_start, cupCount: 0, averageScores };
+          stats.averagesPerPeriod.push(bucket);
+        }
+        if (row.attribute in bucket.averageScores) {
+          bucket.averageScores[row.attribute] = round(row.avg_value);
+          bucket.cupCount = Math.max(bucket.cupCount, row.cup_count);
+        }
+      }
+
+      const distribution = await tx.executeSqlAsync(analyticsQueries.getScoreDistribution, [
+        template.id,
+        start,
+        end,
+      ]);
+      for (const row of distribution.rows) {
+        const index = scaleValues.indexOf(row.score as number);
+        if (stats.scoreDistribution[row.attribute] && index >= 0) {
+          stats.scoreDistribution[row.attribute][index] = row.count as number;
+        }
+      }
+
+      const toTopList = (rows: TopRow[]) =>
+        rows.map(row => ({ value: row.value, sessionCount: row.session_count }));
+
+      const origins = await tx.executeSqlAsync(analyticsQueries.getTopOrigins, [
+        start,
+        end,
+        limit,
+      ]);
+      stats.topOrigins = toTopList(origins.rows as TopRow[]);
+
+      const roasters = await tx.executeSqlAsync(analyticsQueries.getTopRoasters, [
+        start,
+        end,
+        limit,
+      ]);
+      stats.topRoasters = toTopList(roasters.rows as TopRow[]);
+    }, true);
+
+    // Flavor categories come from the flavor wheel data, so roll them up from
+    // the per-flavor SQL counts
+    const flavorFrequency = await this.getFlavorFrequency({
+      startDate: options.startDate,
+      endDate: end,
+    });
+    stats.topFlavors = flavorFrequency.slice(0, limit);
+
+    const categoryCount = new Map<string, number>();
+    for (const flavor of flavorFrequency) {
+      categoryCount.set(flavor.category, (categoryCount.get(flavor.category) || 0) + flavor.count);
+    }
+    stats.topCategories = Array.from(categoryCount.entries())
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+
+    return stats;
+  }
+
   // Helper methods
 
   private async getTopCategories(
@@ -484,40 +1016,311 @@ class AnalyticsService {
     return result;
   }
 
-  private calculateAverageScores(scores: StructuralScores[]): StructuralScores {
-    if (scores.length === 0) {
+  /**
+   * Get how often defects were recorded, per library coffee or per roaster
+   * (sessions not in trash). Groups without any cups are left out.
+   *
+   * @param groupBy - Group by library coffee or by roaster
+   * @returns Groups by defect rate, highest first
+   */
+  async getDefectFrequency(groupBy: DefectGroupBy = 'coffee'): Promise<DefectFrequency[]> {
+    const db = await getDatabase();
+
+    type TotalRow = {
+      group_key: string;
+      label: string | null;
+      cup_count: number;
+      defective_cup_count: number;
+    };
+    type CountRow = {
+      group_key: string;
+      defect_id: string;
+      cup_count: number;
+      fault_count: number;
+    };
+
+    let totalRows: TotalRow[] = [];
+    let countRows: CountRow[] = [];
+    await db.transactionAsync(async tx => {
+      const totals = await tx.executeSqlAsync(analyticsQueries.getDefectTotals, [
+        groupBy,
+        groupBy,
+      ]);
+      totalRows = (totals.rows || []) as TotalRow[];
+
+      const counts = await tx.executeSqlAsync(analyticsQueries.getDefectCounts, [groupBy]);
+      countRows = (counts.rows || []) as CountRow[];
+    }, true);
+
+    const defectsByGroup = new Map<string, DefectFrequency['defects']>();
+    for (const row of countRows) {
+      const list = defectsByGroup.get(row.group_key) || [];
+      list.push({
+        defectId: row.defect_id,
+        label: getDefectLabel(row.defect_id),
+        cupCount: row.cup_count,
+        faultCount: row.fault_count,
+      });
+      defectsByGroup.set(row.group_key, list);
+    }
+
+    return totalRows
+      .map(row => ({
+        key: row.group_key,
+        label: row.label || row.group_key,
+        cupCount: row.cup_count,
+        defectiveCupCount: row.defective_cup_count,
+        defectRate: row.cup_count > 0 ? row.defective_cup_count / row.cup_count : 0,
+        defects: (defectsByGroup.get(row.group_key) || []).sort(
+          (a, b) => b.cupCount - a.cupCount || a.label.localeCompare(b.label)
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          b.defectRate - a.defectRate || b.cupCount - a.cupCount || a.label.localeCompare(b.label)
+      );
+  }
+
+  /**
+   * Get triangle test accuracy over every answered set (sessions not in
+   * trash), with the running accuracy and p-value after each set.
+   *
+   * @returns Overall summary and history, oldest answer first
+   */
+  async getTriangleStats(): Promise<TriangleStats> {
+    const db = await getDatabase();
+
+    type AnswerRow = { session_id: string; answered_at: string; correct: number };
+
+    let rows: AnswerRow[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(analyticsQueries.getTriangleAnswers, []);
+      rows = (result.rows || []) as AnswerRow[];
+    }, true);
+
+    let correctSets = 0;
+    const history = rows.map((row, index) => {
+      correctSets += row.correct;
+      const summary = summarizeTriangleResults(correctSets, index + 1);
+      return {
+        answeredAt: row.answered_at,
+        totalSets: summary.totalSets,
+        accuracy: summary.accuracy,
+        pValue: summary.pValue,
+      };
+    });
+
+    return {
+      summary: summarizeTriangleResults(correctSets, rows.length),
+      sessionCount: new Set(rows.map(row => row.session_id)).size,
+      history,
+    };
+  }
+
+  /**
+   * Get the inter-rater calibration report of a group session: how much
+   * the tasters disagree per attribute, each taster's bias against the
+   * group mean, how alike they rank the coffees (Kendall's W) and how
+   * much their flavor descriptors overlap (Jaccard). Scores are each
+   * taster's averages over a coffee's cups.
+   *
+   * @param sessionId - Session ID
+   * @returns Report, or null unless every taster of the group has submitted
+   */
+  async getCalibrationReport(sessionId: string): Promise<CalibrationReport | null> {
+    const session = await sessionService.getSession(sessionId);
+    if (!session || !isGroupComplete(session)) {
+      return null;
+    }
+
+    const template = templateService.getTemplateOrDefault(session.templateId);
+    const tasters = [...session.tasters].sort((a, b) => a.position - b.position);
+    const groupScores = session.coffees.map(coffee =>
+      summarizeGroupScores(template, coffee.cups, tasters)
+    );
+
+    const attributes = template.attributes.map((attribute, index) => {
+      const rows = groupScores.map(coffeeRows => coffeeRows[index]);
+      const stdDevs = rows.flatMap(row => (row.spread ? [row.spread.stdDev] : []));
       return {
-        acidity: 3,
-        sweetness: 3,
-        body: 3,
-        clarity: 3,
-        finish: 3,
-        enjoyment: 3,
+        key: attribute.key,
+        label: attribute.shortLabel ?? attribute.label,
+        stdDev: round2(meanOf(stdDevs)),
+        kendallW: round2(
+          this.getConcordance(
+            tasters,
+            rows.map(row => row.byTaster)
+          )
+        ),
       };
+    });
+
+    // Each taster's total per coffee, for the ranking of the coffees
+    const totals = session.coffees.map(coffee => {
+      const byTaster: Record<string, number | undefined> = {};
+      for (const taster of tasters) {
+        const averages = getTasterAverages(template, coffee.cups, taster.tasterId);
+        byTaster[taster.tasterId] = computeTemplateTotal(template, averages) ?? undefined;
+      }
+      return byTaster;
+    });
+
+    // Descriptors each taster picked per coffee, over its cups
+    const descriptors = session.coffees.map(coffee =>
+      tasters.map(taster =>
+        coffee.cups.flatMap(cup =>
+          cup.tasterScores
+            .filter(set => set.tasterId === taster.tasterId)
+            .flatMap(set => set.flavors.map(flavor => flavor.flavorId))
+        )
+      )
+    );
+
+    const pairs: CalibrationReport['flavorAgreement']['pairs'] = [];
+    for (let i = 0; i < tasters.length; i++) {
+      for (let j = i + 1; j < tasters.length; j++) {
+        const overlaps = descriptors.flatMap(coffeeSets => {
+          const jaccard = jaccardIndex(coffeeSets[i], coffeeSets[j]);
+          return jaccard === null ? [] : [jaccard];
+        });
+        pairs.push({
+          tasterIds: [tasters[i].tasterId, tasters[j].tasterId],
+          jaccard: round2(meanOf(overlaps)),
+        });
+      }
     }
 
-    const totals = scores.reduce(
-      (acc, s) => ({
-        acidity: acc.acidity + (s.acidity || 0),
-        sweetness: acc.sweetness + (s.sweetness || 0),
-        body: acc.body + (s.body || 0),
-        clarity: acc.clarity + (s.clarity || 0),
-        finish: acc.finish + (s.finish || 0),
-        enjoyment: acc.enjoyment + (s.enjoyment || 0),
-      }),
-      { acidity: 0, sweetness: 0, body: 0, clarity: 0, finish: 0, enjoyment: 0 }
+    const calibrations = tasters.map(taster => {
+      const bias: Record<string, number | null> = {};
+      const deviations: number[] = [];
+      template.attributes.forEach((attribute, index) => {
+        const attributeDeviations = groupScores.flatMap(coffeeRows => {
+          const row = coffeeRows[index];
+          const value = row.byTaster[taster.tasterId];
+          return value === undefined || !row.spread ? [] : [value - row.spread.mean];
+        });
+        bias[attribute.key] = round2(meanOf(attributeDeviations));
+        deviations.push(...attributeDeviations);
+      });
+
+      const agreements = pairs.flatMap(pair =>
+        pair.tasterIds.includes(taster.tasterId) && pair.jaccard !== null ? [pair.jaccard] : []
+      );
+
+      return {
+        tasterId: taster.tasterId,
+        name: taster.name,
+        bias,
+        meanBias: round2(meanOf(deviations)),
+        distance: round2(meanOf(deviations.map(Math.abs))),
+        flavorAgreement: round2(meanOf(agreements)),
+        isOutlier: false,
+      };
+    });
+
+    // Outliers sit over one standard deviation further out than the group
+    const distances = summarizeSpread(
+      calibrations.flatMap(calibration =>
+        calibration.distance === null ? [] : [calibration.distance]
+      )
     );
+    if (distances && distances.stdDev > 0) {
+      for (const calibration of calibrations) {
+        calibration.isOutlier =
+          calibration.distance !== null && calibration.distance > distances.mean + distances.stdDev;
+      }
+    }
+    calibrations.sort((a, b) => (b.distance ?? -1) - (a.distance ?? -1));
 
     return {
-      acidity: Math.round((totals.acidity / scores.length) * 10) / 10 as 1 | 2 | 3 | 4 | 5,
-      sweetness: Math.round((totals.sweetness / scores.length) * 10) / 10 as 1 | 2 | 3 | 4 | 5,
-      body: Math.round((totals.body / scores.length) * 10) / 10 as 1 | 2 | 3 | 4 | 5,
-      clarity: Math.round((totals.clarity / scores.length) * 10) / 10 as 1 | 2 | 3 | 4 | 5,
-      finish: Math.round((totals.finish / scores.length) * 10) / 10 as 1 | 2 | 3 | 4 | 5,
-      enjoyment: Math.round((totals.enjoyment / scores.length) * 10) / 10 as 1 | 2 | 3 | 4 | 5,
+      sessionId,
+      templateId: template.id,
+      coffeeCount: session.coffees.length,
+      attributes,
+      kendallW: round2(this.getConcordance(tasters, totals)),
+      tasters: calibrations,
+      flavorAgreement: {
+        mean: round2(meanOf(pairs.flatMap(pair => (pair.jaccard === null ? [] : [pair.jaccard])))),
+        pairs,
+      },
     };
   }
 
+  // Kendall's W over the tasters who scored every coffee (one column per coffee)
+  private getConcordance(
+    tasters: SessionTaster[],
+    coffees: Array<Record<string, number | undefined>>
+  ): number | null {
+    const rows = tasters
+      .map(taster => coffees.map(byTaster => byTaster[taster.tasterId]))
+      .filter((row): row is number[] => row.every(value => value !== undefined));
+    return kendallsW(rows);
+  }
+
+  // Mean, spread and per-cup z-scores of each attribute over a coffee's cups
+  private getAttributeUniformity(
+    template: ScoringTemplate,
+    cups: Session['coffees'][0]['cups']
+  ): AttributeUniformity[] {
+    return template.attributes.map(attribute => {
+      const values = cups.map(cup => cup.ratings[attribute.key] ?? null);
+      const spread = summarizeSpread(values.filter((value): value is number => value !== null));
+      return {
+        key: attribute.key,
+        label: attribute.shortLabel ?? attribute.label,
+        mean: round2(spread?.mean ?? null),
+        standardDeviation: round2(spread?.stdDev ?? null),
+        range: spread?.range ?? null,
+        cups: cups.map((cup, index) => {
+          const value = values[index];
+          let zScore: number | null = null;
+          if (value !== null && spread) {
+            zScore = spread.stdDev > 0 ? round2((value - spread.mean) / spread.stdDev) : 0;
+          }
+          return { cupId: cup.cupId, value, zScore };
+        }),
+      };
+    });
+  }
+
+  // Descriptors of a coffee's cups by the number of cups they were picked in
+  private getFlavorPresence(cups: Session['coffees'][0]['cups']): FlavorPresence[] {
+    const cupCounts = new Map<number, number>();
+    for (const cup of cups) {
+      for (const flavorId of new Set(cup.flavors.map(flavor => flavor.flavorId))) {
+        cupCounts.set(flavorId, (cupCounts.get(flavorId) || 0) + 1);
+      }
+    }
+
+    return Array.from(cupCounts, ([flavorId, cupCount]) => ({
+      flavorId,
+      flavorName: flavorService.getFlavorById(flavorId)?.name ?? 'Unknown',
+      cupCount,
+      inAllCups: cupCount === cups.length,
+    })).sort((a, b) => b.cupCount - a.cupCount || a.flavorName.localeCompare(b.flavorName));
+  }
+
+  // Highest value first, tied values sharing a rank (1, 1, 3); no value left out
+  private rankCoffees(values: Array<{ coffeeId: string; value: number | null }>): ComparisonRank[] {
+    const scored = values
+      .filter((entry): entry is { coffeeId: string; value: number } => entry.value !== null)
+      .sort((a, b) => b.value - a.value);
+    return scored.map(entry => ({
+      coffeeId: entry.coffeeId,
+      rank: scored.findIndex(other => other.value === entry.value) + 1,
+      value: entry.value,
+    }));
+  }
+
+  // Per-attribute averages rounded to one decimal
+  private calculateAverageScores(template: ScoringTemplate, scores: CupScores[]): CupScores {
+    const averages = averageCupScores(template, scores);
+    for (const key of Object.keys(averages)) {
+      averages[key] = Math.round(averages[key] * 10) / 10;
+    }
+    return averages;
+  }
+
   private getUniqueFlavors(cups: Session['coffees'][0]['cups']): number[] {
     const flavorIds = new Set<number>();
     for (const cup of cups) {
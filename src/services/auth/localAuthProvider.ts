@@ -0,0 +1,67 @@
+/**
+ * Local Auth Provider
+ *
+ * Development and testing provider that signs in without a server. The
+ * account is keyed by email, so signing in again with the same email gives
+ * the same user ID; the password is not checked. Its tokens are never sent
+ * anywhere.
+ */
+
+import type {
+  AuthProvider,
+  AuthSession,
+  AuthTokens,
+  SignInCredentials,
+} from '../../types/auth.types';
+import { AppError } from '../../utils/errorHandling';
+import { generateUUID } from '../../utils/uuid';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+/**
+ * Validate and normalize the email of a sign-in.
+ *
+ * @throws AppError INVALID_EMAIL if it does not look like an email address
+ */
+export function normalizeEmail(email: string): string {
+  const trimmed = email.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(trimmed)) {
+    throw new AppError(`Invalid email: ${email}`, 'INVALID_EMAIL', 'Enter a valid email address.');
+  }
+  return trimmed;
+}
+
+function issueTokens(): AuthTokens {
+  return { accessToken: generateUUID(), refreshToken: null, expiresAt: null };
+}
+
+export class LocalAuthProvider implements AuthProvider {
+  readonly id = 'local';
+  readonly name = 'Local test account';
+  readonly description = 'Signs in on this device only, without a server. For development.';
+  readonly requiresServer = false;
+
+  async signIn(credentials: SignInCredentials): Promise<AuthSession> {
+    const email = normalizeEmail(credentials.email);
+
+    return {
+      providerId: this.id,
+      issuer: null,
+      user: {
+        id: `local-${email}`,
+        email,
+        displayName: credentials.displayName?.trim() || email.split('@')[0],
+      },
+      tokens: issueTokens(),
+      signedInAt: new Date().toISOString(),
+    };
+  }
+
+  async refresh(): Promise<AuthTokens> {
+    return issueTokens();
+  }
+
+  async signOut(): Promise<void> {
+    // Nothing was issued outside this device
+  }
+}
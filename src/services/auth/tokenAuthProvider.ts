@@ -0,0 +1,203 @@
+/**
+ * Token Auth Provider
+ *
+ * Signs in to a sync server with its OAuth 2.0 token endpoint (password and
+ * refresh_token grants, see docs/SYNC_PROTOCOL.md). The server issues a
+ * short-lived bearer token for sync requests and a refresh token to renew
+ * it without asking for the password again.
+ */
+
+import type {
+  AuthProvider,
+  AuthSession,
+  AuthTokens,
+  AuthUser,
+  SignInCredentials,
+} from '../../types/auth.types';
+import { AppError } from '../../utils/errorHandling';
+import { normalizeEmail } from './localAuthProvider';
+
+/**
+ * Time allowed for one request to the token endpoint
+ */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Successful token endpoint response (RFC 6749 section 5.1, plus the user)
+ */
+interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number; // Seconds
+  refresh_token?: string;
+  user?: { id: string; email: string; name?: string };
+}
+
+function isTokenResponse(value: unknown): value is TokenResponse {
+  if (typeof value !== 'object' || value === null) return false;
+  const response = value as Partial<TokenResponse>;
+  return (
+    typeof response.access_token === 'string' &&
+    typeof response.token_type === 'string' &&
+    response.token_type.toLowerCase() === 'bearer'
+  );
+}
+
+function toTokens(response: TokenResponse, previous?: AuthTokens): AuthTokens {
+  return {
+    accessToken: response.access_token,
+    // Servers may keep the refresh token when renewing
+    refreshToken: response.refresh_token ?? previous?.refreshToken ?? null,
+    expiresAt:
+      typeof response.expires_in === 'number'
+        ? new Date(Date.now() + response.expires_in * 1000).toISOString()
+        : null,
+  };
+}
+
+export class TokenAuthProvider implements AuthProvider {
+  readonly id = 'token';
+  readonly name = 'Sync server account';
+  readonly description = 'Signs in to your sync server, so it knows which sessions are yours.';
+  readonly requiresServer = true;
+
+  async signIn(credentials: SignInCredentials): Promise<AuthSession> {
+    const issuer = credentials.serverUrl?.trim().replace(/\/+$/, '');
+    if (!issuer) {
+      throw new AppError(
+        'No server to sign in to',
+        'SYNC_NOT_CONFIGURED',
+        'Set a sync server in Settings first.'
+      );
+    }
+    const email = normalizeEmail(credentials.email);
+    if (!credentials.password) {
+      throw new AppError('Missing password', 'INVALID_CREDENTIALS', 'Enter your password.');
+    }
+
+    const response = await this.requestToken(issuer, {
+      grant_type: 'password',
+      username: email,
+      password: credentials.password,
+      name: credentials.displayName?.trim() || undefined,
+    });
+    if (!response.user || typeof response.user.id !== 'string') {
+      throw new AppError(
+        'Token response has no user',
+        'AUTH_SERVER_ERROR',
+        'The server did not return your account. Please try again later.'
+      );
+    }
+
+    const user: AuthUser = {
+      id: response.user.id,
+      email: response.user.email || email,
+      displayName: response.user.name || email.split('@')[0],
+    };
+    return {
+      providerId: this.id,
+      issuer,
+      user,
+      tokens: toTokens(response),
+      signedInAt: new Date().toISOString(),
+    };
+  }
+
+  async refresh(session: AuthSession): Promise<AuthTokens> {
+    if (!session.issuer || !session.tokens.refreshToken) {
+      throw new AppError(
+        'Account cannot be refreshed',
+        'AUTH_EXPIRED',
+        'Your sign-in has expired. Sign in again in Settings.'
+      );
+    }
+
+    const response = await this.requestToken(session.issuer, {
+      grant_type: 'refresh_token',
+      refresh_token: session.tokens.refreshToken,
+    });
+    return toTokens(response, session.tokens);
+  }
+
+  async signOut(session: AuthSession): Promise<void> {
+    if (!session.issuer) return;
+
+    const token = session.tokens.refreshToken ?? session.tokens.accessToken;
+    try {
+      await this.post(session.issuer, '/v1/auth/revoke', { token });
+    } catch (error) {
+      console.log('[TokenAuthProvider] Could not revoke tokens:', error);
+    }
+  }
+
+  /**
+   * Call the token endpoint. A rejected grant means the credentials or the
+   * refresh token are no good.
+   */
+  private async requestToken(
+    issuer: string,
+    params: Record<string, string | undefined>
+  ): Promise<TokenResponse> {
+    const { status, body } = await this.post(issuer, '/v1/auth/token', params);
+
+    if (status === 400 || status === 401) {
+      const error = (body as { error?: unknown } | null)?.error;
+      if (params.grant_type === 'refresh_token') {
+        throw new AppError(
+          `Refresh rejected: ${String(error)}`,
+          'AUTH_EXPIRED',
+          'Your sign-in has expired. Sign in again in Settings.'
+        );
+      }
+      throw new AppError(
+        `Sign-in rejected: ${String(error)}`,
+        'INVALID_CREDENTIALS',
+        'Wrong email or password.'
+      );
+    }
+    if (status !== 200 || !isTokenResponse(body)) {
+      throw new AppError(
+        `Token endpoint returned ${status}`,
+        'AUTH_SERVER_ERROR',
+        'The server could not sign you in. Please try again later.'
+      );
+    }
+    return body;
+  }
+
+  private async post(
+    issuer: string,
+    path: string,
+    payload: unknown
+  ): Promise<{ status: number; body: unknown }> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(`${issuer}${path}`, {
+        method: 'POST',
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new AppError(
+        `POST ${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+        'AUTH_NETWORK_ERROR',
+        'Could not reach the server. Check the address and your connection.'
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const text = await response.text();
+    let body: unknown = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      body = null;
+    }
+    return { status: response.status, body };
+  }
+}
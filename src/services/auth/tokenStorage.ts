@@ -0,0 +1,59 @@
+/**
+ * Token Storage
+ *
+ * Keeps the signed-in account in the platform's secure storage (Keychain on
+ * iOS, Keystore-backed on Android) rather than AsyncStorage or SQLite, so
+ * tokens are encrypted at rest and left out of backups and exports.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import type { AuthSession } from '../../types/auth.types';
+
+const SESSION_KEY = 'cupper.auth.session';
+
+function isAuthSession(value: unknown): value is AuthSession {
+  if (typeof value !== 'object' || value === null) return false;
+  const session = value as Partial<AuthSession>;
+  return (
+    typeof session.providerId === 'string' &&
+    typeof session.user?.id === 'string' &&
+    typeof session.tokens?.accessToken === 'string'
+  );
+}
+
+/**
+ * Read the stored account. Unreadable entries are dropped.
+ *
+ * @returns Promise<AuthSession | null> - Account, or null if signed out
+ */
+export async function loadAuthSession(): Promise<AuthSession | null> {
+  const json = await SecureStore.getItemAsync(SESSION_KEY);
+  if (!json) return null;
+
+  try {
+    const session: unknown = JSON.parse(json);
+    if (isAuthSession(session)) return session;
+  } catch {
+    // Fall through and drop the entry
+  }
+
+  console.warn('[TokenStorage] Dropping unreadable stored account');
+  await SecureStore.deleteItemAsync(SESSION_KEY);
+  return null;
+}
+
+/**
+ * Store the signed-in account, replacing any other.
+ */
+export async function saveAuthSession(session: AuthSession): Promise<void> {
+  await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session), {
+    keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  });
+}
+
+/**
+ * Forget the stored account.
+ */
+export async function clearAuthSession(): Promise<void> {
+  await SecureStore.deleteItemAsync(SESSION_KEY);
+}
@@ -0,0 +1,253 @@
+/**
+ * Auth Service
+ *
+ * Signs accounts in and out through pluggable providers (services/auth):
+ * a server account issued by the sync server's token endpoint, and in
+ * development a local account that needs no server. The signed-in account
+ * and its tokens live in secure storage; access tokens are renewed shortly
+ * before they expire and only ever sent to the server that issued them.
+ *
+ * The app starts in guest mode, where sessions have no user. The first
+ * sign-in on a device claims every guest session for that user, once, and
+ * marks them for sync so the server learns who owns them. Sessions created
+ * while signed in belong to the signed-in user.
+ */
+
+import { getDatabase } from './database/connection';
+import { sessionQueries, syncQueries } from './database/queries';
+import { changeLogService } from './changeLogService';
+import { LocalAuthProvider } from './auth/localAuthProvider';
+import { TokenAuthProvider } from './auth/tokenAuthProvider';
+import { clearAuthSession, loadAuthSession, saveAuthSession } from './auth/tokenStorage';
+import type {
+  AuthProvider,
+  AuthSession,
+  AuthUser,
+  GuestClaim,
+  SignInCredentials,
+} from '../types/auth.types';
+import { AppError } from '../utils/errorHandling';
+
+/**
+ * Renew access tokens this long before they expire
+ */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * sync_state key of the guest session claim
+ */
+const GUEST_CLAIM_KEY = 'guest_claim';
+
+/**
+ * Auth Service - Manages the signed-in account
+ */
+class AuthService {
+  private providers = new Map<string, AuthProvider>();
+
+  // Stored account, once read (null when signed out)
+  private current: AuthSession | null | undefined = undefined;
+
+  // A token refresh in progress, shared by callers that need a token meanwhile
+  private refreshing: Promise<AuthSession> | null = null;
+
+  constructor() {
+    this.registerProvider(new TokenAuthProvider());
+    if (__DEV__) {
+      this.registerProvider(new LocalAuthProvider());
+    }
+  }
+
+  /**
+   * Make a provider available for sign-in, replacing one with the same ID.
+   */
+  registerProvider(provider: AuthProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Get the providers available for sign-in.
+   */
+  getProviders(): AuthProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Get the signed-in account.
+   *
+   * @returns Promise<AuthSession | null> - Account, or null in guest mode
+   */
+  async getSession(): Promise<AuthSession | null> {
+    if (this.current === undefined) {
+      this.current = await loadAuthSession();
+    }
+    return this.current;
+  }
+
+  /**
+   * Get the signed-in user.
+   *
+   * @returns Promise<AuthUser | null> - User, or null in guest mode
+   */
+  async getCurrentUser(): Promise<AuthUser | null> {
+    return (await this.getSession())?.user ?? null;
+  }
+
+  /**
+   * Get the ID new sessions are created with.
+   *
+   * @returns Promise<string | null> - User ID, or null in guest mode
+   */
+  async getCurrentUserId(): Promise<string | null> {
+    return (await this.getSession())?.user.id ?? null;
+  }
+
+  /**
+   * Sign in, replacing any signed-in account. The first sign-in on this
+   * device also claims the guest sessions for the user.
+   *
+   * @param providerId - ID of a registered provider
+   * @param credentials - What the user entered
+   * @returns Promise with the user and the guest claim made (null if guest
+   * sessions were already claimed)
+   * @throws AppError if the provider rejects the credentials
+   */
+  async signIn(
+    providerId: string,
+    credentials: SignInCredentials
+  ): Promise<{ user: AuthUser; claim: GuestClaim | null }> {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new AppError(
+        `Unknown auth provider: ${providerId}`,
+        'AUTH_PROVIDER_NOT_FOUND',
+        'This sign-in method is not available.'
+      );
+    }
+
+    const session = await provider.signIn(credentials);
+    await saveAuthSession(session);
+    this.current = session;
+    console.log(`[AuthService] Signed in ${session.user.id} with ${providerId}`);
+
+    const claim = await this.claimGuestSessions(session.user.id);
+    return { user: session.user, claim };
+  }
+
+  /**
+   * Sign out and return to guest mode. Sessions keep their user.
+   */
+  async signOut(): Promise<void> {
+    const session = await this.getSession();
+    if (!session) return;
+
+    await this.providers.get(session.providerId)?.signOut(session);
+    await clearAuthSession();
+    this.current = null;
+    this.refreshing = null;
+    console.log(`[AuthService] Signed out ${session.user.id}`);
+  }
+
+  /**
+   * Get a valid access token for requests to a server, renewing it if it
+   * is about to expire.
+   *
+   * @param serverUrl - Server the request goes to
+   * @returns Promise<string | null> - Token, or null if the signed-in account
+   * was not issued by serverUrl (or nobody is signed in)
+   * @throws AppError AUTH_EXPIRED if the account has to sign in again
+   */
+  async getAccessToken(serverUrl: string): Promise<string | null> {
+    let session = await this.getSession();
+    if (!session || !session.issuer || session.issuer !== serverUrl) {
+      return null;
+    }
+
+    const expiresAt = session.tokens.expiresAt ? Date.parse(session.tokens.expiresAt) : null;
+    if (expiresAt !== null && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+      if (!this.refreshing) {
+        this.refreshing = this.refreshSession(session).finally(() => {
+          this.refreshing = null;
+        });
+      }
+      session = await this.refreshing;
+    }
+    return session.tokens.accessToken;
+  }
+
+  /**
+   * Get the claim of guest sessions made on this device.
+   *
+   * @returns Promise<GuestClaim | null> - Claim, or null if nobody signed in yet
+   */
+  async getGuestClaim(): Promise<GuestClaim | null> {
+    const db = await getDatabase();
+
+    let value: string | null = null;
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(syncQueries.getState, [GUEST_CLAIM_KEY]);
+      value = (result.rows[0]?.value as string | undefined) ?? null;
+    }, true);
+
+    return value ? (JSON.parse(value) as GuestClaim) : null;
+  }
+
+  private async refreshSession(session: AuthSession): Promise<AuthSession> {
+    const provider = this.providers.get(session.providerId);
+    if (!provider) {
+      throw new AppError(
+        `Unknown auth provider: ${session.providerId}`,
+        'AUTH_EXPIRED',
+        'Your sign-in has expired. Sign in again in Settings.'
+      );
+    }
+
+    const refreshed: AuthSession = { ...session, tokens: await provider.refresh(session) };
+    // Leave storage alone if the account was signed out meanwhile
+    if (this.current?.user.id !== session.user.id) {
+      return refreshed;
+    }
+    await saveAuthSession(refreshed);
+    this.current = refreshed;
+    return refreshed;
+  }
+
+  /**
+   * Attach every guest session to a user and mark them for sync, in one
+   * transaction with recording that it happened. Runs once per device.
+   */
+  private async claimGuestSessions(userId: string): Promise<GuestClaim | null> {
+    const db = await getDatabase();
+
+    let claim = null as GuestClaim | null;
+    await db.transactionAsync(async tx => {
+      const done = await tx.executeSqlAsync(syncQueries.getState, [GUEST_CLAIM_KEY]);
+      if (done.rows.length > 0) return;
+
+      const guests = await tx.executeSqlAsync(sessionQueries.getGuestSessionIds, []);
+      const sessionIds = guests.rows.map(row => row.id as string);
+      await changeLogService.record(
+        tx,
+        sessionIds.map(sessionId => ({
+          sessionId,
+          entity: 'session' as const,
+          entityId: sessionId,
+          operation: 'update' as const,
+          fields: ['userId'],
+        }))
+      );
+      await tx.executeSqlAsync(sessionQueries.claimGuestSessions, [userId]);
+
+      claim = { userId, sessionCount: sessionIds.length, claimedAt: new Date().toISOString() };
+      await tx.executeSqlAsync(syncQueries.setState, [GUEST_CLAIM_KEY, JSON.stringify(claim)]);
+    }, false);
+
+    if (claim) {
+      console.log(`[AuthService] Claimed ${claim.sessionCount} guest session(s) for ${userId}`);
+    }
+    return claim;
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
+export default authService;
@@ -0,0 +1,281 @@
+/**
+ * Backup Service
+ *
+ * Backs up and restores everything the app keeps: the SQLite database and
+ * the persisted settings, in one versioned archive (utils/backupArchive)
+ * that can be encrypted with a passphrase and shared as a file.
+ *
+ * Restoring checks the archive before touching anything: its format and
+ * database version must be ones this app can read, its checksum must match,
+ * and the database in it must pass SQLite's integrity check. The current
+ * data is then backed up automatically and swapped out; a backup from an
+ * older version is migrated forward when the database reopens.
+ *
+ * Automatic backups (database/backup) are taken before every destructive
+ * action and every schema migration, keeping the latest MAX_AUTO_BACKUPS.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { closeDatabase, DB_NAME, getDatabase } from './database/connection';
+import { getCurrentVersion, getLatestVersion } from './database/migrations';
+import {
+  AUTO_BACKUP_DIR,
+  BACKUP_DIR,
+  SETTINGS_STORAGE_KEY,
+  SQLITE_DIR,
+  listBackupFiles,
+  snapshotDatabase,
+  writeAutoBackup,
+  writeBackupFile,
+} from './database/backup';
+import type { BackupDetails, BackupFile, BackupReason } from '../types/backup.types';
+import { decodeBackup, encodeBackup, parseBackup } from '../utils/backupArchive';
+import { AppError } from '../utils/errorHandling';
+
+/**
+ * Shortest passphrase accepted for an encrypted backup
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Name the database of a backup is checked under before it is swapped in
+ */
+const RESTORE_DB_NAME = 'cupper-restore.db';
+
+/**
+ * Backup Service - Creates, lists and restores backups
+ */
+class BackupService {
+  /**
+   * Back up the database and settings to a new file.
+   *
+   * @param passphrase - Encrypt the backup with this passphrase (optional)
+   * @returns Promise<BackupFile> - The backup
+   * @throws AppError if the passphrase is too short
+   */
+  async createBackup(passphrase: string | null = null): Promise<BackupFile> {
+    if (passphrase !== null && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new AppError(
+        'Passphrase too short',
+        'BACKUP_PASSPHRASE_TOO_SHORT',
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`
+      );
+    }
+
+    const db = await getDatabase();
+    const contents = {
+      database: await snapshotDatabase(db),
+      settings: await AsyncStorage.getItem(SETTINGS_STORAGE_KEY),
+    };
+    const archive = await encodeBackup(
+      contents,
+      { reason: 'manual', schemaVersion: await getCurrentVersion(db) },
+      passphrase,
+      Crypto.getRandomBytes
+    );
+    const uri = await writeBackupFile(archive, BACKUP_DIR);
+
+    console.log(`[BackupService] Backup written to ${uri}${passphrase ? ' (encrypted)' : ''}`);
+    const info = await FileSystem.getInfoAsync(uri);
+    return {
+      uri,
+      name: uri.slice(BACKUP_DIR.length),
+      reason: 'manual',
+      automatic: false,
+      createdAt: archive.createdAt,
+      size: info.exists ? info.size : 0,
+    };
+  }
+
+  /**
+   * Take an automatic backup before a destructive action. Callers should
+   * not go ahead if it fails.
+   *
+   * @param reason - Action about to happen
+   * @returns Promise<string> - URI of the backup
+   */
+  async createAutoBackup(reason: BackupReason): Promise<string> {
+    const db = await getDatabase();
+    try {
+      return await writeAutoBackup(db, reason, await getCurrentVersion(db));
+    } catch (error) {
+      console.error(`[BackupService] Automatic backup (${reason}) failed:`, error);
+      throw new AppError(
+        `Automatic backup failed: ${error instanceof Error ? error.message : String(error)}`,
+        'BACKUP_FAILED',
+        'Could not back up your data first, so nothing was changed. Check free storage and try again.'
+      );
+    }
+  }
+
+  /**
+   * Get the backups on this device, latest first.
+   */
+  async getBackups(): Promise<BackupFile[]> {
+    const [manual, automatic] = await Promise.all([
+      listBackupFiles(BACKUP_DIR),
+      listBackupFiles(AUTO_BACKUP_DIR),
+    ]);
+    return [...manual, ...automatic].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Open the share sheet for a backup file, to save it elsewhere.
+   */
+  async shareBackup(uri: string): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new AppError(
+        'Sharing not available',
+        'SHARING_UNAVAILABLE',
+        'Sharing files is not available on this device.'
+      );
+    }
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/json',
+      UTI: 'public.json',
+      dialogTitle: 'Save Cupper Backup',
+    });
+  }
+
+  /**
+   * Let the user pick a backup file from outside the app.
+   *
+   * @returns Promise<string | null> - URI of a readable copy, or null if cancelled
+   */
+  async pickBackupFile(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      copyToCacheDirectory: true,
+    });
+    return result.canceled ? null : result.assets[0].uri;
+  }
+
+  /**
+   * Delete a backup file.
+   */
+  async deleteBackup(uri: string): Promise<void> {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    console.log(`[BackupService] Deleted backup ${uri}`);
+  }
+
+  /**
+   * Read the header of a backup, which is readable without its passphrase.
+   *
+   * @throws AppError if the file is not a backup this app can read
+   */
+  async inspectBackup(uri: string): Promise<BackupDetails> {
+    const archive = parseBackup(await FileSystem.readAsStringAsync(uri));
+    return {
+      createdAt: archive.createdAt,
+      reason: archive.reason,
+      schemaVersion: archive.schemaVersion,
+      encrypted: archive.encryption !== null,
+    };
+  }
+
+  /**
+   * Replace all data with a backup. The current data is backed up first.
+   * Callers should reload anything read from the database or the store.
+   *
+   * @param uri - Backup file
+   * @param passphrase - Passphrase of an encrypted backup
+   * @returns Promise<BackupDetails> - The backup restored
+   * @throws AppError if the backup is unreadable, damaged, from a newer
+   * version of the app, or the passphrase is wrong; nothing is changed then
+   */
+  async restoreBackup(uri: string, passphrase: string | null = null): Promise<BackupDetails> {
+    const archive = parseBackup(await FileSystem.readAsStringAsync(uri));
+    if (archive.schemaVersion > getLatestVersion()) {
+      throw new AppError(
+        `Backup database v${archive.schemaVersion} is newer than v${getLatestVersion()}`,
+        'BACKUP_TOO_NEW',
+        'This backup was made by a newer version of Cupper. Update the app to restore it.'
+      );
+    }
+    const contents = await decodeBackup(archive, passphrase);
+
+    const restoreUri = `${SQLITE_DIR}${RESTORE_DB_NAME}`;
+    await FileSystem.makeDirectoryAsync(SQLITE_DIR, { intermediates: true });
+    await FileSystem.writeAsStringAsync(restoreUri, contents.database, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    try {
+      await this.checkDatabase(archive.schemaVersion);
+      await this.createAutoBackup('before-restore');
+
+      // Swap the database files while nothing has the database open
+      await closeDatabase();
+      for (const suffix of ['', '-wal', '-shm', '-journal']) {
+        await FileSystem.deleteAsync(`${SQLITE_DIR}${DB_NAME}${suffix}`, { idempotent: true });
+      }
+      await FileSystem.moveAsync({ from: restoreUri, to: `${SQLITE_DIR}${DB_NAME}` });
+    } finally {
+      await FileSystem.deleteAsync(restoreUri, { idempotent: true });
+    }
+
+    if (contents.settings !== null) {
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, contents.settings);
+    }
+
+    // Reopen, migrating a backup from an older version forward
+    await getDatabase();
+
+    console.log(
+      `[BackupService] Restored backup of ${archive.createdAt} (database v${archive.schemaVersion})`
+    );
+    return {
+      createdAt: archive.createdAt,
+      reason: archive.reason,
+      schemaVersion: archive.schemaVersion,
+      encrypted: archive.encryption !== null,
+    };
+  }
+
+  /**
+   * Check the database of a backup, written to RESTORE_DB_NAME, is intact
+   * and at the migration version the archive says.
+   */
+  private async checkDatabase(schemaVersion: number): Promise<void> {
+    const db = SQLite.openDatabase(RESTORE_DB_NAME);
+
+    let problem: string | null = null;
+    try {
+      const [integrity, version] = await db.execAsync(
+        [
+          { sql: 'PRAGMA integrity_check', args: [] },
+          { sql: 'SELECT MAX(version) AS version FROM migrations', args: [] },
+        ],
+        true
+      );
+      if ('error' in integrity) {
+        problem = integrity.error.message;
+      } else if (integrity.rows[0]?.integrity_check !== 'ok') {
+        problem = `integrity check: ${String(integrity.rows[0]?.integrity_check)}`;
+      } else if ('error' in version) {
+        problem = version.error.message;
+      } else if (version.rows[0]?.version !== schemaVersion) {
+        problem = `database is v${String(version.rows[0]?.version)}, archive says v${schemaVersion}`;
+      }
+    } finally {
+      await db.closeAsync();
+    }
+
+    if (problem) {
+      throw new AppError(
+        `Backup database failed checks: ${problem}`,
+        'BACKUP_CORRUPT',
+        'This backup is damaged and cannot be restored.'
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const backupService = new BackupService();
+export default backupService;
@@ -0,0 +1,182 @@
+/**
+ * Change Log Service
+ *
+ * Local journal of session writes. Every write in sessionService and every
+ * imported session appends an entry (entity, ID, operation, changed fields)
+ * with a monotonic sequence number in the same transaction as the write
+ * itself, so the log never disagrees with the data. A sync client reads the
+ * entries after the last sequence number it handled, acknowledges them once
+ * the server has them, and the log is compacted to keep only what is still
+ * unsent.
+ */
+
+import type { SQLTransactionAsync } from 'expo-sqlite';
+import { getDatabase } from './database/connection';
+import { changeLogQueries } from './database/queries';
+import type { ChangeLogRow } from './database/types';
+import type {
+  ChangeEntity,
+  ChangeInput,
+  ChangeLogEntry,
+  ChangeOperation,
+} from '../types/changeLog.types';
+import { compactChanges } from '../utils/changeLog';
+
+function toEntry(row: ChangeLogRow): ChangeLogEntry {
+  return {
+    seq: row.seq,
+    sessionId: row.session_id,
+    entity: row.entity as ChangeEntity,
+    entityId: row.entity_id,
+    operation: row.operation as ChangeOperation,
+    fields: JSON.parse(row.fields || '[]') as string[],
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Change Log Service - Records and compacts local session changes
+ */
+class ChangeLogService {
+  /**
+   * Append changes inside the caller's transaction. A change without a
+   * session ID takes the session of its coffee or cup, so record changes to
+   * a coffee or cup before deleting it.
+   *
+   * @param tx - Open write transaction
+   * @param changes - Changes, in the order they were made
+   */
+  async record(tx: SQLTransactionAsync, changes: ChangeInput[]): Promise<void> {
+    const now = new Date().toISOString();
+
+    for (const change of changes) {
+      const fields = JSON.stringify(change.fields);
+      if (change.sessionId) {
+        await tx.executeSqlAsync(changeLogQueries.insertChange, [
+          change.sessionId,
+          change.entity,
+          change.entityId,
+          change.operation,
+          fields,
+          now,
+        ]);
+      } else if (change.entity === 'coffee' || change.entity === 'cup') {
+        await tx.executeSqlAsync(
+          change.entity === 'coffee'
+            ? changeLogQueries.insertCoffeeChange
+            : changeLogQueries.insertCupChange,
+          [change.entity, change.entityId, change.operation, fields, now, change.entityId]
+        );
+      } else {
+        throw new Error(`Change to ${change.entity} ${change.entityId} has no session`);
+      }
+    }
+  }
+
+  /**
+   * Get changes after a sequence number, oldest first.
+   *
+   * @param afterSeq - Last sequence number already handled (0 for all)
+   * @param limit - Most entries to return
+   * @returns Promise<ChangeLogEntry[]> - Changes in sequence order
+   */
+  async getChanges(afterSeq: number = 0, limit: number = 500): Promise<ChangeLogEntry[]> {
+    const db = await getDatabase();
+
+    let rows: ChangeLogRow[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(changeLogQueries.getChangesAfter, [afterSeq, limit]);
+      rows = (result.rows || []) as ChangeLogRow[];
+    }, true);
+
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Get the latest sequence number, overall or of one session.
+   *
+   * @param sessionId - Session ID (optional)
+   * @returns Promise<number> - Sequence number, or 0 if nothing is logged
+   */
+  async getLatestSeq(sessionId?: string): Promise<number> {
+    const db = await getDatabase();
+
+    let seq = 0;
+    await db.transactionAsync(async tx => {
+      const result = sessionId
+        ? await tx.executeSqlAsync(changeLogQueries.getLatestSessionSeq, [sessionId])
+        : await tx.executeSqlAsync(changeLogQueries.getLatestSeq, []);
+      seq = (result.rows[0]?.seq as number | null) ?? 0;
+    }, true);
+
+    return seq;
+  }
+
+  /**
+   * Drop changes the server has acknowledged.
+   *
+   * @param upToSeq - Latest acknowledged sequence number
+   * @param sessionId - Only acknowledge this session's changes (optional)
+   */
+  async acknowledge(upToSeq: number, sessionId?: string): Promise<void> {
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      if (sessionId) {
+        await tx.executeSqlAsync(changeLogQueries.deleteSessionChangesUpTo, [sessionId, upToSeq]);
+      } else {
+        await tx.executeSqlAsync(changeLogQueries.deleteChangesUpTo, [upToSeq]);
+      }
+    }, false);
+  }
+
+  /**
+   * Drop all of a session's changes inside the caller's transaction, when
+   * its local copy is replaced or removed by the server's.
+   */
+  async discardSessionChanges(tx: SQLTransactionAsync, sessionId: string): Promise<void> {
+    await tx.executeSqlAsync(changeLogQueries.deleteSessionChanges, [sessionId]);
+  }
+
+  /**
+   * Collapse unacknowledged changes to one entry per record (see
+   * compactChanges). Sequence numbers of the entries kept do not change.
+   *
+   * @returns Promise<number> - Entries removed
+   */
+  async compact(): Promise<number> {
+    const db = await getDatabase();
+
+    let removed = 0;
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(changeLogQueries.getAllChanges, []);
+      const entries = ((result.rows || []) as ChangeLogRow[]).map(toEntry);
+      const { keep, drop } = compactChanges(entries);
+
+      const original = new Map(entries.map(entry => [entry.seq, entry]));
+      for (const entry of keep) {
+        const before = original.get(entry.seq);
+        if (before?.operation !== entry.operation || before.fields.length !== entry.fields.length) {
+          await tx.executeSqlAsync(changeLogQueries.updateChange, [
+            entry.operation,
+            JSON.stringify(entry.fields),
+            entry.seq,
+          ]);
+        }
+      }
+      for (const seq of drop) {
+        await tx.executeSqlAsync(changeLogQueries.deleteChange, [seq]);
+      }
+      removed = drop.length;
+    }, false);
+
+    if (removed > 0) {
+      console.log(`[ChangeLogService] Compacted ${removed} change(s)`);
+    }
+    return removed;
+  }
+}
+
+// Export singleton instance
+export const changeLogService = new ChangeLogService();
+export default changeLogService;
@@ -0,0 +1,173 @@
+/**
+ * Coffee Library Service
+ *
+ * Manages the coffee library: reusable coffee identities (name, roaster,
+ * origin, process, variety, altitude, roast level) that session coffee
+ * entries reference, so the same coffee tasted several times is one entry.
+ */
+
+import type { SQLTransactionAsync } from 'expo-sqlite';
+import { getDatabase } from './database/connection';
+import { catalogQueries, escapeLike } from './database/queries';
+import type { CoffeeCatalogRow } from './database/types';
+import type { CatalogCoffee, CoffeeEntry, RoastLevel } from '../types/session.types';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * Coffee details used to find or create a library entry
+ */
+export type CatalogCoffeeInput = Pick<
+  CoffeeEntry,
+  'catalogId' | 'name' | 'roaster' | 'origin' | 'process' | 'variety' | 'altitude' | 'roastLevel'
+>;
+
+interface CatalogSearchRow extends CoffeeCatalogRow {
+  session_count: number;
+  last_tasted_at: string | null;
+}
+
+/**
+ * Trim text and convert empty strings to null
+ */
+function textOrNull(value?: string | null): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function toCatalogCoffee(row: CatalogSearchRow): CatalogCoffee {
+  return {
+    id: row.id,
+    name: row.name,
+    roaster: row.roaster || undefined,
+    origin: row.origin || undefined,
+    process: row.process || undefined,
+    variety: row.variety || undefined,
+    altitude: row.altitude || undefined,
+    roastLevel: (row.roast_level || undefined) as RoastLevel | undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    sessionCount: row.session_count || 0,
+    lastTastedAt: row.last_tasted_at || undefined,
+  };
+}
+
+/**
+ * Coffee Library Service - Manages reusable coffees
+ */
+class CoffeeLibraryService {
+  /**
+   * Search the library by name, roaster or origin.
+   * An empty query returns the most recently tasted coffees.
+   *
+   * @param query - Search text
+   * @param limit - Maximum results (default 8)
+   * @returns Promise<CatalogCoffee[]> - Matching coffees, most recently tasted first
+   */
+  async searchCoffees(query: string, limit: number = 8): Promise<CatalogCoffee[]> {
+    const db = await getDatabase();
+    const pattern = `%${escapeLike(query.trim())}%`;
+
+    let rows: CatalogSearchRow[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(catalogQueries.searchCatalog, [
+        pattern,
+        pattern,
+        pattern,
+        limit,
+      ]);
+      if (result.rows) {
+        rows = result.rows as CatalogSearchRow[];
+      }
+    }, true);
+
+    return rows.map(toCatalogCoffee);
+  }
+
+  /**
+   * Get a library coffee by ID.
+   *
+   * @param id - Library coffee ID
+   * @returns Promise<CatalogCoffee | null> - Coffee or null if not found
+   */
+  async getCoffee(id: string): Promise<CatalogCoffee | null> {
+    const db = await getDatabase();
+
+    let row: CatalogSearchRow | null = null;
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(catalogQueries.getCatalogCoffeeById, [id]);
+      if (result.rows && result.rows.length > 0) {
+        row = result.rows[0] as CatalogSearchRow;
+      }
+    }, true);
+
+    return row ? toCatalogCoffee(row) : null;
+  }
+
+  /**
+   * Find or create the library entry for a coffee, inside the caller's transaction.
+   * Matches by catalogId first, then by name + roaster (case-insensitive).
+   * Details provided here fill in or replace the library's values; blanks are ignored.
+   *
+   * @param tx - Open write transaction
+   * @param coffee - Coffee details
+   * @returns Promise<string> - Library coffee ID
+   */
+  async resolveCatalogId(tx: SQLTransactionAsync, coffee: CatalogCoffeeInput): Promise<string> {
+    const now = new Date().toISOString();
+    let catalogId: string | null = null;
+
+    if (coffee.catalogId) {
+      const result = await tx.executeSqlAsync(catalogQueries.getCatalogCoffeeById, [
+        coffee.catalogId,
+      ]);
+      if (result.rows.length > 0) {
+        catalogId = coffee.catalogId;
+      }
+    }
+
+    if (!catalogId) {
+      const result = await tx.executeSqlAsync(catalogQueries.findCatalogCoffee, [
+        coffee.name,
+        textOrNull(coffee.roaster),
+      ]);
+      if (result.rows.length > 0) {
+        catalogId = result.rows[0].id as string;
+      }
+    }
+
+    if (catalogId) {
+      await tx.executeSqlAsync(catalogQueries.updateCatalogDetails, [
+        textOrNull(coffee.origin),
+        textOrNull(coffee.process),
+        textOrNull(coffee.variety),
+        textOrNull(coffee.altitude),
+        coffee.roastLevel || null,
+        now,
+        catalogId,
+      ]);
+      return catalogId;
+    }
+
+    // Keep an imported catalog ID so re-imports link to the same entry
+    const newId = coffee.catalogId || generateUUID();
+    await tx.executeSqlAsync(catalogQueries.insertCatalogCoffee, [
+      newId,
+      coffee.name.trim(),
+      textOrNull(coffee.roaster),
+      textOrNull(coffee.origin),
+      textOrNull(coffee.process),
+      textOrNull(coffee.variety),
+      textOrNull(coffee.altitude),
+      coffee.roastLevel || null,
+      now,
+      now,
+    ]);
+
+    console.log(`[CoffeeLibrary] Added ${coffee.name} to library (${newId})`);
+    return newId;
+  }
+}
+
+// Export singleton instance
+export const coffeeLibraryService = new CoffeeLibraryService();
+export default coffeeLibraryService;
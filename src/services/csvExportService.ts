@@ -0,0 +1,256 @@
+/**
+ * CSV Export Service
+ *
+ * Flattens sessions into tidy CSV tables for spreadsheets and R:
+ * - Cups table: one row per cup with coffee metadata and score totals
+ * - Scores table: one row per scored template attribute
+ * - Flavors table: one row per selected flavor
+ */
+
+import type { Session, CoffeeEntry, Cup } from '../types/session.types';
+import { flavorService } from './flavorService';
+import { templateService } from './templateService';
+import {
+  toSCAValue,
+  calculateSCAScore,
+  calculateCVACupScore,
+  withCupDefects,
+} from '../utils/scoring';
+import { computeTemplateTotal } from '../utils/scoringTemplates';
+import { formatCupDefect } from '../utils/defects';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Column order for the cups table
+ */
+export const CUP_CSV_COLUMNS = [
+  'session_id',
+  'session_date',
+  'session_type',
+  'mode',
+  'revealed_at',
+  'coffee_id',
+  'coffee_name',
+  'blind_code',
+  'roaster',
+  'origin',
+  'roast_level',
+  'roast_date',
+  'cup_id',
+  'cup_position',
+  'template_id',
+  'total_score',
+  'sca_form_score',
+  'cva_score',
+  'defects',
+  'flavors',
+] as const;
+
+/**
+ * Column order for the scores table
+ */
+export const SCORE_CSV_COLUMNS = [
+  'session_id',
+  'session_date',
+  'template_id',
+  'coffee_id',
+  'coffee_name',
+  'cup_id',
+  'cup_position',
+  'attribute',
+  'value',
+  'sca_value',
+] as const;
+
+/**
+ * Column order for the flavors table
+ */
+export const FLAVOR_CSV_COLUMNS = [
+  'session_id',
+  'session_date',
+  'coffee_id',
+  'coffee_name',
+  'cup_id',
+  'cup_position',
+  'flavor_id',
+  'flavor_name',
+  'category',
+  'intensity',
+  'dominant',
+] as const;
+
+type CupCsvRow = Record<(typeof CUP_CSV_COLUMNS)[number], CsvValue>;
+type ScoreCsvRow = Record<(typeof SCORE_CSV_COLUMNS)[number], CsvValue>;
+type FlavorCsvRow = Record<(typeof FLAVOR_CSV_COLUMNS)[number], CsvValue>;
+
+/**
+ * Escape a value per RFC 4180 (quote if it contains a comma, quote or newline)
+ */
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function toCsv<K extends string>(columns: readonly K[], rows: Array<Record<K, CsvValue>>): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCsvValue(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV Export Service - Tidy tabular exports
+ */
+class CsvExportService {
+  /**
+   * Build the one-row-per-cup table.
+   *
+   * @param sessions - Sessions to export
+   * @returns CSV text with header row
+   */
+  exportCupsCsv(sessions: Session[]): string {
+    const rows: CupCsvRow[] = [];
+
+    this.forEachCup(sessions, (session, coffee, cup) => {
+      const template = templateService.getTemplateOrDefault(session.templateId);
+
+      rows.push({
+        session_id: session.id,
+        session_date: session.createdAt,
+        session_type: session.sessionType,
+        mode: session.mode,
+        // Blind sessions only; scores changed after this were not given blind
+        revealed_at: session.revealedAt,
+        coffee_id: coffee.coffeeId,
+        coffee_name: coffee.name,
+        blind_code: coffee.blindCode,
+        roaster: coffee.roaster,
+        origin: coffee.origin,
+        roast_level: coffee.roastLevel,
+        roast_date: coffee.roastDate,
+        cup_id: cup.cupId,
+        cup_position: cup.position,
+        template_id: session.templateId,
+        // Cup total computed with the session template's total method
+        total_score: computeTemplateTotal(template, cup.ratings),
+        // Final score of the coffee's SCA cupping form, less its cups' defects (pro sessions)
+        sca_form_score: coffee.scaForm
+          ? calculateSCAScore(
+              coffee.scaForm,
+              coffee.cups.flatMap(c => c.defects)
+            ).finalScore
+          : null,
+        // CVA score of this cup's affective form, defective if defects were recorded
+        cva_score: cup.cvaAffective
+          ? calculateCVACupScore(withCupDefects(cup.cvaAffective, cup.defects))
+          : null,
+        // e.g. "Phenolic · fault · 2 cups; Quakers · taint · 1 cup · 3 beans"
+        defects: cup.defects.map(formatCupDefect).join('; '),
+        // e.g. "Blueberry (4); Jasmine (3)"
+        flavors: cup.flavors
+          .map(
+            f => `${flavorService.getFlavorById(f.flavorId)?.name ?? f.flavorId} (${f.intensity})`
+          )
+          .join('; '),
+      });
+    });
+
+    return toCsv(CUP_CSV_COLUMNS, rows);
+  }
+
+  /**
+   * Build the one-row-per-score table (long format, one row per scored
+   * attribute, so sessions on different templates share columns).
+   *
+   * @param sessions - Sessions to export
+   * @returns CSV text with header row
+   */
+  exportScoresCsv(sessions: Session[]): string {
+    const rows: ScoreCsvRow[] = [];
+
+    this.forEachCup(sessions, (session, coffee, cup) => {
+      const template = templateService.getTemplateOrDefault(session.templateId);
+
+      // Template attribute order, so rows read like the scoring screen
+      for (const { key } of template.attributes) {
+        const value = cup.ratings[key];
+        if (value === undefined) continue;
+
+        rows.push({
+          session_id: session.id,
+          session_date: session.createdAt,
+          template_id: session.templateId,
+          coffee_id: coffee.coffeeId,
+          coffee_name: coffee.name,
+          cup_id: cup.cupId,
+          cup_position: cup.position,
+          attribute: key,
+          value,
+          sca_value: toSCAValue(template, value),
+        });
+      }
+    });
+
+    return toCsv(SCORE_CSV_COLUMNS, rows);
+  }
+
+  /**
+   * Build the one-row-per-selected-flavor table.
+   *
+   * @param sessions - Sessions to export
+   * @returns CSV text with header row
+   */
+  exportFlavorsCsv(sessions: Session[]): string {
+    const rows: FlavorCsvRow[] = [];
+
+    this.forEachCup(sessions, (session, coffee, cup) => {
+      for (const flavor of cup.flavors) {
+        const details = flavorService.getFlavorById(flavor.flavorId);
+
+        rows.push({
+          session_id: session.id,
+          session_date: session.createdAt,
+          coffee_id: coffee.coffeeId,
+          coffee_name: coffee.name,
+          cup_id: cup.cupId,
+          cup_position: cup.position,
+          flavor_id: flavor.flavorId,
+          flavor_name: details?.name,
+          category: details?.category,
+          intensity: flavor.intensity,
+          dominant: flavor.dominant ? 1 : 0,
+        });
+      }
+    });
+
+    return toCsv(FLAVOR_CSV_COLUMNS, rows);
+  }
+
+  // Helper methods
+
+  private forEachCup(
+    sessions: Session[],
+    callback: (session: Session, coffee: CoffeeEntry, cup: Cup) => void
+  ): void {
+    for (const session of sessions) {
+      for (const coffee of session.coffees) {
+        for (const cup of coffee.cups) {
+          callback(session, coffee, cup);
+        }
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const csvExportService = new CsvExportService();
+export default csvExportService;
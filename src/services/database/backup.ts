@@ -0,0 +1,169 @@
+/**
+ * Database Backup Module
+ *
+ * Low-level backup files: consistent snapshots of the open database, the
+ * backups folder, and the rolling set of automatic backups. Kept apart from
+ * backupService so the connection can back up before running migrations
+ * without importing a service that depends on it.
+ *
+ * Automatic backups are not encrypted (there is no passphrase to use); they
+ * stay in the app's private documents folder next to the database itself.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BackupArchive, BackupFile, BackupReason } from '../../types/backup.types';
+import { encodeBackup } from '../../utils/backupArchive';
+
+/**
+ * Folder of manual backups, and of automatic ones
+ */
+export const BACKUP_DIR = `${FileSystem.documentDirectory}backups/`;
+export const AUTO_BACKUP_DIR = `${BACKUP_DIR}auto/`;
+
+/**
+ * Folder expo-sqlite keeps databases in
+ */
+export const SQLITE_DIR = `${FileSystem.documentDirectory}SQLite/`;
+
+export const BACKUP_EXTENSION = '.cupperbackup';
+
+/**
+ * Automatic backups kept; older ones are deleted
+ */
+export const MAX_AUTO_BACKUPS = 5;
+
+/**
+ * AsyncStorage key the app store persists settings under (see store/index.ts)
+ */
+export const SETTINGS_STORAGE_KEY = 'cupper-app-storage';
+
+const FILE_NAME_PATTERN =
+  /^cupper-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-([a-z-]+)\.cupperbackup$/;
+
+/**
+ * Native path of a file:// URI, as SQLite takes it
+ */
+export function toFilePath(uri: string): string {
+  return decodeURIComponent(uri.replace(/^file:\/\//, ''));
+}
+
+/**
+ * Name of a backup file: sorts by creation time and tells why it was made.
+ *
+ * @example backupFileName('2026-01-01T12:00:00.000Z', 'manual') → 'cupper-2026-01-01T12-00-00-000Z-manual.cupperbackup'
+ */
+export function backupFileName(createdAt: string, reason: BackupReason): string {
+  return `cupper-${createdAt.replace(/[:.]/g, '-')}-${reason}${BACKUP_EXTENSION}`;
+}
+
+function parseBackupFileName(name: string): { createdAt: string; reason: BackupReason } | null {
+  const match = name.match(FILE_NAME_PATTERN);
+  if (!match) return null;
+  const [, date, hours, minutes, seconds, millis, reason] = match;
+  return {
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    reason: reason as BackupReason,
+  };
+}
+
+/**
+ * Copy the open database to a consistent snapshot with VACUUM INTO, which
+ * needs no lock on writers and leaves out free pages.
+ *
+ * @returns Promise<string> - Base64 of the snapshot file
+ */
+export async function snapshotDatabase(db: SQLite.SQLiteDatabase): Promise<string> {
+  const snapshotUri = `${FileSystem.cacheDirectory}cupper-snapshot.db`;
+  await FileSystem.deleteAsync(snapshotUri, { idempotent: true });
+
+  try {
+    const [result] = await db.execAsync(
+      [{ sql: 'VACUUM INTO ?', args: [toFilePath(snapshotUri)] }],
+      false
+    );
+    if (result && 'error' in result) {
+      throw result.error;
+    }
+    return await FileSystem.readAsStringAsync(snapshotUri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  } finally {
+    await FileSystem.deleteAsync(snapshotUri, { idempotent: true });
+  }
+}
+
+/**
+ * Write an archive to a backup folder.
+ *
+ * @returns Promise<string> - URI of the file
+ */
+export async function writeBackupFile(archive: BackupArchive, dir: string): Promise<string> {
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  const uri = `${dir}${backupFileName(archive.createdAt, archive.reason)}`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(archive));
+  return uri;
+}
+
+/**
+ * List the backups in a folder, latest first.
+ */
+export async function listBackupFiles(dir: string): Promise<BackupFile[]> {
+  const info = await FileSystem.getInfoAsync(dir);
+  if (!info.exists) return [];
+
+  const files: BackupFile[] = [];
+  for (const name of await FileSystem.readDirectoryAsync(dir)) {
+    const parsed = parseBackupFileName(name);
+    if (!parsed) continue;
+
+    const uri = `${dir}${name}`;
+    const file = await FileSystem.getInfoAsync(uri);
+    files.push({
+      uri,
+      name,
+      reason: parsed.reason,
+      automatic: parsed.reason !== 'manual',
+      createdAt: parsed.createdAt,
+      size: file.exists ? file.size : 0,
+    });
+  }
+  return files.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Back up the database and settings to the rolling set of automatic
+ * backups, dropping the oldest beyond MAX_AUTO_BACKUPS.
+ *
+ * @param db - Open database
+ * @param reason - Destructive action or migration about to happen
+ * @param schemaVersion - Current migration version of db
+ * @returns Promise<string> - URI of the backup
+ */
+export async function writeAutoBackup(
+  db: SQLite.SQLiteDatabase,
+  reason: BackupReason,
+  schemaVersion: number
+): Promise<string> {
+  const contents = {
+    database: await snapshotDatabase(db),
+    settings: await AsyncStorage.getItem(SETTINGS_STORAGE_KEY),
+  };
+  const archive = await encodeBackup(
+    contents,
+    { reason, schemaVersion },
+    null,
+    Crypto.getRandomBytes
+  );
+  const uri = await writeBackupFile(archive, AUTO_BACKUP_DIR);
+
+  const stale = (await listBackupFiles(AUTO_BACKUP_DIR)).slice(MAX_AUTO_BACKUPS);
+  for (const file of stale) {
+    await FileSystem.deleteAsync(file.uri, { idempotent: true });
+  }
+
+  console.log(`[Database] Automatic backup (${reason}) written to ${uri}`);
+  return uri;
+}
@@ -7,12 +7,27 @@
 
 import * as SQLite from 'expo-sqlite';
 import { runMigrations } from './migrations';
+import { writeAutoBackup } from './backup';
 
-const DB_NAME = 'cupper.db';
+export const DB_NAME = 'cupper.db';
 
 let db: SQLite.SQLiteDatabase | null = null;
 let initPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 
+/**
+ * Back up a database about to be upgraded. A failed backup is logged but
+ * does not stop the upgrade, as the app cannot open the database without it.
+ */
+async function backUpBeforeMigrating(fromVersion: number, toVersion: number): Promise<void> {
+  if (!db) return;
+  try {
+    console.log(`[Database] Backing up before migrating v${fromVersion} to v${toVersion}...`);
+    await writeAutoBackup(db, 'before-migration', fromVersion);
+  } catch (error) {
+    console.error('[Database] Backup before migrating failed:', error);
+  }
+}
+
 /**
  * Get database instance, initializing if needed.
  * Runs migrations on first access.
@@ -35,7 +50,7 @@ export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
     console.log('[Database] Database opened successfully');
 
     console.log('[Database] Running migrations...');
-    await runMigrations(db);
+    await runMigrations(db, backUpBeforeMigrating);
     console.log('[Database] Migrations complete');
 
     return db;
@@ -6,12 +6,214 @@
  */
 
 import * as SQLite from 'expo-sqlite';
+import { MAX_SQL_PARAMS, buildPlaceholders, chunkParams } from './queries';
+import { generateUUID } from '../../utils/uuid';
+import flavorData from '../../../assets/data/flavor-descriptors.json';
 
 interface Migration {
   version: number;
   up: (db: SQLite.SQLiteDatabase) => Promise<void>;
 }
 
+/**
+ * Build the session_search row of every session whose ID is returned by `sessionIds`
+ * (a subquery or expression usable inside IN (...)). Used by the v4 search index.
+ * With `hideSealed` (v9 on), the coffees of a blind session are left out until it
+ * is revealed, so searching cannot give away what is in it.
+ */
+function buildSearchInsertSql(sessionIds: string, hideSealed = false): string {
+  const sealed = hideSealed
+    ? 'CASE WHEN s.blind_coding IS NOT NULL AND s.revealed_at IS NULL THEN NULL ELSE '
+    : '';
+  return `
+    INSERT INTO session_search (session_id, coffees, notes, tags, flavors)
+    SELECT
+      s.id,
+      ${sealed}(SELECT group_concat(
+          c.name || ' ' || coalesce(c.roaster, '') || ' ' || coalesce(c.origin, '') || ' ' ||
+          coalesce(c.brew_method, '') || ' ' || coalesce(cc.process, '') || ' ' ||
+          coalesce(cc.variety, ''), ' ')
+        FROM coffees c
+        LEFT JOIN coffee_catalog cc ON c.catalog_id = cc.id
+        WHERE c.session_id = s.id)${hideSealed ? ' END' : ''},
+      coalesce(s.notes, '') || ' ' || coalesce(
+        (SELECT group_concat(cu.notes, ' ')
+          FROM cups cu
+          JOIN coffees co ON cu.coffee_id = co.id
+          WHERE co.session_id = s.id), ''),
+      coalesce(s.tags, ''),
+      (SELECT group_concat(fn.name, ' ')
+        FROM selected_flavors sf
+        JOIN flavor_names fn ON sf.flavor_id = fn.flavor_id
+        JOIN cups cu ON sf.cup_id = cu.id
+        JOIN coffees co ON cu.coffee_id = co.id
+        WHERE co.session_id = s.id)
+    FROM sessions s
+    WHERE s.id IN (${sessionIds})`;
+}
+
+/**
+ * Triggers that keep session_search in sync: [name, event, sessions to reindex]
+ */
+const SEARCH_TRIGGERS: Array<[string, string, string]> = [
+  ['sessions_ai', 'AFTER INSERT ON sessions', 'NEW.id'],
+  ['sessions_au', 'AFTER UPDATE OF notes, tags ON sessions', 'NEW.id'],
+  ['coffees_ai', 'AFTER INSERT ON coffees', 'NEW.session_id'],
+  ['coffees_au', 'AFTER UPDATE ON coffees', 'NEW.session_id'],
+  ['coffees_ad', 'AFTER DELETE ON coffees', 'OLD.session_id'],
+  ['cups_ai', 'AFTER INSERT ON cups', 'SELECT session_id FROM coffees WHERE id = NEW.coffee_id'],
+  [
+    'cups_au',
+    'AFTER UPDATE OF notes ON cups',
+    'SELECT session_id FROM coffees WHERE id = NEW.coffee_id',
+  ],
+  ['cups_ad', 'AFTER DELETE ON cups', 'SELECT session_id FROM coffees WHERE id = OLD.coffee_id'],
+  [
+    'flavors_ai',
+    'AFTER INSERT ON selected_flavors',
+    'SELECT co.session_id FROM cups cu JOIN coffees co ON cu.coffee_id = co.id WHERE cu.id = NEW.cup_id',
+  ],
+  [
+    'flavors_ad',
+    'AFTER DELETE ON selected_flavors',
+    'SELECT co.session_id FROM cups cu JOIN coffees co ON cu.coffee_id = co.id WHERE cu.id = OLD.cup_id',
+  ],
+  [
+    'catalog_au',
+    'AFTER UPDATE ON coffee_catalog',
+    'SELECT session_id FROM coffees WHERE catalog_id = NEW.id',
+  ],
+];
+
+/**
+ * Trigger that reindexes a blind session when it is revealed (v9 on)
+ */
+const REVEAL_SEARCH_TRIGGER: [string, string, string] = [
+  'sessions_reveal_au',
+  'AFTER UPDATE OF blind_coding, revealed_at ON sessions',
+  'NEW.id',
+];
+
+/**
+ * Create the triggers that keep session_search in sync (v4; recreated by v9
+ * to hide sealed sessions and by v10 after the sessions table is rebuilt)
+ */
+function buildSearchTriggerQueries(hideSealed = false): SQLite.Query[] {
+  const triggers = hideSealed ? [...SEARCH_TRIGGERS, REVEAL_SEARCH_TRIGGER] : SEARCH_TRIGGERS;
+  const queries: SQLite.Query[] = triggers.map(([name, event, sessionIds]) => ({
+    sql: `CREATE TRIGGER IF NOT EXISTS trg_search_${name} ${event}
+      BEGIN
+        DELETE FROM session_search WHERE session_id IN (${sessionIds});
+        ${buildSearchInsertSql(sessionIds, hideSealed)};
+      END;`,
+    args: [],
+  }));
+
+  // Removing a session only needs its index row dropped
+  queries.push({
+    sql: `CREATE TRIGGER IF NOT EXISTS trg_search_sessions_ad AFTER DELETE ON sessions
+      BEGIN
+        DELETE FROM session_search WHERE session_id = OLD.id;
+      END;`,
+    args: [],
+  });
+
+  return queries;
+}
+
+/**
+ * Tables holding a session's data, with how to find the session of a row
+ * (`ROW` stands for NEW or OLD). A write to any of them marks a synced
+ * session pending (v12).
+ */
+const SYNC_TRACKED_TABLES: Array<[string, string]> = [
+  ['coffees', 'ROW.session_id'],
+  ['cups', 'SELECT session_id FROM coffees WHERE id = ROW.coffee_id'],
+  ['sca_scores', 'SELECT session_id FROM coffees WHERE id = ROW.coffee_id'],
+  ['triangle_sets', 'ROW.session_id'],
+  ['triangle_descriptors', 'SELECT session_id FROM triangle_sets WHERE id = ROW.set_id'],
+  ['session_tasters', 'ROW.session_id'],
+  ...[
+    'selected_flavors',
+    'cup_scores',
+    'cup_defects',
+    'cva_descriptive',
+    'cva_descriptors',
+    'cva_affective',
+    'taster_cup_scores',
+    'taster_cup_flavors',
+  ].map((table): [string, string] => [
+    table,
+    'SELECT co.session_id FROM cups cu JOIN coffees co ON cu.coffee_id = co.id WHERE cu.id = ROW.cup_id',
+  ]),
+];
+
+/**
+ * Create the triggers that track local changes for sync (v12): each write to
+ * a session or its rows counts a local change and turns a synced session
+ * pending, and removing a session that reached the server leaves a
+ * tombstone for the delete to be pushed. Sync itself only writes
+ * sync_status and sync_revision, which fire none of them.
+ */
+function buildSyncTriggerQueries(): SQLite.Query[] {
+  const markPending = (sessionIds: string) =>
+    `UPDATE sessions
+      SET local_changes = local_changes + 1,
+        sync_status = CASE sync_status WHEN 'synced' THEN 'pending' ELSE sync_status END
+      WHERE id IN (${sessionIds});`;
+
+  const queries: SQLite.Query[] = SYNC_TRACKED_TABLES.flatMap(([table, sessionIds]) =>
+    (
+      [
+        ['ai', 'INSERT', 'NEW'],
+        ['au', 'UPDATE', 'NEW'],
+        ['ad', 'DELETE', 'OLD'],
+      ] as const
+    ).map(([suffix, event, row]) => ({
+      sql: `CREATE TRIGGER IF NOT EXISTS trg_sync_${table}_${suffix} AFTER ${event} ON ${table}
+        BEGIN
+          ${markPending(sessionIds.replace(/ROW\./g, `${row}.`))}
+        END;`,
+      args: [],
+    }))
+  );
+
+  queries.push(
+    {
+      sql: `CREATE TRIGGER IF NOT EXISTS trg_sync_sessions_au
+        AFTER UPDATE OF updated_at, notes, tags, deleted_at, revealed_at ON sessions
+        BEGIN
+          ${markPending('NEW.id')}
+        END;`,
+      args: [],
+    },
+    {
+      sql: `CREATE TRIGGER IF NOT EXISTS trg_sync_sessions_ad AFTER DELETE ON sessions
+        WHEN OLD.sync_revision > 0
+        BEGIN
+          INSERT OR REPLACE INTO sync_tombstones (session_id, revision, deleted_at)
+          VALUES (OLD.id, OLD.sync_revision, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;`,
+      args: [],
+    },
+    // A session written again under the same ID (import overwrite, or sync
+    // applying a remote copy) takes back the revision it was removed at
+    {
+      sql: `CREATE TRIGGER IF NOT EXISTS trg_sync_sessions_ai AFTER INSERT ON sessions
+        WHEN EXISTS (SELECT 1 FROM sync_tombstones WHERE session_id = NEW.id)
+        BEGIN
+          UPDATE sessions
+            SET sync_revision = (SELECT revision FROM sync_tombstones WHERE session_id = NEW.id)
+            WHERE id = NEW.id;
+          DELETE FROM sync_tombstones WHERE session_id = NEW.id;
+        END;`,
+      args: [],
+    }
+  );
+
+  return queries;
+}
+
 /**
  * All database migrations in order.
  * Each migration must have a unique version number.
@@ -118,15 +320,715 @@ const MIGRATIONS: Migration[] = [
       console.log('[Migration v1] Schema created successfully');
     },
   },
+  {
+    version: 2,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v2] Adding soft delete support...');
+
+      const queries = [
+        // NULL = active, ISO8601 timestamp = moved to trash
+        {
+          sql: 'ALTER TABLE sessions ADD COLUMN deleted_at TEXT;',
+          args: [],
+        },
+        {
+          sql: 'CREATE INDEX IF NOT EXISTS idx_sessions_deleted ON sessions(deleted_at);',
+          args: [],
+        },
+      ];
+
+      await db.execAsync(queries, false);
+      console.log('[Migration v2] Soft delete column added');
+    },
+  },
+  {
+    version: 3,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v3] Creating coffee library...');
+
+      await db.execAsync(
+        [
+          // Reusable coffee identity, shared by session coffee entries
+          {
+            sql: `CREATE TABLE IF NOT EXISTS coffee_catalog (
+              id TEXT PRIMARY KEY,
+              name TEXT NOT NULL,
+              roaster TEXT,
+              origin TEXT,
+              process TEXT,
+              variety TEXT,
+              altitude TEXT,
+              roast_level TEXT,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL
+            );`,
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_catalog_name ON coffee_catalog(name COLLATE NOCASE);',
+            args: [],
+          },
+          {
+            sql: 'ALTER TABLE coffees ADD COLUMN catalog_id TEXT REFERENCES coffee_catalog(id);',
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_coffees_catalog ON coffees(catalog_id);',
+            args: [],
+          },
+        ],
+        false
+      );
+
+      // Backfill: one catalog entry per distinct name + roaster (case-insensitive)
+      const [existing] = await db.execAsync(
+        [
+          {
+            sql: `SELECT c.id, c.name, c.roaster, c.origin, c.roast_level, s.created_at
+              FROM coffees c
+              JOIN sessions s ON c.session_id = s.id
+              ORDER BY s.created_at ASC`,
+            args: [],
+          },
+        ],
+        true
+      );
+      const rows = 'rows' in existing ? existing.rows : [];
+
+      const groups = new Map<
+        string,
+        {
+          id: string;
+          name: string;
+          roaster: string | null;
+          origin: string | null;
+          roastLevel: string | null;
+          createdAt: string;
+          updatedAt: string;
+          coffeeIds: string[];
+        }
+      >();
+
+      for (const row of rows) {
+        // Skip the placeholder entry createSession adds before setup
+        if (row.name === 'Untitled Coffee' && !row.roaster) continue;
+
+        const key = `${String(row.name).trim().toLowerCase()}|${String(row.roaster ?? '')
+          .trim()
+          .toLowerCase()}`;
+        const group = groups.get(key);
+
+        if (group) {
+          // Rows are oldest first, so later metadata wins
+          group.origin = row.origin ?? group.origin;
+          group.roastLevel = row.roast_level ?? group.roastLevel;
+          group.updatedAt = row.created_at;
+          group.coffeeIds.push(row.id);
+        } else {
+          groups.set(key, {
+            id: generateUUID(),
+            name: String(row.name).trim(),
+            roaster: row.roaster ? String(row.roaster).trim() : null,
+            origin: row.origin ?? null,
+            roastLevel: row.roast_level ?? null,
+            createdAt: row.created_at,
+            updatedAt: row.created_at,
+            coffeeIds: [row.id],
+          });
+        }
+      }
+
+      const backfill: SQLite.Query[] = [];
+      for (const group of groups.values()) {
+        backfill.push({
+          sql: `INSERT INTO coffee_catalog (id, name, roaster, origin, process, variety, altitude, roast_level, created_at, updated_at)
+            VALUES (?, ?, ?, ?, NULL, NULL, NULL, ?, ?, ?)`,
+          args: [
+            group.id,
+            group.name,
+            group.roaster,
+            group.origin,
+            group.roastLevel,
+            group.createdAt,
+            group.updatedAt,
+          ],
+        });
+
+        // One parameter is taken by catalog_id
+        for (const ids of chunkParams(group.coffeeIds, MAX_SQL_PARAMS - 1)) {
+          backfill.push({
+            sql: `UPDATE coffees SET catalog_id = ? WHERE id IN (${buildPlaceholders(ids.length)})`,
+            args: [group.id, ...ids],
+          });
+        }
+      }
+
+      if (backfill.length > 0) {
+        await db.execAsync(backfill, false);
+      }
+      console.log(
+        `[Migration v3] Coffee library created (${groups.size} coffees from ${rows.length} entries)`
+      );
+    },
+  },
+  {
+    version: 4,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v4] Creating full-text search index...');
+
+      // Flavor descriptor names, so triggers can index flavors by name
+      const flavorNames = Object.entries(
+        (flavorData as { descriptorMapping: Record<string, string> }).descriptorMapping
+      );
+      const queries: SQLite.Query[] = [
+        {
+          sql: `CREATE TABLE IF NOT EXISTS flavor_names (
+            flavor_id INTEGER PRIMARY KEY,
+            name TEXT NOT NULL
+          );`,
+          args: [],
+        },
+      ];
+      for (const rows of chunkParams(flavorNames, Math.floor(MAX_SQL_PARAMS / 2))) {
+        queries.push({
+          sql: `INSERT OR REPLACE INTO flavor_names (flavor_id, name) VALUES ${rows
+            .map(() => '(?, ?)')
+            .join(', ')}`,
+          args: rows.flatMap(([id, name]) => [parseInt(id, 10), name]),
+        });
+      }
+
+      // One row per session; prefix indexes speed up "blue*" style queries
+      queries.push({
+        sql: `CREATE VIRTUAL TABLE IF NOT EXISTS session_search USING fts5(
+          session_id UNINDEXED,
+          coffees,
+          notes,
+          tags,
+          flavors,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );`,
+        args: [],
+      });
+
+      queries.push(...buildSearchTriggerQueries());
+
+      // Index existing sessions
+      queries.push({
+        sql: buildSearchInsertSql('SELECT id FROM sessions'),
+        args: [],
+      });
+
+      await db.execAsync(queries, false);
+      console.log(`[Migration v4] Search index created (${flavorNames.length} flavor names)`);
+    },
+  },
+  {
+    version: 5,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v5] Creating SCA cupping form scores...');
+
+      await db.execAsync(
+        [
+          // One SCA form per coffee sample in a pro session.
+          // Per-cup checks are bitmasks: bit 0 = cup 1 ... bit 4 = cup 5
+          {
+            sql: `CREATE TABLE IF NOT EXISTS sca_scores (
+              coffee_id TEXT PRIMARY KEY,
+              fragrance_aroma REAL NOT NULL CHECK(fragrance_aroma BETWEEN 6 AND 10),
+              dry_intensity INTEGER NOT NULL CHECK(dry_intensity BETWEEN 0 AND 5),
+              break_intensity INTEGER NOT NULL CHECK(break_intensity BETWEEN 0 AND 5),
+              flavor REAL NOT NULL CHECK(flavor BETWEEN 6 AND 10),
+              aftertaste REAL NOT NULL CHECK(aftertaste BETWEEN 6 AND 10),
+              acidity REAL NOT NULL CHECK(acidity BETWEEN 6 AND 10),
+              acidity_intensity INTEGER NOT NULL CHECK(acidity_intensity BETWEEN 1 AND 5),
+              body REAL NOT NULL CHECK(body BETWEEN 6 AND 10),
+              body_level INTEGER NOT NULL CHECK(body_level BETWEEN 1 AND 5),
+              balance REAL NOT NULL CHECK(balance BETWEEN 6 AND 10),
+              overall REAL NOT NULL CHECK(overall BETWEEN 6 AND 10),
+              uniform_cups INTEGER NOT NULL CHECK(uniform_cups BETWEEN 0 AND 31),
+              clean_cups INTEGER NOT NULL CHECK(clean_cups BETWEEN 0 AND 31),
+              sweet_cups INTEGER NOT NULL CHECK(sweet_cups BETWEEN 0 AND 31),
+              taint_cups INTEGER NOT NULL DEFAULT 0 CHECK(taint_cups BETWEEN 0 AND 5),
+              fault_cups INTEGER NOT NULL DEFAULT 0 CHECK(fault_cups BETWEEN 0 AND 5),
+              notes TEXT,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL,
+              FOREIGN KEY (coffee_id) REFERENCES coffees(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+        ],
+        false
+      );
+      console.log('[Migration v5] SCA scores table created');
+    },
+  },
+  {
+    version: 6,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v6] Creating CVA forms...');
+
+      await db.execAsync(
+        [
+          // Cupping protocol of pro sessions; existing pro sessions used the SCA form
+          {
+            sql: "ALTER TABLE sessions ADD COLUMN protocol TEXT CHECK(protocol IN ('sca', 'cva'));",
+            args: [],
+          },
+          {
+            sql: "UPDATE sessions SET protocol = 'sca' WHERE mode = 'pro';",
+            args: [],
+          },
+          // CVA descriptive form, one per cup (0-15 intensities)
+          {
+            sql: `CREATE TABLE IF NOT EXISTS cva_descriptive (
+              cup_id TEXT PRIMARY KEY,
+              fragrance INTEGER NOT NULL CHECK(fragrance BETWEEN 0 AND 15),
+              aroma INTEGER NOT NULL CHECK(aroma BETWEEN 0 AND 15),
+              flavor INTEGER NOT NULL CHECK(flavor BETWEEN 0 AND 15),
+              aftertaste INTEGER NOT NULL CHECK(aftertaste BETWEEN 0 AND 15),
+              acidity INTEGER NOT NULL CHECK(acidity BETWEEN 0 AND 15),
+              sweetness INTEGER NOT NULL CHECK(sweetness BETWEEN 0 AND 15),
+              mouthfeel INTEGER NOT NULL CHECK(mouthfeel BETWEEN 0 AND 15),
+              notes TEXT,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL,
+              FOREIGN KEY (cup_id) REFERENCES cups(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+          // Check-all-that-apply descriptors from the flavor lexicon
+          {
+            sql: `CREATE TABLE IF NOT EXISTS cva_descriptors (
+              cup_id TEXT NOT NULL,
+              section TEXT NOT NULL CHECK(section IN ('aroma', 'flavor')),
+              flavor_id INTEGER NOT NULL,
+              PRIMARY KEY (cup_id, section, flavor_id),
+              FOREIGN KEY (cup_id) REFERENCES cups(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+          // CVA affective form, one per cup (1-9 hedonic scores)
+          {
+            sql: `CREATE TABLE IF NOT EXISTS cva_affective (
+              cup_id TEXT PRIMARY KEY,
+              fragrance INTEGER NOT NULL CHECK(fragrance BETWEEN 1 AND 9),
+              aroma INTEGER NOT NULL CHECK(aroma BETWEEN 1 AND 9),
+              flavor INTEGER NOT NULL CHECK(flavor BETWEEN 1 AND 9),
+              aftertaste INTEGER NOT NULL CHECK(aftertaste BETWEEN 1 AND 9),
+              acidity INTEGER NOT NULL CHECK(acidity BETWEEN 1 AND 9),
+              sweetness INTEGER NOT NULL CHECK(sweetness BETWEEN 1 AND 9),
+              mouthfeel INTEGER NOT NULL CHECK(mouthfeel BETWEEN 1 AND 9),
+              overall INTEGER NOT NULL CHECK(overall BETWEEN 1 AND 9),
+              non_uniform INTEGER NOT NULL DEFAULT 0 CHECK(non_uniform IN (0, 1)),
+              defective INTEGER NOT NULL DEFAULT 0 CHECK(defective IN (0, 1)),
+              notes TEXT,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL,
+              FOREIGN KEY (cup_id) REFERENCES cups(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+        ],
+        false
+      );
+      console.log('[Migration v6] CVA tables created');
+    },
+  },
+  {
+    version: 7,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v7] Moving cup scores to scoring templates...');
+
+      // The v1 score columns stay on cups (unused) rather than rebuilding the table
+      const legacyAttributes = ['acidity', 'sweetness', 'body', 'clarity', 'finish', 'enjoyment'];
+
+      await db.execAsync(
+        [
+          // Every existing session was scored on what is now the Cupper Classic template
+          {
+            sql: "ALTER TABLE sessions ADD COLUMN template_id TEXT NOT NULL DEFAULT 'cupper-classic';",
+            args: [],
+          },
+          // One row per scored template attribute of a cup
+          {
+            sql: `CREATE TABLE IF NOT EXISTS cup_scores (
+              cup_id TEXT NOT NULL,
+              attribute TEXT NOT NULL,
+              value REAL NOT NULL,
+              PRIMARY KEY (cup_id, attribute),
+              FOREIGN KEY (cup_id) REFERENCES cups(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_cup_scores_attribute ON cup_scores(attribute);',
+            args: [],
+          },
+          ...legacyAttributes.map(attribute => ({
+            sql: `INSERT OR IGNORE INTO cup_scores (cup_id, attribute, value)
+              SELECT id, '${attribute}', ${attribute} FROM cups WHERE ${attribute} IS NOT NULL;`,
+            args: [],
+          })),
+        ],
+        false
+      );
+      console.log('[Migration v7] Cup scores migrated to the Cupper Classic template');
+    },
+  },
+  {
+    version: 8,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v8] Creating cup defects...');
+
+      await db.execAsync(
+        [
+          // One row per defect type recorded on a cup
+          {
+            sql: `CREATE TABLE IF NOT EXISTS cup_defects (
+              cup_id TEXT NOT NULL,
+              defect_id TEXT NOT NULL,
+              severity TEXT NOT NULL CHECK(severity IN ('taint', 'fault')),
+              cup_count INTEGER NOT NULL DEFAULT 1 CHECK(cup_count BETWEEN 1 AND 5),
+              bean_count INTEGER CHECK(bean_count >= 0),
+              notes TEXT,
+              PRIMARY KEY (cup_id, defect_id),
+              FOREIGN KEY (cup_id) REFERENCES cups(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_cup_defects_defect_id ON cup_defects(defect_id);',
+            args: [],
+          },
+        ],
+        false
+      );
+      console.log('[Migration v8] Cup defects table created');
+    },
+  },
+  {
+    version: 9,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v9] Adding blind cupping...');
+
+      await db.execAsync(
+        [
+          // NULL = sighted session; existing sessions were all sighted
+          {
+            sql: "ALTER TABLE sessions ADD COLUMN blind_coding TEXT CHECK(blind_coding IN ('letters', 'digits'));",
+            args: [],
+          },
+          // NULL until a blind session is revealed
+          {
+            sql: 'ALTER TABLE sessions ADD COLUMN revealed_at TEXT;',
+            args: [],
+          },
+          // Code shown instead of the coffee while its session is sealed
+          {
+            sql: 'ALTER TABLE coffees ADD COLUMN blind_code TEXT;',
+            args: [],
+          },
+          // The search index must not give away the coffees of a sealed
+          // session: its triggers are created again to leave those out and
+          // to reindex on reveal
+          ...[...SEARCH_TRIGGERS.map(([name]) => name), 'sessions_ad'].map(name => ({
+            sql: `DROP TRIGGER IF EXISTS trg_search_${name};`,
+            args: [],
+          })),
+          ...buildSearchTriggerQueries(true),
+        ],
+        false
+      );
+      console.log('[Migration v9] Blind cupping columns added');
+    },
+  },
+  {
+    version: 10,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v10] Adding triangle tests...');
+
+      // SQLite cannot change a CHECK constraint in place, so sessions is rebuilt
+      // to allow the 'triangulation' type. The search triggers read sessions and
+      // are dropped first, then created again on the new table.
+      const searchTriggers = [
+        ...SEARCH_TRIGGERS.map(([name]) => name),
+        'sessions_reveal_au',
+        'sessions_ad',
+      ];
+
+      await db.execAsync(
+        [
+          ...searchTriggers.map(name => ({
+            sql: `DROP TRIGGER IF EXISTS trg_search_${name};`,
+            args: [],
+          })),
+          {
+            sql: `CREATE TABLE sessions_new (
+              id TEXT PRIMARY KEY,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL,
+              mode TEXT NOT NULL CHECK(mode IN ('taste', 'pro')),
+              session_type TEXT NOT NULL CHECK(session_type IN ('single-coffee', 'multi-coffee', 'table-cupping', 'triangulation')),
+              notes TEXT,
+              tags TEXT,
+              sync_status TEXT DEFAULT 'local-only',
+              user_id TEXT,
+              deleted_at TEXT,
+              protocol TEXT CHECK(protocol IN ('sca', 'cva')),
+              template_id TEXT NOT NULL DEFAULT 'cupper-classic',
+              blind_coding TEXT CHECK(blind_coding IN ('letters', 'digits')),
+              revealed_at TEXT
+            );`,
+            args: [],
+          },
+          {
+            sql: `INSERT INTO sessions_new (
+                id, created_at, updated_at, mode, session_type, notes, tags, sync_status,
+                user_id, deleted_at, protocol, template_id, blind_coding, revealed_at
+              )
+              SELECT
+                id, created_at, updated_at, mode, session_type, notes, tags, sync_status,
+                user_id, deleted_at, protocol, template_id, blind_coding, revealed_at
+              FROM sessions;`,
+            args: [],
+          },
+          { sql: 'DROP TABLE sessions;', args: [] },
+          { sql: 'ALTER TABLE sessions_new RENAME TO sessions;', args: [] },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_sessions_created ON sessions(created_at);',
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_sessions_type ON sessions(session_type);',
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);',
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_sessions_deleted ON sessions(deleted_at);',
+            args: [],
+          },
+          ...buildSearchTriggerQueries(true),
+          // One row per set of three cups; the odd cup stays hidden until answered
+          {
+            sql: `CREATE TABLE IF NOT EXISTS triangle_sets (
+              id TEXT PRIMARY KEY,
+              session_id TEXT NOT NULL,
+              set_number INTEGER NOT NULL CHECK(set_number >= 1),
+              odd_coffee_id TEXT NOT NULL,
+              odd_position INTEGER NOT NULL CHECK(odd_position BETWEEN 1 AND 3),
+              chosen_position INTEGER CHECK(chosen_position BETWEEN 1 AND 3),
+              notes TEXT,
+              created_at TEXT NOT NULL,
+              answered_at TEXT,
+              UNIQUE (session_id, set_number),
+              FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+              FOREIGN KEY (odd_coffee_id) REFERENCES coffees(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+          // Descriptors the taster noted on the odd cup
+          {
+            sql: `CREATE TABLE IF NOT EXISTS triangle_descriptors (
+              set_id TEXT NOT NULL,
+              flavor_id INTEGER NOT NULL,
+              PRIMARY KEY (set_id, flavor_id),
+              FOREIGN KEY (set_id) REFERENCES triangle_sets(id) ON DELETE CASCADE
+            );`,
+            args: [],
+          },
+        ],
+        false
+      );
+      console.log('[Migration v10] Sessions rebuilt and triangle test tables created');
+    },
+  },
+  {
+    version: 11,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v11] Adding group cupping...');
+
+      await db.execAsync(
+        [
+          // Taster profiles, shared by the group sessions on this device
+          {
+            sql: `CREATE TABLE IF NOT EXISTS tasters (
+              id TEXT PRIMARY KEY,
+              name TEXT NOT NULL,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL
+            );`,
+            args: [],
+          },
+          // Participants of a group session, in the order the device is handed around
+          {
+            sql: `CREATE TABLE IF NOT EXISTS session_tasters (
+              session_id TEXT NOT NULL,
+              taster_id TEXT NOT NULL,
+              position INTEGER NOT NULL CHECK(position >= 1),
+              submitted_at TEXT,
+              PRIMARY KEY (session_id, taster_id),
+              FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+              FOREIGN KEY (taster_id) REFERENCES tasters(id)
+            );`,
+            args: [],
+          },
+          // Each participant's template scores of a cup
+          {
+            sql: `CREATE TABLE IF NOT EXISTS taster_cup_scores (
+              cup_id TEXT NOT NULL,
+              taster_id TEXT NOT NULL,
+              attribute TEXT NOT NULL,
+              value REAL NOT NULL,
+              PRIMARY KEY (cup_id, taster_id, attribute),
+              FOREIGN KEY (cup_id) REFERENCES cups(id) ON DELETE CASCADE,
+              FOREIGN KEY (taster_id) REFERENCES tasters(id)
+            );`,
+            args: [],
+          },
+          // Each participant's flavors of a cup
+          {
+            sql: `CREATE TABLE IF NOT EXISTS taster_cup_flavors (
+              cup_id TEXT NOT NULL,
+              taster_id TEXT NOT NULL,
+              flavor_id INTEGER NOT NULL,
+              intensity INTEGER NOT NULL CHECK(intensity BETWEEN 1 AND 5),
+              dominant INTEGER NOT NULL DEFAULT 0,
+              PRIMARY KEY (cup_id, taster_id, flavor_id),
+              FOREIGN KEY (cup_id) REFERENCES cups(id) ON DELETE CASCADE,
+              FOREIGN KEY (taster_id) REFERENCES tasters(id)
+            );`,
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_session_tasters_taster ON session_tasters(taster_id);',
+            args: [],
+          },
+        ],
+        false
+      );
+      console.log('[Migration v11] Taster and group score tables created');
+    },
+  },
+  {
+    version: 12,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v12] Adding sync...');
+
+      await db.execAsync(
+        [
+          // Server revision each session was last pushed or pulled at (0 = never)
+          {
+            sql: 'ALTER TABLE sessions ADD COLUMN sync_revision INTEGER NOT NULL DEFAULT 0;',
+            args: [],
+          },
+          // Local writes to the session, compared before and after a push
+          {
+            sql: 'ALTER TABLE sessions ADD COLUMN local_changes INTEGER NOT NULL DEFAULT 0;',
+            args: [],
+          },
+          // Sync settings and progress: server URL, pull cursor, last sync time
+          {
+            sql: `CREATE TABLE IF NOT EXISTS sync_state (
+              key TEXT PRIMARY KEY,
+              value TEXT NOT NULL
+            );`,
+            args: [],
+          },
+          // Sessions removed locally after reaching the server, until the delete is pushed
+          {
+            sql: `CREATE TABLE IF NOT EXISTS sync_tombstones (
+              session_id TEXT PRIMARY KEY,
+              revision INTEGER NOT NULL,
+              deleted_at TEXT NOT NULL
+            );`,
+            args: [],
+          },
+          // Server copy of each session in conflict, kept until it is resolved
+          {
+            sql: `CREATE TABLE IF NOT EXISTS sync_conflicts (
+              session_id TEXT PRIMARY KEY,
+              remote_revision INTEGER NOT NULL,
+              remote_deleted INTEGER NOT NULL DEFAULT 0,
+              remote_version TEXT,
+              remote_session TEXT,
+              detected_at TEXT NOT NULL
+            );`,
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_sessions_sync_status ON sessions(sync_status);',
+            args: [],
+          },
+          ...buildSyncTriggerQueries(),
+        ],
+        false
+      );
+      console.log('[Migration v12] Sync tables and change triggers created');
+    },
+  },
+  {
+    version: 13,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v13] Adding change log...');
+
+      await db.execAsync(
+        [
+          // One row per entity written by sessionService; AUTOINCREMENT keeps
+          // seq monotonic after acknowledged rows are deleted
+          {
+            sql: `CREATE TABLE IF NOT EXISTS change_log (
+              seq INTEGER PRIMARY KEY AUTOINCREMENT,
+              session_id TEXT NOT NULL,
+              entity TEXT NOT NULL CHECK(entity IN ('session', 'coffee', 'cup', 'triangle-set')),
+              entity_id TEXT NOT NULL,
+              operation TEXT NOT NULL CHECK(operation IN ('insert', 'update', 'delete')),
+              fields TEXT NOT NULL DEFAULT '[]',
+              created_at TEXT NOT NULL
+            );`,
+            args: [],
+          },
+          {
+            sql: 'CREATE INDEX IF NOT EXISTS idx_change_log_session ON change_log(session_id, seq);',
+            args: [],
+          },
+        ],
+        false
+      );
+      console.log('[Migration v13] Change log table created');
+    },
+  },
+  {
+    version: 14,
+    up: async (db: SQLite.SQLiteDatabase) => {
+      console.log('[Migration v14] Adding sync merge bases...');
+
+      // Copy of each session as last pushed or pulled, so a conflict can be
+      // merged against what both sides started from
+      await db.execAsync(
+        [
+          {
+            sql: `CREATE TABLE IF NOT EXISTS sync_bases (
+              session_id TEXT PRIMARY KEY,
+              revision INTEGER NOT NULL,
+              version TEXT NOT NULL,
+              session TEXT NOT NULL,
+              stored_at TEXT NOT NULL
+            );`,
+            args: [],
+          },
+        ],
+        false
+      );
+      console.log('[Migration v14] Sync bases table created');
+    },
+  },
   // Future migrations will be added here
-  // Example:
-  // {
-  //   version: 2,
-  //   up: async (db: SQLite.SQLiteDatabase) => {
-  //     // Add new column or table
-  //     await db.execAsync(`ALTER TABLE sessions ADD COLUMN new_field TEXT;`);
-  //   },
-  // },
 ];
 
 /**
@@ -135,8 +1037,13 @@ const MIGRATIONS: Migration[] = [
  * Applies migrations in order, tracking each one.
  *
  * @param db - SQLite database instance
+ * @param beforeMigrate - Called once before upgrading an existing database
+ * (not a new one), e.g. to back it up
  */
-export async function runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
+export async function runMigrations(
+  db: SQLite.SQLiteDatabase,
+  beforeMigrate?: (fromVersion: number, toVersion: number) => Promise<void>
+): Promise<void> {
   // Create migration tracking table
   await db.execAsync(
     [
@@ -155,6 +1062,10 @@ export async function runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
   const currentVersion = await getCurrentVersion(db);
   console.log('[Migrations] Current version:', currentVersion);
 
+  if (beforeMigrate && currentVersion > 0 && currentVersion < getLatestVersion()) {
+    await beforeMigrate(currentVersion, getLatestVersion());
+  }
+
   // Run pending migrations
   for (const migration of MIGRATIONS) {
     if (migration.version > currentVersion) {
@@ -175,10 +1086,19 @@ export async function runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
     }
   }
 
-  const finalVersion = MIGRATIONS[MIGRATIONS.length - 1]?.version || 0;
+  const finalVersion = getLatestVersion();
   console.log('[Migrations] Database is up to date (v' + finalVersion + ')');
 }
 
+/**
+ * Get the schema version this build migrates to.
+ *
+ * @returns Highest migration version defined
+ */
+export function getLatestVersion(): number {
+  return MIGRATIONS[MIGRATIONS.length - 1]?.version || 0;
+}
+
 /**
  * Get current database version.
  *
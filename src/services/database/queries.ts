@@ -5,17 +5,50 @@
  * These are used by the service layer (sessionService, analyticsService, etc.)
  */
 
+/**
+ * SQLite's default limit on bound parameters per statement (SQLITE_MAX_VARIABLE_NUMBER).
+ * IN (...) lookups must be chunked to stay below it.
+ */
+export const MAX_SQL_PARAMS = 999;
+
+/**
+ * Build a placeholder list for an IN (...) clause.
+ * @example buildPlaceholders(3) → "?, ?, ?"
+ */
+export function buildPlaceholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+/**
+ * Split values into chunks small enough to bind in a single statement.
+ */
+export function chunkParams<T>(values: T[], size: number = MAX_SQL_PARAMS): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Escape LIKE wildcards so user input matches literally (escape character is a backslash)
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
 /**
  * Session queries
  */
 export const sessionQueries = {
-  // Get all sessions, ordered by creation date (newest first)
+  // Get all sessions not in trash, ordered by creation date (newest first)
   getAllSessions: `
     SELECT * FROM sessions
+    WHERE deleted_at IS NULL
     ORDER BY created_at DESC
   `,
 
-  // Get single session by ID
+  // Get single session by ID (including sessions in trash)
   getSessionById: `
     SELECT * FROM sessions
     WHERE id = ?
@@ -24,46 +57,253 @@ export const sessionQueries = {
   // Get sessions by type
   getSessionsByType: `
     SELECT * FROM sessions
-    WHERE session_type = ?
+    WHERE session_type = ? AND deleted_at IS NULL
     ORDER BY created_at DESC
   `,
 
   // Get sessions by date range
   getSessionsByDateRange: `
     SELECT * FROM sessions
-    WHERE created_at BETWEEN ? AND ?
+    WHERE created_at BETWEEN ? AND ? AND deleted_at IS NULL
     ORDER BY created_at DESC
   `,
 
   // Insert new session
   insertSession: `
-    INSERT INTO sessions (id, created_at, updated_at, mode, session_type, notes, tags, sync_status, user_id)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO sessions (id, created_at, updated_at, mode, session_type, notes, tags, sync_status, user_id, protocol, template_id, blind_coding, revealed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `,
 
-  // Update session
+  // Update session. sync_status is left to the sync triggers and syncQueries,
+  // so an edit from a stale copy cannot undo what a sync wrote
   updateSession: `
     UPDATE sessions
-    SET updated_at = ?, notes = ?, tags = ?, sync_status = ?
+    SET updated_at = ?, notes = ?, tags = ?
+    WHERE id = ?
+  `,
+
+  // Move session to trash
+  softDeleteSession: `
+    UPDATE sessions
+    SET deleted_at = ?, updated_at = ?
     WHERE id = ?
   `,
 
+  // Reveal the coffees of a sealed blind session
+  revealSession: `
+    UPDATE sessions
+    SET revealed_at = ?, updated_at = ?
+    WHERE id = ? AND blind_coding IS NOT NULL AND revealed_at IS NULL
+  `,
+
+  // Mark the session of a cup as changed, for writes that only touch the cup
+  // (so scoring a blind session after its reveal is seen as a sighted edit)
+  touchSessionOfCup: `
+    UPDATE sessions
+    SET updated_at = ?
+    WHERE id = (
+      SELECT co.session_id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE c.id = ?
+    )
+  `,
+
+  // Mark the session of a coffee as changed, for writes that only touch the coffee
+  touchSessionOfCoffee: `
+    UPDATE sessions
+    SET updated_at = ?
+    WHERE id = (SELECT session_id FROM coffees WHERE id = ?)
+  `,
+
+  // Restore session from trash
+  restoreSession: `
+    UPDATE sessions
+    SET deleted_at = NULL, updated_at = ?
+    WHERE id = ?
+  `,
+
+  // Get sessions in trash, most recently deleted first
+  getDeletedSessions: `
+    SELECT * FROM sessions
+    WHERE deleted_at IS NOT NULL
+    ORDER BY deleted_at DESC
+  `,
+
+  // Full-text search over sessions not in trash, best match first.
+  // bm25 weights per column: session_id, coffees, notes, tags, flavors
+  searchSessions: `
+    SELECT s.* FROM session_search
+    JOIN sessions s ON s.id = session_search.session_id
+    WHERE session_search MATCH ? AND s.deleted_at IS NULL
+    ORDER BY bm25(session_search, 0.0, 4.0, 1.0, 2.0, 3.0), s.created_at DESC
+    LIMIT ?
+  `,
+
+  // Get IDs of sessions deleted before a cutoff (for purge)
+  getExpiredDeletedSessions: `
+    SELECT id FROM sessions
+    WHERE deleted_at IS NOT NULL AND deleted_at < ?
+  `,
+
+  // Get IDs of all sessions, including those in trash (for clearing all data)
+  getAllSessionIds: `
+    SELECT id FROM sessions
+  `,
+
+  // Delete all selected flavors belonging to a session
+  deleteFlavorsBySession: `
+    DELETE FROM selected_flavors
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  // Delete the defects of all cups belonging to a session
+  deleteCupDefectsBySession: `
+    DELETE FROM cup_defects
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  // Delete the template scores of all cups belonging to a session
+  deleteCupScoresBySession: `
+    DELETE FROM cup_scores
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  // Delete the SCA forms of all coffees belonging to a session
+  deleteSCAScoresBySession: `
+    DELETE FROM sca_scores
+    WHERE coffee_id IN (SELECT id FROM coffees WHERE session_id = ?)
+  `,
+
+  // Delete the CVA forms and descriptors of all cups belonging to a session
+  deleteCVADescriptiveBySession: `
+    DELETE FROM cva_descriptive
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  deleteCVADescriptorsBySession: `
+    DELETE FROM cva_descriptors
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  deleteCVAAffectiveBySession: `
+    DELETE FROM cva_affective
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  // Delete the descriptors of all triangle sets of a session
+  deleteTriangleDescriptorsBySession: `
+    DELETE FROM triangle_descriptors
+    WHERE set_id IN (SELECT id FROM triangle_sets WHERE session_id = ?)
+  `,
+
+  deleteTriangleSetsBySession: `
+    DELETE FROM triangle_sets
+    WHERE session_id = ?
+  `,
+
+  // Delete the per-taster scores and flavors of all cups belonging to a session
+  deleteTasterScoresBySession: `
+    DELETE FROM taster_cup_scores
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  deleteTasterFlavorsBySession: `
+    DELETE FROM taster_cup_flavors
+    WHERE cup_id IN (
+      SELECT c.id FROM cups c
+      JOIN coffees co ON c.coffee_id = co.id
+      WHERE co.session_id = ?
+    )
+  `,
+
+  deleteSessionTastersBySession: `
+    DELETE FROM session_tasters
+    WHERE session_id = ?
+  `,
+
+  // Delete all cups belonging to a session
+  deleteCupsBySession: `
+    DELETE FROM cups
+    WHERE coffee_id IN (SELECT id FROM coffees WHERE session_id = ?)
+  `,
+
+  // Delete all coffees belonging to a session
+  deleteCoffeesBySession: `
+    DELETE FROM coffees
+    WHERE session_id = ?
+  `,
+
   // Delete session (will cascade to coffees, cups, flavors)
   deleteSession: `
     DELETE FROM sessions
     WHERE id = ?
   `,
+
+  // Sessions not attached to an account (including those in trash)
+  getGuestSessionIds: `
+    SELECT id FROM sessions
+    WHERE user_id IS NULL
+  `,
+
+  // Attach guest sessions to an account. user_id fires no sync trigger, so
+  // this counts the change and marks every claimed session pending itself
+  claimGuestSessions: `
+    UPDATE sessions
+    SET user_id = ?,
+      local_changes = local_changes + 1,
+      sync_status = 'pending'
+    WHERE user_id IS NULL
+  `,
 } as const;
 
 /**
  * Coffee queries
  */
 export const coffeeQueries = {
-  // Get all coffees for a session
+  // Get all coffees for a session, with library details
   getCoffeesBySession: `
-    SELECT * FROM coffees
-    WHERE session_id = ?
-    ORDER BY id ASC
+    SELECT c.*, cc.process, cc.variety, cc.altitude
+    FROM coffees c
+    LEFT JOIN coffee_catalog cc ON c.catalog_id = cc.id
+    WHERE c.session_id = ?
+    ORDER BY c.id ASC
+  `,
+
+  // Get all coffees for several sessions at once, with library details
+  getCoffeesBySessions: (count: number) => `
+    SELECT c.*, cc.process, cc.variety, cc.altitude
+    FROM coffees c
+    LEFT JOIN coffee_catalog cc ON c.catalog_id = cc.id
+    WHERE c.session_id IN (${buildPlaceholders(count)})
+    ORDER BY c.id ASC
   `,
 
   // Get single coffee by ID
@@ -74,8 +314,14 @@ export const coffeeQueries = {
 
   // Insert new coffee
   insertCoffee: `
-    INSERT INTO coffees (id, session_id, name, roaster, origin, brew_method, roast_level, roast_date)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO coffees (id, session_id, name, roaster, origin, brew_method, roast_level, roast_date, catalog_id, blind_code)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+
+  // Get the blind codes already given to a session's coffees
+  getBlindCodes: `
+    SELECT blind_code FROM coffees
+    WHERE session_id = ? AND blind_code IS NOT NULL
   `,
 
   // Update coffee
@@ -85,13 +331,79 @@ export const coffeeQueries = {
     WHERE id = ?
   `,
 
-  // Delete coffee (will cascade to cups, flavors)
+  // Delete the selected flavors of a coffee's cups (foreign keys are off, so
+  // nothing cascades)
+  deleteFlavorsByCoffee: `
+    DELETE FROM selected_flavors
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+
+  // Delete the cups of a coffee
+  deleteCupsByCoffee: `
+    DELETE FROM cups
+    WHERE coffee_id = ?
+  `,
+
+  // Delete coffee; its cups and flavors are deleted first
   deleteCoffee: `
     DELETE FROM coffees
     WHERE id = ?
   `,
 } as const;
 
+/**
+ * Coffee library queries
+ */
+export const catalogQueries = {
+  // Search library by name, roaster or origin (most recently tasted first)
+  searchCatalog: `
+    SELECT cc.*, COUNT(DISTINCT s.id) as session_count, MAX(s.created_at) as last_tasted_at
+    FROM coffee_catalog cc
+    LEFT JOIN coffees c ON c.catalog_id = cc.id
+    LEFT JOIN sessions s ON c.session_id = s.id AND s.deleted_at IS NULL
+    WHERE cc.name LIKE ? ESCAPE '\\' OR cc.roaster LIKE ? ESCAPE '\\' OR cc.origin LIKE ? ESCAPE '\\'
+    GROUP BY cc.id
+    ORDER BY last_tasted_at DESC, cc.name COLLATE NOCASE ASC
+    LIMIT ?
+  `,
+
+  // Get single library coffee by ID
+  getCatalogCoffeeById: `
+    SELECT cc.*, COUNT(DISTINCT s.id) as session_count, MAX(s.created_at) as last_tasted_at
+    FROM coffee_catalog cc
+    LEFT JOIN coffees c ON c.catalog_id = cc.id
+    LEFT JOIN sessions s ON c.session_id = s.id AND s.deleted_at IS NULL
+    WHERE cc.id = ?
+    GROUP BY cc.id
+  `,
+
+  // Find library coffee by name + roaster (case-insensitive)
+  findCatalogCoffee: `
+    SELECT id FROM coffee_catalog
+    WHERE lower(trim(name)) = lower(trim(?))
+      AND lower(trim(COALESCE(roaster, ''))) = lower(trim(COALESCE(?, '')))
+    LIMIT 1
+  `,
+
+  // Insert new library coffee
+  insertCatalogCoffee: `
+    INSERT INTO coffee_catalog (id, name, roaster, origin, process, variety, altitude, roast_level, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+
+  // Fill in library details (NULL keeps the current value)
+  updateCatalogDetails: `
+    UPDATE coffee_catalog
+    SET origin = COALESCE(?, origin),
+        process = COALESCE(?, process),
+        variety = COALESCE(?, variety),
+        altitude = COALESCE(?, altitude),
+        roast_level = COALESCE(?, roast_level),
+        updated_at = ?
+    WHERE id = ?
+  `,
+} as const;
+
 /**
  * Cup queries
  */
@@ -103,23 +415,32 @@ export const cupQueries = {
     ORDER BY position ASC
   `,
 
+  // Get all cups for several sessions at once
+  getCupsBySessions: (count: number) => `
+    SELECT cu.* FROM cups cu
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+    ORDER BY cu.position ASC
+  `,
+
   // Get single cup by ID
   getCupById: `
     SELECT * FROM cups
     WHERE id = ?
   `,
 
-  // Insert new cup
-  insertCup: `
-    INSERT INTO cups (id, coffee_id, position, acidity, sweetness, body, clarity, finish, enjoyment, notes)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  // Get the scoring template of the session a cup belongs to
+  getCupTemplateId: `
+    SELECT s.template_id FROM cups cu
+    JOIN coffees co ON cu.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE cu.id = ?
   `,
 
-  // Update cup scores
-  updateCupScores: `
-    UPDATE cups
-    SET acidity = ?, sweetness = ?, body = ?, clarity = ?, finish = ?, enjoyment = ?
-    WHERE id = ?
+  // Insert new cup (scores are stored in cup_scores)
+  insertCup: `
+    INSERT INTO cups (id, coffee_id, position, notes)
+    VALUES (?, ?, ?, ?)
   `,
 
   // Update cup notes
@@ -136,6 +457,374 @@ export const cupQueries = {
   `,
 } as const;
 
+/**
+ * Cup score queries (one row per scored template attribute)
+ */
+export const scoreQueries = {
+  // Get the scores of all cups in several sessions at once
+  getScoresBySessions: (count: number) => `
+    SELECT cs.* FROM cup_scores cs
+    JOIN cups cu ON cs.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+  `,
+
+  // Insert or replace one attribute score of a cup
+  upsertScore: `
+    INSERT INTO cup_scores (cup_id, attribute, value)
+    VALUES (?, ?, ?)
+    ON CONFLICT(cup_id, attribute) DO UPDATE SET value = excluded.value
+  `,
+
+  // Delete all scores of a cup
+  deleteScoresByCup: `
+    DELETE FROM cup_scores
+    WHERE cup_id = ?
+  `,
+
+  // Delete the scores of all cups of a coffee
+  deleteScoresByCoffee: `
+    DELETE FROM cup_scores
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+} as const;
+
+/**
+ * Cup defect queries
+ */
+export const defectQueries = {
+  // Get the defects of all cups in several sessions at once
+  getDefectsBySessions: (count: number) => `
+    SELECT cd.* FROM cup_defects cd
+    JOIN cups cu ON cd.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+    ORDER BY cd.rowid ASC
+  `,
+
+  // Insert a defect of a cup
+  insertDefect: `
+    INSERT INTO cup_defects (cup_id, defect_id, severity, cup_count, bean_count, notes)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `,
+
+  // Delete all defects of a cup
+  deleteDefectsByCup: `
+    DELETE FROM cup_defects
+    WHERE cup_id = ?
+  `,
+
+  // Delete the defects of all cups of a coffee
+  deleteDefectsByCoffee: `
+    DELETE FROM cup_defects
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+} as const;
+
+/**
+ * SCA cupping form queries
+ */
+export const scaQueries = {
+  // Get the SCA forms of all coffees in several sessions at once
+  getSCAScoresBySessions: (count: number) => `
+    SELECT sc.* FROM sca_scores sc
+    JOIN coffees co ON sc.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+  `,
+
+  // Insert or replace a coffee's SCA form (keeps the original created_at)
+  upsertSCAScore: `
+    INSERT INTO sca_scores (
+      coffee_id, fragrance_aroma, dry_intensity, break_intensity, flavor, aftertaste,
+      acidity, acidity_intensity, body, body_level, balance, overall,
+      uniform_cups, clean_cups, sweet_cups, taint_cups, fault_cups, notes, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(coffee_id) DO UPDATE SET
+      fragrance_aroma = excluded.fragrance_aroma,
+      dry_intensity = excluded.dry_intensity,
+      break_intensity = excluded.break_intensity,
+      flavor = excluded.flavor,
+      aftertaste = excluded.aftertaste,
+      acidity = excluded.acidity,
+      acidity_intensity = excluded.acidity_intensity,
+      body = excluded.body,
+      body_level = excluded.body_level,
+      balance = excluded.balance,
+      overall = excluded.overall,
+      uniform_cups = excluded.uniform_cups,
+      clean_cups = excluded.clean_cups,
+      sweet_cups = excluded.sweet_cups,
+      taint_cups = excluded.taint_cups,
+      fault_cups = excluded.fault_cups,
+      notes = excluded.notes,
+      updated_at = excluded.updated_at
+  `,
+
+  // Delete a coffee's SCA form
+  deleteSCAScore: `
+    DELETE FROM sca_scores
+    WHERE coffee_id = ?
+  `,
+} as const;
+
+/**
+ * CVA form queries
+ */
+export const cvaQueries = {
+  // Get the descriptive forms of all cups in several sessions at once
+  getDescriptiveBySessions: (count: number) => `
+    SELECT cd.* FROM cva_descriptive cd
+    JOIN cups cu ON cd.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+  `,
+
+  // Get the check-all-that-apply descriptors of all cups in several sessions at once
+  getDescriptorsBySessions: (count: number) => `
+    SELECT cx.* FROM cva_descriptors cx
+    JOIN cups cu ON cx.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+    ORDER BY cx.rowid ASC
+  `,
+
+  // Get the affective forms of all cups in several sessions at once
+  getAffectiveBySessions: (count: number) => `
+    SELECT ca.* FROM cva_affective ca
+    JOIN cups cu ON ca.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+  `,
+
+  // Insert or replace a cup's descriptive form (keeps the original created_at)
+  upsertDescriptive: `
+    INSERT INTO cva_descriptive (
+      cup_id, fragrance, aroma, flavor, aftertaste, acidity, sweetness, mouthfeel,
+      notes, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(cup_id) DO UPDATE SET
+      fragrance = excluded.fragrance,
+      aroma = excluded.aroma,
+      flavor = excluded.flavor,
+      aftertaste = excluded.aftertaste,
+      acidity = excluded.acidity,
+      sweetness = excluded.sweetness,
+      mouthfeel = excluded.mouthfeel,
+      notes = excluded.notes,
+      updated_at = excluded.updated_at
+  `,
+
+  // Insert a check-all-that-apply descriptor
+  insertDescriptor: `
+    INSERT OR IGNORE INTO cva_descriptors (cup_id, section, flavor_id)
+    VALUES (?, ?, ?)
+  `,
+
+  // Delete all descriptors of a cup
+  deleteDescriptorsByCup: `
+    DELETE FROM cva_descriptors
+    WHERE cup_id = ?
+  `,
+
+  // Insert or replace a cup's affective form (keeps the original created_at)
+  upsertAffective: `
+    INSERT INTO cva_affective (
+      cup_id, fragrance, aroma, flavor, aftertaste, acidity, sweetness, mouthfeel, overall,
+      non_uniform, defective, notes, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(cup_id) DO UPDATE SET
+      fragrance = excluded.fragrance,
+      aroma = excluded.aroma,
+      flavor = excluded.flavor,
+      aftertaste = excluded.aftertaste,
+      acidity = excluded.acidity,
+      sweetness = excluded.sweetness,
+      mouthfeel = excluded.mouthfeel,
+      overall = excluded.overall,
+      non_uniform = excluded.non_uniform,
+      defective = excluded.defective,
+      notes = excluded.notes,
+      updated_at = excluded.updated_at
+  `,
+
+  // Delete the CVA forms and descriptors of all cups of a coffee
+  deleteDescriptiveByCoffee: `
+    DELETE FROM cva_descriptive
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+
+  deleteDescriptorsByCoffee: `
+    DELETE FROM cva_descriptors
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+
+  deleteAffectiveByCoffee: `
+    DELETE FROM cva_affective
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+} as const;
+
+/**
+ * Triangle test queries
+ */
+export const triangleQueries = {
+  // Get the sets of several sessions at once
+  getSetsBySessions: (count: number) => `
+    SELECT * FROM triangle_sets
+    WHERE session_id IN (${buildPlaceholders(count)})
+    ORDER BY set_number ASC
+  `,
+
+  // Get the descriptors of all sets of several sessions at once
+  getDescriptorsBySessions: (count: number) => `
+    SELECT td.* FROM triangle_descriptors td
+    JOIN triangle_sets ts ON td.set_id = ts.id
+    WHERE ts.session_id IN (${buildPlaceholders(count)})
+    ORDER BY td.rowid ASC
+  `,
+
+  getSetById: `
+    SELECT * FROM triangle_sets
+    WHERE id = ?
+  `,
+
+  // Number of the next set of a session
+  getNextSetNumber: `
+    SELECT COALESCE(MAX(set_number), 0) + 1 as set_number
+    FROM triangle_sets
+    WHERE session_id = ?
+  `,
+
+  insertSet: `
+    INSERT INTO triangle_sets (
+      id, session_id, set_number, odd_coffee_id, odd_position, chosen_position, notes,
+      created_at, answered_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+
+  // Record the taster's answer (params: chosen_position, notes, answered_at, id)
+  answerSet: `
+    UPDATE triangle_sets
+    SET chosen_position = ?, notes = ?, answered_at = ?
+    WHERE id = ?
+  `,
+
+  insertDescriptor: `
+    INSERT OR IGNORE INTO triangle_descriptors (set_id, flavor_id)
+    VALUES (?, ?)
+  `,
+
+  deleteDescriptorsBySet: `
+    DELETE FROM triangle_descriptors
+    WHERE set_id = ?
+  `,
+} as const;
+
+/**
+ * Taster and group score queries
+ */
+export const tasterQueries = {
+  // Get all taster profiles (most group sessions first)
+  getTasters: `
+    SELECT t.*, COUNT(s.id) as session_count
+    FROM tasters t
+    LEFT JOIN session_tasters st ON st.taster_id = t.id
+    LEFT JOIN sessions s ON st.session_id = s.id AND s.deleted_at IS NULL
+    GROUP BY t.id
+    ORDER BY session_count DESC, t.name COLLATE NOCASE ASC
+  `,
+
+  getTasterById: `
+    SELECT * FROM tasters
+    WHERE id = ?
+  `,
+
+  // Find taster by name (case-insensitive)
+  findTasterByName: `
+    SELECT id FROM tasters
+    WHERE lower(trim(name)) = lower(trim(?))
+    LIMIT 1
+  `,
+
+  insertTaster: `
+    INSERT INTO tasters (id, name, created_at, updated_at)
+    VALUES (?, ?, ?, ?)
+  `,
+
+  // Get the participants of several sessions at once, with their names
+  getSessionTastersBySessions: (count: number) => `
+    SELECT st.*, t.name FROM session_tasters st
+    JOIN tasters t ON st.taster_id = t.id
+    WHERE st.session_id IN (${buildPlaceholders(count)})
+    ORDER BY st.position ASC
+  `,
+
+  insertSessionTaster: `
+    INSERT INTO session_tasters (session_id, taster_id, position, submitted_at)
+    VALUES (?, ?, ?, ?)
+  `,
+
+  // Mark a participant's scores as submitted (params: submitted_at, session_id, taster_id)
+  submitSessionTaster: `
+    UPDATE session_tasters
+    SET submitted_at = ?
+    WHERE session_id = ? AND taster_id = ?
+  `,
+
+  // Get the per-taster scores of all cups in several sessions at once
+  getScoresBySessions: (count: number) => `
+    SELECT tcs.* FROM taster_cup_scores tcs
+    JOIN cups cu ON tcs.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+  `,
+
+  // Get the per-taster flavors of all cups in several sessions at once
+  getFlavorsBySessions: (count: number) => `
+    SELECT tcf.* FROM taster_cup_flavors tcf
+    JOIN cups cu ON tcf.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+    ORDER BY tcf.dominant DESC, tcf.intensity DESC
+  `,
+
+  insertScore: `
+    INSERT INTO taster_cup_scores (cup_id, taster_id, attribute, value)
+    VALUES (?, ?, ?, ?)
+  `,
+
+  insertFlavor: `
+    INSERT INTO taster_cup_flavors (cup_id, taster_id, flavor_id, intensity, dominant)
+    VALUES (?, ?, ?, ?, ?)
+  `,
+
+  // Delete one taster's scores and flavors of a cup (params: cup_id, taster_id)
+  deleteScoresByCupAndTaster: `
+    DELETE FROM taster_cup_scores
+    WHERE cup_id = ? AND taster_id = ?
+  `,
+
+  deleteFlavorsByCupAndTaster: `
+    DELETE FROM taster_cup_flavors
+    WHERE cup_id = ? AND taster_id = ?
+  `,
+
+  // Delete the per-taster scores and flavors of all cups of a coffee
+  deleteScoresByCoffee: `
+    DELETE FROM taster_cup_scores
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+
+  deleteFlavorsByCoffee: `
+    DELETE FROM taster_cup_flavors
+    WHERE cup_id IN (SELECT id FROM cups WHERE coffee_id = ?)
+  `,
+} as const;
+
 /**
  * Selected flavor queries
  */
@@ -147,11 +836,24 @@ export const flavorQueries = {
     ORDER BY dominant DESC, intensity DESC
   `,
 
-  // Get flavor frequency across all sessions
+  // Get all flavors for several sessions at once
+  getFlavorsBySessions: (count: number) => `
+    SELECT sf.* FROM selected_flavors sf
+    JOIN cups cu ON sf.cup_id = cu.id
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE co.session_id IN (${buildPlaceholders(count)})
+    ORDER BY sf.dominant DESC, sf.intensity DESC
+  `,
+
+  // Get flavor frequency across all sessions not in trash
   getFlavorFrequency: `
-    SELECT flavor_id, COUNT(*) as count, AVG(intensity) as avg_intensity
-    FROM selected_flavors
-    GROUP BY flavor_id
+    SELECT sf.flavor_id, COUNT(*) as count, AVG(sf.intensity) as avg_intensity
+    FROM selected_flavors sf
+    JOIN cups c ON sf.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.deleted_at IS NULL
+    GROUP BY sf.flavor_id
     ORDER BY count DESC
   `,
 
@@ -199,48 +901,448 @@ export const flavorQueries = {
   `,
 } as const;
 
+/**
+ * Sync queries
+ */
+export const syncQueries = {
+  // Read a sync setting or progress value
+  getState: `
+    SELECT value FROM sync_state WHERE key = ?
+  `,
+
+  // Write a sync setting or progress value
+  setState: `
+    INSERT INTO sync_state (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `,
+
+  // Remove a sync setting or progress value
+  deleteState: `
+    DELETE FROM sync_state WHERE key = ?
+  `,
+
+  // Sync status, revision and local change count of a session
+  getSessionSyncState: `
+    SELECT id, sync_status, sync_revision, local_changes FROM sessions WHERE id = ?
+  `,
+
+  // Sessions with changes to push (including those in trash), oldest change first
+  getSessionsToPush: `
+    SELECT id, sync_status, sync_revision, local_changes FROM sessions
+    WHERE sync_status IN ('local-only', 'pending')
+    ORDER BY updated_at ASC
+  `,
+
+  // Record a push. A session changed while it was pushed stays pending
+  // (params: revision, local_changes when read, id)
+  markPushed: `
+    UPDATE sessions
+    SET sync_revision = ?,
+      sync_status = CASE WHEN local_changes = ? THEN 'synced' ELSE 'pending' END
+    WHERE id = ?
+  `,
+
+  // Record a session written from the server
+  markPulled: `
+    UPDATE sessions SET sync_revision = ?, sync_status = 'synced' WHERE id = ?
+  `,
+
+  // Record a merge of a session in conflict, based on the server revision
+  // it was merged with and waiting to be pushed
+  markMerged: `
+    UPDATE sessions SET sync_revision = ?, sync_status = 'pending' WHERE id = ?
+  `,
+
+  // Set a session's sync status without marking it changed
+  setSyncStatus: `
+    UPDATE sessions SET sync_status = ? WHERE id = ?
+  `,
+
+  // Forget the server sessions were synced with (when switching servers)
+  resetSessions: `
+    UPDATE sessions SET sync_revision = 0, sync_status = 'local-only'
+  `,
+
+  // Drop all pending deletes
+  clearTombstones: `
+    DELETE FROM sync_tombstones
+  `,
+
+  // Drop all unresolved conflicts
+  clearConflicts: `
+    DELETE FROM sync_conflicts
+  `,
+
+  // Drop all merge bases
+  clearBases: `
+    DELETE FROM sync_bases
+  `,
+
+  // Count sessions by sync status
+  countByStatus: `
+    SELECT sync_status, COUNT(*) as count FROM sessions GROUP BY sync_status
+  `,
+
+  // Deletes waiting to be pushed
+  getTombstones: `
+    SELECT * FROM sync_tombstones ORDER BY deleted_at ASC
+  `,
+
+  // Look up a pending delete
+  getTombstone: `
+    SELECT * FROM sync_tombstones WHERE session_id = ?
+  `,
+
+  // Forget a pushed (or overridden) delete
+  deleteTombstone: `
+    DELETE FROM sync_tombstones WHERE session_id = ?
+  `,
+
+  // Server copy of a session in conflict
+  getConflict: `
+    SELECT * FROM sync_conflicts WHERE session_id = ?
+  `,
+
+  // Keep the latest server copy of a session in conflict
+  upsertConflict: `
+    INSERT INTO sync_conflicts (
+      session_id, remote_revision, remote_deleted, remote_version, remote_session, detected_at
+    ) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(session_id) DO UPDATE SET
+      remote_revision = excluded.remote_revision,
+      remote_deleted = excluded.remote_deleted,
+      remote_version = excluded.remote_version,
+      remote_session = excluded.remote_session,
+      detected_at = excluded.detected_at
+  `,
+
+  // Forget a resolved conflict
+  deleteConflict: `
+    DELETE FROM sync_conflicts WHERE session_id = ?
+  `,
+
+  // Sessions in conflict, latest first
+  getConflicts: `
+    SELECT * FROM sync_conflicts ORDER BY detected_at DESC
+  `,
+
+  // Copy of a session as last synced, the base of a three-way merge
+  getBase: `
+    SELECT * FROM sync_bases WHERE session_id = ?
+  `,
+
+  upsertBase: `
+    INSERT INTO sync_bases (session_id, revision, version, session, stored_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(session_id) DO UPDATE SET
+      revision = excluded.revision,
+      version = excluded.version,
+      session = excluded.session,
+      stored_at = excluded.stored_at
+  `,
+
+  deleteBase: `
+    DELETE FROM sync_bases WHERE session_id = ?
+  `,
+} as const;
+
+/**
+ * Change log queries
+ */
+export const changeLogQueries = {
+  // Append a change (params: session_id, entity, entity_id, operation, fields, created_at)
+  insertChange: `
+    INSERT INTO change_log (session_id, entity, entity_id, operation, fields, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `,
+
+  // Append a change to a coffee, looking up its session
+  // (params: entity, entity_id, operation, fields, created_at, coffee id)
+  insertCoffeeChange: `
+    INSERT INTO change_log (session_id, entity, entity_id, operation, fields, created_at)
+    SELECT session_id, ?, ?, ?, ?, ? FROM coffees WHERE id = ?
+  `,
+
+  // Append a change to a cup, looking up its session
+  // (params: entity, entity_id, operation, fields, created_at, cup id)
+  insertCupChange: `
+    INSERT INTO change_log (session_id, entity, entity_id, operation, fields, created_at)
+    SELECT co.session_id, ?, ?, ?, ?, ? FROM cups cu
+    JOIN coffees co ON cu.coffee_id = co.id
+    WHERE cu.id = ?
+  `,
+
+  // Changes after a sequence number, oldest first
+  getChangesAfter: `
+    SELECT * FROM change_log WHERE seq > ? ORDER BY seq ASC LIMIT ?
+  `,
+
+  // All changes, oldest first (for compaction)
+  getAllChanges: `
+    SELECT * FROM change_log ORDER BY seq ASC
+  `,
+
+  // Latest sequence number overall
+  getLatestSeq: `
+    SELECT MAX(seq) as seq FROM change_log
+  `,
+
+  // Latest sequence number of a session
+  getLatestSessionSeq: `
+    SELECT MAX(seq) as seq FROM change_log WHERE session_id = ?
+  `,
+
+  // Update a change that absorbed older ones during compaction
+  updateChange: `
+    UPDATE change_log SET operation = ?, fields = ? WHERE seq = ?
+  `,
+
+  // Delete one change
+  deleteChange: `
+    DELETE FROM change_log WHERE seq = ?
+  `,
+
+  // Delete acknowledged changes
+  deleteChangesUpTo: `
+    DELETE FROM change_log WHERE seq <= ?
+  `,
+
+  // Delete a session's acknowledged changes
+  deleteSessionChangesUpTo: `
+    DELETE FROM change_log WHERE session_id = ? AND seq <= ?
+  `,
+
+  // Delete all of a session's changes
+  deleteSessionChanges: `
+    DELETE FROM change_log WHERE session_id = ?
+  `,
+} as const;
+
 /**
  * Analytics queries
  */
 export const analyticsQueries = {
-  // Get average scores for a coffee (across all cups)
+  // Get average score per attribute for a coffee (across all cups)
   getAverageScoresByCoffee: `
     SELECT
-      AVG(acidity) as avg_acidity,
-      AVG(sweetness) as avg_sweetness,
-      AVG(body) as avg_body,
-      AVG(clarity) as avg_clarity,
-      AVG(finish) as avg_finish,
-      AVG(enjoyment) as avg_enjoyment,
+      cs.attribute,
+      AVG(cs.value) as avg_value,
       COUNT(*) as cup_count
-    FROM cups
-    WHERE coffee_id = ?
+    FROM cup_scores cs
+    JOIN cups c ON cs.cup_id = c.id
+    WHERE c.coffee_id = ?
+    GROUP BY cs.attribute
   `,
 
-  // Get score variance for uniformity analysis (table cupping)
+  // Get score variance per attribute for uniformity analysis (table cupping)
   getScoreVarianceByCoffee: `
     SELECT
-      AVG(acidity) as avg_acidity,
-      AVG(sweetness) as avg_sweetness,
-      AVG(body) as avg_body,
-      AVG(clarity) as avg_clarity,
-      AVG(finish) as avg_finish,
-      AVG(enjoyment) as avg_enjoyment
-    FROM cups
-    WHERE coffee_id = ?
+      cs.attribute,
+      AVG(cs.value) as avg_value,
+      AVG(cs.value * cs.value) - AVG(cs.value) * AVG(cs.value) as variance
+    FROM cup_scores cs
+    JOIN cups c ON cs.cup_id = c.id
+    WHERE c.coffee_id = ?
+    GROUP BY cs.attribute
   `,
 
-  // Get total unique flavors count
+  // Get total unique flavors count (sessions not in trash)
   getUniqueFlavorsCount: `
-    SELECT COUNT(DISTINCT flavor_id) as unique_count
-    FROM selected_flavors
+    SELECT COUNT(DISTINCT sf.flavor_id) as unique_count
+    FROM selected_flavors sf
+    JOIN cups c ON sf.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.deleted_at IS NULL
+  `,
+
+  // Tastings of a library coffee (oldest first, sessions not in trash; sealed blind
+  // sessions are left out so they cannot give a coffee away before the reveal)
+  getCoffeeTimelineEntries: `
+    SELECT
+      s.id as session_id,
+      s.created_at as tasted_at,
+      s.template_id,
+      co.id as coffee_id,
+      co.roast_date,
+      co.brew_method,
+      COUNT(c.id) as cup_count
+    FROM coffees co
+    JOIN sessions s ON co.session_id = s.id
+    LEFT JOIN cups c ON c.coffee_id = co.id
+    WHERE co.catalog_id = ? AND s.deleted_at IS NULL
+      AND (s.blind_coding IS NULL OR s.revealed_at IS NOT NULL)
+    GROUP BY co.id
+    ORDER BY s.created_at ASC
+  `,
+
+  // Average score per attribute per tasting of a library coffee (sessions not in trash)
+  getCoffeeTimelineScores: `
+    SELECT
+      co.id as coffee_id,
+      cs.attribute,
+      AVG(cs.value) as avg_value
+    FROM cup_scores cs
+    JOIN cups c ON cs.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE co.catalog_id = ? AND s.deleted_at IS NULL
+    GROUP BY co.id, cs.attribute
+  `,
+
+  // Flavors noted per tasting of a library coffee (sessions not in trash)
+  getCoffeeTimelineFlavors: `
+    SELECT
+      co.id as coffee_id,
+      sf.flavor_id,
+      AVG(sf.intensity) as avg_intensity,
+      MAX(sf.dominant) as dominant
+    FROM selected_flavors sf
+    JOIN cups c ON sf.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE co.catalog_id = ? AND s.deleted_at IS NULL
+    GROUP BY co.id, sf.flavor_id
   `,
 
-  // Get most common flavors (top N)
+  // Totals for a date range (params: start, end)
+  getStatsOverview: `
+    SELECT
+      COUNT(DISTINCT s.id) as session_count,
+      COUNT(DISTINCT co.catalog_id) as coffee_count,
+      COUNT(DISTINCT c.id) as cup_count,
+      COUNT(DISTINCT cs.cup_id) as scored_cup_count
+    FROM sessions s
+    LEFT JOIN coffees co ON co.session_id = s.id
+    LEFT JOIN cups c ON c.coffee_id = co.id
+    LEFT JOIN cup_scores cs ON cs.cup_id = c.id
+    WHERE s.deleted_at IS NULL AND s.created_at BETWEEN ? AND ?
+  `,
+
+  // Sessions per week (starting Monday) or month (params: 'week' | 'month', start, end)
+  getSessionCountsByPeriod: `
+    SELECT
+      CASE ? WHEN 'week' THEN date(created_at, 'weekday 0', '-6 days')
+        ELSE strftime('%Y-%m-01', created_at) END as period_start,
+      COUNT(*) as session_count
+    FROM sessions
+    WHERE deleted_at IS NULL AND created_at BETWEEN ? AND ?
+    GROUP BY period_start
+    ORDER BY period_start ASC
+  `,
+
+  // Average of each attribute per week or month for one template
+  // (params: 'week' | 'month', template ID, start, end)
+  getAverageScoresByPeriod: `
+    SELECT
+      CASE ? WHEN 'week' THEN date(s.created_at, 'weekday 0', '-6 days')
+        ELSE strftime('%Y-%m-01', s.created_at) END as period_start,
+      cs.attribute,
+      AVG(cs.value) as avg_value,
+      COUNT(*) as cup_count
+    FROM cup_scores cs
+    JOIN cups c ON cs.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.template_id = ? AND s.deleted_at IS NULL AND s.created_at BETWEEN ? AND ?
+    GROUP BY period_start, cs.attribute
+    ORDER BY period_start ASC
+  `,
+
+  // Count of each score per attribute for one template (params: template ID, start, end)
+  getScoreDistribution: `
+    SELECT cs.attribute, cs.value as score, COUNT(*) as count
+    FROM cup_scores cs
+    JOIN cups c ON cs.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.template_id = ? AND s.deleted_at IS NULL AND s.created_at BETWEEN ? AND ?
+    GROUP BY cs.attribute, cs.value
+  `,
+
+  // Most-tasted origins (params: start, end, limit; sealed blind sessions left out)
+  getTopOrigins: `
+    SELECT MIN(trim(co.origin)) as value, COUNT(DISTINCT s.id) as session_count
+    FROM coffees co
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.deleted_at IS NULL AND s.created_at BETWEEN ? AND ?
+      AND co.origin IS NOT NULL AND trim(co.origin) != ''
+      AND (s.blind_coding IS NULL OR s.revealed_at IS NOT NULL)
+    GROUP BY lower(trim(co.origin))
+    ORDER BY session_count DESC, value ASC
+    LIMIT ?
+  `,
+
+  // Most-tasted roasters (params: start, end, limit; sealed blind sessions left out)
+  getTopRoasters: `
+    SELECT MIN(trim(co.roaster)) as value, COUNT(DISTINCT s.id) as session_count
+    FROM coffees co
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.deleted_at IS NULL AND s.created_at BETWEEN ? AND ?
+      AND co.roaster IS NOT NULL AND trim(co.roaster) != ''
+      AND (s.blind_coding IS NULL OR s.revealed_at IS NOT NULL)
+    GROUP BY lower(trim(co.roaster))
+    ORDER BY session_count DESC, value ASC
+    LIMIT ?
+  `,
+
+  // Cups tasted and cups with a recorded defect per library coffee or roaster
+  // (params: 'coffee' | 'roaster' twice; sessions not in trash or sealed)
+  getDefectTotals: `
+    SELECT
+      CASE ? WHEN 'roaster' THEN lower(trim(co.roaster)) ELSE co.catalog_id END as group_key,
+      MIN(CASE ? WHEN 'roaster' THEN trim(co.roaster) ELSE cc.name END) as label,
+      COUNT(DISTINCT c.id) as cup_count,
+      COUNT(DISTINCT cd.cup_id) as defective_cup_count
+    FROM cups c
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    LEFT JOIN coffee_catalog cc ON co.catalog_id = cc.id
+    LEFT JOIN cup_defects cd ON cd.cup_id = c.id
+    WHERE s.deleted_at IS NULL
+      AND (s.blind_coding IS NULL OR s.revealed_at IS NOT NULL)
+    GROUP BY group_key
+    HAVING group_key IS NOT NULL AND group_key != ''
+  `,
+
+  // Cups recording each defect per library coffee or roaster
+  // (params: 'coffee' | 'roaster'; sessions not in trash or sealed)
+  getDefectCounts: `
+    SELECT
+      CASE ? WHEN 'roaster' THEN lower(trim(co.roaster)) ELSE co.catalog_id END as group_key,
+      cd.defect_id,
+      COUNT(*) as cup_count,
+      SUM(CASE cd.severity WHEN 'fault' THEN 1 ELSE 0 END) as fault_count
+    FROM cup_defects cd
+    JOIN cups c ON cd.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.deleted_at IS NULL
+      AND (s.blind_coding IS NULL OR s.revealed_at IS NOT NULL)
+    GROUP BY group_key, cd.defect_id
+  `,
+
+  // Answered triangle sets, oldest answer first (sessions not in trash)
+  getTriangleAnswers: `
+    SELECT
+      ts.session_id,
+      ts.answered_at,
+      CASE WHEN ts.chosen_position = ts.odd_position THEN 1 ELSE 0 END as correct
+    FROM triangle_sets ts
+    JOIN sessions s ON ts.session_id = s.id
+    WHERE ts.chosen_position IS NOT NULL AND s.deleted_at IS NULL
+    ORDER BY ts.answered_at ASC
+  `,
+
+  // Get most common flavors (top N, sessions not in trash)
   getTopFlavors: `
-    SELECT flavor_id, COUNT(*) as count
-    FROM selected_flavors
-    GROUP BY flavor_id
+    SELECT sf.flavor_id, COUNT(*) as count
+    FROM selected_flavors sf
+    JOIN cups c ON sf.cup_id = c.id
+    JOIN coffees co ON c.coffee_id = co.id
+    JOIN sessions s ON co.session_id = s.id
+    WHERE s.deleted_at IS NULL
+    GROUP BY sf.flavor_id
     ORDER BY count DESC
     LIMIT ?
   `,
@@ -13,11 +13,18 @@ export interface SessionRow {
   created_at: string;
   updated_at: string;
   mode: string; // 'taste' | 'pro'
-  session_type: string; // 'single-coffee' | 'multi-coffee' | 'table-cupping'
+  session_type: string; // 'single-coffee' | 'multi-coffee' | 'table-cupping' | 'triangulation' (v10)
   notes: string | null;
   tags: string | null; // JSON stringified array
   sync_status: string; // 'local-only' | 'synced' | 'pending' | 'conflict'
   user_id: string | null; // Nullable for guest mode (Phase 1)
+  deleted_at: string | null; // ISO8601 when moved to trash (v2)
+  protocol: string | null; // 'sca' | 'cva' for pro sessions (v6)
+  template_id: string; // Scoring template ID (v7)
+  blind_coding: string | null; // 'letters' | 'digits' for blind sessions (v9)
+  revealed_at: string | null; // ISO8601 when a blind session was revealed (v9)
+  sync_revision: number; // Server revision last pushed or pulled, 0 if never synced (v12)
+  local_changes: number; // Local writes, counted by the sync triggers (v12)
 }
 
 /**
@@ -32,24 +39,205 @@ export interface CoffeeRow {
   brew_method: string | null;
   roast_level: string | null; // 'light' | 'medium-light' | 'medium' | 'medium-dark' | 'dark'
   roast_date: string | null; // ISO8601 date string
+  catalog_id: string | null; // References coffee_catalog (v3)
+  blind_code: string | null; // Code shown instead of the coffee in blind sessions (v9)
 }
 
 /**
- * Cup table row
+ * Coffee row joined with its library details (coffeeQueries.getCoffeesBySession)
+ */
+export interface CoffeeWithCatalogRow extends CoffeeRow {
+  process: string | null;
+  variety: string | null;
+  altitude: string | null;
+}
+
+/**
+ * Coffee library table row (v3)
+ */
+export interface CoffeeCatalogRow {
+  id: string;
+  name: string;
+  roaster: string | null;
+  origin: string | null;
+  process: string | null;
+  variety: string | null;
+  altitude: string | null;
+  roast_level: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Cup table row. The v1 score columns (acidity ... enjoyment) are unused
+ * since v7; scores live in cup_scores.
  */
 export interface CupRow {
   id: string;
   coffee_id: string;
   position: number; // 1-5 for table cupping, always 1 for single/multi
-  acidity: number | null; // 1-5
-  sweetness: number | null; // 1-5
-  body: number | null; // 1-5
-  clarity: number | null; // 1-5
-  finish: number | null; // 1-5
-  enjoyment: number | null; // 1-5
   notes: string | null;
 }
 
+/**
+ * Cup score table row (v7), one per scored template attribute of a cup
+ */
+export interface CupScoreRow {
+  cup_id: string;
+  attribute: string; // Template attribute key
+  value: number; // On the session template's scale
+}
+
+/**
+ * Cup defect table row (v8), one per defect type recorded on a cup
+ */
+export interface CupDefectRow {
+  cup_id: string;
+  defect_id: string; // Defect catalog ID
+  severity: string; // 'taint' | 'fault'
+  cup_count: number; // 1-5
+  bean_count: number | null;
+  notes: string | null;
+}
+
+/**
+ * SCA cupping form table row (v5), one per coffee in a pro session
+ */
+export interface SCAScoreRow {
+  coffee_id: string;
+  fragrance_aroma: number; // 6-10, quarter points
+  dry_intensity: number; // 0-5
+  break_intensity: number; // 0-5
+  flavor: number;
+  aftertaste: number;
+  acidity: number;
+  acidity_intensity: number; // 1-5
+  body: number;
+  body_level: number; // 1-5
+  balance: number;
+  overall: number;
+  uniform_cups: number; // Bitmask, bit 0 = cup 1
+  clean_cups: number; // Bitmask, bit 0 = cup 1
+  sweet_cups: number; // Bitmask, bit 0 = cup 1
+  taint_cups: number; // 0-5
+  fault_cups: number; // 0-5
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * CVA descriptive form table row (v6), one per cup
+ */
+export interface CVADescriptiveRow {
+  cup_id: string;
+  fragrance: number; // 0-15
+  aroma: number;
+  flavor: number;
+  aftertaste: number;
+  acidity: number;
+  sweetness: number;
+  mouthfeel: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * CVA check-all-that-apply descriptor table row (v6)
+ */
+export interface CVADescriptorRow {
+  cup_id: string;
+  section: string; // 'aroma' | 'flavor'
+  flavor_id: number; // References flavor in flavor-descriptors.json
+}
+
+/**
+ * CVA affective form table row (v6), one per cup
+ */
+export interface CVAAffectiveRow {
+  cup_id: string;
+  fragrance: number; // 1-9
+  aroma: number;
+  flavor: number;
+  aftertaste: number;
+  acidity: number;
+  sweetness: number;
+  mouthfeel: number;
+  overall: number;
+  non_uniform: number; // 0 or 1 (SQLite boolean)
+  defective: number; // 0 or 1 (SQLite boolean)
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Triangle test set table row (v10), one per set of three cups
+ */
+export interface TriangleSetRow {
+  id: string;
+  session_id: string;
+  set_number: number; // 1-based
+  odd_coffee_id: string; // References coffees
+  odd_position: number; // 1-3
+  chosen_position: number | null; // 1-3, null until answered
+  notes: string | null;
+  created_at: string;
+  answered_at: string | null;
+}
+
+/**
+ * Triangle test descriptor table row (v10)
+ */
+export interface TriangleDescriptorRow {
+  set_id: string;
+  flavor_id: number; // References flavor in flavor-descriptors.json
+}
+
+/**
+ * Taster profile table row (v11)
+ */
+export interface TasterRow {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Group session participant table row (v11), joined with the taster's name
+ * by tasterQueries.getSessionTastersBySessions
+ */
+export interface SessionTasterRow {
+  session_id: string;
+  taster_id: string;
+  name: string;
+  position: number; // 1-based hand-around order
+  submitted_at: string | null;
+}
+
+/**
+ * Per-taster cup score table row (v11), one per scored template attribute
+ */
+export interface TasterCupScoreRow {
+  cup_id: string;
+  taster_id: string;
+  attribute: string; // Template attribute key
+  value: number;
+}
+
+/**
+ * Per-taster selected flavor table row (v11)
+ */
+export interface TasterCupFlavorRow {
+  cup_id: string;
+  taster_id: string;
+  flavor_id: number;
+  intensity: number; // 1-5
+  dominant: number; // 0 or 1 (SQLite boolean)
+}
+
 /**
  * Selected flavor table row
  */
@@ -61,6 +249,51 @@ export interface SelectedFlavorRow {
   dominant: number; // 0 or 1 (SQLite boolean)
 }
 
+/**
+ * Locally removed session whose delete is not yet pushed (v12)
+ */
+export interface SyncTombstoneRow {
+  session_id: string;
+  revision: number; // Server revision the session was removed at
+  deleted_at: string; // ISO8601
+}
+
+/**
+ * Server copy of a session in sync conflict (v12)
+ */
+export interface SyncConflictRow {
+  session_id: string;
+  remote_revision: number;
+  remote_deleted: number; // 0 or 1 (SQLite boolean)
+  remote_version: string | null; // Export format version of remote_session
+  remote_session: string | null; // JSON stringified session, null when deleted
+  detected_at: string; // ISO8601
+}
+
+/**
+ * Session as last synced, the base of a three-way merge (v14)
+ */
+export interface SyncBaseRow {
+  session_id: string;
+  revision: number; // Server revision of session
+  version: string; // Export format version of session
+  session: string; // JSON stringified session in the export format
+  stored_at: string; // ISO8601
+}
+
+/**
+ * Change log table row (v13)
+ */
+export interface ChangeLogRow {
+  seq: number;
+  session_id: string;
+  entity: string; // 'session' | 'coffee' | 'cup' | 'triangle-set'
+  entity_id: string;
+  operation: string; // 'insert' | 'update' | 'delete'
+  fields: string; // JSON stringified array of field names
+  created_at: string; // ISO8601
+}
+
 /**
  * Migration tracking table row
  */
@@ -0,0 +1,1114 @@
+/**
+ * Export Schema
+ *
+ * Defines the versioned JSON export format used for backup and transfer.
+ * Each version has a JSON Schema document describing its shape, and an
+ * upgrade chain converts any older export into the current version.
+ *
+ * When a database migration adds a column that surfaces on Session (or its
+ * coffees/cups), bump CURRENT_EXPORT_VERSION, add a schema document for the
+ * new version, and add an upgrade that fills the new fields with the same
+ * defaults the migration uses.
+ */
+
+import type { Session } from '../types/session.types';
+import { getLatestVersion } from './database/migrations';
+import { AppError } from '../utils/errorHandling';
+import { DEFAULT_TEMPLATE_ID } from '../utils/scoringTemplates';
+
+/**
+ * Current export format version
+ */
+export const CURRENT_EXPORT_VERSION = '1.10.0';
+
+/**
+ * Export file payload (current version)
+ */
+export interface ExportPayload {
+  version: string;
+  exportDate: string; // ISO8601
+  schemaVersion: number; // Database migration version the export was taken at
+  totalSessions: number;
+  sessions: Session[];
+}
+
+/**
+ * JSON Schema document (draft-07)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Upgrade step between two consecutive export versions
+ */
+export interface ExportUpgrade {
+  from: string;
+  to: string;
+  upgrade: (payload: Record<string, unknown>) => Record<string, unknown>;
+}
+
+const ISO_DATE = { type: 'string', format: 'date-time' };
+const SCORE = { type: 'integer', minimum: 1, maximum: 5 };
+const OPTIONAL_TEXT = { type: 'string' };
+const SCA_SCORE = { type: 'number', minimum: 6, maximum: 10, multipleOf: 0.25 };
+const SCA_CUP_CHECKS = { type: 'array', items: { type: 'boolean' }, minItems: 5, maxItems: 5 };
+const SCA_DEFECT_CUPS = { type: 'integer', minimum: 0, maximum: 5 };
+const CVA_INTENSITY = { type: 'integer', minimum: 0, maximum: 15 };
+const CVA_HEDONIC = { type: 'integer', minimum: 1, maximum: 9 };
+const CVA_DESCRIPTORS = { type: 'array', items: { type: 'integer', minimum: 1 }, maxItems: 5 };
+
+const selectedFlavorSchema = {
+  type: 'object',
+  required: ['flavorId', 'intensity'],
+  properties: {
+    flavorId: { type: 'integer', minimum: 1 },
+    intensity: SCORE,
+    dominant: { type: 'boolean' },
+  },
+};
+
+const ratingsSchema = {
+  type: 'object',
+  required: ['acidity', 'sweetness', 'body', 'clarity', 'finish'],
+  properties: {
+    acidity: SCORE,
+    sweetness: SCORE,
+    body: SCORE,
+    clarity: SCORE,
+    finish: SCORE,
+    enjoyment: SCORE,
+  },
+};
+
+const coffeeProperties = {
+  coffeeId: { type: 'string', minLength: 1 },
+  name: { type: 'string', minLength: 1 },
+  roaster: OPTIONAL_TEXT,
+  origin: OPTIONAL_TEXT,
+  brewMethod: OPTIONAL_TEXT,
+  roastLevel: { enum: ['light', 'medium-light', 'medium', 'medium-dark', 'dark'] },
+  roastDate: { type: 'string' },
+};
+
+const sessionProperties = {
+  id: { type: 'string', minLength: 1 },
+  createdAt: ISO_DATE,
+  updatedAt: ISO_DATE,
+  mode: { enum: ['taste', 'pro'] },
+  sessionType: { enum: ['single-coffee', 'multi-coffee', 'table-cupping'] },
+  notes: OPTIONAL_TEXT,
+  tags: { type: 'array', items: { type: 'string' } },
+  syncStatus: { enum: ['local-only', 'synced', 'pending', 'conflict'] },
+  userId: { type: ['string', 'null'] },
+};
+
+/**
+ * Version 1.0.0 - original export written by DataManagementScreen.
+ * Optional session and cup fields may be missing.
+ */
+const EXPORT_SCHEMA_1_0_0: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'cupper-export-1.0.0',
+  title: 'Cupper session export 1.0.0',
+  type: 'object',
+  required: ['version', 'exportDate', 'totalSessions', 'sessions'],
+  properties: {
+    version: { const: '1.0.0' },
+    exportDate: ISO_DATE,
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'createdAt', 'updatedAt', 'mode', 'sessionType', 'coffees'],
+        properties: {
+          ...sessionProperties,
+          coffees: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['coffeeId', 'name', 'cups'],
+              properties: {
+                ...coffeeProperties,
+                cups: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['cupId', 'position', 'ratings', 'flavors'],
+                    properties: {
+                      cupId: { type: 'string', minLength: 1 },
+                      position: { type: 'integer', minimum: 1 },
+                      ratings: ratingsSchema,
+                      flavors: { type: 'array', items: selectedFlavorSchema },
+                      notes: OPTIONAL_TEXT,
+                      createdAt: ISO_DATE,
+                      updatedAt: ISO_DATE,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Cup item for 1.1.0 and later: cups always carry timestamps
+ */
+const CUP_1_1_0 = {
+  type: 'object',
+  required: ['cupId', 'position', 'ratings', 'flavors', 'createdAt', 'updatedAt'],
+  properties: {
+    cupId: { type: 'string', minLength: 1 },
+    position: { type: 'integer', minimum: 1 },
+    ratings: ratingsSchema,
+    flavors: { type: 'array', items: selectedFlavorSchema },
+    notes: OPTIONAL_TEXT,
+    createdAt: ISO_DATE,
+    updatedAt: ISO_DATE,
+  },
+};
+
+/**
+ * Coffee item for 1.1.0 and later
+ */
+const COFFEE_1_1_0 = {
+  type: 'object',
+  required: ['coffeeId', 'name', 'cups'],
+  properties: {
+    ...coffeeProperties,
+    cups: { type: 'array', items: CUP_1_1_0 },
+  },
+};
+
+/**
+ * Session item for 1.1.0 and later: optional session fields are always written
+ */
+const SESSION_1_1_0 = {
+  type: 'object',
+  required: [
+    'id',
+    'createdAt',
+    'updatedAt',
+    'mode',
+    'sessionType',
+    'coffees',
+    'tags',
+    'syncStatus',
+    'userId',
+  ],
+  properties: {
+    ...sessionProperties,
+    coffees: { type: 'array', items: COFFEE_1_1_0 },
+  },
+};
+
+/**
+ * Session item for 1.2.0 and later: deletedAt is always written
+ */
+const SESSION_1_2_0 = {
+  ...SESSION_1_1_0,
+  required: [...SESSION_1_1_0.required, 'deletedAt'],
+  properties: {
+    ...SESSION_1_1_0.properties,
+    deletedAt: { oneOf: [ISO_DATE, { type: 'null' }] },
+  },
+};
+
+/**
+ * Version 1.1.0 - records the database schema version of the export and
+ * always writes tags, sync status, user ID and cup timestamps.
+ */
+const EXPORT_SCHEMA_1_1_0: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'cupper-export-1.1.0',
+  title: 'Cupper session export 1.1.0',
+  type: 'object',
+  required: ['version', 'exportDate', 'schemaVersion', 'totalSessions', 'sessions'],
+  properties: {
+    version: { const: '1.1.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 1 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: { type: 'array', items: SESSION_1_1_0 },
+  },
+};
+
+/**
+ * Version 1.2.0 - adds deletedAt (migration v2, soft delete).
+ */
+const EXPORT_SCHEMA_1_2_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_1_0,
+  $id: 'cupper-export-1.2.0',
+  title: 'Cupper session export 1.2.0',
+  properties: {
+    version: { const: '1.2.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 2 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: { type: 'array', items: SESSION_1_2_0 },
+  },
+};
+
+/**
+ * Coffee item for 1.3.0 and later: catalogId is always written
+ */
+const COFFEE_1_3_0 = {
+  ...COFFEE_1_1_0,
+  required: [...COFFEE_1_1_0.required, 'catalogId'],
+  properties: {
+    ...COFFEE_1_1_0.properties,
+    catalogId: { type: ['string', 'null'] },
+    process: OPTIONAL_TEXT,
+    variety: OPTIONAL_TEXT,
+    altitude: OPTIONAL_TEXT,
+  },
+};
+
+/**
+ * Session item for 1.3.0 and later
+ */
+const SESSION_1_3_0 = {
+  ...SESSION_1_2_0,
+  properties: {
+    ...SESSION_1_2_0.properties,
+    coffees: { type: 'array', items: COFFEE_1_3_0 },
+  },
+};
+
+/**
+ * Version 1.3.0 - adds the coffee library (migration v3): every coffee
+ * carries catalogId, plus optional process, variety and altitude.
+ */
+const EXPORT_SCHEMA_1_3_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_2_0,
+  $id: 'cupper-export-1.3.0',
+  title: 'Cupper session export 1.3.0',
+  properties: {
+    version: { const: '1.3.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 3 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: { type: 'array', items: SESSION_1_3_0 },
+  },
+};
+
+/**
+ * SCA cupping form of a coffee in a pro session (migration v5)
+ */
+const scaFormSchema = {
+  type: 'object',
+  required: [
+    'fragranceAroma',
+    'dryIntensity',
+    'breakIntensity',
+    'flavor',
+    'aftertaste',
+    'acidity',
+    'acidityIntensity',
+    'body',
+    'bodyLevel',
+    'balance',
+    'overall',
+    'uniformity',
+    'cleanCup',
+    'sweetness',
+    'taintCups',
+    'faultCups',
+  ],
+  properties: {
+    fragranceAroma: SCA_SCORE,
+    dryIntensity: { type: 'integer', minimum: 0, maximum: 5 },
+    breakIntensity: { type: 'integer', minimum: 0, maximum: 5 },
+    flavor: SCA_SCORE,
+    aftertaste: SCA_SCORE,
+    acidity: SCA_SCORE,
+    acidityIntensity: SCORE,
+    body: SCA_SCORE,
+    bodyLevel: SCORE,
+    balance: SCA_SCORE,
+    overall: SCA_SCORE,
+    uniformity: SCA_CUP_CHECKS,
+    cleanCup: SCA_CUP_CHECKS,
+    sweetness: SCA_CUP_CHECKS,
+    taintCups: SCA_DEFECT_CUPS,
+    faultCups: SCA_DEFECT_CUPS,
+    notes: OPTIONAL_TEXT,
+  },
+};
+
+/**
+ * Coffee item for 1.4.0 and later: scaForm is always written
+ */
+const COFFEE_1_4_0 = {
+  ...COFFEE_1_3_0,
+  required: [...COFFEE_1_3_0.required, 'scaForm'],
+  properties: {
+    ...COFFEE_1_3_0.properties,
+    scaForm: { oneOf: [scaFormSchema, { type: 'null' }] },
+  },
+};
+
+/**
+ * Version 1.4.0 - adds the SCA cupping form (migration v5): every coffee
+ * carries scaForm, null unless it was scored in a pro session.
+ */
+const EXPORT_SCHEMA_1_4_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_3_0,
+  $id: 'cupper-export-1.4.0',
+  title: 'Cupper session export 1.4.0',
+  properties: {
+    version: { const: '1.4.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 5 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: {
+      type: 'array',
+      items: {
+        ...SESSION_1_3_0,
+        properties: {
+          ...SESSION_1_3_0.properties,
+          coffees: { type: 'array', items: COFFEE_1_4_0 },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * CVA descriptive and affective forms of a cup (migration v6)
+ */
+const cvaDescriptiveSchema = {
+  type: 'object',
+  required: [
+    'fragrance',
+    'aroma',
+    'flavor',
+    'aftertaste',
+    'acidity',
+    'sweetness',
+    'mouthfeel',
+    'aromaDescriptors',
+    'flavorDescriptors',
+  ],
+  properties: {
+    fragrance: CVA_INTENSITY,
+    aroma: CVA_INTENSITY,
+    flavor: CVA_INTENSITY,
+    aftertaste: CVA_INTENSITY,
+    acidity: CVA_INTENSITY,
+    sweetness: CVA_INTENSITY,
+    mouthfeel: CVA_INTENSITY,
+    aromaDescriptors: CVA_DESCRIPTORS,
+    flavorDescriptors: CVA_DESCRIPTORS,
+    notes: OPTIONAL_TEXT,
+  },
+};
+
+const cvaAffectiveSchema = {
+  type: 'object',
+  required: [
+    'fragrance',
+    'aroma',
+    'flavor',
+    'aftertaste',
+    'acidity',
+    'sweetness',
+    'mouthfeel',
+    'overall',
+    'nonUniform',
+    'defective',
+  ],
+  properties: {
+    fragrance: CVA_HEDONIC,
+    aroma: CVA_HEDONIC,
+    flavor: CVA_HEDONIC,
+    aftertaste: CVA_HEDONIC,
+    acidity: CVA_HEDONIC,
+    sweetness: CVA_HEDONIC,
+    mouthfeel: CVA_HEDONIC,
+    overall: CVA_HEDONIC,
+    nonUniform: { type: 'boolean' },
+    defective: { type: 'boolean' },
+    notes: OPTIONAL_TEXT,
+  },
+};
+
+/**
+ * Version 1.5.0 - adds CVA forms (migration v6): every session carries
+ * protocol (null for taste sessions) and every cup carries cvaDescriptive
+ * and cvaAffective, null unless scored in a CVA session.
+ */
+const EXPORT_SCHEMA_1_5_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_4_0,
+  $id: 'cupper-export-1.5.0',
+  title: 'Cupper session export 1.5.0',
+  properties: {
+    version: { const: '1.5.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 6 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: {
+      type: 'array',
+      items: {
+        ...SESSION_1_3_0,
+        required: [...SESSION_1_3_0.required, 'protocol'],
+        properties: {
+          ...SESSION_1_3_0.properties,
+          protocol: { enum: ['sca', 'cva', null] },
+          coffees: {
+            type: 'array',
+            items: {
+              ...COFFEE_1_4_0,
+              properties: {
+                ...COFFEE_1_4_0.properties,
+                cups: {
+                  type: 'array',
+                  items: {
+                    ...CUP_1_1_0,
+                    required: [...CUP_1_1_0.required, 'cvaDescriptive', 'cvaAffective'],
+                    properties: {
+                      ...CUP_1_1_0.properties,
+                      cvaDescriptive: { oneOf: [cvaDescriptiveSchema, { type: 'null' }] },
+                      cvaAffective: { oneOf: [cvaAffectiveSchema, { type: 'null' }] },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Version 1.6.0 - adds scoring templates (migration v7): every session
+ * carries templateId, and cup ratings are keyed by that template's
+ * attribute keys. Scores are checked against the template on import.
+ */
+const EXPORT_SCHEMA_1_6_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_5_0,
+  $id: 'cupper-export-1.6.0',
+  title: 'Cupper session export 1.6.0',
+  properties: {
+    version: { const: '1.6.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 7 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: {
+      type: 'array',
+      items: {
+        ...SESSION_1_3_0,
+        required: [...SESSION_1_3_0.required, 'protocol', 'templateId'],
+        properties: {
+          ...SESSION_1_3_0.properties,
+          protocol: { enum: ['sca', 'cva', null] },
+          templateId: { type: 'string', minLength: 1 },
+          coffees: {
+            type: 'array',
+            items: {
+              ...COFFEE_1_4_0,
+              properties: {
+                ...COFFEE_1_4_0.properties,
+                cups: {
+                  type: 'array',
+                  items: {
+                    ...CUP_1_1_0,
+                    required: [...CUP_1_1_0.required, 'cvaDescriptive', 'cvaAffective'],
+                    properties: {
+                      ...CUP_1_1_0.properties,
+                      ratings: { type: 'object', additionalProperties: { type: 'number' } },
+                      cvaDescriptive: { oneOf: [cvaDescriptiveSchema, { type: 'null' }] },
+                      cvaAffective: { oneOf: [cvaAffectiveSchema, { type: 'null' }] },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Defect recorded on a cup (1.7.0 and later)
+ */
+const cupDefectSchema = {
+  type: 'object',
+  required: ['defectId', 'severity', 'cupCount'],
+  properties: {
+    defectId: { type: 'string', minLength: 1 },
+    severity: { enum: ['taint', 'fault'] },
+    cupCount: { type: 'integer', minimum: 1, maximum: 5 },
+    beanCount: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'null' }] },
+    notes: OPTIONAL_TEXT,
+  },
+};
+
+const TEMPLATE_RATINGS = { type: 'object', additionalProperties: { type: 'number' } };
+
+/**
+ * Cup item for 1.7.0 and later: CVA forms, template ratings and defects
+ */
+const CUP_1_7_0 = {
+  ...CUP_1_1_0,
+  required: [...CUP_1_1_0.required, 'cvaDescriptive', 'cvaAffective', 'defects'],
+  properties: {
+    ...CUP_1_1_0.properties,
+    ratings: TEMPLATE_RATINGS,
+    cvaDescriptive: { oneOf: [cvaDescriptiveSchema, { type: 'null' }] },
+    cvaAffective: { oneOf: [cvaAffectiveSchema, { type: 'null' }] },
+    defects: { type: 'array', items: cupDefectSchema },
+  },
+};
+
+/**
+ * Coffee item for 1.7.0 and later
+ */
+const COFFEE_1_7_0 = {
+  ...COFFEE_1_4_0,
+  properties: {
+    ...COFFEE_1_4_0.properties,
+    cups: { type: 'array', items: CUP_1_7_0 },
+  },
+};
+
+/**
+ * Session item for 1.7.0 and later
+ */
+const SESSION_1_7_0 = {
+  ...SESSION_1_3_0,
+  required: [...SESSION_1_3_0.required, 'protocol', 'templateId'],
+  properties: {
+    ...SESSION_1_3_0.properties,
+    protocol: { enum: ['sca', 'cva', null] },
+    templateId: { type: 'string', minLength: 1 },
+    coffees: { type: 'array', items: COFFEE_1_7_0 },
+  },
+};
+
+/**
+ * Version 1.7.0 - adds cup defects (migration v8): every cup carries a
+ * defects list, empty when none were recorded.
+ */
+const EXPORT_SCHEMA_1_7_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_6_0,
+  $id: 'cupper-export-1.7.0',
+  title: 'Cupper session export 1.7.0',
+  properties: {
+    version: { const: '1.7.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 8 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: { type: 'array', items: SESSION_1_7_0 },
+  },
+};
+
+/**
+ * Coffee item for 1.8.0 and later
+ */
+const COFFEE_1_8_0 = {
+  ...COFFEE_1_7_0,
+  required: [...COFFEE_1_7_0.required, 'blindCode'],
+  properties: {
+    ...COFFEE_1_7_0.properties,
+    blindCode: { oneOf: [{ type: 'string', minLength: 1 }, { type: 'null' }] },
+  },
+};
+
+/**
+ * Session item for 1.8.0 and later
+ */
+const SESSION_1_8_0 = {
+  ...SESSION_1_7_0,
+  required: [...SESSION_1_7_0.required, 'blindCoding', 'revealedAt'],
+  properties: {
+    ...SESSION_1_7_0.properties,
+    blindCoding: { enum: ['letters', 'digits', null] },
+    revealedAt: { oneOf: [ISO_DATE, { type: 'null' }] },
+    coffees: { type: 'array', items: COFFEE_1_8_0 },
+  },
+};
+
+/**
+ * Version 1.8.0 - adds blind cupping (migration v9): every session carries
+ * blindCoding and revealedAt, and every coffee its blindCode, all null for
+ * sighted sessions.
+ */
+const EXPORT_SCHEMA_1_8_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_7_0,
+  $id: 'cupper-export-1.8.0',
+  title: 'Cupper session export 1.8.0',
+  properties: {
+    version: { const: '1.8.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 9 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: { type: 'array', items: SESSION_1_8_0 },
+  },
+};
+
+const TRIANGLE_POSITION = { type: 'integer', minimum: 1, maximum: 3 };
+
+/**
+ * Triangle test set (1.9.0 and later)
+ */
+const triangleSetSchema = {
+  type: 'object',
+  required: [
+    'setId',
+    'setNumber',
+    'oddCoffeeId',
+    'oddPosition',
+    'chosenPosition',
+    'descriptors',
+    'createdAt',
+    'answeredAt',
+  ],
+  properties: {
+    setId: { type: 'string', minLength: 1 },
+    setNumber: { type: 'integer', minimum: 1 },
+    oddCoffeeId: { type: 'string', minLength: 1 },
+    oddPosition: TRIANGLE_POSITION,
+    chosenPosition: { oneOf: [TRIANGLE_POSITION, { type: 'null' }] },
+    descriptors: { type: 'array', items: { type: 'integer', minimum: 1 } },
+    notes: OPTIONAL_TEXT,
+    createdAt: ISO_DATE,
+    answeredAt: { oneOf: [ISO_DATE, { type: 'null' }] },
+  },
+};
+
+/**
+ * Session item for 1.9.0 and later
+ */
+const SESSION_1_9_0 = {
+  ...SESSION_1_8_0,
+  required: [...SESSION_1_8_0.required, 'triangleSets'],
+  properties: {
+    ...SESSION_1_8_0.properties,
+    sessionType: {
+      enum: ['single-coffee', 'multi-coffee', 'table-cupping', 'triangulation'],
+    },
+    triangleSets: { type: 'array', items: triangleSetSchema },
+  },
+};
+
+/**
+ * Version 1.9.0 - adds triangle tests (migration v10): the triangulation
+ * session type, and every session carries its triangleSets, empty for
+ * other types.
+ */
+const EXPORT_SCHEMA_1_9_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_8_0,
+  $id: 'cupper-export-1.9.0',
+  title: 'Cupper session export 1.9.0',
+  properties: {
+    version: { const: '1.9.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 10 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: { type: 'array', items: SESSION_1_9_0 },
+  },
+};
+
+/**
+ * Group session participant (1.10.0 and later)
+ */
+const sessionTasterSchema = {
+  type: 'object',
+  required: ['tasterId', 'name', 'position', 'submittedAt'],
+  properties: {
+    tasterId: { type: 'string', minLength: 1 },
+    name: { type: 'string', minLength: 1 },
+    position: { type: 'integer', minimum: 1 },
+    submittedAt: { oneOf: [ISO_DATE, { type: 'null' }] },
+  },
+};
+
+/**
+ * One taster's scores and flavors of a cup (1.10.0 and later)
+ */
+const tasterScoreSetSchema = {
+  type: 'object',
+  required: ['tasterId', 'ratings', 'flavors'],
+  properties: {
+    tasterId: { type: 'string', minLength: 1 },
+    ratings: TEMPLATE_RATINGS,
+    flavors: { type: 'array', items: selectedFlavorSchema },
+  },
+};
+
+/**
+ * Version 1.10.0 - adds group cupping (migration v11): every session carries
+ * its tasters and every cup its tasterScores, both empty for sessions
+ * cupped by one taster.
+ */
+const EXPORT_SCHEMA_1_10_0: JsonSchema = {
+  ...EXPORT_SCHEMA_1_9_0,
+  $id: 'cupper-export-1.10.0',
+  title: 'Cupper session export 1.10.0',
+  properties: {
+    version: { const: '1.10.0' },
+    exportDate: ISO_DATE,
+    schemaVersion: { type: 'integer', minimum: 11 },
+    totalSessions: { type: 'integer', minimum: 0 },
+    sessions: {
+      type: 'array',
+      items: {
+        ...SESSION_1_9_0,
+        required: [...SESSION_1_9_0.required, 'tasters'],
+        properties: {
+          ...SESSION_1_9_0.properties,
+          tasters: { type: 'array', items: sessionTasterSchema },
+          coffees: {
+            type: 'array',
+            items: {
+              ...COFFEE_1_8_0,
+              properties: {
+                ...COFFEE_1_8_0.properties,
+                cups: {
+                  type: 'array',
+                  items: {
+                    ...CUP_1_7_0,
+                    required: [...CUP_1_7_0.required, 'tasterScores'],
+                    properties: {
+                      ...CUP_1_7_0.properties,
+                      tasterScores: { type: 'array', items: tasterScoreSetSchema },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * JSON Schema document for every export version, keyed by version
+ */
+export const EXPORT_SCHEMAS: Record<string, JsonSchema> = {
+  '1.0.0': EXPORT_SCHEMA_1_0_0,
+  '1.1.0': EXPORT_SCHEMA_1_1_0,
+  '1.2.0': EXPORT_SCHEMA_1_2_0,
+  '1.3.0': EXPORT_SCHEMA_1_3_0,
+  '1.4.0': EXPORT_SCHEMA_1_4_0,
+  '1.5.0': EXPORT_SCHEMA_1_5_0,
+  '1.6.0': EXPORT_SCHEMA_1_6_0,
+  '1.7.0': EXPORT_SCHEMA_1_7_0,
+  '1.8.0': EXPORT_SCHEMA_1_8_0,
+  '1.9.0': EXPORT_SCHEMA_1_9_0,
+  '1.10.0': EXPORT_SCHEMA_1_10_0,
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+/**
+ * Map over an array of records, passing anything else through untouched
+ * so that validation can still report it.
+ */
+function mapRecords(value: unknown, fn: (record: UnknownRecord) => UnknownRecord): unknown {
+  if (!Array.isArray(value)) return value;
+  return value.map(item =>
+    typeof item === 'object' && item !== null && !Array.isArray(item) ? fn(item) : item
+  );
+}
+
+/**
+ * Upgrade steps in order. Each step converts exactly one version to the next.
+ */
+export const EXPORT_UPGRADES: ExportUpgrade[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.1.0',
+      // Every 1.0.0 export was written against migration v1
+      schemaVersion: 1,
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        tags: session.tags ?? [],
+        syncStatus: session.syncStatus ?? 'local-only',
+        userId: session.userId ?? null,
+        coffees: mapRecords(session.coffees, coffee => ({
+          ...coffee,
+          cups: mapRecords(coffee.cups, cup => ({
+            ...cup,
+            createdAt: cup.createdAt ?? session.createdAt,
+            updatedAt: cup.updatedAt ?? session.updatedAt,
+          })),
+        })),
+      })),
+    }),
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.2.0',
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        deletedAt: session.deletedAt ?? null,
+      })),
+    }),
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.3.0',
+      // Unlinked coffees are matched to the library by name + roaster on import
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        coffees: mapRecords(session.coffees, coffee => ({
+          ...coffee,
+          catalogId: coffee.catalogId ?? null,
+        })),
+      })),
+    }),
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.4.0',
+      // Older exports predate the SCA form, so no coffee has one
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        coffees: mapRecords(session.coffees, coffee => ({
+          ...coffee,
+          scaForm: coffee.scaForm ?? null,
+        })),
+      })),
+    }),
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.5.0',
+      // Same backfill as migration v6: pro sessions used the SCA form
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        protocol: session.protocol ?? (session.mode === 'pro' ? 'sca' : null),
+        coffees: mapRecords(session.coffees, coffee => ({
+          ...coffee,
+          cups: mapRecords(coffee.cups, cup => ({
+            ...cup,
+            cvaDescriptive: cup.cvaDescriptive ?? null,
+            cvaAffective: cup.cvaAffective ?? null,
+          })),
+        })),
+      })),
+    }),
+  },
+  {
+    from: '1.5.0',
+    to: '1.6.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.6.0',
+      // Same backfill as migration v7: ratings were always Cupper Classic
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        templateId: session.templateId ?? 'cupper-classic',
+      })),
+    }),
+  },
+  {
+    from: '1.6.0',
+    to: '1.7.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.7.0',
+      // Older exports predate cup defects, so no cup has any
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        coffees: mapRecords(session.coffees, coffee => ({
+          ...coffee,
+          cups: mapRecords(coffee.cups, cup => ({
+            ...cup,
+            defects: cup.defects ?? [],
+          })),
+        })),
+      })),
+    }),
+  },
+  {
+    from: '1.7.0',
+    to: '1.8.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.8.0',
+      // Same default as migration v9: older sessions were all sighted
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        blindCoding: session.blindCoding ?? null,
+        revealedAt: session.revealedAt ?? null,
+        coffees: mapRecords(session.coffees, coffee => ({
+          ...coffee,
+          blindCode: coffee.blindCode ?? null,
+        })),
+      })),
+    }),
+  },
+  {
+    from: '1.8.0',
+    to: '1.9.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.9.0',
+      // Older exports predate triangle tests, so no session has any sets
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        triangleSets: session.triangleSets ?? [],
+      })),
+    }),
+  },
+  {
+    from: '1.9.0',
+    to: '1.10.0',
+    upgrade: payload => ({
+      ...payload,
+      version: '1.10.0',
+      // Older exports predate group cupping, so every session had one taster
+      sessions: mapRecords(payload.sessions, session => ({
+        ...session,
+        tasters: session.tasters ?? [],
+        coffees: mapRecords(session.coffees, coffee => ({
+          ...coffee,
+          cups: mapRecords(coffee.cups, cup => ({
+            ...cup,
+            tasterScores: cup.tasterScores ?? [],
+          })),
+        })),
+      })),
+    }),
+  },
+];
+
+/**
+ * Get the JSON Schema document for an export version.
+ *
+ * @param version - Export version (defaults to current)
+ * @returns Schema document or null if the version is unknown
+ */
+export function getExportSchema(version: string = CURRENT_EXPORT_VERSION): JsonSchema | null {
+  return EXPORT_SCHEMAS[version] || null;
+}
+
+/**
+ * Fill the fields the current schema always writes, so they are not
+ * dropped by JSON.stringify when unset. Also the session format of sync.
+ */
+export function toExportSession(session: Session): Session {
+  return {
+    ...session,
+    tags: session.tags ?? [],
+    syncStatus: session.syncStatus ?? 'local-only',
+    userId: session.userId ?? null,
+    deletedAt: session.deletedAt ?? null,
+    protocol: session.protocol ?? null,
+    templateId: session.templateId ?? DEFAULT_TEMPLATE_ID,
+    blindCoding: session.blindCoding ?? null,
+    revealedAt: session.revealedAt ?? null,
+    triangleSets: (session.triangleSets ?? []).map(set => ({
+      ...set,
+      chosenPosition: set.chosenPosition ?? null,
+      answeredAt: set.answeredAt ?? null,
+    })),
+    tasters: (session.tasters ?? []).map(taster => ({
+      ...taster,
+      submittedAt: taster.submittedAt ?? null,
+    })),
+    coffees: session.coffees.map(coffee => ({
+      ...coffee,
+      catalogId: coffee.catalogId ?? null,
+      scaForm: coffee.scaForm ?? null,
+      blindCode: coffee.blindCode ?? null,
+      cups: coffee.cups.map(cup => ({
+        ...cup,
+        cvaDescriptive: cup.cvaDescriptive ?? null,
+        cvaAffective: cup.cvaAffective ?? null,
+        defects: cup.defects ?? [],
+        tasterScores: cup.tasterScores ?? [],
+      })),
+    })),
+  };
+}
+
+/**
+ * Build an export payload in the current format.
+ *
+ * @param sessions - Sessions to export
+ * @returns Export payload ready for JSON.stringify
+ */
+export function createExportPayload(sessions: Session[]): ExportPayload {
+  return {
+    version: CURRENT_EXPORT_VERSION,
+    exportDate: new Date().toISOString(),
+    schemaVersion: getLatestVersion(),
+    totalSessions: sessions.length,
+    sessions: sessions.map(toExportSession),
+  };
+}
+
+/**
+ * Upgrade a parsed export of any known version to the current version.
+ * Runs each upgrade step in order; the result still needs validation.
+ *
+ * @param data - Parsed export file
+ * @returns Payload in the current export format
+ * @throws AppError if the version is missing, unknown, or newer than this app
+ */
+export function upgradeExport(data: unknown): UnknownRecord {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new AppError(
+      'Export is not an object',
+      'INVALID_IMPORT_FILE',
+      'This file is not a valid Cupper export.'
+    );
+  }
+
+  let payload = data as UnknownRecord;
+  const originalVersion = payload.version;
+
+  if (typeof originalVersion !== 'string' || !EXPORT_SCHEMAS[originalVersion]) {
+    throw new AppError(
+      `Unsupported export version: ${String(originalVersion)}`,
+      'UNSUPPORTED_EXPORT_VERSION',
+      'This export was created by a newer or unknown version of Cupper.'
+    );
+  }
+
+  while (payload.version !== CURRENT_EXPORT_VERSION) {
+    const step = EXPORT_UPGRADES.find(u => u.from === payload.version);
+    if (!step) {
+      throw new AppError(
+        `No upgrade path from export version ${String(payload.version)}`,
+        'UNSUPPORTED_EXPORT_VERSION',
+        'This export cannot be upgraded to the current format.'
+      );
+    }
+    payload = step.upgrade(payload);
+  }
+
+  if (originalVersion !== CURRENT_EXPORT_VERSION) {
+    console.log(`[ExportSchema] Upgraded export ${originalVersion} → ${CURRENT_EXPORT_VERSION}`);
+  }
+
+  return payload;
+}
@@ -0,0 +1,1183 @@
+/**
+ * Import Service
+ *
+ * Reads session exports produced by DataManagementScreen back into SQLite.
+ * Older export versions are upgraded through exportSchema first.
+ * Validates every record against the session types and the schema's CHECK
+ * constraints, detects sessions that already exist, and writes the whole
+ * import in a single transaction.
+ */
+
+import { getDatabase } from './database/connection';
+import {
+  sessionQueries,
+  coffeeQueries,
+  cupQueries,
+  flavorQueries,
+  buildPlaceholders,
+  chunkParams,
+} from './database/queries';
+import type { SQLTransactionAsync } from 'expo-sqlite';
+import type {
+  Session,
+  SessionMode,
+  ScoringProtocol,
+  BlindCoding,
+  SessionType,
+  RoastLevel,
+  SyncStatus,
+  ValidationError,
+} from '../types/session.types';
+import { flavorService } from './flavorService';
+import { coffeeLibraryService } from './coffeeLibraryService';
+import { tasterService } from './tasterService';
+import { CURRENT_EXPORT_VERSION, upgradeExport } from './exportSchema';
+import { getLatestVersion } from './database/migrations';
+import { sessionService } from './sessionService';
+import { backupService } from './backupService';
+import { changeLogService } from './changeLogService';
+import type { ChangeInput } from '../types/changeLog.types';
+import { templateService } from './templateService';
+import type { ScoringTemplate } from '../types/template.types';
+import { generateUUID } from '../utils/uuid';
+import { AppError } from '../utils/errorHandling';
+import { validateCupDefects } from '../utils/defects';
+import type { CupDefect } from '../types/defect.types';
+import { TRIANGLE_POSITIONS } from '../utils/triangle';
+import {
+  SCA_CUPS,
+  SCA_CUP_CHECKS,
+  SCA_QUALITY_ATTRIBUTES,
+  CVA_DESCRIPTIVE_ATTRIBUTES,
+  CVA_AFFECTIVE_ATTRIBUTES,
+  CVA_INTENSITY_SCALE,
+  CVA_HEDONIC_SCALE,
+  CVA_MAX_DESCRIPTORS,
+} from '../utils/scoring';
+
+/**
+ * How to handle a session whose ID already exists locally
+ */
+export type ImportStrategy =
+  | 'skip' // Keep the local session, ignore the imported one
+  | 'overwrite' // Replace the local session with the imported one
+  | 'duplicate'; // Import as a new session with fresh IDs
+
+/**
+ * Outcome for a single session in the import file
+ */
+export type SessionImportStatus =
+  | 'imported' // New session written as-is
+  | 'overwritten' // Existing session replaced
+  | 'duplicated' // Written under a new ID
+  | 'skipped' // Existing session kept
+  | 'invalid' // Failed validation, not written
+  | 'failed'; // Valid, but the transaction failed
+
+/**
+ * Per-session import result
+ */
+export interface SessionImportResult {
+  sessionId: string; // ID from the import file
+  importedId?: string; // ID written to the database (differs when duplicated)
+  status: SessionImportStatus;
+  errors: ValidationError[];
+}
+
+/**
+ * Overall import result
+ */
+export interface ImportResult {
+  success: boolean;
+  totalSessions: number;
+  importedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  results: SessionImportResult[];
+  error?: string;
+}
+
+const SESSION_MODES: SessionMode[] = ['taste', 'pro'];
+const PROTOCOLS: ScoringProtocol[] = ['sca', 'cva'];
+const BLIND_CODINGS: BlindCoding[] = ['letters', 'digits'];
+const SESSION_TYPES: SessionType[] = [
+  'single-coffee',
+  'multi-coffee',
+  'table-cupping',
+  'triangulation',
+];
+const SYNC_STATUSES: SyncStatus[] = ['local-only', 'synced', 'pending', 'conflict'];
+const ROAST_LEVELS: RoastLevel[] = ['light', 'medium-light', 'medium', 'medium-dark', 'dark'];
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+/**
+ * Score columns are CHECK(BETWEEN 1 AND 5) integers
+ */
+function isScoreValue(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+/**
+ * Whole number within inclusive bounds
+ */
+function isIntegerBetween(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * SCA quality scores are 6.00-10.00 in quarter points
+ */
+function isSCAScore(value: unknown): boolean {
+  return typeof value === 'number' && value >= 6 && value <= 10 && Number.isInteger(value * 4);
+}
+
+/**
+ * Import Service - Restores sessions from JSON exports
+ */
+class ImportService {
+  /**
+   * Parse raw export file contents.
+   *
+   * @param json - File contents
+   * @returns Parsed (but not yet validated) payload
+   * @throws AppError if the contents are not JSON
+   */
+  parseExport(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      throw new AppError(
+        error instanceof Error ? error.message : 'Invalid JSON',
+        'INVALID_IMPORT_FILE',
+        'This file is not a valid Cupper export.'
+      );
+    }
+  }
+
+  /**
+   * Validate the export envelope (everything except the sessions themselves).
+   * Expects the current export version; run upgradeExport first.
+   *
+   * @param data - Parsed export file
+   * @returns Validation errors (empty if valid)
+   */
+  validatePayload(data: unknown): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!isRecord(data)) {
+      errors.push({ field: '', message: 'Export must be a JSON object' });
+      return errors;
+    }
+
+    if (data.version !== CURRENT_EXPORT_VERSION) {
+      errors.push({
+        field: 'version',
+        message: `Expected export version ${CURRENT_EXPORT_VERSION}, found ${String(data.version)}`,
+      });
+    }
+
+    if (
+      typeof data.schemaVersion !== 'number' ||
+      !Number.isInteger(data.schemaVersion) ||
+      data.schemaVersion < 1
+    ) {
+      errors.push({ field: 'schemaVersion', message: 'Invalid database schema version' });
+    } else if (data.schemaVersion > getLatestVersion()) {
+      errors.push({
+        field: 'schemaVersion',
+        message: `Export uses database schema v${data.schemaVersion}; this app supports up to v${getLatestVersion()}`,
+      });
+    }
+
+    if (!isDateString(data.exportDate)) {
+      errors.push({ field: 'exportDate', message: 'Invalid export date' });
+    }
+
+    if (!Array.isArray(data.sessions)) {
+      errors.push({ field: 'sessions', message: 'Sessions must be an array' });
+    } else if (
+      typeof data.totalSessions === 'number' &&
+      data.totalSessions !== data.sessions.length
+    ) {
+      errors.push({
+        field: 'totalSessions',
+        message: `Expected ${data.totalSessions} sessions, found ${data.sessions.length}`,
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a single session and everything it contains.
+   *
+   * @param session - Session candidate from the export file
+   * @param path - Field path prefix for error messages
+   * @returns Validation errors (empty if valid)
+   */
+  validateSession(session: unknown, path = 'session'): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(session)) {
+      errors.push({ field: path, message: 'Session must be an object' });
+      return errors;
+    }
+
+    if (!isNonEmptyString(session.id)) error('id', 'Session ID is required');
+    if (!isDateString(session.createdAt)) error('createdAt', 'Invalid creation date');
+    if (!isDateString(session.updatedAt)) error('updatedAt', 'Invalid update date');
+    if (!SESSION_MODES.includes(session.mode as SessionMode)) {
+      error('mode', `Mode must be one of: ${SESSION_MODES.join(', ')}`);
+    }
+    if (
+      session.protocol !== undefined &&
+      session.protocol !== null &&
+      !PROTOCOLS.includes(session.protocol as ScoringProtocol)
+    ) {
+      error('protocol', `Protocol must be one of: ${PROTOCOLS.join(', ')}, or null`);
+    }
+    // Ratings can only be checked against a template this build knows
+    const template = isNonEmptyString(session.templateId)
+      ? templateService.getTemplate(session.templateId)
+      : null;
+    if (!template) error('templateId', 'Unknown scoring template');
+    if (!SESSION_TYPES.includes(session.sessionType as SessionType)) {
+      error('sessionType', `Session type must be one of: ${SESSION_TYPES.join(', ')}`);
+    }
+    if (session.notes !== undefined && typeof session.notes !== 'string') {
+      error('notes', 'Notes must be text');
+    }
+    if (
+      session.tags !== undefined &&
+      (!Array.isArray(session.tags) || session.tags.some(t => typeof t !== 'string'))
+    ) {
+      error('tags', 'Tags must be a list of text values');
+    }
+    if (
+      session.syncStatus !== undefined &&
+      !SYNC_STATUSES.includes(session.syncStatus as SyncStatus)
+    ) {
+      error('syncStatus', `Sync status must be one of: ${SYNC_STATUSES.join(', ')}`);
+    }
+    if (
+      session.userId !== undefined &&
+      session.userId !== null &&
+      typeof session.userId !== 'string'
+    ) {
+      error('userId', 'User ID must be text or null');
+    }
+    if (
+      session.deletedAt !== undefined &&
+      session.deletedAt !== null &&
+      !isDateString(session.deletedAt)
+    ) {
+      error('deletedAt', 'Invalid deletion date');
+    }
+    const isBlind = session.blindCoding !== undefined && session.blindCoding !== null;
+    if (isBlind && !BLIND_CODINGS.includes(session.blindCoding as BlindCoding)) {
+      error('blindCoding', `Blind coding must be one of: ${BLIND_CODINGS.join(', ')}, or null`);
+    }
+    if (session.revealedAt !== undefined && session.revealedAt !== null) {
+      if (!isDateString(session.revealedAt)) {
+        error('revealedAt', 'Invalid reveal date');
+      } else if (!isBlind) {
+        error('revealedAt', 'Only blind sessions can be revealed');
+      }
+    }
+
+    if (!Array.isArray(session.coffees)) {
+      error('coffees', 'Coffees must be an array');
+      return errors;
+    }
+
+    // Group sessions: cups may only carry scores of the session's tasters
+    const tasterIds: unknown[] = [];
+    if (!Array.isArray(session.tasters)) {
+      error('tasters', 'Tasters must be an array');
+    } else if (session.tasters.length > 0) {
+      if (session.sessionType === 'triangulation') {
+        error('tasters', 'Triangulation sessions have no group tasters');
+      }
+      session.tasters.forEach((taster, tasterIndex) => {
+        const tasterPath = `${path}.tasters[${tasterIndex}]`;
+        errors.push(...this.validateSessionTaster(taster, tasterPath));
+        if (isRecord(taster) && tasterIds.includes(taster.tasterId)) {
+          errors.push({ field: `${tasterPath}.tasterId`, message: 'Taster is listed twice' });
+        }
+        if (isRecord(taster)) tasterIds.push(taster.tasterId);
+      });
+    }
+
+    session.coffees.forEach((coffee, coffeeIndex) => {
+      errors.push(
+        ...this.validateCoffee(coffee, template, tasterIds, `${path}.coffees[${coffeeIndex}]`)
+      );
+    });
+
+    if (!Array.isArray(session.triangleSets)) {
+      error('triangleSets', 'Triangle sets must be an array');
+    } else if (session.triangleSets.length > 0) {
+      if (session.sessionType !== 'triangulation') {
+        error('triangleSets', 'Only triangulation sessions have triangle sets');
+      }
+      const coffeeIds = session.coffees.map(c => (isRecord(c) ? c.coffeeId : undefined));
+      const setNumbers = new Set<unknown>();
+      session.triangleSets.forEach((set, setIndex) => {
+        const setPath = `${path}.triangleSets[${setIndex}]`;
+        errors.push(...this.validateTriangleSet(set, coffeeIds, setPath));
+        if (isRecord(set) && setNumbers.has(set.setNumber)) {
+          errors.push({ field: `${setPath}.setNumber`, message: 'Set number is repeated' });
+        }
+        if (isRecord(set)) setNumbers.add(set.setNumber);
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a triangle set against the triangle_sets CHECK constraints.
+   * The odd coffee must be one of the session's coffees.
+   */
+  private validateTriangleSet(set: unknown, coffeeIds: unknown[], path: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(set)) {
+      errors.push({ field: path, message: 'Triangle set must be an object' });
+      return errors;
+    }
+
+    if (!isNonEmptyString(set.setId)) error('setId', 'Set ID is required');
+    if (
+      typeof set.setNumber !== 'number' ||
+      !Number.isInteger(set.setNumber) ||
+      set.setNumber < 1
+    ) {
+      error('setNumber', 'Set number must be a positive integer');
+    }
+    if (!isNonEmptyString(set.oddCoffeeId) || !coffeeIds.includes(set.oddCoffeeId)) {
+      error('oddCoffeeId', "Odd coffee must be one of the session's coffees");
+    }
+    if (!isIntegerBetween(set.oddPosition, 1, TRIANGLE_POSITIONS.length)) {
+      error('oddPosition', 'Odd position must be 1, 2 or 3');
+    }
+
+    const isAnswered = set.chosenPosition !== undefined && set.chosenPosition !== null;
+    if (isAnswered && !isIntegerBetween(set.chosenPosition, 1, TRIANGLE_POSITIONS.length)) {
+      error('chosenPosition', 'Chosen position must be 1, 2 or 3, or null');
+    }
+    if (set.answeredAt !== undefined && set.answeredAt !== null) {
+      if (!isDateString(set.answeredAt)) {
+        error('answeredAt', 'Invalid answer date');
+      } else if (!isAnswered) {
+        error('answeredAt', 'Only answered sets have an answer date');
+      }
+    }
+    if (!isDateString(set.createdAt)) error('createdAt', 'Invalid creation date');
+    if (
+      !Array.isArray(set.descriptors) ||
+      set.descriptors.some(id => typeof id !== 'number' || flavorService.getFlavorById(id) === null)
+    ) {
+      error('descriptors', 'Must be a list of known flavor IDs');
+    }
+    if (set.notes !== undefined && typeof set.notes !== 'string') {
+      error('notes', 'Notes must be text');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a participant of a group session.
+   */
+  private validateSessionTaster(taster: unknown, path: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(taster)) {
+      errors.push({ field: path, message: 'Taster must be an object' });
+      return errors;
+    }
+
+    if (!isNonEmptyString(taster.tasterId)) error('tasterId', 'Taster ID is required');
+    if (!isNonEmptyString(taster.name)) error('name', 'Taster name is required');
+    if (
+      typeof taster.position !== 'number' ||
+      !Number.isInteger(taster.position) ||
+      taster.position < 1
+    ) {
+      error('position', 'Position must be a positive integer');
+    }
+    if (
+      taster.submittedAt !== undefined &&
+      taster.submittedAt !== null &&
+      !isDateString(taster.submittedAt)
+    ) {
+      error('submittedAt', 'Invalid submission date');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a coffee entry and its cups.
+   */
+  private validateCoffee(
+    coffee: unknown,
+    template: ScoringTemplate | null,
+    tasterIds: unknown[],
+    path: string
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(coffee)) {
+      errors.push({ field: path, message: 'Coffee must be an object' });
+      return errors;
+    }
+
+    if (!isNonEmptyString(coffee.coffeeId)) error('coffeeId', 'Coffee ID is required');
+    if (!isNonEmptyString(coffee.name)) error('name', 'Coffee name is required');
+
+    if (
+      coffee.catalogId !== undefined &&
+      coffee.catalogId !== null &&
+      !isNonEmptyString(coffee.catalogId)
+    ) {
+      error('catalogId', 'Library coffee ID must be text or null');
+    }
+    if (
+      coffee.blindCode !== undefined &&
+      coffee.blindCode !== null &&
+      !isNonEmptyString(coffee.blindCode)
+    ) {
+      error('blindCode', 'Blind code must be text or null');
+    }
+
+    const textFields = ['roaster', 'origin', 'process', 'variety', 'altitude', 'brewMethod'] as const;
+    for (const field of textFields) {
+      if (coffee[field] !== undefined && typeof coffee[field] !== 'string') {
+        error(field, `${field} must be text`);
+      }
+    }
+
+    if (
+      coffee.roastLevel !== undefined &&
+      !ROAST_LEVELS.includes(coffee.roastLevel as RoastLevel)
+    ) {
+      error('roastLevel', `Roast level must be one of: ${ROAST_LEVELS.join(', ')}`);
+    }
+    if (coffee.roastDate !== undefined && !isDateString(coffee.roastDate)) {
+      error('roastDate', 'Invalid roast date');
+    }
+    if (coffee.scaForm !== undefined && coffee.scaForm !== null) {
+      errors.push(...this.validateSCAForm(coffee.scaForm, `${path}.scaForm`));
+    }
+
+    if (!Array.isArray(coffee.cups)) {
+      error('cups', 'Cups must be an array');
+      return errors;
+    }
+
+    coffee.cups.forEach((cup, cupIndex) => {
+      errors.push(...this.validateCup(cup, template, tasterIds, `${path}.cups[${cupIndex}]`));
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate an SCA cupping form against the sca_scores CHECK constraints.
+   */
+  private validateSCAForm(form: unknown, path: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(form)) {
+      errors.push({ field: path, message: 'SCA form must be an object or null' });
+      return errors;
+    }
+
+    for (const { key } of SCA_QUALITY_ATTRIBUTES) {
+      if (!isSCAScore(form[key])) {
+        error(key, 'Score must be 6.00 to 10.00 in quarter points');
+      }
+    }
+
+    const intensities = [
+      ['dryIntensity', 0],
+      ['breakIntensity', 0],
+      ['acidityIntensity', 1],
+      ['bodyLevel', 1],
+    ] as const;
+    for (const [key, min] of intensities) {
+      if (!isIntegerBetween(form[key], min, 5)) {
+        error(key, `Intensity must be a whole number from ${min} to 5`);
+      }
+    }
+
+    for (const { key } of SCA_CUP_CHECKS) {
+      const cups = form[key];
+      if (
+        !Array.isArray(cups) ||
+        cups.length !== SCA_CUPS ||
+        cups.some(cup => typeof cup !== 'boolean')
+      ) {
+        error(key, `Must be a list of ${SCA_CUPS} true/false values`);
+      }
+    }
+
+    for (const key of ['taintCups', 'faultCups'] as const) {
+      if (!isIntegerBetween(form[key], 0, SCA_CUPS)) {
+        error(key, `Defect cups must be a whole number from 0 to ${SCA_CUPS}`);
+      }
+    }
+
+    if (form.notes !== undefined && typeof form.notes !== 'string') {
+      error('notes', 'Notes must be text');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a CVA descriptive form against the cva_descriptive CHECK constraints.
+   */
+  private validateCVADescriptive(form: unknown, path: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(form)) {
+      errors.push({ field: path, message: 'CVA descriptive form must be an object or null' });
+      return errors;
+    }
+
+    const { min, max } = CVA_INTENSITY_SCALE;
+    for (const { key } of CVA_DESCRIPTIVE_ATTRIBUTES) {
+      if (!isIntegerBetween(form[key], min, max)) {
+        error(key, `Intensity must be a whole number from ${min} to ${max}`);
+      }
+    }
+
+    for (const key of ['aromaDescriptors', 'flavorDescriptors'] as const) {
+      const ids = form[key];
+      if (
+        !Array.isArray(ids) ||
+        ids.length > CVA_MAX_DESCRIPTORS ||
+        ids.some(id => typeof id !== 'number' || flavorService.getFlavorById(id) === null)
+      ) {
+        error(key, `Must be a list of up to ${CVA_MAX_DESCRIPTORS} known flavor IDs`);
+      }
+    }
+
+    if (form.notes !== undefined && typeof form.notes !== 'string') {
+      error('notes', 'Notes must be text');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a CVA affective form against the cva_affective CHECK constraints.
+   */
+  private validateCVAAffective(form: unknown, path: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(form)) {
+      errors.push({ field: path, message: 'CVA affective form must be an object or null' });
+      return errors;
+    }
+
+    const { min, max } = CVA_HEDONIC_SCALE;
+    for (const { key } of CVA_AFFECTIVE_ATTRIBUTES) {
+      if (!isIntegerBetween(form[key], min, max)) {
+        error(key, `Score must be a whole number from ${min} to ${max}`);
+      }
+    }
+
+    for (const key of ['nonUniform', 'defective'] as const) {
+      if (typeof form[key] !== 'boolean') {
+        error(key, `${key} must be true or false`);
+      }
+    }
+
+    if (form.notes !== undefined && typeof form.notes !== 'string') {
+      error('notes', 'Notes must be text');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a cup, its ratings and its selected flavors, and in group
+   * sessions each taster's ratings and flavors.
+   * Ratings are checked against the session's template when it is known.
+   */
+  private validateCup(
+    cup: unknown,
+    template: ScoringTemplate | null,
+    tasterIds: unknown[],
+    path: string
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}.${field}`, message });
+
+    if (!isRecord(cup)) {
+      errors.push({ field: path, message: 'Cup must be an object' });
+      return errors;
+    }
+
+    if (!isNonEmptyString(cup.cupId)) error('cupId', 'Cup ID is required');
+    if (typeof cup.position !== 'number' || !Number.isInteger(cup.position) || cup.position < 1) {
+      error('position', 'Position must be a positive integer');
+    }
+    if (cup.notes !== undefined && typeof cup.notes !== 'string') {
+      error('notes', 'Notes must be text');
+    }
+
+    if (cup.cvaDescriptive !== undefined && cup.cvaDescriptive !== null) {
+      errors.push(...this.validateCVADescriptive(cup.cvaDescriptive, `${path}.cvaDescriptive`));
+    }
+    if (cup.cvaAffective !== undefined && cup.cvaAffective !== null) {
+      errors.push(...this.validateCVAAffective(cup.cvaAffective, `${path}.cvaAffective`));
+    }
+
+    if (!Array.isArray(cup.defects)) {
+      error('defects', 'Defects must be an array');
+    } else if (!cup.defects.every(isRecord)) {
+      error('defects', 'Each defect must be an object');
+    } else {
+      for (const defectError of validateCupDefects(cup.defects as unknown as CupDefect[])) {
+        error(`defects${defectError.field}`, defectError.message);
+      }
+    }
+
+    if (!isRecord(cup.ratings)) {
+      error('ratings', 'Ratings are required');
+    } else if (template) {
+      const ratings = cup.ratings as Record<string, number>;
+      for (const ratingError of templateService.validateScores(template, ratings, false)) {
+        error(`ratings.${ratingError.field}`, ratingError.message);
+      }
+    }
+
+    if (!Array.isArray(cup.flavors)) {
+      error('flavors', 'Flavors must be an array');
+    } else {
+      errors.push(...this.validateSelectedFlavors(cup.flavors, `${path}.flavors`));
+    }
+
+    if (!Array.isArray(cup.tasterScores)) {
+      error('tasterScores', 'Taster scores must be an array');
+      return errors;
+    }
+
+    const scoredTasters = new Set<unknown>();
+    cup.tasterScores.forEach((set, setIndex) => {
+      const setPath = `tasterScores[${setIndex}]`;
+
+      if (!isRecord(set)) {
+        error(setPath, 'Taster scores must be an object');
+        return;
+      }
+
+      if (!isNonEmptyString(set.tasterId) || !tasterIds.includes(set.tasterId)) {
+        error(`${setPath}.tasterId`, "Taster must be one of the session's tasters");
+      } else if (scoredTasters.has(set.tasterId)) {
+        error(`${setPath}.tasterId`, 'Taster has more than one score set');
+      }
+      scoredTasters.add(set.tasterId);
+
+      if (!isRecord(set.ratings)) {
+        error(`${setPath}.ratings`, 'Ratings are required');
+      } else if (template) {
+        const ratings = set.ratings as Record<string, number>;
+        for (const ratingError of templateService.validateScores(template, ratings, false)) {
+          error(`${setPath}.ratings.${ratingError.field}`, ratingError.message);
+        }
+      }
+
+      if (!Array.isArray(set.flavors)) {
+        error(`${setPath}.flavors`, 'Flavors must be an array');
+      } else {
+        errors.push(...this.validateSelectedFlavors(set.flavors, `${path}.${setPath}.flavors`));
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate selected flavors against the flavor list and the
+   * selected_flavors CHECK constraints; each flavor at most once.
+   */
+  private validateSelectedFlavors(flavors: unknown[], path: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const error = (field: string, message: string) =>
+      errors.push({ field: `${path}${field}`, message });
+
+    const seenFlavors = new Set<number>();
+    flavors.forEach((flavor, flavorIndex) => {
+      const flavorPath = `[${flavorIndex}]`;
+
+      if (!isRecord(flavor)) {
+        error(flavorPath, 'Flavor must be an object');
+        return;
+      }
+
+      if (
+        typeof flavor.flavorId !== 'number' ||
+        flavorService.getFlavorById(flavor.flavorId) === null
+      ) {
+        error(`${flavorPath}.flavorId`, `Unknown flavor ID: ${String(flavor.flavorId)}`);
+      } else if (seenFlavors.has(flavor.flavorId)) {
+        error(`${flavorPath}.flavorId`, `Flavor ${flavor.flavorId} is selected twice`);
+      } else {
+        seenFlavors.add(flavor.flavorId);
+      }
+
+      if (!isScoreValue(flavor.intensity)) {
+        error(`${flavorPath}.intensity`, 'Intensity must be a whole number from 1 to 5');
+      }
+      if (flavor.dominant !== undefined && typeof flavor.dominant !== 'boolean') {
+        error(`${flavorPath}.dominant`, 'Dominant must be true or false');
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Import sessions from an export file of any supported version.
+   * Invalid sessions are reported and left out; all valid sessions are
+   * written in one transaction, so a database failure imports nothing.
+   *
+   * @param data - Export file contents (raw JSON or already parsed)
+   * @param strategy - How to handle sessions that already exist locally
+   * @returns Per-session results and totals
+   * @throws AppError if the file is not JSON or its version is unsupported, or
+   * the automatic backup before overwriting fails
+   */
+  async importSessions(data: unknown, strategy: ImportStrategy): Promise<ImportResult> {
+    const parsed = typeof data === 'string' ? this.parseExport(data) : data;
+    const payload = upgradeExport(parsed);
+
+    const payloadErrors = this.validatePayload(payload);
+    if (payloadErrors.length > 0) {
+      return {
+        success: false,
+        totalSessions: 0,
+        importedCount: 0,
+        skippedCount: 0,
+        failedCount: 0,
+        results: [],
+        error: payloadErrors.map(e => `${e.field}: ${e.message}`).join('\n'),
+      };
+    }
+
+    const rawSessions = payload.sessions as unknown[];
+    const results: SessionImportResult[] = [];
+    const pending: Array<{ session: Session; result: SessionImportResult }> = [];
+
+    // Validate each session; IDs must also be unique within the file
+    const seenIds = new Set<string>();
+    rawSessions.forEach((raw, index) => {
+      const errors = this.validateSession(raw, `sessions[${index}]`);
+      const sessionId = isRecord(raw) && typeof raw.id === 'string' ? raw.id : `#${index}`;
+
+      if (errors.length === 0) {
+        errors.push(...this.findDuplicateIds(raw as Session, seenIds, `sessions[${index}]`));
+      }
+
+      const result: SessionImportResult = {
+        sessionId,
+        status: errors.length > 0 ? 'invalid' : 'imported',
+        errors,
+      };
+      results.push(result);
+      if (errors.length === 0) {
+        pending.push({ session: raw as Session, result });
+      }
+    });
+
+    if (strategy === 'overwrite' && pending.length > 0) {
+      await backupService.createAutoBackup('before-import');
+    }
+
+    const db = await getDatabase();
+
+    try {
+      await db.transactionAsync(async tx => {
+        const existing = await this.findExistingIds(
+          tx,
+          pending.map(p => p.session)
+        );
+
+        for (const { session, result } of pending) {
+          if (!existing.sessions.has(session.id)) {
+            const remapChildren =
+              session.coffees.some(
+                c =>
+                  existing.coffees.has(c.coffeeId) ||
+                  c.cups.some(cup => existing.cups.has(cup.cupId))
+              ) || session.triangleSets.some(set => existing.triangleSets.has(set.setId));
+            result.importedId = await this.insertSession(
+              tx,
+              session,
+              remapChildren ? 'children' : 'none'
+            );
+            continue;
+          }
+
+          switch (strategy) {
+            case 'skip':
+              result.status = 'skipped';
+              break;
+            case 'overwrite':
+              await this.replaceSession(tx, session);
+              result.importedId = session.id;
+              result.status = 'overwritten';
+              break;
+            case 'duplicate':
+              result.importedId = await this.insertSession(tx, session, 'all');
+              result.status = 'duplicated';
+              break;
+          }
+        }
+      }, false);
+    } catch (error) {
+      console.error('[ImportService] Import transaction failed:', error);
+      for (const result of results) {
+        if (result.status !== 'invalid') {
+          result.status = 'failed';
+          result.importedId = undefined;
+        }
+      }
+
+      return {
+        ...this.summarize(results),
+        success: false,
+        error: error instanceof Error ? error.message : 'Import failed',
+      };
+    }
+
+    const summary = this.summarize(results);
+    console.log(
+      `[ImportService] Imported ${summary.importedCount}, skipped ${summary.skippedCount}, ` +
+        `failed ${summary.failedCount} of ${summary.totalSessions} sessions (${strategy})`
+    );
+    return summary;
+  }
+
+  /**
+   * Write a validated session from another device, replacing any local copy,
+   * inside the caller's transaction. IDs are kept. Used by overwrite imports
+   * and by sync, which discards the change log entries afterwards.
+   *
+   * @param tx - Open write transaction
+   * @param session - Session in the current export format
+   */
+  async replaceSession(tx: SQLTransactionAsync, session: Session): Promise<void> {
+    await changeLogService.record(tx, [
+      {
+        sessionId: session.id,
+        entity: 'session',
+        entityId: session.id,
+        operation: 'delete',
+        fields: [],
+      },
+    ]);
+    await this.deleteSessionData(tx, session.id);
+    await this.insertSession(tx, session, 'none');
+  }
+
+  // Helper methods
+
+  /**
+   * Collect errors for session/coffee/cup/triangle set IDs repeated within the import file.
+   */
+  private findDuplicateIds(
+    session: Session,
+    seenIds: Set<string>,
+    path: string
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const check = (id: string, field: string) => {
+      if (seenIds.has(id)) {
+        errors.push({ field: `${path}.${field}`, message: `ID ${id} appears more than once` });
+      }
+      seenIds.add(id);
+    };
+
+    check(session.id, 'id');
+    session.coffees.forEach((coffee, coffeeIndex) => {
+      check(coffee.coffeeId, `coffees[${coffeeIndex}].coffeeId`);
+      coffee.cups.forEach((cup, cupIndex) => {
+        check(cup.cupId, `coffees[${coffeeIndex}].cups[${cupIndex}].cupId`);
+      });
+    });
+    session.triangleSets.forEach((set, setIndex) => {
+      check(set.setId, `triangleSets[${setIndex}].setId`);
+    });
+
+    return errors;
+  }
+
+  /**
+   * Look up which session, coffee, cup and triangle set IDs already exist in the database.
+   */
+  private async findExistingIds(
+    tx: SQLTransactionAsync,
+    sessions: Session[]
+  ): Promise<{
+    sessions: Set<string>;
+    coffees: Set<string>;
+    cups: Set<string>;
+    triangleSets: Set<string>;
+  }> {
+    const lookup = async (table: string, ids: string[]): Promise<Set<string>> => {
+      const found = new Set<string>();
+      for (const chunk of chunkParams(ids)) {
+        const result = await tx.executeSqlAsync(
+          `SELECT id FROM ${table} WHERE id IN (${buildPlaceholders(chunk.length)})`,
+          chunk
+        );
+        for (const row of result.rows) {
+          found.add(row.id as string);
+        }
+      }
+      return found;
+    };
+
+    const coffees = sessions.flatMap(s => s.coffees);
+
+    return {
+      sessions: await lookup(
+        'sessions',
+        sessions.map(s => s.id)
+      ),
+      coffees: await lookup(
+        'coffees',
+        coffees.map(c => c.coffeeId)
+      ),
+      cups: await lookup(
+        'cups',
+        coffees.flatMap(c => c.cups.map(cup => cup.cupId))
+      ),
+      triangleSets: await lookup(
+        'triangle_sets',
+        sessions.flatMap(s => s.triangleSets.map(set => set.setId))
+      ),
+    };
+  }
+
+  /**
+   * Remove a session and its child rows explicitly
+   * (does not rely on foreign key cascades being enabled).
+   * Also used by sync to apply deletes from another device.
+   */
+  async deleteSessionData(tx: SQLTransactionAsync, sessionId: string): Promise<void> {
+    await tx.executeSqlAsync(sessionQueries.deleteFlavorsBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteSCAScoresBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteCVADescriptiveBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteCVADescriptorsBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteCVAAffectiveBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteCupScoresBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteCupDefectsBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteTriangleDescriptorsBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteTriangleSetsBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteTasterScoresBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteTasterFlavorsBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteSessionTastersBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteCupsBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteCoffeesBySession, [sessionId]);
+    await tx.executeSqlAsync(sessionQueries.deleteSession, [sessionId]);
+  }
+
+  /**
+   * Write a session with its coffees, cups, flavors, triangle sets and group
+   * scores. Each coffee is linked to its coffee library entry and each
+   * taster to their profile, creating them if needed. Each record written
+   * is logged as an insert.
+   *
+   * @param newIds - Which IDs to regenerate: none, coffee/cup IDs only, or all
+   * @returns The session ID written
+   */
+  private async insertSession(
+    tx: SQLTransactionAsync,
+    session: Session,
+    newIds: 'none' | 'children' | 'all'
+  ): Promise<string> {
+    const sessionId = newIds === 'all' ? generateUUID() : session.id;
+    const remap = newIds !== 'none';
+
+    await tx.executeSqlAsync(sessionQueries.insertSession, [
+      sessionId,
+      session.createdAt,
+      session.updatedAt,
+      session.mode,
+      session.sessionType,
+      session.notes || null,
+      session.tags ? JSON.stringify(session.tags) : null,
+      'local-only', // Imported data has not been synced from this device
+      session.userId ?? null,
+      session.protocol ?? null,
+      session.templateId,
+      session.blindCoding ?? null,
+      session.revealedAt ?? null,
+    ]);
+    const changes: ChangeInput[] = [
+      { sessionId, entity: 'session', entityId: sessionId, operation: 'insert', fields: [] },
+    ];
+
+    // Sessions exported from trash stay in trash
+    if (session.deletedAt) {
+      await tx.executeSqlAsync(sessionQueries.softDeleteSession, [
+        session.deletedAt,
+        session.updatedAt,
+        sessionId,
+      ]);
+    }
+
+    // Group scores point at the taster profiles they were matched to
+    const tasterIds = new Map<string, string>();
+    for (const taster of session.tasters) {
+      const tasterId = await tasterService.resolveTasterId(tx, taster);
+      tasterIds.set(taster.tasterId, tasterId);
+      await sessionService.writeSessionTaster(tx, sessionId, { ...taster, tasterId });
+    }
+
+    // Triangle sets point at the session's coffees by their written IDs
+    const coffeeIds = new Map<string, string>();
+
+    for (const coffee of session.coffees) {
+      const coffeeId = remap ? generateUUID() : coffee.coffeeId;
+      coffeeIds.set(coffee.coffeeId, coffeeId);
+      const catalogId = await coffeeLibraryService.resolveCatalogId(tx, coffee);
+      await tx.executeSqlAsync(coffeeQueries.insertCoffee, [
+        coffeeId,
+        sessionId,
+        coffee.name,
+        coffee.roaster || null,
+        coffee.origin || null,
+        coffee.brewMethod || null,
+        coffee.roastLevel || null,
+        coffee.roastDate || null,
+        catalogId,
+        coffee.blindCode ?? null,
+      ]);
+      changes.push({
+        sessionId,
+        entity: 'coffee',
+        entityId: coffeeId,
+        operation: 'insert',
+        fields: [],
+      });
+
+      if (coffee.scaForm) {
+        await sessionService.writeSCAForm(tx, coffeeId, coffee.scaForm);
+      }
+
+      for (const cup of coffee.cups) {
+        const cupId = remap ? generateUUID() : cup.cupId;
+        await tx.executeSqlAsync(cupQueries.insertCup, [
+          cupId,
+          coffeeId,
+          cup.position,
+          cup.notes || null,
+        ]);
+        changes.push({
+          sessionId,
+          entity: 'cup',
+          entityId: cupId,
+          operation: 'insert',
+          fields: [],
+        });
+        await sessionService.writeCupScores(tx, cupId, cup.ratings);
+        await sessionService.writeCupDefects(tx, cupId, cup.defects);
+        for (const set of cup.tasterScores) {
+          await sessionService.writeTasterScores(tx, cupId, {
+            ...set,
+            tasterId: tasterIds.get(set.tasterId) ?? set.tasterId,
+          });
+        }
+
+        if (cup.cvaDescriptive) {
+          await sessionService.writeCVADescriptive(tx, cupId, cup.cvaDescriptive);
+        }
+        if (cup.cvaAffective) {
+          await sessionService.writeCVAAffective(tx, cupId, cup.cvaAffective);
+        }
+
+        for (const flavor of cup.flavors) {
+          await tx.executeSqlAsync(flavorQueries.insertFlavor, [
+            cupId,
+            flavor.flavorId,
+            flavor.intensity,
+            flavor.dominant ? 1 : 0,
+          ]);
+        }
+      }
+    }
+
+    for (const set of session.triangleSets) {
+      const setId = remap ? generateUUID() : set.setId;
+      await sessionService.writeTriangleSet(tx, sessionId, {
+        ...set,
+        setId,
+        oddCoffeeId: coffeeIds.get(set.oddCoffeeId) ?? set.oddCoffeeId,
+      });
+      changes.push({
+        sessionId,
+        entity: 'triangle-set',
+        entityId: setId,
+        operation: 'insert',
+        fields: [],
+      });
+    }
+
+    await changeLogService.record(tx, changes);
+    return sessionId;
+  }
+
+  private summarize(results: SessionImportResult[]): ImportResult {
+    const written: SessionImportStatus[] = ['imported', 'overwritten', 'duplicated'];
+
+    return {
+      success: results.every(r => r.status !== 'failed'),
+      totalSessions: results.length,
+      importedCount: results.filter(r => written.includes(r.status)).length,
+      skippedCount: results.filter(r => r.status === 'skipped').length,
+      failedCount: results.filter(r => r.status === 'invalid' || r.status === 'failed').length,
+      results,
+    };
+  }
+}
+
+// Export singleton instance
+export const importService = new ImportService();
+export default importService;
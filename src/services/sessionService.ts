@@ -5,29 +5,578 @@
  * Handles CRUD operations with SQLite persistence.
  */
 
+import type { SQLTransactionAsync } from 'expo-sqlite';
 import { getDatabase } from './database/connection';
-import { sessionQueries, coffeeQueries, cupQueries, flavorQueries } from './database/queries';
+import {
+  sessionQueries,
+  coffeeQueries,
+  cupQueries,
+  flavorQueries,
+  scaQueries,
+  cvaQueries,
+  scoreQueries,
+  defectQueries,
+  triangleQueries,
+  tasterQueries,
+  buildPlaceholders,
+  chunkParams,
+  escapeLike,
+} from './database/queries';
 import type {
   SessionRow,
-  CoffeeRow,
+  CoffeeWithCatalogRow,
   CupRow,
+  CupScoreRow,
+  CupDefectRow,
   SelectedFlavorRow,
+  SCAScoreRow,
+  CVADescriptiveRow,
+  CVADescriptorRow,
+  CVAAffectiveRow,
+  TriangleSetRow,
+  TriangleDescriptorRow,
+  SessionTasterRow,
+  TasterCupScoreRow,
+  TasterCupFlavorRow,
 } from './database/types';
 import type {
   Session,
   SessionType,
   SessionMode,
+  ScoringProtocol,
+  BlindCoding,
   CoffeeEntry,
-  Cup,
-  StructuralScores,
+  SCAForm,
+  CVADescriptiveForm,
+  CVAAffectiveForm,
+  CupScores,
   ScoreValue,
   CoffeeFormData,
   SessionFilters,
+  SessionSummary,
+  ScoreRange,
   RoastLevel,
   SyncStatus,
 } from '../types/session.types';
 import type { SelectedFlavor } from '../types/flavor.types';
+import type { CupDefect, DefectSeverity } from '../types/defect.types';
+import type { TrianglePosition, TriangleSet } from '../types/triangle.types';
+import type { SessionTaster, TasterScoreSet } from '../types/taster.types';
+import type { ChangeInput } from '../types/changeLog.types';
+import { coffeeLibraryService } from './coffeeLibraryService';
+import { authService } from './authService';
+import { backupService } from './backupService';
+import { changeLogService } from './changeLogService';
+import { flavorService } from './flavorService';
+import { templateService } from './templateService';
 import { generateUUID } from '../utils/uuid';
+import { SCA_CUPS } from '../utils/scoring';
+import { DEFAULT_TEMPLATE_ID } from '../utils/scoringTemplates';
+import { diffSession } from '../utils/changeLog';
+import { validateCupDefects } from '../utils/defects';
+import { generateBlindCode } from '../utils/blind';
+import { TRIANGLE_POSITIONS, createTriangleLayout } from '../utils/triangle';
+import { MIN_GROUP_TASTERS, computeGroupMean, mergeGroupFlavors } from '../utils/groupCupping';
+import { AppError } from '../utils/errorHandling';
+
+/**
+ * Child rows for a batch of sessions, grouped by parent ID
+ */
+interface SessionChildRows {
+  coffeesBySession: Map<string, CoffeeWithCatalogRow[]>;
+  cupsByCoffee: Map<string, CupRow[]>;
+  scoresByCup: Map<string, CupScoreRow[]>;
+  defectsByCup: Map<string, CupDefectRow[]>;
+  flavorsByCup: Map<string, SelectedFlavorRow[]>; // Empty when flavors are skipped
+  scaByCoffee: Map<string, SCAScoreRow>;
+  cvaDescriptiveByCup: Map<string, CVADescriptiveRow>;
+  cvaDescriptorsByCup: Map<string, CVADescriptorRow[]>;
+  cvaAffectiveByCup: Map<string, CVAAffectiveRow>;
+  triangleSetsBySession: Map<string, TriangleSetRow[]>;
+  triangleDescriptorsBySet: Map<string, TriangleDescriptorRow[]>;
+  tastersBySession: Map<string, SessionTasterRow[]>;
+  tasterScoresByCup: Map<string, TasterCupScoreRow[]>;
+  tasterFlavorsByCup: Map<string, TasterCupFlavorRow[]>;
+}
+
+function groupRows<T>(rows: T[], getKey: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = getKey(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Fetch coffees, cups and optionally flavors for many sessions with one query
+ * per table per chunk of session IDs, instead of one query per row.
+ */
+async function loadChildRows(
+  tx: SQLTransactionAsync,
+  sessionIds: string[],
+  includeFlavors: boolean
+): Promise<SessionChildRows> {
+  const coffeeRows: CoffeeWithCatalogRow[] = [];
+  const cupRows: CupRow[] = [];
+  const scoreRows: CupScoreRow[] = [];
+  const defectRows: CupDefectRow[] = [];
+  const flavorRows: SelectedFlavorRow[] = [];
+  const scaRows: SCAScoreRow[] = [];
+  const descriptiveRows: CVADescriptiveRow[] = [];
+  const descriptorRows: CVADescriptorRow[] = [];
+  const affectiveRows: CVAAffectiveRow[] = [];
+  const triangleSetRows: TriangleSetRow[] = [];
+  const triangleDescriptorRows: TriangleDescriptorRow[] = [];
+  const tasterRows: SessionTasterRow[] = [];
+  const tasterScoreRows: TasterCupScoreRow[] = [];
+  const tasterFlavorRows: TasterCupFlavorRow[] = [];
+
+  for (const ids of chunkParams(sessionIds)) {
+    const coffees = await tx.executeSqlAsync(coffeeQueries.getCoffeesBySessions(ids.length), ids);
+    coffeeRows.push(...(coffees.rows as CoffeeWithCatalogRow[]));
+
+    const cups = await tx.executeSqlAsync(cupQueries.getCupsBySessions(ids.length), ids);
+    cupRows.push(...(cups.rows as CupRow[]));
+
+    const scores = await tx.executeSqlAsync(scoreQueries.getScoresBySessions(ids.length), ids);
+    scoreRows.push(...(scores.rows as CupScoreRow[]));
+
+    const defects = await tx.executeSqlAsync(defectQueries.getDefectsBySessions(ids.length), ids);
+    defectRows.push(...(defects.rows as CupDefectRow[]));
+
+    const sca = await tx.executeSqlAsync(scaQueries.getSCAScoresBySessions(ids.length), ids);
+    scaRows.push(...(sca.rows as SCAScoreRow[]));
+
+    const descriptive = await tx.executeSqlAsync(
+      cvaQueries.getDescriptiveBySessions(ids.length),
+      ids
+    );
+    descriptiveRows.push(...(descriptive.rows as CVADescriptiveRow[]));
+
+    const descriptors = await tx.executeSqlAsync(
+      cvaQueries.getDescriptorsBySessions(ids.length),
+      ids
+    );
+    descriptorRows.push(...(descriptors.rows as CVADescriptorRow[]));
+
+    const affective = await tx.executeSqlAsync(cvaQueries.getAffectiveBySessions(ids.length), ids);
+    affectiveRows.push(...(affective.rows as CVAAffectiveRow[]));
+
+    const triangleSets = await tx.executeSqlAsync(
+      triangleQueries.getSetsBySessions(ids.length),
+      ids
+    );
+    triangleSetRows.push(...(triangleSets.rows as TriangleSetRow[]));
+
+    const triangleDescriptors = await tx.executeSqlAsync(
+      triangleQueries.getDescriptorsBySessions(ids.length),
+      ids
+    );
+    triangleDescriptorRows.push(...(triangleDescriptors.rows as TriangleDescriptorRow[]));
+
+    const tasters = await tx.executeSqlAsync(
+      tasterQueries.getSessionTastersBySessions(ids.length),
+      ids
+    );
+    tasterRows.push(...(tasters.rows as SessionTasterRow[]));
+
+    const tasterScores = await tx.executeSqlAsync(
+      tasterQueries.getScoresBySessions(ids.length),
+      ids
+    );
+    tasterScoreRows.push(...(tasterScores.rows as TasterCupScoreRow[]));
+
+    const tasterFlavors = await tx.executeSqlAsync(
+      tasterQueries.getFlavorsBySessions(ids.length),
+      ids
+    );
+    tasterFlavorRows.push(...(tasterFlavors.rows as TasterCupFlavorRow[]));
+
+    if (includeFlavors) {
+      const flavors = await tx.executeSqlAsync(flavorQueries.getFlavorsBySessions(ids.length), ids);
+      flavorRows.push(...(flavors.rows as SelectedFlavorRow[]));
+    }
+  }
+
+  return {
+    coffeesBySession: groupRows(coffeeRows, row => row.session_id),
+    cupsByCoffee: groupRows(cupRows, row => row.coffee_id),
+    scoresByCup: groupRows(scoreRows, row => row.cup_id),
+    defectsByCup: groupRows(defectRows, row => row.cup_id),
+    flavorsByCup: groupRows(flavorRows, row => row.cup_id),
+    scaByCoffee: new Map(scaRows.map(row => [row.coffee_id, row])),
+    cvaDescriptiveByCup: new Map(descriptiveRows.map(row => [row.cup_id, row])),
+    cvaDescriptorsByCup: groupRows(descriptorRows, row => row.cup_id),
+    cvaAffectiveByCup: new Map(affectiveRows.map(row => [row.cup_id, row])),
+    triangleSetsBySession: groupRows(triangleSetRows, row => row.session_id),
+    triangleDescriptorsBySet: groupRows(triangleDescriptorRows, row => row.set_id),
+    tastersBySession: groupRows(tasterRows, row => row.session_id),
+    tasterScoresByCup: groupRows(tasterScoreRows, row => row.cup_id),
+    tasterFlavorsByCup: groupRows(tasterFlavorRows, row => row.cup_id),
+  };
+}
+
+// Per-cup SCA checks are stored as bitmasks: bit 0 = cup 1
+function toCupMask(cups: boolean[]): number {
+  return cups.slice(0, SCA_CUPS).reduce((mask, passed, i) => (passed ? mask | (1 << i) : mask), 0);
+}
+
+function fromCupMask(mask: number): boolean[] {
+  return Array.from({ length: SCA_CUPS }, (_, i) => (mask & (1 << i)) !== 0);
+}
+
+function toSCAForm(row: SCAScoreRow): SCAForm {
+  return {
+    fragranceAroma: row.fragrance_aroma,
+    dryIntensity: row.dry_intensity,
+    breakIntensity: row.break_intensity,
+    flavor: row.flavor,
+    aftertaste: row.aftertaste,
+    acidity: row.acidity,
+    acidityIntensity: row.acidity_intensity,
+    body: row.body,
+    bodyLevel: row.body_level,
+    balance: row.balance,
+    overall: row.overall,
+    uniformity: fromCupMask(row.uniform_cups),
+    cleanCup: fromCupMask(row.clean_cups),
+    sweetness: fromCupMask(row.sweet_cups),
+    taintCups: row.taint_cups,
+    faultCups: row.fault_cups,
+    notes: row.notes || undefined,
+  };
+}
+
+function toCupScores(rows: CupScoreRow[]): CupScores {
+  const scores: CupScores = {};
+  for (const row of rows) {
+    scores[row.attribute] = row.value;
+  }
+  return scores;
+}
+
+function toCupDefect(row: CupDefectRow): CupDefect {
+  return {
+    defectId: row.defect_id,
+    severity: row.severity as DefectSeverity,
+    cupCount: row.cup_count,
+    beanCount: row.bean_count,
+    notes: row.notes || undefined,
+  };
+}
+
+function toCVADescriptiveForm(
+  row: CVADescriptiveRow,
+  descriptors: CVADescriptorRow[]
+): CVADescriptiveForm {
+  const inSection = (section: string) =>
+    descriptors.filter(d => d.section === section).map(d => d.flavor_id);
+  return {
+    fragrance: row.fragrance,
+    aroma: row.aroma,
+    flavor: row.flavor,
+    aftertaste: row.aftertaste,
+    acidity: row.acidity,
+    sweetness: row.sweetness,
+    mouthfeel: row.mouthfeel,
+    aromaDescriptors: inSection('aroma'),
+    flavorDescriptors: inSection('flavor'),
+    notes: row.notes || undefined,
+  };
+}
+
+function toCVAAffectiveForm(row: CVAAffectiveRow): CVAAffectiveForm {
+  return {
+    fragrance: row.fragrance,
+    aroma: row.aroma,
+    flavor: row.flavor,
+    aftertaste: row.aftertaste,
+    acidity: row.acidity,
+    sweetness: row.sweetness,
+    mouthfeel: row.mouthfeel,
+    overall: row.overall,
+    nonUniform: row.non_uniform === 1,
+    defective: row.defective === 1,
+    notes: row.notes || undefined,
+  };
+}
+
+function toTriangleSet(row: TriangleSetRow, descriptors: TriangleDescriptorRow[]): TriangleSet {
+  return {
+    setId: row.id,
+    setNumber: row.set_number,
+    oddCoffeeId: row.odd_coffee_id,
+    oddPosition: row.odd_position as TrianglePosition,
+    chosenPosition: (row.chosen_position || undefined) as TrianglePosition | undefined,
+    descriptors: descriptors.map(d => d.flavor_id),
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+    answeredAt: row.answered_at || undefined,
+  };
+}
+
+function toSessionTaster(row: SessionTasterRow): SessionTaster {
+  return {
+    tasterId: row.taster_id,
+    name: row.name,
+    position: row.position,
+    submittedAt: row.submitted_at || undefined,
+  };
+}
+
+function toSelectedFlavor(row: SelectedFlavorRow | TasterCupFlavorRow): SelectedFlavor {
+  return {
+    flavorId: row.flavor_id,
+    intensity: row.intensity as ScoreValue,
+    dominant: row.dominant === 1,
+  };
+}
+
+/**
+ * Group a cup's per-taster rows into one score set per taster
+ */
+function toTasterScoreSets(
+  scores: TasterCupScoreRow[],
+  flavors: TasterCupFlavorRow[]
+): TasterScoreSet[] {
+  const tasterIds = new Set([...scores, ...flavors].map(row => row.taster_id));
+  return Array.from(tasterIds, tasterId => ({
+    tasterId,
+    ratings: toCupScores(scores.filter(row => row.taster_id === tasterId)),
+    flavors: flavors.filter(row => row.taster_id === tasterId).map(toSelectedFlavor),
+  }));
+}
+
+/**
+ * Assemble session summaries (no flavors) from session rows and their child rows
+ */
+function toSessionSummary(row: SessionRow, children: SessionChildRows): SessionSummary {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    mode: row.mode as SessionMode,
+    protocol: (row.protocol || undefined) as ScoringProtocol | undefined,
+    templateId: row.template_id || DEFAULT_TEMPLATE_ID,
+    blindCoding: (row.blind_coding || undefined) as BlindCoding | undefined,
+    revealedAt: row.revealed_at || undefined,
+    sessionType: row.session_type as SessionType,
+    coffees: (children.coffeesBySession.get(row.id) || []).map(coffeeRow => ({
+      coffeeId: coffeeRow.id,
+      catalogId: coffeeRow.catalog_id || undefined,
+      name: coffeeRow.name,
+      roaster: coffeeRow.roaster || undefined,
+      origin: coffeeRow.origin || undefined,
+      process: coffeeRow.process || undefined,
+      variety: coffeeRow.variety || undefined,
+      altitude: coffeeRow.altitude || undefined,
+      brewMethod: coffeeRow.brew_method || undefined,
+      roastLevel: (coffeeRow.roast_level || undefined) as RoastLevel | undefined,
+      roastDate: coffeeRow.roast_date || undefined,
+      scaForm: children.scaByCoffee.has(coffeeRow.id)
+        ? toSCAForm(children.scaByCoffee.get(coffeeRow.id) as SCAScoreRow)
+        : undefined,
+      blindCode: coffeeRow.blind_code || undefined,
+      cups: (children.cupsByCoffee.get(coffeeRow.id) || []).map(cupRow => ({
+        cupId: cupRow.id,
+        position: cupRow.position,
+        ratings: toCupScores(children.scoresByCup.get(cupRow.id) || []),
+        tasterScores: toTasterScoreSets(
+          children.tasterScoresByCup.get(cupRow.id) || [],
+          children.tasterFlavorsByCup.get(cupRow.id) || []
+        ),
+        defects: (children.defectsByCup.get(cupRow.id) || []).map(toCupDefect),
+        notes: cupRow.notes || undefined,
+        cvaDescriptive: children.cvaDescriptiveByCup.has(cupRow.id)
+          ? toCVADescriptiveForm(
+              children.cvaDescriptiveByCup.get(cupRow.id) as CVADescriptiveRow,
+              children.cvaDescriptorsByCup.get(cupRow.id) || []
+            )
+          : undefined,
+        cvaAffective: children.cvaAffectiveByCup.has(cupRow.id)
+          ? toCVAAffectiveForm(children.cvaAffectiveByCup.get(cupRow.id) as CVAAffectiveRow)
+          : undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      })),
+    })),
+    triangleSets: (children.triangleSetsBySession.get(row.id) || []).map(setRow =>
+      toTriangleSet(setRow, children.triangleDescriptorsBySet.get(setRow.id) || [])
+    ),
+    tasters: (children.tastersBySession.get(row.id) || []).map(toSessionTaster),
+    notes: row.notes || undefined,
+    tags: row.tags ? JSON.parse(row.tags) : undefined,
+    syncStatus: (row.sync_status || undefined) as SyncStatus | undefined,
+    userId: row.user_id || undefined,
+    deletedAt: row.deleted_at || undefined,
+  };
+}
+
+/**
+ * Assemble a full session by adding flavors to its summary
+ */
+function toSession(row: SessionRow, children: SessionChildRows): Session {
+  const summary = toSessionSummary(row, children);
+  return {
+    ...summary,
+    coffees: summary.coffees.map(coffee => ({
+      ...coffee,
+      cups: coffee.cups.map(cup => ({
+        ...cup,
+        flavors: (children.flavorsByCup.get(cup.cupId) || []).map(toSelectedFlavor),
+      })),
+    })),
+  };
+}
+
+/**
+ * Turn free text into an FTS5 match expression: every word must appear
+ * somewhere in the session, and each word also matches as a prefix.
+ * @example toMatchExpression('blueberry nat') → '"blueberry"* "nat"*'
+ */
+function toMatchExpression(text: string): string {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .map(word => `"${word.replace(/"/g, '""')}"*`)
+    .join(' ');
+}
+
+// Joins a session's cup scores; used by the score subqueries below
+const SESSION_SCORES = `FROM cup_scores cs JOIN cups cu ON cs.cup_id = cu.id
+  JOIN coffees co ON cu.coffee_id = co.id WHERE co.session_id = s.id`;
+
+/**
+ * Build the session list query for the given filters (sessions not in trash)
+ */
+function buildSessionListQuery(filters?: SessionFilters): {
+  query: string;
+  params: (string | number)[];
+} {
+  let query = 'SELECT s.* FROM sessions s WHERE s.deleted_at IS NULL';
+  const params: (string | number)[] = [];
+
+  // Adds bounds on a per-session aggregate (NULL aggregates never match)
+  const addRange = (
+    expression: string,
+    range?: ScoreRange,
+    expressionParams: (string | number)[] = []
+  ) => {
+    if (range?.min !== undefined) {
+      query += ` AND ${expression} >= ?`;
+      params.push(...expressionParams, range.min);
+    }
+    if (range?.max !== undefined) {
+      query += ` AND ${expression} <= ?`;
+      params.push(...expressionParams, range.max);
+    }
+  };
+
+  // Adds a partial, case-insensitive match on a coffee column
+  const addCoffeeMatch = (column: string, text?: string) => {
+    if (text?.trim()) {
+      query += ` AND EXISTS (SELECT 1 FROM coffees c
+        WHERE c.session_id = s.id AND c.${column} LIKE ? ESCAPE '\\')`;
+      params.push(`%${escapeLike(text.trim())}%`);
+    }
+  };
+
+  if (filters?.type) {
+    query += ' AND s.session_type = ?';
+    params.push(filters.type);
+  }
+
+  if (filters?.mode) {
+    query += ' AND s.mode = ?';
+    params.push(filters.mode);
+  }
+
+  if (filters?.templateId) {
+    query += ' AND s.template_id = ?';
+    params.push(filters.templateId);
+  }
+
+  if (filters?.startDate) {
+    query += ' AND s.created_at >= ?';
+    params.push(filters.startDate);
+  }
+
+  if (filters?.endDate) {
+    query += ' AND s.created_at <= ?';
+    params.push(filters.endDate);
+  }
+
+  // Tags are stored as a JSON array; every requested tag must be present
+  for (const tag of filters?.tags || []) {
+    query += ' AND EXISTS (SELECT 1 FROM json_each(s.tags) WHERE json_each.value = ?)';
+    params.push(tag);
+  }
+
+  // Coffee details
+  addCoffeeMatch('roaster', filters?.roaster);
+  addCoffeeMatch('origin', filters?.origin);
+  addCoffeeMatch('brew_method', filters?.brewMethod);
+
+  if (filters?.roastLevel) {
+    query +=
+      ' AND EXISTS (SELECT 1 FROM coffees c WHERE c.session_id = s.id AND c.roast_level = ?)';
+    params.push(filters.roastLevel);
+  }
+
+  // Scores (unscored attributes have no cup_scores row and are left out)
+  addRange(`(SELECT AVG(cs.value) ${SESSION_SCORES})`, filters?.totalScore);
+  for (const [attribute, range] of Object.entries(filters?.attributeScores || {})) {
+    addRange(`(SELECT AVG(cs.value) ${SESSION_SCORES} AND cs.attribute = ?)`, range, [attribute]);
+  }
+
+  // Flavors: all requested flavor IDs must appear somewhere in the session
+  const flavorIds = Array.from(new Set(filters?.flavorIds || []));
+  if (flavorIds.length > 0) {
+    query += ` AND (SELECT COUNT(DISTINCT sf.flavor_id) FROM selected_flavors sf
+      JOIN cups cu ON sf.cup_id = cu.id JOIN coffees co ON cu.coffee_id = co.id
+      WHERE co.session_id = s.id AND sf.flavor_id IN (${buildPlaceholders(flavorIds.length)})) = ?`;
+    params.push(...flavorIds, flavorIds.length);
+  }
+
+  // Category: categories live in the flavor data, so resolve to flavor IDs here
+  if (filters?.category) {
+    const categoryIds = flavorService.getFlavorsByCategory(filters.category).map(f => f.id);
+    if (categoryIds.length === 0) {
+      query += ' AND 0';
+    } else {
+      query += ` AND EXISTS (SELECT 1 FROM selected_flavors sf
+        JOIN cups cu ON sf.cup_id = cu.id JOIN coffees co ON cu.coffee_id = co.id
+        WHERE co.session_id = s.id AND sf.flavor_id IN (${buildPlaceholders(categoryIds.length)}))`;
+      params.push(...categoryIds);
+    }
+  }
+
+  // Sorting
+  const sortBy = filters?.sortBy || 'createdAt';
+  const sortOrder = filters?.sortOrder || 'desc';
+  const sortColumn = sortBy === 'createdAt' ? 'created_at' : 'updated_at';
+  query += ` ORDER BY s.${sortColumn} ${sortOrder.toUpperCase()}`;
+
+  // Pagination
+  if (filters?.limit) {
+    query += ' LIMIT ?';
+    params.push(filters.limit);
+  }
+
+  if (filters?.offset) {
+    query += ' OFFSET ?';
+    params.push(filters.offset);
+  }
+
+  return { query, params };
+}
 
 /**
  * Session Service - Manages tasting sessions
@@ -35,15 +584,36 @@ import { generateUUID } from '../utils/uuid';
 class SessionService {
   /**
    * Create a new session with the specified type.
-   * Initializes empty coffee entries based on type.
+   * Initializes empty coffee entries based on type; a triangulation session
+   * starts with none, as its two coffees are added at setup.
    *
-   * @param type - Session type (single-coffee, multi-coffee, table-cupping)
+   * @param type - Session type (single-coffee, multi-coffee, table-cupping, triangulation)
+   * @param mode - 'taste' (1-5 structure scores) or 'pro' (cupping protocol forms)
+   * @param protocol - Cupping protocol of a pro session (default 'sca')
+   * @param templateId - Scoring template of the cups (default Cupper Classic)
+   * @param blindCoding - Code style of a blind session, or null for a sighted one
    * @returns Promise<Session> - Created session
+   * @throws AppError if the template is not registered
    */
-  async createSession(type: SessionType): Promise<Session> {
+  async createSession(
+    type: SessionType,
+    mode: SessionMode = 'taste',
+    protocol: ScoringProtocol = 'sca',
+    templateId: string = DEFAULT_TEMPLATE_ID,
+    blindCoding: BlindCoding | null = null
+  ): Promise<Session> {
+    if (!templateService.getTemplate(templateId)) {
+      throw new AppError(
+        `Unknown scoring template: ${templateId}`,
+        'TEMPLATE_NOT_FOUND',
+        'This scoring template is not available.'
+      );
+    }
+
     const db = await getDatabase();
     const sessionId = generateUUID();
     const now = new Date().toISOString();
+    const userId = await authService.getCurrentUserId();
 
     await db.transactionAsync(async tx => {
       // Insert session
@@ -51,13 +621,24 @@ class SessionService {
         sessionId,
         now,
         now,
-        'taste', // mode
+        mode,
         type,
         null, // notes
         null, // tags
         'local-only', // sync_status
-        null, // user_id
+        userId, // user_id (null in guest mode)
+        mode === 'pro' ? protocol : null, // protocol
+        templateId,
+        blindCoding,
+        null, // revealed_at
       ]);
+      await changeLogService.record(tx, [
+        { sessionId, entity: 'session', entityId: sessionId, operation: 'insert', fields: [] },
+      ]);
+
+      if (type === 'triangulation') {
+        return;
+      }
 
       // Create default coffee entry
       const coffeeId = generateUUID();
@@ -70,7 +651,12 @@ class SessionService {
         null, // brew_method
         null, // roast_level
         null, // roast_date
+        null, // catalog_id (linked once the coffee is set up)
+        null, // blind_code (codes go to the coffees added at setup)
       ]);
+      const changes: ChangeInput[] = [
+        { sessionId, entity: 'coffee', entityId: coffeeId, operation: 'insert', fields: [] },
+      ];
 
       // Create default cup(s) based on session type
       const cupsToCreate = type === 'table-cupping' ? 5 : 1;
@@ -80,18 +666,22 @@ class SessionService {
           cupId,
           coffeeId,
           i, // position
-          null, // acidity
-          null, // sweetness
-          null, // body
-          null, // clarity
-          null, // finish
-          null, // enjoyment
           null, // notes
         ]);
+        changes.push({
+          sessionId,
+          entity: 'cup',
+          entityId: cupId,
+          operation: 'insert',
+          fields: [],
+        });
       }
+      await changeLogService.record(tx, changes);
     }, false);
 
-    console.log(`[SessionService] Created session ${sessionId} (${type})`);
+    console.log(
+      `[SessionService] Created session ${sessionId} (${type}, ${mode === 'pro' ? protocol : mode}, ${templateId}${blindCoding ? ', blind' : ''})`
+    );
 
     // Return the created session
     const session = await this.getSession(sessionId);
@@ -110,98 +700,16 @@ class SessionService {
   async getSession(id: string): Promise<Session | null> {
     const db = await getDatabase();
 
-    // Fetch session
-    let sessionRow: SessionRow | null = null;
+    let session: Session | null = null;
     await db.transactionAsync(async tx => {
       const result = await tx.executeSqlAsync(sessionQueries.getSessionById, [id]);
       if (result.rows && result.rows.length > 0) {
-        sessionRow = result.rows[0] as SessionRow;
+        const row = result.rows[0] as SessionRow;
+        session = toSession(row, await loadChildRows(tx, [row.id], true));
       }
     }, true);
 
-    if (!sessionRow) {
-      return null;
-    }
-
-    // Type assertion to help TypeScript - sessionRow is definitely SessionRow here
-    const session = sessionRow as SessionRow;
-
-    // Fetch coffees
-    let coffeeRows: CoffeeRow[] = [];
-    await db.transactionAsync(async tx => {
-      const result = await tx.executeSqlAsync(coffeeQueries.getCoffeesBySession, [id]);
-      if (result.rows) {
-        coffeeRows = result.rows as CoffeeRow[];
-      }
-    }, true);
-
-    // Fetch cups and flavors for each coffee
-    const coffees: CoffeeEntry[] = [];
-    for (const coffeeRow of coffeeRows) {
-      let cupRows: CupRow[] = [];
-      await db.transactionAsync(async tx => {
-        const result = await tx.executeSqlAsync(cupQueries.getCupsByCoffee, [coffeeRow.id]);
-        if (result.rows) {
-          cupRows = result.rows as CupRow[];
-        }
-      }, true);
-
-      const cups: Cup[] = [];
-      for (const cupRow of cupRows) {
-        let flavorRows: SelectedFlavorRow[] = [];
-        await db.transactionAsync(async tx => {
-          const result = await tx.executeSqlAsync(flavorQueries.getFlavorsByCup, [cupRow.id]);
-          if (result.rows) {
-            flavorRows = result.rows as SelectedFlavorRow[];
-          }
-        }, true);
-
-        cups.push({
-          cupId: cupRow.id,
-          position: cupRow.position,
-          ratings: {
-            acidity: (cupRow.acidity || 3) as ScoreValue,
-            sweetness: (cupRow.sweetness || 3) as ScoreValue,
-            body: (cupRow.body || 3) as ScoreValue,
-            clarity: (cupRow.clarity || 3) as ScoreValue,
-            finish: (cupRow.finish || 3) as ScoreValue,
-            enjoyment: cupRow.enjoyment ? (cupRow.enjoyment as ScoreValue) : undefined,
-          },
-          flavors: flavorRows.map(f => ({
-            flavorId: f.flavor_id,
-            intensity: f.intensity as ScoreValue,
-            dominant: f.dominant === 1,
-          })),
-          notes: cupRow.notes || undefined,
-          createdAt: session.created_at,
-          updatedAt: session.updated_at,
-        });
-      }
-
-      coffees.push({
-        coffeeId: coffeeRow.id,
-        name: coffeeRow.name,
-        roaster: coffeeRow.roaster || undefined,
-        origin: coffeeRow.origin || undefined,
-        brewMethod: coffeeRow.brew_method || undefined,
-        roastLevel: (coffeeRow.roast_level || undefined) as RoastLevel | undefined,
-        roastDate: coffeeRow.roast_date || undefined,
-        cups,
-      });
-    }
-
-    return {
-      id: session.id,
-      createdAt: session.created_at,
-      updatedAt: session.updated_at,
-      mode: session.mode as SessionMode,
-      sessionType: session.session_type as SessionType,
-      coffees,
-      notes: session.notes || undefined,
-      tags: session.tags ? JSON.parse(session.tags) : undefined,
-      syncStatus: (session.sync_status || undefined) as SyncStatus | undefined,
-      userId: session.user_id || undefined,
-    };
+    return session;
   }
 
   /**
@@ -215,12 +723,19 @@ class SessionService {
     const now = new Date().toISOString();
 
     await db.transactionAsync(async tx => {
+      // Log what differs from the stored session before overwriting it
+      const stored = await tx.executeSqlAsync(sessionQueries.getSessionById, [session.id]);
+      if (stored.rows.length > 0) {
+        const row = stored.rows[0] as SessionRow;
+        const before = toSession(row, await loadChildRows(tx, [row.id], true));
+        await changeLogService.record(tx, diffSession(before, session));
+      }
+
       // Update session metadata
       await tx.executeSqlAsync(sessionQueries.updateSession, [
         now, // updated_at
         session.notes || null,
         session.tags ? JSON.stringify(session.tags) : null,
-        session.syncStatus || 'local-only',
         session.id,
       ]);
 
@@ -236,23 +751,27 @@ class SessionService {
           coffee.coffeeId,
         ]);
 
+        if (coffee.scaForm) {
+          await this.writeSCAForm(tx, coffee.coffeeId, coffee.scaForm);
+        }
+
         // Update cups
         for (const cup of coffee.cups) {
-          await tx.executeSqlAsync(cupQueries.updateCupScores, [
-            cup.ratings.acidity,
-            cup.ratings.sweetness,
-            cup.ratings.body,
-            cup.ratings.clarity,
-            cup.ratings.finish,
-            cup.ratings.enjoyment || null,
-            cup.cupId,
-          ]);
+          await this.writeCupScores(tx, cup.cupId, cup.ratings);
+          await this.writeCupDefects(tx, cup.cupId, cup.defects);
 
           await tx.executeSqlAsync(cupQueries.updateCupNotes, [
             cup.notes || null,
             cup.cupId,
           ]);
 
+          if (cup.cvaDescriptive) {
+            await this.writeCVADescriptive(tx, cup.cupId, cup.cvaDescriptive);
+          }
+          if (cup.cvaAffective) {
+            await this.writeCVAAffective(tx, cup.cupId, cup.cvaAffective);
+          }
+
           // Update flavors - delete all and re-insert
           await tx.executeSqlAsync(flavorQueries.deleteFlavorsByCup, [cup.cupId]);
 
@@ -272,100 +791,277 @@ class SessionService {
   }
 
   /**
-   * Soft delete a session (mark as deleted, don't remove from DB).
-   * Note: Currently performs hard delete. Soft delete requires schema change.
+   * Soft delete a session (move to trash, don't remove from DB).
+   * Trashed sessions are hidden from lists and analytics until restored or purged.
    *
    * @param id - Session ID
    */
   async deleteSession(id: string): Promise<void> {
-    // For now, perform hard delete
-    // In future, add a 'deleted_at' column and mark as deleted
-    await this.hardDeleteSession(id);
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+
+    await db.transactionAsync(async tx => {
+      await tx.executeSqlAsync(sessionQueries.softDeleteSession, [now, now, id]);
+      await changeLogService.record(tx, [
+        {
+          sessionId: id,
+          entity: 'session',
+          entityId: id,
+          operation: 'update',
+          fields: ['deletedAt'],
+        },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Moved session ${id} to trash`);
+  }
+
+  /**
+   * Restore a session from trash.
+   *
+   * @param id - Session ID
+   */
+  async restoreSession(id: string): Promise<void> {
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      await tx.executeSqlAsync(sessionQueries.restoreSession, [new Date().toISOString(), id]);
+      await changeLogService.record(tx, [
+        {
+          sessionId: id,
+          entity: 'session',
+          entityId: id,
+          operation: 'update',
+          fields: ['deletedAt'],
+        },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Restored session ${id} from trash`);
   }
 
   /**
    * Permanently remove a session from database.
+   * Child rows are deleted explicitly rather than relying on foreign key cascades.
    *
    * @param id - Session ID
    */
   async hardDeleteSession(id: string): Promise<void> {
+    await this.hardDeleteSessions([id]);
+  }
+
+  /**
+   * Permanently remove sessions from database, after one automatic backup.
+   *
+   * @param ids - Session IDs
+   * @throws AppError if the backup fails; nothing is deleted then
+   */
+  async hardDeleteSessions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await backupService.createAutoBackup('before-delete');
+
     const db = await getDatabase();
 
     await db.transactionAsync(async tx => {
-      await tx.executeSqlAsync(sessionQueries.deleteSession, [id]);
+      for (const id of ids) {
+        await this.deleteSessionRows(tx, id);
+      }
     }, false);
 
-    console.log(`[SessionService] Deleted session ${id}`);
+    console.log(`[SessionService] Deleted ${ids.length} session(s)`);
   }
 
   /**
-   * Get all sessions, optionally filtered and sorted.
+   * Permanently remove every session, trash included, after one automatic
+   * backup. Each goes through the same delete as hardDeleteSessions.
    *
-   * @param filters - Optional filter criteria
-   * @returns Promise<Session[]> - Array of sessions
+   * @returns Promise<number> - Number of sessions removed
+   * @throws AppError if the backup fails; nothing is deleted then
    */
-  async getAllSessions(filters?: SessionFilters): Promise<Session[]> {
+  async clearAllSessions(): Promise<number> {
+    await backupService.createAutoBackup('before-clear');
+
     const db = await getDatabase();
 
-    // Build query based on filters
-    let query = 'SELECT * FROM sessions WHERE 1=1';
-    const params: (string | number)[] = [];
+    let count = 0;
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(sessionQueries.getAllSessionIds, []);
+      const ids = result.rows.map(row => row.id as string);
+      for (const id of ids) {
+        await this.deleteSessionRows(tx, id);
+      }
+      count = ids.length;
+    }, false);
 
-    if (filters?.type) {
-      query += ' AND session_type = ?';
-      params.push(filters.type);
-    }
+    console.log(`[SessionService] Cleared all data (${count} session(s))`);
+    return count;
+  }
 
-    if (filters?.startDate) {
-      query += ' AND created_at >= ?';
-      params.push(filters.startDate);
-    }
+  /**
+   * Delete a session and all its rows inside the caller's transaction.
+   */
+  private async deleteSessionRows(tx: SQLTransactionAsync, id: string): Promise<void> {
+    await tx.executeSqlAsync(sessionQueries.deleteFlavorsBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteCupScoresBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteCupDefectsBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteSCAScoresBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteCVADescriptiveBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteCVADescriptorsBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteCVAAffectiveBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteTriangleDescriptorsBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteTriangleSetsBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteTasterScoresBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteTasterFlavorsBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteSessionTastersBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteCupsBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteCoffeesBySession, [id]);
+    await tx.executeSqlAsync(sessionQueries.deleteSession, [id]);
+    await changeLogService.record(tx, [
+      { sessionId: id, entity: 'session', entityId: id, operation: 'delete', fields: [] },
+    ]);
+  }
 
-    if (filters?.endDate) {
-      query += ' AND created_at <= ?';
-      params.push(filters.endDate);
-    }
+  /**
+   * Get all sessions in trash, most recently deleted first.
+   *
+   * @returns Promise<SessionSummary[]> - Trashed sessions without flavors (deletedAt is set)
+   */
+  async getDeletedSessions(): Promise<SessionSummary[]> {
+    const db = await getDatabase();
 
-    // Sorting
-    const sortBy = filters?.sortBy || 'createdAt';
-    const sortOrder = filters?.sortOrder || 'desc';
-    const sortColumn = sortBy === 'createdAt' ? 'created_at' : 'updated_at';
-    query += ` ORDER BY ${sortColumn} ${sortOrder.toUpperCase()}`;
+    let sessions: SessionSummary[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(sessionQueries.getDeletedSessions, []);
+      const rows = (result.rows || []) as SessionRow[];
+      const children = await loadChildRows(
+        tx,
+        rows.map(row => row.id),
+        false
+      );
+      sessions = rows.map(row => toSessionSummary(row, children));
+    }, true);
 
-    // Pagination
-    if (filters?.limit) {
-      query += ' LIMIT ?';
-      params.push(filters.limit);
-    }
+    return sessions;
+  }
 
-    if (filters?.offset) {
-      query += ' OFFSET ?';
-      params.push(filters.offset);
-    }
+  /**
+   * Permanently delete sessions that have been in trash longer than the retention period.
+   *
+   * @param retentionDays - Days a session stays in trash before purge
+   * @returns Promise<number> - Number of sessions purged
+   */
+  async purgeDeletedSessions(retentionDays: number): Promise<number> {
+    const db = await getDatabase();
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
 
-    let sessionRows: SessionRow[] = [];
+    let expiredIds: string[] = [];
     await db.transactionAsync(async tx => {
-      const result = await tx.executeSqlAsync(query, params);
+      const result = await tx.executeSqlAsync(sessionQueries.getExpiredDeletedSessions, [cutoff]);
       if (result.rows) {
-        sessionRows = result.rows as SessionRow[];
+        expiredIds = result.rows.map(row => row.id as string);
       }
     }, true);
 
-    // Load full session data for each
-    const sessions: Session[] = [];
-    for (const row of sessionRows) {
-      const session = await this.getSession(row.id);
-      if (session) {
-        sessions.push(session);
-      }
+    await this.hardDeleteSessions(expiredIds);
+
+    if (expiredIds.length > 0) {
+      console.log(
+        `[SessionService] Purged ${expiredIds.length} session(s) deleted before ${cutoff}`
+      );
+    }
+    return expiredIds.length;
+  }
+
+  /**
+   * Get all sessions not in trash, optionally filtered and sorted.
+   * Related coffees, cups and flavors are loaded in batches.
+   *
+   * @param filters - Optional filter criteria
+   * @returns Promise<Session[]> - Array of sessions
+   */
+  async getAllSessions(filters?: SessionFilters): Promise<Session[]> {
+    const db = await getDatabase();
+    const { query, params } = buildSessionListQuery(filters);
+
+    let sessions: Session[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(query, params);
+      const rows = (result.rows || []) as SessionRow[];
+      const children = await loadChildRows(
+        tx,
+        rows.map(row => row.id),
+        true
+      );
+      sessions = rows.map(row => toSession(row, children));
+    }, true);
+
+    return sessions;
+  }
+
+  /**
+   * Get lightweight summaries of sessions not in trash for list screens.
+   * Same filters as getAllSessions, but flavors are not loaded.
+   *
+   * @param filters - Optional filter criteria
+   * @returns Promise<SessionSummary[]> - Array of session summaries
+   */
+  async getSessionSummaries(filters?: SessionFilters): Promise<SessionSummary[]> {
+    const db = await getDatabase();
+    const { query, params } = buildSessionListQuery(filters);
+
+    let sessions: SessionSummary[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(query, params);
+      const rows = (result.rows || []) as SessionRow[];
+      const children = await loadChildRows(
+        tx,
+        rows.map(row => row.id),
+        false
+      );
+      sessions = rows.map(row => toSessionSummary(row, children));
+    }, true);
+
+    return sessions;
+  }
+
+  /**
+   * Full-text search sessions not in trash by coffee details, notes, tags and
+   * flavor names. Results are ranked by relevance.
+   *
+   * @param text - Search text; every word must match (prefix matching)
+   * @param limit - Maximum results (default 200)
+   * @returns Promise<SessionSummary[]> - Matching session summaries, best match first
+   */
+  async searchSessions(text: string, limit: number = 200): Promise<SessionSummary[]> {
+    const match = toMatchExpression(text);
+    if (!match) {
+      return [];
     }
 
+    const db = await getDatabase();
+
+    let sessions: SessionSummary[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(sessionQueries.searchSessions, [match, limit]);
+      const rows = (result.rows || []) as SessionRow[];
+      const children = await loadChildRows(
+        tx,
+        rows.map(row => row.id),
+        false
+      );
+      sessions = rows.map(row => toSessionSummary(row, children));
+    }, true);
+
     return sessions;
   }
 
   /**
    * Duplicate an existing session (new ID, same data).
    *
+   * A copy of a blind session is sealed again, under new codes. Triangle
+   * sets are not copied; a copied triangulation session starts a fresh run.
+   * A group session keeps its tasters and their scores.
+   *
    * @param id - Session ID to duplicate
    * @returns Promise<Session> - Duplicated session
    */
@@ -378,6 +1074,7 @@ class SessionService {
     const db = await getDatabase();
     const newSessionId = generateUUID();
     const now = new Date().toISOString();
+    const userId = await authService.getCurrentUserId();
 
     await db.transactionAsync(async tx => {
       // Insert new session
@@ -390,11 +1087,34 @@ class SessionService {
         originalSession.notes || null,
         originalSession.tags ? JSON.stringify(originalSession.tags) : null,
         'local-only',
-        null,
+        userId,
+        originalSession.protocol ?? null,
+        originalSession.templateId,
+        originalSession.blindCoding ?? null,
+        null, // revealed_at
       ]);
+      const changes: ChangeInput[] = [
+        {
+          sessionId: newSessionId,
+          entity: 'session',
+          entityId: newSessionId,
+          operation: 'insert',
+          fields: [],
+        },
+      ];
+
+      for (const taster of originalSession.tasters) {
+        await this.writeSessionTaster(tx, newSessionId, taster);
+      }
 
       // Duplicate coffees
+      const { blindCoding } = originalSession;
+      const blindCodes: string[] = [];
       for (const coffee of originalSession.coffees) {
+        const blindCode =
+          blindCoding && coffee.blindCode ? generateBlindCode(blindCoding, blindCodes) : null;
+        if (blindCode) blindCodes.push(blindCode);
+
         const newCoffeeId = generateUUID();
         await tx.executeSqlAsync(coffeeQueries.insertCoffee, [
           newCoffeeId,
@@ -405,7 +1125,20 @@ class SessionService {
           coffee.brewMethod || null,
           coffee.roastLevel || null,
           coffee.roastDate || null,
+          coffee.catalogId || null,
+          blindCode,
         ]);
+        changes.push({
+          sessionId: newSessionId,
+          entity: 'coffee',
+          entityId: newCoffeeId,
+          operation: 'insert',
+          fields: [],
+        });
+
+        if (coffee.scaForm) {
+          await this.writeSCAForm(tx, newCoffeeId, coffee.scaForm);
+        }
 
         // Duplicate cups
         for (const cup of coffee.cups) {
@@ -414,14 +1147,27 @@ class SessionService {
             newCupId,
             newCoffeeId,
             cup.position,
-            cup.ratings.acidity,
-            cup.ratings.sweetness,
-            cup.ratings.body,
-            cup.ratings.clarity,
-            cup.ratings.finish,
-            cup.ratings.enjoyment || null,
             cup.notes || null,
           ]);
+          changes.push({
+            sessionId: newSessionId,
+            entity: 'cup',
+            entityId: newCupId,
+            operation: 'insert',
+            fields: [],
+          });
+          await this.writeCupScores(tx, newCupId, cup.ratings);
+          await this.writeCupDefects(tx, newCupId, cup.defects);
+          for (const set of cup.tasterScores) {
+            await this.writeTasterScores(tx, newCupId, set);
+          }
+
+          if (cup.cvaDescriptive) {
+            await this.writeCVADescriptive(tx, newCupId, cup.cvaDescriptive);
+          }
+          if (cup.cvaAffective) {
+            await this.writeCVAAffective(tx, newCupId, cup.cvaAffective);
+          }
 
           // Duplicate flavors
           for (const flavor of cup.flavors) {
@@ -434,6 +1180,7 @@ class SessionService {
           }
         }
       }
+      await changeLogService.record(tx, changes);
     }, false);
 
     console.log(`[SessionService] Duplicated session ${id} → ${newSessionId}`);
@@ -447,6 +1194,8 @@ class SessionService {
 
   /**
    * Add a coffee to an existing session.
+   * The coffee is linked to its library entry, which is created if needed,
+   * and in a blind session is given the next blind code.
    *
    * @param sessionId - Session ID
    * @param coffee - Coffee form data
@@ -461,6 +1210,9 @@ class SessionService {
     const cupId = generateUUID();
 
     await db.transactionAsync(async tx => {
+      const catalogId = await coffeeLibraryService.resolveCatalogId(tx, coffee);
+      const blindCode = await this.nextBlindCode(tx, sessionId);
+
       // Insert coffee
       await tx.executeSqlAsync(coffeeQueries.insertCoffee, [
         coffeeId,
@@ -471,6 +1223,8 @@ class SessionService {
         coffee.brewMethod || null,
         coffee.roastLevel || null,
         coffee.roastDate ? coffee.roastDate.toISOString() : null,
+        catalogId,
+        blindCode,
       ]);
 
       // Insert default cup
@@ -478,14 +1232,12 @@ class SessionService {
         cupId,
         coffeeId,
         1, // position
-        null, // acidity
-        null, // sweetness
-        null, // body
-        null, // clarity
-        null, // finish
-        null, // enjoyment
         null, // notes
       ]);
+      await changeLogService.record(tx, [
+        { sessionId, entity: 'coffee', entityId: coffeeId, operation: 'insert', fields: [] },
+        { sessionId, entity: 'cup', entityId: cupId, operation: 'insert', fields: [] },
+      ]);
 
       // Update session updated_at
       await tx.executeSqlAsync(
@@ -505,8 +1257,73 @@ class SessionService {
     return coffeeEntry;
   }
 
+  /**
+   * Next blind code for a coffee added to a session.
+   *
+   * @returns Blind code, or null if the session is not blind
+   */
+  private async nextBlindCode(tx: SQLTransactionAsync, sessionId: string): Promise<string | null> {
+    const session = await tx.executeSqlAsync(sessionQueries.getSessionById, [sessionId]);
+    const blindCoding = (session.rows[0] as SessionRow | undefined)?.blind_coding;
+    if (!blindCoding) return null;
+
+    const codes = await tx.executeSqlAsync(coffeeQueries.getBlindCodes, [sessionId]);
+    return generateBlindCode(
+      blindCoding as BlindCoding,
+      codes.rows.map(row => row.blind_code as string)
+    );
+  }
+
+  /**
+   * Reveal the coffees of a blind session. The reveal time is stored, so
+   * scores given blind can be told apart from edits made after it
+   * (see hasSightedEdits). Revealing is final; a session already revealed
+   * keeps its original reveal time.
+   *
+   * @param id - Session ID
+   * @returns ISO8601 reveal time
+   * @throws AppError if the session is not blind
+   */
+  async revealSession(id: string): Promise<string> {
+    const session = await this.getSession(id);
+    if (!session) {
+      throw new Error(`Session ${id} not found`);
+    }
+    if (!session.blindCoding) {
+      throw new AppError(
+        `Session ${id} is not blind`,
+        'NOT_BLIND_SESSION',
+        'Only blind sessions can be revealed.'
+      );
+    }
+    if (session.revealedAt) {
+      return session.revealedAt;
+    }
+
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+
+    await db.transactionAsync(async tx => {
+      await tx.executeSqlAsync(sessionQueries.revealSession, [now, now, id]);
+      await changeLogService.record(tx, [
+        {
+          sessionId: id,
+          entity: 'session',
+          entityId: id,
+          operation: 'update',
+          fields: ['revealedAt'],
+        },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Revealed blind session ${id}`);
+    return now;
+  }
+
   /**
    * Remove a coffee from a session.
+   * Triangle sets compare the session's two coffees, so a triangulation
+   * session loses its sets with either coffee.
    *
    * @param sessionId - Session ID
    * @param coffeeId - Coffee ID
@@ -515,6 +1332,32 @@ class SessionService {
     const db = await getDatabase();
 
     await db.transactionAsync(async tx => {
+      const sets = await tx.executeSqlAsync(triangleQueries.getSetsBySessions(1), [sessionId]);
+      await changeLogService.record(tx, [
+        { sessionId, entity: 'coffee', entityId: coffeeId, operation: 'delete', fields: [] },
+        ...(sets.rows as TriangleSetRow[]).map(
+          (row): ChangeInput => ({
+            sessionId,
+            entity: 'triangle-set',
+            entityId: row.id,
+            operation: 'delete',
+            fields: [],
+          })
+        ),
+      ]);
+
+      await tx.executeSqlAsync(scaQueries.deleteSCAScore, [coffeeId]);
+      await tx.executeSqlAsync(scoreQueries.deleteScoresByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(defectQueries.deleteDefectsByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(cvaQueries.deleteDescriptiveByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(cvaQueries.deleteDescriptorsByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(cvaQueries.deleteAffectiveByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(tasterQueries.deleteScoresByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(tasterQueries.deleteFlavorsByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(sessionQueries.deleteTriangleDescriptorsBySession, [sessionId]);
+      await tx.executeSqlAsync(sessionQueries.deleteTriangleSetsBySession, [sessionId]);
+      await tx.executeSqlAsync(coffeeQueries.deleteFlavorsByCoffee, [coffeeId]);
+      await tx.executeSqlAsync(coffeeQueries.deleteCupsByCoffee, [coffeeId]);
       await tx.executeSqlAsync(coffeeQueries.deleteCoffee, [coffeeId]);
 
       // Update session updated_at
@@ -528,53 +1371,659 @@ class SessionService {
   }
 
   /**
-   * Update structural scores for a specific cup.
+   * Update scores for a specific cup. Given attributes are replaced; the
+   * rest keep their current score.
    *
    * @param cupId - Cup ID
-   * @param scores - Partial structural scores to update
+   * @param scores - Scores keyed by attribute of the session's template
+   * @throws AppError if a score is not an attribute of the template or off its scale
    */
-  async updateCupScores(cupId: string, scores: Partial<StructuralScores>): Promise<void> {
+  async updateCupScores(cupId: string, scores: CupScores): Promise<void> {
     const db = await getDatabase();
 
-    // Get current cup data
-    let currentCup: CupRow | null = null;
+    // Get the template of the cup's session
+    let templateId: string | null = null;
     await db.transactionAsync(async tx => {
-      const result = await tx.executeSqlAsync(cupQueries.getCupById, [cupId]);
+      const result = await tx.executeSqlAsync(cupQueries.getCupTemplateId, [cupId]);
       if (result.rows && result.rows.length > 0) {
-        currentCup = result.rows[0] as CupRow;
+        templateId = result.rows[0].template_id as string;
       }
     }, true);
 
-    if (!currentCup) {
+    if (!templateId) {
       throw new Error(`Cup ${cupId} not found`);
     }
 
-    // Type assertion to help TypeScript
-    const cup = currentCup as CupRow;
+    const template = templateService.getTemplateOrDefault(templateId);
+    const errors = templateService.validateScores(template, scores, false);
+    if (errors.length > 0) {
+      throw new AppError(
+        `Invalid scores for cup ${cupId}: ${errors.map(e => `${e.field} (${e.message})`).join(', ')}`,
+        'VALIDATION_ERROR',
+        'Some scores are not valid for this scoring template.'
+      );
+    }
 
-    // Merge scores
-    const updatedScores = {
-      acidity: scores.acidity ?? cup.acidity ?? 3,
-      sweetness: scores.sweetness ?? cup.sweetness ?? 3,
-      body: scores.body ?? cup.body ?? 3,
-      clarity: scores.clarity ?? cup.clarity ?? 3,
-      finish: scores.finish ?? cup.finish ?? 3,
-      enjoyment: scores.enjoyment ?? cup.enjoyment ?? null,
-    };
+    await db.transactionAsync(async tx => {
+      for (const [attribute, value] of Object.entries(scores)) {
+        await tx.executeSqlAsync(scoreQueries.upsertScore, [cupId, attribute, value]);
+      }
+      await tx.executeSqlAsync(sessionQueries.touchSessionOfCup, [new Date().toISOString(), cupId]);
+      await changeLogService.record(tx, [
+        {
+          entity: 'cup',
+          entityId: cupId,
+          operation: 'update',
+          fields: Object.keys(scores).map(attribute => `ratings.${attribute}`),
+        },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Updated scores for cup ${cupId}`);
+  }
+
+  /**
+   * Replace all scores of a cup inside an open transaction.
+   * Used by session updates, duplication and import.
+   */
+  async writeCupScores(tx: SQLTransactionAsync, cupId: string, scores: CupScores): Promise<void> {
+    await tx.executeSqlAsync(scoreQueries.deleteScoresByCup, [cupId]);
+    for (const [attribute, value] of Object.entries(scores)) {
+      await tx.executeSqlAsync(scoreQueries.upsertScore, [cupId, attribute, value]);
+    }
+  }
+
+  /**
+   * Replace the defects recorded on a cup.
+   *
+   * @param cupId - Cup ID
+   * @param defects - Complete list of the cup's defects (empty to clear)
+   * @throws AppError if a defect is unknown, repeated or out of range
+   */
+  async updateCupDefects(cupId: string, defects: CupDefect[]): Promise<void> {
+    const errors = validateCupDefects(defects);
+    if (errors.length > 0) {
+      throw new AppError(
+        `Invalid defects for cup ${cupId}: ${errors.map(e => `${e.field} (${e.message})`).join(', ')}`,
+        'VALIDATION_ERROR',
+        'Some defects are not valid.'
+      );
+    }
+
+    const db = await getDatabase();
 
     await db.transactionAsync(async tx => {
-      await tx.executeSqlAsync(cupQueries.updateCupScores, [
-        updatedScores.acidity,
-        updatedScores.sweetness,
-        updatedScores.body,
-        updatedScores.clarity,
-        updatedScores.finish,
-        updatedScores.enjoyment,
+      await this.writeCupDefects(tx, cupId, defects);
+      await tx.executeSqlAsync(sessionQueries.touchSessionOfCup, [new Date().toISOString(), cupId]);
+      await changeLogService.record(tx, [
+        { entity: 'cup', entityId: cupId, operation: 'update', fields: ['defects'] },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Updated defects for cup ${cupId}`);
+  }
+
+  /**
+   * Replace all defects of a cup inside an open transaction.
+   * Used by session updates, duplication and import.
+   */
+  async writeCupDefects(
+    tx: SQLTransactionAsync,
+    cupId: string,
+    defects: CupDefect[]
+  ): Promise<void> {
+    await tx.executeSqlAsync(defectQueries.deleteDefectsByCup, [cupId]);
+    for (const defect of defects) {
+      await tx.executeSqlAsync(defectQueries.insertDefect, [
         cupId,
+        defect.defectId,
+        defect.severity,
+        defect.cupCount,
+        defect.beanCount ?? null,
+        defect.notes || null,
+      ]);
+    }
+  }
+
+  /**
+   * Save the SCA cupping form for a coffee in a pro session.
+   *
+   * @param coffeeId - Coffee ID
+   * @param form - Complete SCA form
+   */
+  async updateSCAForm(coffeeId: string, form: SCAForm): Promise<void> {
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      await this.writeSCAForm(tx, coffeeId, form);
+      await tx.executeSqlAsync(sessionQueries.touchSessionOfCoffee, [
+        new Date().toISOString(),
+        coffeeId,
+      ]);
+      await changeLogService.record(tx, [
+        { entity: 'coffee', entityId: coffeeId, operation: 'update', fields: ['scaForm'] },
       ]);
     }, false);
 
-    console.log(`[SessionService] Updated scores for cup ${cupId}`);
+    console.log(`[SessionService] Updated SCA form for coffee ${coffeeId}`);
+  }
+
+  /**
+   * Insert or replace a coffee's SCA form inside an existing transaction.
+   * Used by updateSCAForm, duplicateSession and import.
+   *
+   * @param tx - Open write transaction
+   * @param coffeeId - Coffee ID
+   * @param form - Complete SCA form
+   */
+  async writeSCAForm(tx: SQLTransactionAsync, coffeeId: string, form: SCAForm): Promise<void> {
+    const now = new Date().toISOString();
+    await tx.executeSqlAsync(scaQueries.upsertSCAScore, [
+      coffeeId,
+      form.fragranceAroma,
+      form.dryIntensity,
+      form.breakIntensity,
+      form.flavor,
+      form.aftertaste,
+      form.acidity,
+      form.acidityIntensity,
+      form.body,
+      form.bodyLevel,
+      form.balance,
+      form.overall,
+      toCupMask(form.uniformity),
+      toCupMask(form.cleanCup),
+      toCupMask(form.sweetness),
+      form.taintCups,
+      form.faultCups,
+      form.notes || null,
+      now,
+      now,
+    ]);
+  }
+
+  /**
+   * Save the CVA descriptive form (intensities and descriptors) for a cup.
+   *
+   * @param cupId - Cup ID
+   * @param form - Complete descriptive form
+   */
+  async updateCVADescriptive(cupId: string, form: CVADescriptiveForm): Promise<void> {
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      await this.writeCVADescriptive(tx, cupId, form);
+      await tx.executeSqlAsync(sessionQueries.touchSessionOfCup, [new Date().toISOString(), cupId]);
+      await changeLogService.record(tx, [
+        { entity: 'cup', entityId: cupId, operation: 'update', fields: ['cvaDescriptive'] },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Updated CVA descriptive form for cup ${cupId}`);
+  }
+
+  /**
+   * Save the CVA affective form (hedonic scores) for a cup.
+   *
+   * @param cupId - Cup ID
+   * @param form - Complete affective form
+   */
+  async updateCVAAffective(cupId: string, form: CVAAffectiveForm): Promise<void> {
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      await this.writeCVAAffective(tx, cupId, form);
+      await tx.executeSqlAsync(sessionQueries.touchSessionOfCup, [new Date().toISOString(), cupId]);
+      await changeLogService.record(tx, [
+        { entity: 'cup', entityId: cupId, operation: 'update', fields: ['cvaAffective'] },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Updated CVA affective form for cup ${cupId}`);
+  }
+
+  /**
+   * Insert or replace a cup's CVA descriptive form and its descriptors
+   * inside an existing transaction.
+   */
+  async writeCVADescriptive(
+    tx: SQLTransactionAsync,
+    cupId: string,
+    form: CVADescriptiveForm
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await tx.executeSqlAsync(cvaQueries.upsertDescriptive, [
+      cupId,
+      form.fragrance,
+      form.aroma,
+      form.flavor,
+      form.aftertaste,
+      form.acidity,
+      form.sweetness,
+      form.mouthfeel,
+      form.notes || null,
+      now,
+      now,
+    ]);
+
+    // Descriptors - delete all and re-insert
+    await tx.executeSqlAsync(cvaQueries.deleteDescriptorsByCup, [cupId]);
+    for (const flavorId of form.aromaDescriptors) {
+      await tx.executeSqlAsync(cvaQueries.insertDescriptor, [cupId, 'aroma', flavorId]);
+    }
+    for (const flavorId of form.flavorDescriptors) {
+      await tx.executeSqlAsync(cvaQueries.insertDescriptor, [cupId, 'flavor', flavorId]);
+    }
+  }
+
+  /**
+   * Insert or replace a cup's CVA affective form inside an existing transaction.
+   */
+  async writeCVAAffective(
+    tx: SQLTransactionAsync,
+    cupId: string,
+    form: CVAAffectiveForm
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await tx.executeSqlAsync(cvaQueries.upsertAffective, [
+      cupId,
+      form.fragrance,
+      form.aroma,
+      form.flavor,
+      form.aftertaste,
+      form.acidity,
+      form.sweetness,
+      form.mouthfeel,
+      form.overall,
+      form.nonUniform ? 1 : 0,
+      form.defective ? 1 : 0,
+      form.notes || null,
+      now,
+      now,
+    ]);
+  }
+
+  /**
+   * Pour a new set of a triangulation session: one of its two coffees is
+   * picked at random as the odd cup and placed at a random position.
+   *
+   * @param sessionId - Session ID
+   * @returns Promise<TriangleSet> - Created set, not yet answered
+   * @throws AppError if the session is not a triangulation session with two coffees
+   */
+  async createTriangleSet(sessionId: string): Promise<TriangleSet> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.sessionType !== 'triangulation' || session.coffees.length !== 2) {
+      throw new AppError(
+        `Session ${sessionId} is not a triangle test of two coffees`,
+        'INVALID_TRIANGLE_SESSION',
+        'Triangle tests need exactly two coffees.'
+      );
+    }
+
+    const db = await getDatabase();
+    let triangleSet: TriangleSet = {
+      setId: generateUUID(),
+      setNumber: 1,
+      ...createTriangleLayout([session.coffees[0].coffeeId, session.coffees[1].coffeeId]),
+      chosenPosition: null,
+      descriptors: [],
+      createdAt: new Date().toISOString(),
+      answeredAt: null,
+    };
+
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(triangleQueries.getNextSetNumber, [sessionId]);
+      triangleSet = { ...triangleSet, setNumber: result.rows[0].set_number as number };
+      await this.writeTriangleSet(tx, sessionId, triangleSet);
+      await changeLogService.record(tx, [
+        {
+          sessionId,
+          entity: 'triangle-set',
+          entityId: triangleSet.setId,
+          operation: 'insert',
+          fields: [],
+        },
+      ]);
+    }, false);
+
+    console.log(
+      `[SessionService] Created triangle set ${triangleSet.setNumber} of session ${sessionId}`
+    );
+    return triangleSet;
+  }
+
+  /**
+   * Record the cup the taster picked as the odd one. Answers are final, so
+   * a set cannot be re-answered once its odd cup has been shown.
+   *
+   * @param setId - Triangle set ID
+   * @param chosenPosition - Cup picked as the odd one (1-3)
+   * @param descriptors - Flavor IDs noted on the picked cup
+   * @param notes - Optional notes
+   * @throws AppError if the position is invalid or the set is already answered
+   */
+  async answerTriangleSet(
+    setId: string,
+    chosenPosition: TrianglePosition,
+    descriptors: number[] = [],
+    notes?: string
+  ): Promise<void> {
+    if (!TRIANGLE_POSITIONS.includes(chosenPosition)) {
+      throw new AppError(
+        `Invalid triangle position: ${chosenPosition}`,
+        'VALIDATION_ERROR',
+        'Pick one of the three cups.'
+      );
+    }
+
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(triangleQueries.getSetById, [setId]);
+      const row = result.rows[0] as TriangleSetRow | undefined;
+      if (!row) {
+        throw new Error(`Triangle set ${setId} not found`);
+      }
+      if (row.chosen_position !== null) {
+        throw new AppError(
+          `Triangle set ${setId} is already answered`,
+          'TRIANGLE_SET_ANSWERED',
+          'This set has already been answered.'
+        );
+      }
+
+      await tx.executeSqlAsync(triangleQueries.answerSet, [
+        chosenPosition,
+        notes || null,
+        now,
+        setId,
+      ]);
+      for (const flavorId of descriptors) {
+        await tx.executeSqlAsync(triangleQueries.insertDescriptor, [setId, flavorId]);
+      }
+      await changeLogService.record(tx, [
+        {
+          sessionId: row.session_id,
+          entity: 'triangle-set',
+          entityId: setId,
+          operation: 'update',
+          fields: ['chosenPosition', 'descriptors', 'notes', 'answeredAt'],
+        },
+      ]);
+
+      // Update session updated_at
+      await tx.executeSqlAsync('UPDATE sessions SET updated_at = ? WHERE id = ?', [
+        now,
+        row.session_id,
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Answered triangle set ${setId}`);
+  }
+
+  /**
+   * Insert a triangle set and its descriptors inside an open transaction.
+   * Used by createTriangleSet and import.
+   */
+  async writeTriangleSet(
+    tx: SQLTransactionAsync,
+    sessionId: string,
+    set: TriangleSet
+  ): Promise<void> {
+    await tx.executeSqlAsync(triangleQueries.insertSet, [
+      set.setId,
+      sessionId,
+      set.setNumber,
+      set.oddCoffeeId,
+      set.oddPosition,
+      set.chosenPosition ?? null,
+      set.notes || null,
+      set.createdAt,
+      set.answeredAt ?? null,
+    ]);
+
+    await tx.executeSqlAsync(triangleQueries.deleteDescriptorsBySet, [set.setId]);
+    for (const flavorId of set.descriptors) {
+      await tx.executeSqlAsync(triangleQueries.insertDescriptor, [set.setId, flavorId]);
+    }
+  }
+
+  /**
+   * Set the tasters of a group session, in the order the device is handed
+   * around. The group can be changed until the first taster submits.
+   *
+   * @param sessionId - Session ID
+   * @param tasterIds - Taster profile IDs, in hand-around order
+   * @throws AppError if the session cannot be cupped by a group, the group is too small
+   *   or scoring has started
+   */
+  async setSessionTasters(sessionId: string, tasterIds: string[]): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.mode !== 'taste' || session.sessionType === 'triangulation') {
+      throw new AppError(
+        `Session ${sessionId} cannot be cupped by a group`,
+        'INVALID_GROUP_SESSION',
+        'Group cupping is available for taste sessions.'
+      );
+    }
+    if (new Set(tasterIds).size !== tasterIds.length || tasterIds.length < MIN_GROUP_TASTERS) {
+      throw new AppError(
+        `Invalid tasters for session ${sessionId}: ${tasterIds.join(', ')}`,
+        'VALIDATION_ERROR',
+        `Pick at least ${MIN_GROUP_TASTERS} different tasters.`
+      );
+    }
+    if (session.tasters.some(taster => taster.submittedAt)) {
+      throw new AppError(
+        `Session ${sessionId} already has submitted scores`,
+        'GROUP_STARTED',
+        'The group cannot change once scores are in.'
+      );
+    }
+
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      await tx.executeSqlAsync(sessionQueries.deleteSessionTastersBySession, [sessionId]);
+      for (const [index, tasterId] of tasterIds.entries()) {
+        await tx.executeSqlAsync(tasterQueries.insertSessionTaster, [
+          sessionId,
+          tasterId,
+          index + 1, // position
+          null, // submitted_at
+        ]);
+      }
+      await changeLogService.record(tx, [
+        {
+          sessionId,
+          entity: 'session',
+          entityId: sessionId,
+          operation: 'update',
+          fields: ['tasters'],
+        },
+      ]);
+    }, false);
+
+    console.log(`[SessionService] Set ${tasterIds.length} tasters for session ${sessionId}`);
+  }
+
+  /**
+   * Submit one taster's scores and flavors for the cups of a group session.
+   * Submissions are final. When the last taster submits, each cup is given
+   * the group mean as its scores and the tasters' merged flavors, so lists,
+   * filters and analytics treat the session like any other.
+   *
+   * @param sessionId - Session ID
+   * @param tasterId - Taster submitting
+   * @param cups - The taster's scores and flavors per cup
+   * @returns Promise<boolean> - Whether every taster has now submitted
+   * @throws AppError if the taster is not in the session, has already submitted
+   *   or a score is not valid for the session's template
+   */
+  async submitTasterScores(
+    sessionId: string,
+    tasterId: string,
+    cups: Array<{ cupId: string } & Omit<TasterScoreSet, 'tasterId'>>
+  ): Promise<boolean> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const taster = session.tasters.find(t => t.tasterId === tasterId);
+    if (!taster) {
+      throw new AppError(
+        `Taster ${tasterId} is not in session ${sessionId}`,
+        'TASTER_NOT_IN_SESSION',
+        'This taster is not part of the session.'
+      );
+    }
+    if (taster.submittedAt) {
+      throw new AppError(
+        `Taster ${tasterId} already submitted for session ${sessionId}`,
+        'TASTER_SUBMITTED',
+        `${taster.name} has already submitted.`
+      );
+    }
+
+    const template = templateService.getTemplateOrDefault(session.templateId);
+    const sessionCups = new Map(
+      session.coffees.flatMap(coffee => coffee.cups).map(cup => [cup.cupId, cup])
+    );
+    for (const cup of cups) {
+      if (!sessionCups.has(cup.cupId)) {
+        throw new Error(`Cup ${cup.cupId} is not in session ${sessionId}`);
+      }
+      const errors = templateService.validateScores(template, cup.ratings, false);
+      if (errors.length > 0) {
+        throw new AppError(
+          `Invalid scores for cup ${cup.cupId}: ${errors.map(e => `${e.field} (${e.message})`).join(', ')}`,
+          'VALIDATION_ERROR',
+          'Some scores are not valid for this scoring template.'
+        );
+      }
+    }
+
+    const isComplete = session.tasters.every(t => t.tasterId === tasterId || !!t.submittedAt);
+    const db = await getDatabase();
+    const now = new Date().toISOString();
+
+    await db.transactionAsync(async tx => {
+      for (const cup of cups) {
+        await this.writeTasterScores(tx, cup.cupId, {
+          tasterId,
+          ratings: cup.ratings,
+          flavors: cup.flavors,
+        });
+      }
+      await tx.executeSqlAsync(tasterQueries.submitSessionTaster, [now, sessionId, tasterId]);
+      const changes: ChangeInput[] = [
+        {
+          sessionId,
+          entity: 'session',
+          entityId: sessionId,
+          operation: 'update',
+          fields: ['tasters'],
+        },
+        ...cups.map(
+          (cup): ChangeInput => ({
+            sessionId,
+            entity: 'cup',
+            entityId: cup.cupId,
+            operation: 'update',
+            fields: ['tasterScores'],
+          })
+        ),
+      ];
+
+      if (isComplete) {
+        const submitted = new Map(cups.map(cup => [cup.cupId, cup]));
+        for (const [cupId, cup] of sessionCups) {
+          const own = submitted.get(cupId);
+          const sets = [
+            ...cup.tasterScores.filter(set => set.tasterId !== tasterId),
+            ...(own ? [{ tasterId, ratings: own.ratings, flavors: own.flavors }] : []),
+          ];
+          await this.writeCupScores(tx, cupId, computeGroupMean(template, sets));
+
+          await tx.executeSqlAsync(flavorQueries.deleteFlavorsByCup, [cupId]);
+          for (const flavor of mergeGroupFlavors(sets)) {
+            await tx.executeSqlAsync(flavorQueries.insertFlavor, [
+              cupId,
+              flavor.flavorId,
+              flavor.intensity,
+              flavor.dominant ? 1 : 0,
+            ]);
+          }
+          changes.push({
+            sessionId,
+            entity: 'cup',
+            entityId: cupId,
+            operation: 'update',
+            fields: ['ratings', 'flavors'],
+          });
+        }
+      }
+      await changeLogService.record(tx, changes);
+
+      // Update session updated_at
+      await tx.executeSqlAsync('UPDATE sessions SET updated_at = ? WHERE id = ?', [now, sessionId]);
+    }, false);
+
+    console.log(
+      `[SessionService] Taster ${tasterId} submitted for session ${sessionId}${isComplete ? ' (group complete)' : ''}`
+    );
+    return isComplete;
+  }
+
+  /**
+   * Add a participant to a group session inside an open transaction.
+   * Used by duplicateSession and import.
+   */
+  async writeSessionTaster(
+    tx: SQLTransactionAsync,
+    sessionId: string,
+    taster: SessionTaster
+  ): Promise<void> {
+    await tx.executeSqlAsync(tasterQueries.insertSessionTaster, [
+      sessionId,
+      taster.tasterId,
+      taster.position,
+      taster.submittedAt ?? null,
+    ]);
+  }
+
+  /**
+   * Replace one taster's scores and flavors of a cup inside an open transaction.
+   * Used by submitTasterScores, duplicateSession and import.
+   */
+  async writeTasterScores(
+    tx: SQLTransactionAsync,
+    cupId: string,
+    set: TasterScoreSet
+  ): Promise<void> {
+    await tx.executeSqlAsync(tasterQueries.deleteScoresByCupAndTaster, [cupId, set.tasterId]);
+    await tx.executeSqlAsync(tasterQueries.deleteFlavorsByCupAndTaster, [cupId, set.tasterId]);
+    for (const [attribute, value] of Object.entries(set.ratings)) {
+      await tx.executeSqlAsync(tasterQueries.insertScore, [cupId, set.tasterId, attribute, value]);
+    }
+    for (const flavor of set.flavors) {
+      await tx.executeSqlAsync(tasterQueries.insertFlavor, [
+        cupId,
+        set.tasterId,
+        flavor.flavorId,
+        flavor.intensity,
+        flavor.dominant ? 1 : 0,
+      ]);
+    }
   }
 
   /**
@@ -599,6 +2048,11 @@ class SessionService {
           flavor.dominant ? 1 : 0,
         ]);
       }
+
+      await tx.executeSqlAsync(sessionQueries.touchSessionOfCup, [new Date().toISOString(), cupId]);
+      await changeLogService.record(tx, [
+        { entity: 'cup', entityId: cupId, operation: 'update', fields: ['flavors'] },
+      ]);
     }, false);
 
     console.log(`[SessionService] Updated flavors for cup ${cupId}`);
@@ -628,6 +2082,15 @@ class SessionService {
          WHERE id = ?`,
         [now, notes || null, tags ? JSON.stringify(tags) : null, sessionId]
       );
+      await changeLogService.record(tx, [
+        {
+          sessionId,
+          entity: 'session',
+          entityId: sessionId,
+          operation: 'update',
+          fields: ['notes', 'tags'],
+        },
+      ]);
     }, false);
 
     console.log(`[SessionService] Updated notes for session ${sessionId}`);
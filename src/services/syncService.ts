@@ -1,11 +1,34 @@
 /**
- * Sync Service (Stub for Phase 2)
+ * Sync Service
  *
- * Provides sync interface for cloud synchronization.
- * All methods return "not implemented" errors in Phase 1.
- * Full implementation planned for Phase 2 with authentication.
+ * Pushes and pulls sessions to a Cupper sync server over the HTTP/JSON
+ * protocol in docs/SYNC_PROTOCOL.md (server/sync-server.js is the reference
+ * implementation). Sessions travel in the export format. The server numbers
+ * every write of a session with a revision, and each push names the revision
+ * it was based on, so edits made on two devices at once surface as a
+ * conflict instead of one silently overwriting the other.
+ *
+ * Local changes are tracked by the v12 sync triggers: any write to a synced
+ * session turns it pending, and removing a session that reached the server
+ * leaves a tombstone until the delete is pushed.
  */
 
+import type { SQLTransactionAsync } from 'expo-sqlite';
+import { getDatabase } from './database/connection';
+import { syncQueries } from './database/queries';
+import type { SessionRow, SyncBaseRow, SyncConflictRow, SyncTombstoneRow } from './database/types';
+import { getLatestVersion } from './database/migrations';
+import { CURRENT_EXPORT_VERSION, toExportSession, upgradeExport } from './exportSchema';
+import { authService } from './authService';
+import { backupService } from './backupService';
+import { changeLogService } from './changeLogService';
+import { importService } from './importService';
+import { sessionService } from './sessionService';
+import type { MergeChoices, SessionMergeResult } from '../types/merge.types';
+import type { Session, SyncStatus } from '../types/session.types';
+import { AppError } from '../utils/errorHandling';
+import { mergeSessions } from '../utils/sessionMerge';
+
 /**
  * Sync result interface
  */
@@ -23,8 +46,8 @@ export interface SyncResult {
 export type ConflictStrategy =
   | 'local-wins' // Keep local version
   | 'remote-wins' // Overwrite with remote version
-  | 'merge' // Combine both versions (manual)
-  | 'ask-user'; // Show UI for user decision
+  | 'merge' // Combine both versions field by field (fails if a field changed on both)
+  | 'ask-user'; // Combine both versions with the sides the user picked
 
 /**
  * Sync service interface
@@ -43,7 +66,11 @@ export interface ISyncService {
   /**
    * Resolve a conflict for a session
    */
-  resolveConflict(sessionId: string, strategy: ConflictStrategy): Promise<void>;
+  resolveConflict(
+    sessionId: string,
+    strategy: ConflictStrategy,
+    choices?: MergeChoices
+  ): Promise<void>;
 
   /**
    * Check if sync is available (requires authentication)
@@ -57,196 +84,990 @@ export interface ISyncService {
 }
 
 /**
- * Sync Service Implementation (Stub)
- *
- * This is a stub implementation for Phase 1.
- * All methods return appropriate "not implemented" responses.
+ * A session as the server holds it: the latest revision, and the session in
+ * the export format (null once deleted)
+ */
+export interface RemoteSession {
+  id: string;
+  revision: number;
+  deleted: boolean;
+  version: string | null; // Export format version of session
+  session: unknown;
+}
+
+/**
+ * A session in conflict with both of its copies, for review
+ */
+export interface SyncConflictDetails {
+  sessionId: string;
+  local: Session;
+  remote: Session | null; // null when the session was deleted on the server
+  merge: SessionMergeResult | null; // null when the session was deleted on the server
+  detectedAt: string; // ISO8601
+}
+
+/**
+ * Version of the sync protocol this client speaks
+ */
+export const SYNC_PROTOCOL_VERSION = 1;
+
+/**
+ * Time allowed for one request to the server
+ */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Changes requested per pull page
+ */
+const PULL_PAGE_SIZE = 50;
+
+/**
+ * Keys of the sync_state table
+ */
+const STATE_KEYS = {
+  serverUrl: 'server_url',
+  cursor: 'pull_cursor',
+  lastSyncTime: 'last_sync_time',
+  account: 'sync_account',
+} as const;
+
+/**
+ * Account recorded for syncing without signing in to the server
+ */
+const GUEST_ACCOUNT = 'guest';
+
+type SessionSyncRow = Pick<SessionRow, 'id' | 'sync_status' | 'sync_revision' | 'local_changes'>;
+
+function emptyResult(): SyncResult {
+  return { success: true, syncedCount: 0, failedCount: 0, conflicts: [] };
+}
+
+function isRemoteSession(value: unknown): value is RemoteSession {
+  if (typeof value !== 'object' || value === null) return false;
+  const remote = value as Record<string, unknown>;
+  return (
+    typeof remote.id === 'string' &&
+    typeof remote.revision === 'number' &&
+    Number.isInteger(remote.revision) &&
+    remote.revision > 0 &&
+    typeof remote.deleted === 'boolean'
+  );
+}
+
+/**
+ * Sync Service - Keeps sessions in step with a sync server
  */
 class SyncService implements ISyncService {
+  // A sync in progress, shared by callers that start another meanwhile
+  private running: Promise<SyncResult> | null = null;
+
+  /**
+   * Get the configured sync server.
+   *
+   * @returns Promise<string | null> - Server base URL, or null if sync is off
+   */
+  async getServerUrl(): Promise<string | null> {
+    return this.getState(STATE_KEYS.serverUrl);
+  }
+
+  /**
+   * Set or clear the sync server. Moving to another server forgets what was
+   * synced with the old one: every session is pushed again as local-only.
+   *
+   * @param url - Server base URL (http or https), or null to turn sync off
+   * @throws AppError if the URL is not http(s)
+   */
+  async setServerUrl(url: string | null): Promise<void> {
+    const trimmed = url?.trim().replace(/\/+$/, '') || null;
+    if (trimmed && !/^https?:\/\/[^\s/]+/i.test(trimmed)) {
+      throw new AppError(
+        `Invalid sync server URL: ${trimmed}`,
+        'INVALID_SERVER_URL',
+        'Enter the server address starting with http:// or https://.'
+      );
+    }
+
+    const current = await this.getServerUrl();
+    if (trimmed === current) return;
+
+    const db = await getDatabase();
+    await db.transactionAsync(async tx => {
+      if (trimmed) {
+        await tx.executeSqlAsync(syncQueries.setState, [STATE_KEYS.serverUrl, trimmed]);
+      } else {
+        await tx.executeSqlAsync(syncQueries.deleteState, [STATE_KEYS.serverUrl]);
+      }
+      await tx.executeSqlAsync(syncQueries.deleteState, [STATE_KEYS.account]);
+      await this.resetSyncState(tx);
+    }, false);
+
+    console.log(`[SyncService] Sync server set to ${trimmed ?? '(none)'}`);
+  }
+
+  /**
+   * Check if a sync server is configured and answering.
+   */
+  async canSync(): Promise<boolean> {
+    const serverUrl = await this.getServerUrl();
+    if (!serverUrl) return false;
+
+    try {
+      const { status, body } = await this.request(serverUrl, 'GET', '/v1/health');
+      const protocol = (body as { protocol?: unknown } | null)?.protocol;
+      return status === 200 && protocol === SYNC_PROTOCOL_VERSION;
+    } catch (error) {
+      console.log('[SyncService] Sync server not reachable:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the time of the last sync that completed without errors.
+   */
+  async getLastSyncTime(): Promise<Date | null> {
+    const value = await this.getState(STATE_KEYS.lastSyncTime);
+    return value ? new Date(value) : null;
+  }
+
+  /**
+   * Count sessions (including those in trash) by sync status.
+   */
+  async getStatusCounts(): Promise<Record<SyncStatus, number>> {
+    const db = await getDatabase();
+    const counts: Record<SyncStatus, number> = {
+      'local-only': 0,
+      synced: 0,
+      pending: 0,
+      conflict: 0,
+    };
+
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(syncQueries.countByStatus, []);
+      for (const row of result.rows) {
+        const status = (row.sync_status || 'local-only') as SyncStatus;
+        counts[status] = (counts[status] || 0) + (row.count as number);
+      }
+    }, true);
+
+    return counts;
+  }
+
+  /**
+   * Pull every change from the server since the last sync, then push local
+   * sessions and deletes. Sessions in conflict are left out until resolved.
+   * Calls made while a sync runs share its result.
+   */
   async syncAll(): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.runSyncAll().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Sync one session: push it if it has local changes, otherwise pull the
+   * server's latest copy.
+   *
+   * @param sessionId - Session ID
+   */
+  async syncSession(sessionId: string): Promise<SyncResult> {
+    const result = emptyResult();
+
+    try {
+      const serverUrl = await this.requireServerUrl();
+      const db = await getDatabase();
+
+      let local = null as SessionSyncRow | null;
+      let tombstone = null as SyncTombstoneRow | null;
+      await db.transactionAsync(async tx => {
+        local = await this.getSessionSyncState(tx, sessionId);
+        const found = await tx.executeSqlAsync(syncQueries.getTombstone, [sessionId]);
+        tombstone = (found.rows[0] as SyncTombstoneRow | undefined) ?? null;
+      }, true);
+
+      if (tombstone) {
+        await this.pushTombstone(serverUrl, tombstone, result);
+      } else if (!local) {
+        throw new AppError(`Session ${sessionId} not found`, 'SESSION_NOT_FOUND');
+      } else if (local.sync_status === 'conflict') {
+        result.conflicts.push(sessionId);
+      } else if (local.sync_status === 'synced') {
+        const remote = await this.fetchRemoteSession(serverUrl, sessionId);
+        if (remote) {
+          await this.applyRemoteChange(remote, result);
+        }
+      } else {
+        await this.pushSession(serverUrl, local, result);
+      }
+      await this.autoMerge(serverUrl, result);
+    } catch (error) {
+      return this.failedResult(result, error);
+    }
+
+    result.success = result.failedCount === 0;
+    return result;
+  }
+
+  /**
+   * Get the sessions in conflict with the server, latest first.
+   */
+  async getConflicts(): Promise<SyncConflictDetails[]> {
+    const db = await getDatabase();
+
+    let sessionIds: string[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(syncQueries.getConflicts, []);
+      sessionIds = result.rows.map(row => row.session_id as string);
+    }, true);
+
+    const conflicts: SyncConflictDetails[] = [];
+    for (const sessionId of sessionIds) {
+      try {
+        conflicts.push(await this.getConflictDetails(sessionId));
+      } catch (error) {
+        console.error(`[SyncService] Skipped unreadable conflict on ${sessionId}:`, error);
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Get both copies of a session in conflict and their three-way merge
+   * against the copy last synced, with the fields that changed on both
+   * sides left to decide.
+   *
+   * @param sessionId - Session ID
+   * @throws AppError if the session is not in conflict or the server copy is invalid
+   */
+  async getConflictDetails(sessionId: string): Promise<SyncConflictDetails> {
+    const { conflict, session, base } = await this.loadConflict(sessionId);
+    const remote = this.toRemoteSession(conflict);
+    const remoteSession = remote.deleted ? null : this.parseRemoteSession(remote);
+
     return {
-      success: false,
-      syncedCount: 0,
-      failedCount: 0,
-      conflicts: [],
-      error: 'Sync not implemented in Phase 1. Coming in Phase 2 with authentication.',
+      sessionId,
+      local: session,
+      remote: remoteSession,
+      merge: remoteSession ? mergeSessions(base, session, remoteSession) : null,
+      detectedAt: conflict.detected_at,
     };
   }
 
-  async syncSession(_sessionId: string): Promise<SyncResult> {
+  /**
+   * Resolve a session in conflict with the server copy kept when it was
+   * detected: 'local-wins' pushes the local session over it, 'remote-wins'
+   * replaces (or removes) the local session with it, and 'merge' and
+   * 'ask-user' save the merge of both and push it. A merge that cannot be
+   * pushed yet is kept and pushed by the next sync.
+   *
+   * @param sessionId - Session ID
+   * @param strategy - Resolution strategy
+   * @param choices - Side picked for each conflicting field ('ask-user' only)
+   * @throws AppError if the session is not in conflict, a merge leaves
+   * fields undecided, or the server cannot be reached
+   */
+  async resolveConflict(
+    sessionId: string,
+    strategy: ConflictStrategy,
+    choices?: MergeChoices
+  ): Promise<void> {
+    const { conflict, state, session, base } = await this.loadConflict(sessionId);
+    const remote = this.toRemoteSession(conflict);
+
+    switch (strategy) {
+      case 'local-wins': {
+        const serverUrl = await this.requireServerUrl();
+        await this.pushResolved(serverUrl, { ...state, sync_revision: remote.revision });
+        break;
+      }
+      case 'remote-wins': {
+        const remoteSession = remote.deleted ? null : this.parseRemoteSession(remote);
+        await backupService.createAutoBackup('before-sync-overwrite');
+        const db = await getDatabase();
+        await db.transactionAsync(async tx => {
+          await this.writeRemote(tx, remote, remoteSession);
+        }, false);
+        break;
+      }
+      case 'merge':
+      case 'ask-user': {
+        if (remote.deleted) {
+          throw new AppError(
+            `Session ${sessionId} was deleted on the server`,
+            'MERGE_UNAVAILABLE',
+            'This session was deleted on the server. Keep your copy or accept the delete.'
+          );
+        }
+        const merge = mergeSessions(
+          base,
+          session,
+          this.parseRemoteSession(remote),
+          strategy === 'ask-user' ? choices : {}
+        );
+        if (merge.conflicts.length > 0) {
+          throw new AppError(
+            `Merge of session ${sessionId} has ${merge.conflicts.length} undecided field(s)`,
+            'MERGE_CONFLICT',
+            'Some fields changed on both sides. Pick which version to keep for each.'
+          );
+        }
+
+        await this.saveMerge(merge.session, remote);
+        const serverUrl = await this.getServerUrl();
+        const merged = await this.readSyncState(sessionId);
+        if (serverUrl && merged) {
+          try {
+            await this.pushResolved(serverUrl, merged);
+          } catch (error) {
+            if (error instanceof AppError && error.code === 'SYNC_CONFLICT') throw error;
+            console.log(`[SyncService] Merge of ${sessionId} will be pushed on next sync:`, error);
+          }
+        }
+        break;
+      }
+    }
+
+    console.log(`[SyncService] Resolved conflict on session ${sessionId} (${strategy})`);
+  }
+
+  // Helper methods
+
+  private async runSyncAll(): Promise<SyncResult> {
+    const result = emptyResult();
+
+    try {
+      const serverUrl = await this.requireServerUrl();
+      await this.pull(serverUrl, result);
+
+      const db = await getDatabase();
+      let toPush: SessionSyncRow[] = [];
+      let tombstones: SyncTombstoneRow[] = [];
+      await db.transactionAsync(async tx => {
+        const sessions = await tx.executeSqlAsync(syncQueries.getSessionsToPush, []);
+        toPush = sessions.rows as SessionSyncRow[];
+        const deletes = await tx.executeSqlAsync(syncQueries.getTombstones, []);
+        tombstones = deletes.rows as SyncTombstoneRow[];
+      }, true);
+
+      for (const tombstone of tombstones) {
+        await this.pushTombstone(serverUrl, tombstone, result);
+      }
+      for (const local of toPush) {
+        await this.pushSession(serverUrl, local, result);
+      }
+      await this.autoMerge(serverUrl, result);
+      await changeLogService.compact();
+    } catch (error) {
+      return this.failedResult(result, error);
+    }
+
+    result.success = result.failedCount === 0;
+    if (result.success) {
+      await this.setState(STATE_KEYS.lastSyncTime, new Date().toISOString());
+    }
+
+    console.log(
+      `[SyncService] Synced ${result.syncedCount} session(s), ${result.failedCount} failed, ` +
+        `${result.conflicts.length} in conflict`
+    );
+    return result;
+  }
+
+  /**
+   * Apply the server's changes since the stored cursor, page by page. The
+   * cursor is saved after each page, so an interrupted pull resumes there.
+   */
+  private async pull(serverUrl: string, result: SyncResult): Promise<void> {
+    let cursor = await this.getState(STATE_KEYS.cursor);
+    let hasMore = true;
+
+    while (hasMore) {
+      const query = `since=${encodeURIComponent(cursor ?? '')}&limit=${PULL_PAGE_SIZE}`;
+      const { body } = await this.request(serverUrl, 'GET', `/v1/sessions?${query}`);
+      const page = body as { changes?: unknown; cursor?: unknown; hasMore?: unknown };
+      if (!Array.isArray(page?.changes) || typeof page.cursor !== 'string') {
+        throw new AppError('Malformed change list from sync server', 'SYNC_SERVER_ERROR');
+      }
+
+      for (const change of page.changes) {
+        if (!isRemoteSession(change)) {
+          result.failedCount++;
+          continue;
+        }
+        await this.applyRemoteChange(change, result);
+      }
+
+      cursor = page.cursor;
+      await this.setState(STATE_KEYS.cursor, cursor);
+      hasMore = page.hasMore === true;
+    }
+  }
+
+  /**
+   * Bring one session from the server into the local database: written as
+   * synced if it has no local changes, otherwise kept aside as a conflict.
+   */
+  private async applyRemoteChange(remote: RemoteSession, result: SyncResult): Promise<void> {
+    let session: Session | null = null;
+    if (!remote.deleted) {
+      try {
+        session = this.parseRemoteSession(remote);
+      } catch (error) {
+        console.error(`[SyncService] Skipped invalid session ${remote.id} from server:`, error);
+        result.failedCount++;
+        return;
+      }
+    }
+
+    const db = await getDatabase();
+    let outcome = 'unchanged' as 'written' | 'conflict' | 'unchanged';
+
+    await db.transactionAsync(async tx => {
+      const local = await this.getSessionSyncState(tx, remote.id);
+
+      if (!local) {
+        const found = await tx.executeSqlAsync(syncQueries.getTombstone, [remote.id]);
+        const tombstone = found.rows[0] as SyncTombstoneRow | undefined;
+
+        if (remote.deleted) {
+          // Deleted on both sides
+          await tx.executeSqlAsync(syncQueries.deleteTombstone, [remote.id]);
+          return;
+        }
+        // A local delete not yet pushed is kept, unless the session was
+        // edited on the server after it: the edit wins over the delete
+        if (tombstone && remote.revision <= tombstone.revision) return;
+        await this.writeRemote(tx, remote, session);
+        outcome = 'written';
+        return;
+      }
+
+      // Already applied, or our own push coming back
+      if (remote.revision <= local.sync_revision) return;
+
+      if (local.sync_status === 'synced') {
+        await this.writeRemote(tx, remote, session);
+        outcome = 'written';
+      } else {
+        await this.recordConflict(tx, remote);
+        outcome = 'conflict';
+      }
+    }, false);
+
+    if (outcome === 'written') result.syncedCount++;
+    if (outcome === 'conflict') result.conflicts.push(remote.id);
+  }
+
+  /**
+   * Push a local session. The server takes it only if it is still at the
+   * revision the session was last synced at; otherwise it answers with its
+   * copy, which is kept as a conflict.
+   */
+  private async pushSession(
+    serverUrl: string,
+    local: SessionSyncRow,
+    result: SyncResult
+  ): Promise<void> {
+    // Changes logged after this point were not read into the push
+    const seq = await changeLogService.getLatestSeq(local.id);
+    const session = await sessionService.getSession(local.id);
+    if (!session) return;
+    const exported = toExportSession(session);
+
+    const { status, body } = await this.request(
+      serverUrl,
+      'PUT',
+      `/v1/sessions/${encodeURIComponent(local.id)}`,
+      {
+        baseRevision: local.sync_revision,
+        deleted: false,
+        version: CURRENT_EXPORT_VERSION,
+        session: exported,
+      }
+    );
+
+    const db = await getDatabase();
+    if (status === 409) {
+      const current = (body as { current?: unknown } | null)?.current;
+      if (!isRemoteSession(current)) {
+        throw new AppError('Malformed conflict from sync server', 'SYNC_SERVER_ERROR');
+      }
+      await db.transactionAsync(async tx => {
+        await this.recordConflict(tx, current);
+      }, false);
+      result.conflicts.push(local.id);
+      return;
+    }
+
+    const revision = (body as { revision?: unknown } | null)?.revision;
+    if (status !== 200 || typeof revision !== 'number') {
+      console.error(`[SyncService] Server refused session ${local.id} (${status}):`, body);
+      result.failedCount++;
+      return;
+    }
+
+    await db.transactionAsync(async tx => {
+      await tx.executeSqlAsync(syncQueries.markPushed, [revision, local.local_changes, local.id]);
+      await tx.executeSqlAsync(syncQueries.deleteConflict, [local.id]);
+      await this.storeBase(tx, local.id, revision, CURRENT_EXPORT_VERSION, exported);
+    }, false);
+    await changeLogService.acknowledge(seq, local.id);
+    result.syncedCount++;
+  }
+
+  /**
+   * Push the delete of a session removed locally. If the session changed on
+   * the server since, the server's copy is restored instead.
+   */
+  private async pushTombstone(
+    serverUrl: string,
+    tombstone: SyncTombstoneRow,
+    result: SyncResult
+  ): Promise<void> {
+    const { status, body } = await this.request(
+      serverUrl,
+      'PUT',
+      `/v1/sessions/${encodeURIComponent(tombstone.session_id)}`,
+      { baseRevision: tombstone.revision, deleted: true, version: null, session: null }
+    );
+
+    if (status === 409) {
+      const current = (body as { current?: unknown } | null)?.current;
+      if (!isRemoteSession(current)) {
+        throw new AppError('Malformed conflict from sync server', 'SYNC_SERVER_ERROR');
+      }
+      await this.applyRemoteChange(current, result);
+      return;
+    }
+
+    if (status !== 200) {
+      console.error(`[SyncService] Server refused delete of ${tombstone.session_id} (${status})`);
+      result.failedCount++;
+      return;
+    }
+
+    const db = await getDatabase();
+    await db.transactionAsync(async tx => {
+      await tx.executeSqlAsync(syncQueries.deleteTombstone, [tombstone.session_id]);
+      await tx.executeSqlAsync(syncQueries.deleteBase, [tombstone.session_id]);
+      await changeLogService.discardSessionChanges(tx, tombstone.session_id);
+    }, false);
+    result.syncedCount++;
+  }
+
+  /**
+   * Replace or remove the local session with the server's copy and mark it
+   * synced at the server's revision.
+   */
+  private async writeRemote(
+    tx: SQLTransactionAsync,
+    remote: RemoteSession,
+    session: Session | null
+  ): Promise<void> {
+    if (session) {
+      await importService.replaceSession(tx, session);
+      await tx.executeSqlAsync(syncQueries.markPulled, [remote.revision, remote.id]);
+      await this.storeBase(
+        tx,
+        remote.id,
+        remote.revision,
+        remote.version ?? CURRENT_EXPORT_VERSION,
+        remote.session
+      );
+    } else {
+      await importService.deleteSessionData(tx, remote.id);
+      // The removal came from the server; there is nothing to push back
+      await tx.executeSqlAsync(syncQueries.deleteTombstone, [remote.id]);
+      await tx.executeSqlAsync(syncQueries.deleteBase, [remote.id]);
+    }
+    await tx.executeSqlAsync(syncQueries.deleteConflict, [remote.id]);
+    // Local changes are gone with the local copy
+    await changeLogService.discardSessionChanges(tx, remote.id);
+  }
+
+  /**
+   * Merge the sessions that ran into a conflict during a sync, where the
+   * two sides changed different fields, and push the merge. Conflicts on
+   * the same field are left for the user.
+   */
+  private async autoMerge(serverUrl: string, result: SyncResult): Promise<void> {
+    for (const sessionId of new Set(result.conflicts)) {
+      let merged: Session | null = null;
+      let remote = null as RemoteSession | null;
+      try {
+        const loaded = await this.loadConflict(sessionId);
+        remote = this.toRemoteSession(loaded.conflict);
+        if (remote.deleted) continue;
+        const merge = mergeSessions(loaded.base, loaded.session, this.parseRemoteSession(remote));
+        if (merge.conflicts.length === 0) merged = merge.session;
+      } catch (error) {
+        console.error(`[SyncService] Could not merge session ${sessionId}:`, error);
+      }
+      if (!merged || !remote) continue;
+
+      await this.saveMerge(merged, remote);
+      const state = await this.readSyncState(sessionId);
+      const pushed = emptyResult();
+      if (state) {
+        await this.pushSession(serverUrl, state, pushed);
+      }
+
+      result.conflicts = result.conflicts.filter(id => id !== sessionId);
+      result.conflicts.push(...pushed.conflicts);
+      result.syncedCount += pushed.syncedCount;
+      result.failedCount += pushed.failedCount;
+      console.log(`[SyncService] Merged session ${sessionId} with revision ${remote.revision}`);
+    }
+  }
+
+  /**
+   * Push a resolved session over the server revision it was resolved against.
+   *
+   * @throws AppError if the session changed on the server again meanwhile
+   */
+  private async pushResolved(serverUrl: string, local: SessionSyncRow): Promise<void> {
+    const result = emptyResult();
+    await this.pushSession(serverUrl, local, result);
+    if (result.conflicts.length > 0) {
+      throw new AppError(
+        `Session ${local.id} changed on the server again`,
+        'SYNC_CONFLICT',
+        'This session changed on the server again. Please review the conflict once more.'
+      );
+    }
+  }
+
+  /**
+   * Save a merge over the local session, as a change on top of the server
+   * revision it was merged with. The server copy becomes the merge base.
+   */
+  private async saveMerge(session: Session, remote: RemoteSession): Promise<void> {
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      await importService.replaceSession(tx, session);
+      await tx.executeSqlAsync(syncQueries.markMerged, [remote.revision, session.id]);
+      await tx.executeSqlAsync(syncQueries.deleteConflict, [session.id]);
+      await this.storeBase(
+        tx,
+        remote.id,
+        remote.revision,
+        remote.version ?? CURRENT_EXPORT_VERSION,
+        remote.session
+      );
+    }, false);
+  }
+
+  /**
+   * Load a session in conflict: the server copy, the local session and the
+   * copy both were based on, if it is known.
+   *
+   * @throws AppError if the session is not in conflict
+   */
+  private async loadConflict(sessionId: string): Promise<{
+    conflict: SyncConflictRow;
+    state: SessionSyncRow;
+    session: Session;
+    base: Session | null;
+  }> {
+    const db = await getDatabase();
+
+    let conflict = null as SyncConflictRow | null;
+    let state = null as SessionSyncRow | null;
+    let baseRow = null as SyncBaseRow | null;
+    await db.transactionAsync(async tx => {
+      const found = await tx.executeSqlAsync(syncQueries.getConflict, [sessionId]);
+      conflict = (found.rows[0] as SyncConflictRow | undefined) ?? null;
+      state = await this.getSessionSyncState(tx, sessionId);
+      const base = await tx.executeSqlAsync(syncQueries.getBase, [sessionId]);
+      baseRow = (base.rows[0] as SyncBaseRow | undefined) ?? null;
+    }, true);
+
+    const session = state ? await sessionService.getSession(sessionId) : null;
+    if (!conflict || !state || !session) {
+      throw new AppError(
+        `Session ${sessionId} is not in conflict`,
+        'NO_CONFLICT',
+        'This session has no sync conflict to resolve.'
+      );
+    }
+
     return {
-      success: false,
-      syncedCount: 0,
-      failedCount: 0,
-      conflicts: [],
-      error: 'Sync not implemented in Phase 1. Coming in Phase 2 with authentication.',
+      conflict,
+      state,
+      session: toExportSession(session), // Same shape as the server copy and base
+      base: baseRow && baseRow.revision === state.sync_revision ? this.parseBase(baseRow) : null,
     };
   }
 
-  async resolveConflict(
-    _sessionId: string,
-    _strategy: ConflictStrategy
+  /**
+   * Read a stored merge base; one that no longer validates is ignored, and
+   * the merge falls back to comparing the two sides.
+   */
+  private parseBase(row: SyncBaseRow): Session | null {
+    try {
+      return this.parseRemoteSession({
+        id: row.session_id,
+        revision: row.revision,
+        deleted: false,
+        version: row.version,
+        session: JSON.parse(row.session),
+      });
+    } catch (error) {
+      console.log(`[SyncService] Ignored unreadable merge base of ${row.session_id}:`, error);
+      return null;
+    }
+  }
+
+  private async storeBase(
+    tx: SQLTransactionAsync,
+    sessionId: string,
+    revision: number,
+    version: string,
+    session: unknown
   ): Promise<void> {
-    throw new Error(
-      'Conflict resolution not implemented in Phase 1. Coming in Phase 2 with authentication.'
+    await tx.executeSqlAsync(syncQueries.upsertBase, [
+      sessionId,
+      revision,
+      version,
+      JSON.stringify(session),
+      new Date().toISOString(),
+    ]);
+  }
+
+  private async recordConflict(tx: SQLTransactionAsync, remote: RemoteSession): Promise<void> {
+    await tx.executeSqlAsync(syncQueries.upsertConflict, [
+      remote.id,
+      remote.revision,
+      remote.deleted ? 1 : 0,
+      remote.version,
+      remote.deleted ? null : JSON.stringify(remote.session),
+      new Date().toISOString(),
+    ]);
+    await tx.executeSqlAsync(syncQueries.setSyncStatus, ['conflict', remote.id]);
+    console.log(`[SyncService] Session ${remote.id} is in conflict at revision ${remote.revision}`);
+  }
+
+  private async fetchRemoteSession(
+    serverUrl: string,
+    sessionId: string
+  ): Promise<RemoteSession | null> {
+    const { status, body } = await this.request(
+      serverUrl,
+      'GET',
+      `/v1/sessions/${encodeURIComponent(sessionId)}`
     );
+    if (status === 404) return null;
+    if (!isRemoteSession(body)) {
+      throw new AppError('Malformed session from sync server', 'SYNC_SERVER_ERROR');
+    }
+    return body;
   }
 
-  async canSync(): Promise<boolean> {
-    // Always false in Phase 1 (guest mode only)
-    return false;
+  private toRemoteSession(row: SyncConflictRow): RemoteSession {
+    return {
+      id: row.session_id,
+      revision: row.remote_revision,
+      deleted: row.remote_deleted === 1,
+      version: row.remote_version,
+      session: row.remote_session ? JSON.parse(row.remote_session) : null,
+    };
   }
 
-  async getLastSyncTime(): Promise<Date | null> {
-    // No sync in Phase 1
-    return null;
+  /**
+   * Upgrade a server session to the current export format and validate it
+   * like an import.
+   *
+   * @throws AppError if the session is invalid or from a newer app version
+   */
+  private parseRemoteSession(remote: RemoteSession): Session {
+    const payload = upgradeExport({
+      version: remote.version ?? CURRENT_EXPORT_VERSION,
+      exportDate: new Date().toISOString(),
+      schemaVersion: getLatestVersion(),
+      totalSessions: 1,
+      sessions: [remote.session],
+    });
+    const session = (payload.sessions as unknown[])[0];
+
+    const errors = importService.validateSession(session);
+    if (errors.length === 0 && (session as Session).id !== remote.id) {
+      errors.push({ field: 'session.id', message: `Expected ${remote.id}` });
+    }
+    if (errors.length > 0) {
+      throw new AppError(
+        `Invalid session ${remote.id} from server: ${errors.map(e => `${e.field} (${e.message})`).join(', ')}`,
+        'INVALID_REMOTE_SESSION'
+      );
+    }
+    return session as Session;
+  }
+
+  private async getSessionSyncState(
+    tx: SQLTransactionAsync,
+    sessionId: string
+  ): Promise<SessionSyncRow | null> {
+    const result = await tx.executeSqlAsync(syncQueries.getSessionSyncState, [sessionId]);
+    return (result.rows[0] as SessionSyncRow | undefined) ?? null;
+  }
+
+  private async readSyncState(sessionId: string): Promise<SessionSyncRow | null> {
+    const db = await getDatabase();
+
+    let state = null as SessionSyncRow | null;
+    await db.transactionAsync(async tx => {
+      state = await this.getSessionSyncState(tx, sessionId);
+    }, true);
+
+    return state;
+  }
+
+  private async requireServerUrl(): Promise<string> {
+    const serverUrl = await this.getServerUrl();
+    if (!serverUrl) {
+      throw new AppError(
+        'No sync server configured',
+        'SYNC_NOT_CONFIGURED',
+        'Set a sync server in Settings first.'
+      );
+    }
+    await this.checkAccount(serverUrl);
+    return serverUrl;
+  }
+
+  /**
+   * The server keeps each account's sessions apart, and guests' apart from
+   * everyone's. When the account this device syncs as changes, start over
+   * as with a new server, since the cursor and revisions were the old one's.
+   */
+  private async checkAccount(serverUrl: string): Promise<void> {
+    const session = await authService.getSession();
+    const account = session && session.issuer === serverUrl ? session.user.id : GUEST_ACCOUNT;
+    const previous = await this.getState(STATE_KEYS.account);
+    if (previous === account) return;
+
+    const db = await getDatabase();
+    await db.transactionAsync(async tx => {
+      await this.resetSyncState(tx);
+      await tx.executeSqlAsync(syncQueries.setState, [STATE_KEYS.account, account]);
+    }, false);
+
+    console.log(`[SyncService] Syncing as ${account === GUEST_ACCOUNT ? 'a guest' : account}`);
+  }
+
+  /**
+   * Forget everything synced with the server: the cursor, revisions,
+   * pending deletes, conflicts and merge bases.
+   */
+  private async resetSyncState(tx: SQLTransactionAsync): Promise<void> {
+    await tx.executeSqlAsync(syncQueries.deleteState, [STATE_KEYS.cursor]);
+    await tx.executeSqlAsync(syncQueries.deleteState, [STATE_KEYS.lastSyncTime]);
+    await tx.executeSqlAsync(syncQueries.resetSessions, []);
+    await tx.executeSqlAsync(syncQueries.clearTombstones, []);
+    await tx.executeSqlAsync(syncQueries.clearConflicts, []);
+    await tx.executeSqlAsync(syncQueries.clearBases, []);
+  }
+
+  /**
+   * Send a JSON request to the server, with the signed-in account's token if
+   * the server issued it. Any answer other than 2xx, 404 or 409 is an error,
+   * as is no answer within REQUEST_TIMEOUT_MS.
+   */
+  private async request(
+    serverUrl: string,
+    method: 'GET' | 'PUT',
+    path: string,
+    payload?: unknown
+  ): Promise<{ status: number; body: unknown }> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    };
+    const accessToken = await authService.getAccessToken(serverUrl);
+    if (accessToken) {
+      headers.Authorization = `Bearer ${accessToken}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(`${serverUrl}${path}`, {
+        method,
+        headers,
+        body: payload === undefined ? undefined : JSON.stringify(payload),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new AppError(
+        `${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+        'SYNC_NETWORK_ERROR',
+        'Could not reach the sync server. Check the address and your connection.'
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const text = await response.text();
+    let body: unknown = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      body = null;
+    }
+
+    if (response.status === 401) {
+      throw new AppError(
+        `${method} ${path} returned 401: ${text.slice(0, 200)}`,
+        'AUTH_EXPIRED',
+        'Your sign-in has expired. Sign in again in Settings.'
+      );
+    }
+
+    const ok = response.status >= 200 && response.status < 300;
+    if (!ok && response.status !== 404 && response.status !== 409) {
+      throw new AppError(
+        `${method} ${path} returned ${response.status}: ${text.slice(0, 200)}`,
+        'SYNC_SERVER_ERROR',
+        'The sync server reported an error. Please try again later.'
+      );
+    }
+    return { status: response.status, body };
+  }
+
+  private failedResult(result: SyncResult, error: unknown): SyncResult {
+    console.error('[SyncService] Sync failed:', error);
+    let message = error instanceof Error ? error.message : 'Sync failed';
+    if (error instanceof AppError && error.userMessage) {
+      message = error.userMessage;
+    }
+    return { ...result, success: false, error: message };
+  }
+
+  private async getState(key: string): Promise<string | null> {
+    const db = await getDatabase();
+
+    let value: string | null = null;
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(syncQueries.getState, [key]);
+      value = (result.rows[0]?.value as string | undefined) ?? null;
+    }, true);
+
+    return value;
+  }
+
+  private async setState(key: string, value: string): Promise<void> {
+    const db = await getDatabase();
+
+    await db.transactionAsync(async tx => {
+      await tx.executeSqlAsync(syncQueries.setState, [key, value]);
+    }, false);
   }
 }
 
 // Export singleton instance
 export const syncService = new SyncService();
 export default syncService;
-
-/**
- * PHASE 2 SYNC STRATEGY DOCUMENTATION
- *
- * Approach: Last-Write-Wins with Conflict Detection
- *
- * 1. Session Sync Status Fields (already in database):
- *    - 'local-only': Never synced to cloud
- *    - 'synced': Up to date with cloud
- *    - 'pending': Local changes not yet synced
- *    - 'conflict': Remote changes conflict with local
- *
- * 2. Sync Process Flow:
- *    a) Upload Phase:
- *       - Find all sessions with sync_status = 'pending'
- *       - Upload to cloud (Firebase/Supabase)
- *       - Mark as 'synced' on success
- *
- *    b) Download Phase:
- *       - Fetch all remote sessions modified after last sync
- *       - Compare timestamps (updated_at) with local
- *       - If remote newer: update local
- *       - If local newer: mark as 'pending' for re-upload
- *       - If both modified: mark as 'conflict'
- *
- *    c) Conflict Resolution:
- *       - Present UI showing both versions
- *       - User chooses: local-wins, remote-wins, or manual merge
- *       - Apply strategy and sync result
- *
- * 3. Conflict Resolution Strategies:
- *    - 'local-wins': Keep local version, overwrite remote
- *    - 'remote-wins': Discard local changes, use remote
- *    - 'merge': Show diff UI, allow manual combination
- *    - 'ask-user': Present dialog for user decision
- *
- * 4. Backend Implementation (Phase 2):
- *    Technology Options:
- *    - Firebase Firestore (recommended)
- *      * Real-time listeners for instant sync
- *      * Built-in authentication
- *      * Offline persistence
- *      * Query capabilities
- *
- *    - Supabase (alternative)
- *      * PostgreSQL backend
- *      * Real-time subscriptions
- *      * Row-level security
- *      * Open source
- *
- * 5. Data Structure:
- *    sessions/
- *      {userId}/
- *        {sessionId}/
- *          - id: string
- *          - created_at: timestamp
- *          - updated_at: timestamp
- *          - mode: 'taste' | 'pro'
- *          - session_type: 'single-coffee' | 'multi-coffee' | 'table-cupping'
- *          - coffees: array<Coffee>
- *          - notes: string
- *          - tags: array<string>
- *          - sync_status: 'synced' | 'pending' | 'conflict'
- *          - version: number (for optimistic locking)
- *
- * 6. Optimistic Updates:
- *    - Update local database immediately
- *    - Mark as 'pending'
- *    - Sync in background
- *    - Show sync status in UI (syncing icon)
- *    - Handle failures gracefully (retry queue)
- *
- * 7. Background Sync:
- *    - Use expo-task-manager for background tasks
- *    - Periodic sync every 15 minutes (when app active)
- *    - Immediate sync on user action (save session)
- *    - Network-aware (only sync on WiFi option)
- *
- * 8. Security:
- *    - User authentication required (Firebase Auth / Supabase Auth)
- *    - Server-side validation of session data
- *    - Row-level security (users can only access their sessions)
- *    - Encryption in transit (HTTPS)
- *    - Optional: Encryption at rest for sensitive notes
- *
- * 9. Error Handling:
- *    - Network errors: Queue for retry with exponential backoff
- *    - Auth errors: Prompt re-authentication
- *    - Conflict errors: Present resolution UI
- *    - Quota errors: Warn user about storage limits
- *
- * 10. Migration from Phase 1 to Phase 2:
- *     - On first sign-in, prompt to upload local sessions
- *     - Batch upload all 'local-only' sessions
- *     - Update sync_status to 'synced'
- *     - Keep local data as fallback (offline mode)
- *
- * Example Implementation (Phase 2):
- *
- * ```typescript
- * // Firebase implementation
- * import { getFirestore, collection, doc, setDoc, getDoc } from 'firebase/firestore';
- * import { getAuth } from 'firebase/auth';
- *
- * class FirebaseSyncService implements ISyncService {
- *   private db = getFirestore();
- *   private auth = getAuth();
- *
- *   async syncSession(sessionId: string): Promise<SyncResult> {
- *     const userId = this.auth.currentUser?.uid;
- *     if (!userId) {
- *       return { success: false, error: 'Not authenticated' };
- *     }
- *
- *     try {
- *       // Get local session
- *       const localSession = await sessionService.getSession(sessionId);
- *       if (!localSession) {
- *         return { success: false, error: 'Session not found' };
- *       }
- *
- *       // Upload to Firestore
- *       const sessionRef = doc(this.db, 'sessions', userId, 'sessions', sessionId);
- *       await setDoc(sessionRef, {
- *         ...localSession,
- *         sync_status: 'synced',
- *         synced_at: new Date().toISOString(),
- *       });
- *
- *       // Update local sync status
- *       await sessionService.updateSession({
- *         ...localSession,
- *         syncStatus: 'synced',
- *       });
- *
- *       return { success: true, syncedCount: 1, failedCount: 0, conflicts: [] };
- *     } catch (error) {
- *       console.error('Sync error:', error);
- *       return { success: false, syncedCount: 0, failedCount: 1, conflicts: [], error: String(error) };
- *     }
- *   }
- * }
- * ```
- */
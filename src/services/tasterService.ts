@@ -0,0 +1,122 @@
+/**
+ * Taster Service
+ *
+ * Manages taster profiles: the people who score the cups of group
+ * sessions, reused from one session to the next.
+ */
+
+import type { SQLTransactionAsync } from 'expo-sqlite';
+import { getDatabase } from './database/connection';
+import { tasterQueries } from './database/queries';
+import type { TasterRow } from './database/types';
+import type { Taster } from '../types/taster.types';
+import { generateUUID } from '../utils/uuid';
+import { AppError } from '../utils/errorHandling';
+
+interface TasterListRow extends TasterRow {
+  session_count: number;
+}
+
+function toTaster(row: TasterListRow): Taster {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    sessionCount: row.session_count || 0,
+  };
+}
+
+/**
+ * Taster Service - Manages taster profiles
+ */
+class TasterService {
+  /**
+   * Get all taster profiles.
+   *
+   * @returns Promise<Taster[]> - Tasters, most group sessions first
+   */
+  async getTasters(): Promise<Taster[]> {
+    const db = await getDatabase();
+
+    let rows: TasterListRow[] = [];
+    await db.transactionAsync(async tx => {
+      const result = await tx.executeSqlAsync(tasterQueries.getTasters, []);
+      rows = (result.rows || []) as TasterListRow[];
+    }, true);
+
+    return rows.map(toTaster);
+  }
+
+  /**
+   * Add a taster profile.
+   *
+   * @param name - Taster name
+   * @returns Promise<Taster> - Created taster
+   * @throws AppError if the name is empty or already taken (case-insensitive)
+   */
+  async createTaster(name: string): Promise<Taster> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new AppError('Taster name is empty', 'VALIDATION_ERROR', 'Please enter a name.');
+    }
+
+    const db = await getDatabase();
+    const id = generateUUID();
+    const now = new Date().toISOString();
+
+    await db.transactionAsync(async tx => {
+      const existing = await tx.executeSqlAsync(tasterQueries.findTasterByName, [trimmed]);
+      if (existing.rows.length > 0) {
+        throw new AppError(
+          `Taster ${trimmed} already exists`,
+          'TASTER_EXISTS',
+          `There is already a taster called ${trimmed}.`
+        );
+      }
+      await tx.executeSqlAsync(tasterQueries.insertTaster, [id, trimmed, now, now]);
+    }, false);
+
+    console.log(`[TasterService] Added taster ${trimmed} (${id})`);
+    return { id, name: trimmed, createdAt: now, updatedAt: now, sessionCount: 0 };
+  }
+
+  /**
+   * Find or create a taster profile, inside the caller's transaction.
+   * Matches by ID first, then by name (case-insensitive). Used by import.
+   *
+   * @param tx - Open write transaction
+   * @param taster - Taster ID and name
+   * @returns Promise<string> - Taster ID
+   */
+  async resolveTasterId(
+    tx: SQLTransactionAsync,
+    taster: { tasterId: string; name: string }
+  ): Promise<string> {
+    const byId = await tx.executeSqlAsync(tasterQueries.getTasterById, [taster.tasterId]);
+    if (byId.rows.length > 0) {
+      return taster.tasterId;
+    }
+
+    const byName = await tx.executeSqlAsync(tasterQueries.findTasterByName, [taster.name]);
+    if (byName.rows.length > 0) {
+      return byName.rows[0].id as string;
+    }
+
+    // Keep an imported taster ID so re-imports link to the same profile
+    const now = new Date().toISOString();
+    await tx.executeSqlAsync(tasterQueries.insertTaster, [
+      taster.tasterId,
+      taster.name.trim(),
+      now,
+      now,
+    ]);
+
+    console.log(`[TasterService] Added taster ${taster.name} (${taster.tasterId})`);
+    return taster.tasterId;
+  }
+}
+
+// Export singleton instance
+export const tasterService = new TasterService();
+export default tasterService;
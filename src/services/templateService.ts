@@ -0,0 +1,127 @@
+/**
+ * Template Service
+ *
+ * Registry of scoring templates. Built-in templates are registered at
+ * startup; further templates can be registered before sessions use them.
+ * Sessions store a template ID, so a template's ID and attribute keys must
+ * stay stable once scores reference them.
+ */
+
+import type { ScoringTemplate } from '../types/template.types';
+import type { CupScores, ValidationError } from '../types/session.types';
+import { AppError } from '../utils/errorHandling';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, isOnScale } from '../utils/scoringTemplates';
+
+/**
+ * Template Service - Scoring template registry
+ */
+class TemplateService {
+  private templates = new Map<string, ScoringTemplate>();
+
+  constructor() {
+    for (const template of BUILT_IN_TEMPLATES) {
+      this.registerTemplate(template);
+    }
+  }
+
+  /**
+   * Add a template to the registry.
+   *
+   * @param template - Template with a unique ID and unique attribute keys
+   * @throws AppError if the ID is taken or the template is malformed
+   */
+  registerTemplate(template: ScoringTemplate): void {
+    if (this.templates.has(template.id)) {
+      throw new AppError(`Scoring template already registered: ${template.id}`, 'TEMPLATE_EXISTS');
+    }
+
+    const { min, max, step } = template.scale;
+    const keys = template.attributes.map(attribute => attribute.key);
+    if (
+      keys.length === 0 ||
+      new Set(keys).size !== keys.length ||
+      !(min < max) ||
+      !(step > 0) ||
+      !isOnScale(template.scale, template.defaultScore)
+    ) {
+      throw new AppError(`Invalid scoring template: ${template.id}`, 'TEMPLATE_INVALID');
+    }
+
+    this.templates.set(template.id, template);
+    console.log(`[TemplateService] Registered template ${template.id}`);
+  }
+
+  /**
+   * Get a template by ID.
+   *
+   * @returns Template, or null if no template has this ID
+   */
+  getTemplate(id: string): ScoringTemplate | null {
+    return this.templates.get(id) || null;
+  }
+
+  /**
+   * Get a session's template, falling back to the default for sessions
+   * without one or with a template this build does not know.
+   */
+  getTemplateOrDefault(id?: string | null): ScoringTemplate {
+    return (id && this.templates.get(id)) || this.getDefaultTemplate();
+  }
+
+  /**
+   * Template of sessions created without choosing one (Cupper Classic)
+   */
+  getDefaultTemplate(): ScoringTemplate {
+    return this.templates.get(DEFAULT_TEMPLATE_ID) as ScoringTemplate;
+  }
+
+  /**
+   * All registered templates, in registration order
+   */
+  getAllTemplates(): ScoringTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  /**
+   * Check cup scores against a template: known attributes only, every
+   * required attribute present and every value on the template's scale.
+   *
+   * @param template - Template the scores belong to
+   * @param scores - Scores keyed by attribute
+   * @param requireAll - Whether unscored required attributes are errors
+   * @returns Validation errors keyed by attribute (empty when valid)
+   */
+  validateScores(
+    template: ScoringTemplate,
+    scores: CupScores,
+    requireAll: boolean
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const { min, max, step } = template.scale;
+
+    for (const [key, value] of Object.entries(scores)) {
+      if (!template.attributes.some(attribute => attribute.key === key)) {
+        errors.push({ field: key, message: `Not an attribute of ${template.name}` });
+      } else if (!isOnScale(template.scale, value)) {
+        errors.push({
+          field: key,
+          message: `Score must be from ${min} to ${max} in steps of ${step}`,
+        });
+      }
+    }
+
+    if (requireAll) {
+      for (const attribute of template.attributes) {
+        if (!attribute.optional && scores[attribute.key] === undefined) {
+          errors.push({ field: attribute.key, message: `${attribute.label} is required` });
+        }
+      }
+    }
+
+    return errors;
+  }
+}
+
+// Export singleton instance
+export const templateService = new TemplateService();
+export default templateService;
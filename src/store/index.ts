@@ -2,7 +2,7 @@
  * Zustand Store
  *
  * Central application state management with persistence.
- * Combines multiple slices: session, flavor wheel, and UI state.
+ * Combines multiple slices: session, flavor wheel, UI, and settings state.
  */
 
 import { create } from 'zustand';
@@ -12,11 +12,12 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createSessionSlice, type SessionSlice } from './sessionSlice';
 import { createFlavorWheelSlice, type FlavorWheelSlice } from './flavorWheelSlice';
 import { createUISlice, type UISlice } from './uiSlice';
+import { createSettingsSlice, type SettingsSlice } from './settingsSlice';
 
 /**
  * Combined store type
  */
-export type AppStore = SessionSlice & FlavorWheelSlice & UISlice;
+export type AppStore = SessionSlice & FlavorWheelSlice & UISlice & SettingsSlice;
 
 /**
  * Create the main application store with persistence
@@ -27,6 +28,7 @@ export const useStore = create<AppStore>()(
       ...createSessionSlice(...args),
       ...createFlavorWheelSlice(...args),
       ...createUISlice(...args),
+      ...createSettingsSlice(...args),
     }),
     {
       name: 'cupper-app-storage', // Storage key
@@ -40,6 +42,10 @@ export const useStore = create<AppStore>()(
         // Persist flavor wheel viewport settings
         viewportTransform: state.viewportTransform,
 
+        // Persist app preferences
+        trashRetentionDays: state.trashRetentionDays,
+        filterPresets: state.filterPresets,
+
         // Don't persist UI state (toasts, modals, loading)
         // Don't persist currentSession (load fresh on app start)
       }),
@@ -160,3 +166,22 @@ export const useUIState = () =>
     modal: state.modal,
     isGlobalLoading: state.isGlobalLoading,
   }));
+
+/**
+ * Hook to get settings state
+ */
+export const useSettingsState = () =>
+  useStore(state => ({
+    trashRetentionDays: state.trashRetentionDays,
+    filterPresets: state.filterPresets,
+  }));
+
+/**
+ * Hook to get settings actions
+ */
+export const useSettingsActions = () =>
+  useStore(state => ({
+    setTrashRetentionDays: state.setTrashRetentionDays,
+    saveFilterPreset: state.saveFilterPreset,
+    deleteFilterPreset: state.deleteFilterPreset,
+  }));
@@ -6,7 +6,14 @@
  */
 
 import type { StateCreator } from 'zustand';
-import type { Session, SessionType, SessionFilters } from '../types/session.types';
+import type {
+  Session,
+  SessionType,
+  SessionMode,
+  ScoringProtocol,
+  BlindCoding,
+  SessionFilters,
+} from '../types/session.types';
 import { sessionService } from '../services/sessionService';
 
 /**
@@ -20,7 +27,13 @@ export interface SessionSlice {
   error: string | null;
 
   // Actions
-  createSession: (type: SessionType) => Promise<void>;
+  createSession: (
+    type: SessionType,
+    mode?: SessionMode,
+    protocol?: ScoringProtocol,
+    templateId?: string,
+    blindCoding?: BlindCoding | null
+  ) => Promise<void>;
   loadSession: (id: string) => Promise<void>;
   updateCurrentSession: (session: Session) => Promise<void>;
   deleteSession: (id: string) => Promise<void>;
@@ -41,10 +54,22 @@ export const createSessionSlice: StateCreator<SessionSlice> = (set, _get) => ({
   error: null,
 
   // Create new session
-  createSession: async (type: SessionType) => {
+  createSession: async (
+    type: SessionType,
+    mode: SessionMode = 'taste',
+    protocol: ScoringProtocol = 'sca',
+    templateId?: string,
+    blindCoding?: BlindCoding | null
+  ) => {
     set({ isLoading: true, error: null });
     try {
-      const session = await sessionService.createSession(type);
+      const session = await sessionService.createSession(
+        type,
+        mode,
+        protocol,
+        templateId,
+        blindCoding
+      );
       set(state => ({
         sessions: [session, ...state.sessions],
         currentSession: session,
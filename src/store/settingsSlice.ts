@@ -0,0 +1,69 @@
+/**
+ * Settings Store Slice
+ *
+ * Manages persisted app preferences.
+ */
+
+import type { StateCreator } from 'zustand';
+import type { SessionFilterPreset, SessionFilters } from '../types/session.types';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * Trash retention options (days before trashed sessions are purged)
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90] as const;
+
+/**
+ * Default trash retention period in days
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Settings slice state
+ */
+export interface SettingsSlice {
+  // Preferences
+  trashRetentionDays: number;
+  filterPresets: SessionFilterPreset[]; // Saved history filters
+
+  // Actions
+  setTrashRetentionDays: (days: number) => void;
+  saveFilterPreset: (name: string, filters: SessionFilters) => void;
+  deleteFilterPreset: (id: string) => void;
+}
+
+/**
+ * Create settings slice
+ */
+export const createSettingsSlice: StateCreator<SettingsSlice> = set => ({
+  // Initial state
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  filterPresets: [],
+
+  // Set trash retention period
+  setTrashRetentionDays: (days: number) => {
+    set({ trashRetentionDays: Math.max(1, Math.round(days)) });
+  },
+
+  // Save filters under a name, replacing any preset with the same name
+  saveFilterPreset: (name: string, filters: SessionFilters) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    set(state => ({
+      filterPresets: [
+        ...state.filterPresets.filter(
+          preset => preset.name.toLowerCase() !== trimmed.toLowerCase()
+        ),
+        { id: generateUUID(), name: trimmed, filters, createdAt: new Date().toISOString() },
+      ],
+    }));
+  },
+
+  // Delete a saved preset
+  deleteFilterPreset: (id: string) => {
+    set(state => ({
+      filterPresets: state.filterPresets.filter(preset => preset.id !== id),
+    }));
+  },
+});
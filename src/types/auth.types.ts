@@ -0,0 +1,80 @@
+/**
+ * Auth Types
+ *
+ * Accounts and the providers that sign them in. The app works without an
+ * account (guest mode, Session.userId null); signing in attaches sessions to
+ * a user so they can follow them across devices.
+ */
+
+/**
+ * Signed-in user
+ */
+export interface AuthUser {
+  id: string; // Stable across sign-ins; stored as sessions.user_id
+  email: string;
+  displayName: string;
+}
+
+/**
+ * Tokens issued by a provider
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string | null; // null when the provider cannot refresh
+  expiresAt: string | null; // ISO8601; null when the access token does not expire
+}
+
+/**
+ * A signed-in account, as kept in secure storage
+ */
+export interface AuthSession {
+  providerId: string;
+  issuer: string | null; // Server that issued the tokens; null for local accounts
+  user: AuthUser;
+  tokens: AuthTokens;
+  signedInAt: string; // ISO8601
+}
+
+/**
+ * What the sign-in form collects
+ */
+export interface SignInCredentials {
+  email: string;
+  password: string;
+  displayName?: string;
+  serverUrl?: string; // Required by providers that talk to a server
+}
+
+/**
+ * A way to sign in. Providers only issue and revoke tokens; storing them
+ * and attaching sessions to the user is authService's job.
+ */
+export interface AuthProvider {
+  id: string;
+  name: string;
+  description: string;
+  requiresServer: boolean; // Whether signIn needs credentials.serverUrl
+
+  signIn(credentials: SignInCredentials): Promise<AuthSession>;
+
+  /**
+   * Exchange the refresh token for new tokens.
+   *
+   * @throws AppError AUTH_EXPIRED when the account has to sign in again
+   */
+  refresh(session: AuthSession): Promise<AuthTokens>;
+
+  /**
+   * Revoke the tokens. Best effort: signing out never fails on it.
+   */
+  signOut(session: AuthSession): Promise<void>;
+}
+
+/**
+ * Result of attaching guest sessions to the first account signed in
+ */
+export interface GuestClaim {
+  userId: string;
+  sessionCount: number;
+  claimedAt: string; // ISO8601
+}
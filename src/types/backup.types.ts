@@ -0,0 +1,77 @@
+/**
+ * Backup Types
+ *
+ * Full backups of the app's data: the SQLite database and the persisted
+ * settings, in one versioned archive file that can be encrypted with a
+ * passphrase (see utils/backupArchive).
+ */
+
+/**
+ * Why a backup was made. Everything but 'manual' is an automatic backup,
+ * kept in a rolling set of the latest few.
+ */
+export type BackupReason =
+  | 'manual'
+  | 'before-migration' // Before upgrading the database schema
+  | 'before-delete' // Before sessions are deleted permanently
+  | 'before-clear' // Before all data is cleared
+  | 'before-import' // Before an import overwrites sessions
+  | 'before-sync-overwrite' // Before a conflict is resolved with the server copy
+  | 'before-restore'; // Before another backup replaces all data
+
+/**
+ * Key derivation and cipher of an encrypted archive
+ */
+export interface BackupEncryption {
+  cipher: 'xchacha20-poly1305';
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string; // Base64
+  nonce: string; // Base64
+}
+
+/**
+ * Archive file. Everything but payload is readable without the passphrase.
+ */
+export interface BackupArchive {
+  format: 'cupper-backup';
+  formatVersion: number;
+  createdAt: string; // ISO8601
+  reason: BackupReason;
+  schemaVersion: number; // Database migration version of the snapshot
+  encryption: BackupEncryption | null; // null when not encrypted
+  checksum: string; // SHA-256 (hex) of the contents before encryption
+  payload: string; // Base64 of the contents, encrypted if encryption is set
+}
+
+/**
+ * What a backup holds
+ */
+export interface BackupContents {
+  database: string; // Base64 of the SQLite database file
+  settings: string | null; // Persisted store state (JSON), null if never saved
+}
+
+/**
+ * Backup file on this device
+ */
+export interface BackupFile {
+  uri: string;
+  name: string;
+  reason: BackupReason;
+  automatic: boolean;
+  createdAt: string; // ISO8601
+  size: number; // Bytes
+}
+
+/**
+ * Readable details of a backup, before restoring it
+ */
+export interface BackupDetails {
+  createdAt: string; // ISO8601
+  reason: BackupReason;
+  schemaVersion: number;
+  encrypted: boolean;
+}
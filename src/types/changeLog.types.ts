@@ -0,0 +1,39 @@
+/**
+ * Change Log Types
+ *
+ * Entries of the local change log: one per entity written by sessionService,
+ * in the order the writes happened, so a sync client can send only what
+ * changed and pick up where it left off.
+ */
+
+/**
+ * Kind of record a change applies to
+ */
+export type ChangeEntity = 'session' | 'coffee' | 'cup' | 'triangle-set';
+
+/**
+ * What happened to the record. Moving a session to trash is an update of
+ * its deletedAt; delete means the record is gone.
+ */
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * Change log entry
+ */
+export interface ChangeLogEntry {
+  seq: number; // Monotonic; never reused, even after compaction
+  sessionId: string; // Session the record belongs to
+  entity: ChangeEntity;
+  entityId: string;
+  operation: ChangeOperation;
+  fields: string[]; // Fields an update changed (e.g. 'ratings.acidity'); empty otherwise
+  createdAt: string; // ISO8601
+}
+
+/**
+ * A change to record. The session is looked up from the coffee or cup when
+ * not given.
+ */
+export type ChangeInput = Omit<ChangeLogEntry, 'seq' | 'createdAt' | 'sessionId'> & {
+  sessionId?: string;
+};
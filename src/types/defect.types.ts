@@ -0,0 +1,45 @@
+/**
+ * Defect Types
+ *
+ * Defects recorded against a cup, and the catalog of defect types they
+ * are picked from.
+ */
+
+/**
+ * Severity of a defect
+ * - taint: off-flavor noticeable but not dominant (SCA intensity 2)
+ * - fault: off-flavor that dominates or makes the cup unpleasant (SCA intensity 4)
+ */
+export type DefectSeverity = 'taint' | 'fault';
+
+/**
+ * Where a defect comes from
+ * - cup: off-flavors found when tasting
+ * - roast: roast defects, some counted in beans (e.g. quakers)
+ * - green: green coffee defects, counted in beans
+ */
+export type DefectCategory = 'cup' | 'roast' | 'green';
+
+/**
+ * Catalog entry for a kind of defect
+ */
+export interface DefectType {
+  id: string; // Stored in cup_defects.defect_id; stable once cups use it
+  label: string;
+  category: DefectCategory;
+  defaultSeverity: DefectSeverity;
+  countsBeans: boolean; // Recorded with a count of defective beans
+  flavorId?: number; // Matching flavor wheel descriptor, if any
+  description: string;
+}
+
+/**
+ * Defect recorded against a cup
+ */
+export interface CupDefect {
+  defectId: string; // DefectType.id
+  severity: DefectSeverity;
+  cupCount: number; // Cups affected (1-5)
+  beanCount?: number | null; // Defective beans counted, for green/roast defects
+  notes?: string;
+}
@@ -0,0 +1,41 @@
+/**
+ * Merge Types
+ *
+ * Result of merging two copies of a session that both changed since the
+ * copy they were based on (see utils/sessionMerge).
+ */
+
+import type { ChangeEntity } from './changeLog.types';
+import type { Session } from './session.types';
+
+/**
+ * Side of a conflict to keep
+ */
+export type MergeSide = 'local' | 'remote';
+
+/**
+ * Field changed differently on both sides
+ */
+export interface MergeConflict {
+  id: string; // Stable key of the field, used to pick a side (e.g. 'cup:<id>.ratings.acidity')
+  entity: ChangeEntity;
+  entityId: string;
+  field: string | null; // null when one side removed the record and the other changed it
+  base: unknown; // undefined when the field or record did not exist
+  local: unknown;
+  remote: unknown;
+}
+
+/**
+ * Sides picked for conflicts, by conflict ID
+ */
+export type MergeChoices = Record<string, MergeSide>;
+
+/**
+ * Merged session. Fields in conflict hold the side picked for them, or the
+ * local value until one is.
+ */
+export interface SessionMergeResult {
+  session: Session;
+  conflicts: MergeConflict[]; // Empty when the merge needs no decisions
+}
@@ -5,49 +5,87 @@
  */
 
 import type { SelectedFlavor } from './flavor.types';
+import type { CupDefect } from './defect.types';
+import type { TriangleSet } from './triangle.types';
+import type { SessionTaster, TasterScoreSet } from './taster.types';
 
 /**
- * Score value type (1-5 scale)
+ * Score value type (1-5 scale, used for flavor intensity)
  */
 export type ScoreValue = 1 | 2 | 3 | 4 | 5;
 
 /**
- * Structural scores for a cup of coffee
+ * Scores for a cup, keyed by the attribute keys of the session's scoring
+ * template (see template.types.ts). Unscored attributes are absent.
  */
-export interface StructuralScores {
-  acidity: ScoreValue;
-  sweetness: ScoreValue;
-  body: ScoreValue;
-  clarity: ScoreValue;
-  finish: ScoreValue;
-  enjoyment?: ScoreValue; // Optional overall rating
-}
+export type CupScores = Record<string, number>;
 
 /**
- * SCA-equivalent scores (converted from 1-5 to 6-10 scale)
- * Formula: SCA = 5 + score
+ * SCA cupping form (2004 protocol) for one coffee sample in a pro session.
+ * Quality scores use the 6.00-10.00 scale in quarter points; intensity marks
+ * are descriptive only and do not affect the score.
  */
-export interface SCAScores {
+export interface SCAForm {
+  fragranceAroma: number; // 6-10
+  dryIntensity: number; // 0-5, fragrance of the dry grounds
+  breakIntensity: number; // 0-5, aroma when breaking the crust
+  flavor: number; // 6-10
+  aftertaste: number; // 6-10
   acidity: number; // 6-10
-  sweetness: number; // 6-10
+  acidityIntensity: number; // 1-5, low to high
   body: number; // 6-10
-  clarity: number; // 6-10
-  finish: number; // 6-10
-  enjoyment?: number; // 6-10
-  total?: number; // Sum of all scores
-  average?: number; // Average score
+  bodyLevel: number; // 1-5, thin to heavy
+  balance: number; // 6-10
+  overall: number; // 6-10
+  uniformity: boolean[]; // Per cup (5), 2 points each
+  cleanCup: boolean[]; // Per cup (5), 2 points each
+  sweetness: boolean[]; // Per cup (5), 2 points each
+  taintCups: number; // Cups with a taint (intensity 2)
+  faultCups: number; // Cups with a fault (intensity 4)
+  notes?: string;
+}
+
+/**
+ * Computed SCA form score
+ */
+export interface SCAResult {
+  totalScore: number; // Sum of all ten attributes
+  defects: number; // Points subtracted for taints and faults
+  finalScore: number; // totalScore - defects
+}
+
+/**
+ * CVA (2024 Cupping Value Assessment) descriptive form for one cup.
+ * Intensities are 0-15; they describe the coffee and do not affect the score.
+ */
+export interface CVADescriptiveForm {
+  fragrance: number; // 0-15
+  aroma: number; // 0-15
+  flavor: number; // 0-15
+  aftertaste: number; // 0-15
+  acidity: number; // 0-15
+  sweetness: number; // 0-15
+  mouthfeel: number; // 0-15
+  aromaDescriptors: number[]; // Check-all-that-apply flavor IDs for fragrance/aroma
+  flavorDescriptors: number[]; // Check-all-that-apply flavor IDs for flavor/aftertaste
+  notes?: string;
 }
 
 /**
- * Attribute metadata for UI rendering
+ * CVA affective form for one cup: 1-9 hedonic (liking) scores
  */
-export interface ScoreAttribute {
-  key: keyof StructuralScores;
-  label: string;
-  leftLabel: string; // Low end descriptor
-  rightLabel: string; // High end descriptor
-  description: string;
-  helpText: Record<ScoreValue, string>; // Long-press definitions
+export interface CVAAffectiveForm {
+  fragrance: number; // 1-9
+  aroma: number; // 1-9
+  flavor: number; // 1-9
+  aftertaste: number; // 1-9
+  acidity: number; // 1-9
+  sweetness: number; // 1-9
+  mouthfeel: number; // 1-9
+  overall: number; // 1-9
+  nonUniform: boolean; // Cup differs from the rest of the sample
+  defective: boolean; // Cup has a defect
+  notes?: string;
 }
 
 /**
@@ -56,9 +94,13 @@ export interface ScoreAttribute {
 export interface Cup {
   cupId: string;
   position: number; // 1-5 for table cupping, 1 for single/multi
-  ratings: StructuralScores;
+  ratings: CupScores; // On the session's scoring template; the group mean in group sessions
   flavors: SelectedFlavor[];
+  tasterScores: TasterScoreSet[]; // Group sessions only, one per taster who submitted
+  defects: CupDefect[]; // Empty when none recorded
   notes?: string;
+  cvaDescriptive?: CVADescriptiveForm | null; // CVA sessions only, once scored
+  cvaAffective?: CVAAffectiveForm | null; // CVA sessions only, once scored
   createdAt: string; // ISO8601
   updatedAt: string; // ISO8601
 }
@@ -73,24 +115,61 @@ export type RoastLevel = 'light' | 'medium-light' | 'medium' | 'medium-dark' | '
  */
 export interface CoffeeEntry {
   coffeeId: string;
+  catalogId?: string | null; // Coffee library entry (null when not linked)
   name: string;
   roaster?: string;
   origin?: string;
+  process?: string; // From the coffee library
+  variety?: string; // From the coffee library
+  altitude?: string; // From the coffee library
   brewMethod?: string;
   roastLevel?: RoastLevel;
   roastDate?: string; // ISO8601 date
+  scaForm?: SCAForm | null; // Pro sessions only, once scored
+  blindCode?: string | null; // Blind sessions only, e.g. 'B' or '482'
   cups: Cup[]; // 1+ cups for table cupping, exactly 1 for single/multi
 }
 
+/**
+ * Coffee library entry - a coffee's identity, shared across sessions
+ */
+export interface CatalogCoffee {
+  id: string;
+  name: string;
+  roaster?: string;
+  origin?: string;
+  process?: string; // e.g., Washed, Natural, Honey
+  variety?: string; // e.g., Heirloom, Gesha, SL28
+  altitude?: string; // e.g., 1900-2100 masl
+  roastLevel?: RoastLevel;
+  createdAt: string; // ISO8601
+  updatedAt: string; // ISO8601
+  sessionCount: number; // Sessions (not in trash) that tasted this coffee
+  lastTastedAt?: string; // ISO8601
+}
+
 /**
  * Session mode
  */
 export type SessionMode = 'taste' | 'pro';
 
+/**
+ * Cupping protocol of a pro session
+ */
+export type ScoringProtocol = 'sca' | 'cva';
+
+/**
+ * How the coffees of a blind session are coded
+ * - letters: A, B, C… in the order coffees are added
+ * - digits: random 3-digit codes
+ */
+export type BlindCoding = 'letters' | 'digits';
+
 /**
  * Session type
+ * - triangulation: triangle tests of two coffees (see triangle.types.ts)
  */
-export type SessionType = 'single-coffee' | 'multi-coffee' | 'table-cupping';
+export type SessionType = 'single-coffee' | 'multi-coffee' | 'table-cupping' | 'triangulation';
 
 /**
  * Sync status
@@ -105,12 +184,30 @@ export interface Session {
   createdAt: string; // ISO8601
   updatedAt: string; // ISO8601
   mode: SessionMode;
+  protocol?: ScoringProtocol | null; // Pro sessions only
+  templateId: string; // Scoring template of the cups' ratings
+  blindCoding?: BlindCoding | null; // Blind sessions only
+  revealedAt?: string | null; // ISO8601 when a blind session's coffees were revealed
   sessionType: SessionType;
   coffees: CoffeeEntry[];
+  triangleSets: TriangleSet[]; // Triangulation sessions only, empty otherwise
+  tasters: SessionTaster[]; // Group sessions only, empty for a single taster
   notes?: string;
   tags?: string[];
   syncStatus?: SyncStatus;
   userId?: string | null; // Nullable for guest mode (Phase 1)
+  deletedAt?: string | null; // ISO8601 when in trash, null/undefined when active
+}
+
+/**
+ * Lightweight session for list screens - cups carry scores but no flavors
+ */
+export interface SessionSummary extends Omit<Session, 'coffees'> {
+  coffees: Array<
+    Omit<CoffeeEntry, 'cups'> & {
+      cups: Array<Omit<Cup, 'flavors'>>;
+    }
+  >;
 }
 
 /**
@@ -119,7 +216,7 @@ export interface Session {
 export interface SessionWithStats extends Session {
   stats: {
     totalFlavors: number;
-    averageScores: StructuralScores;
+    averageScores: CupScores;
     topCategories: string[];
     duration?: number; // Minutes spent
   };
@@ -150,28 +247,60 @@ export interface SessionFlowState {
  * Coffee form data for session creation
  */
 export interface CoffeeFormData {
+  catalogId?: string; // Set when picked from the coffee library
   name: string;
   roaster?: string;
   origin?: string;
+  process?: string;
+  variety?: string;
+  altitude?: string;
   brewMethod?: string;
   roastLevel?: RoastLevel;
   roastDate?: Date;
 }
 
+/**
+ * Inclusive score bounds on a template's scale
+ */
+export interface ScoreRange {
+  min?: number;
+  max?: number;
+}
+
 /**
  * Session filter options
  */
 export interface SessionFilters {
   type?: SessionType;
+  mode?: SessionMode;
+  templateId?: string; // Sessions scored with this template
   startDate?: string; // ISO8601
   endDate?: string; // ISO8601
-  tags?: string[];
+  tags?: string[]; // Session has all of these tags
+  roaster?: string; // Any coffee's roaster contains this text (case-insensitive)
+  origin?: string; // Any coffee's origin contains this text (case-insensitive)
+  brewMethod?: string; // Any coffee's brew method contains this text (case-insensitive)
+  roastLevel?: RoastLevel; // Any coffee has this roast level
+  totalScore?: ScoreRange; // Session average of all cup attribute scores
+  attributeScores?: Partial<Record<string, ScoreRange>>; // Session averages by attribute key
+  flavorIds?: number[]; // Session contains all of these flavors
+  category?: string; // Session contains at least one flavor in this category
   sortBy?: 'createdAt' | 'updatedAt' | 'name';
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
 }
 
+/**
+ * Named, saved set of session filters
+ */
+export interface SessionFilterPreset {
+  id: string;
+  name: string;
+  filters: SessionFilters;
+  createdAt: string; // ISO8601
+}
+
 /**
  * Validation error
  */
@@ -0,0 +1,62 @@
+/**
+ * Taster Types
+ *
+ * Taster profiles and the per-taster scores of group cupping sessions,
+ * where several people score the same cups on one shared device.
+ */
+
+import type { SelectedFlavor } from './flavor.types';
+import type { CupScores } from './session.types';
+
+/**
+ * Taster profile, reused across group sessions
+ */
+export interface Taster {
+  id: string;
+  name: string;
+  createdAt: string; // ISO8601
+  updatedAt: string; // ISO8601
+  sessionCount: number; // Group sessions (not in trash) the taster took part in
+}
+
+/**
+ * Participant of a group session
+ */
+export interface SessionTaster {
+  tasterId: string;
+  name: string;
+  position: number; // 1-based order the device is handed around in
+  submittedAt?: string | null; // ISO8601 once the taster has submitted their scores
+}
+
+/**
+ * One taster's scores and flavors for a cup
+ */
+export interface TasterScoreSet {
+  tasterId: string;
+  ratings: CupScores; // On the session's scoring template
+  flavors: SelectedFlavor[];
+}
+
+/**
+ * Agreement between tasters on one attribute
+ */
+export interface ScoreSpread {
+  mean: number;
+  min: number;
+  max: number;
+  range: number; // max - min
+  stdDev: number; // Population standard deviation, 0 for a single score
+  count: number; // Tasters who scored the attribute
+}
+
+/**
+ * One attribute of a coffee in a group session: each taster's score
+ * (averaged over the coffee's cups) and the group's agreement
+ */
+export interface GroupAttributeScores {
+  key: string; // Template attribute key
+  label: string;
+  byTaster: Record<string, number | undefined>; // Keyed by taster ID, undefined when not scored
+  spread: ScoreSpread | null; // Null when no taster scored the attribute
+}
@@ -0,0 +1,55 @@
+/**
+ * Scoring Template Types
+ *
+ * A scoring template defines what is scored on each cup of a session:
+ * the attributes, their scale and how a cup's total is computed.
+ */
+
+/**
+ * Inclusive score scale of a template's attributes
+ */
+export interface ScoreScale {
+  min: number;
+  max: number;
+  step: number; // Smallest increment between scores
+}
+
+/**
+ * One scored attribute of a template
+ */
+export interface TemplateAttribute {
+  key: string; // Stored in cup_scores.attribute; stable once sessions use it
+  label: string;
+  shortLabel?: string; // Chart axis label (defaults to label)
+  leftLabel?: string; // Low end descriptor
+  rightLabel?: string; // High end descriptor
+  description?: string;
+  helpText?: Record<number, string>; // Long-press definition per score
+  optional?: boolean; // May be left unscored without leaving the cup incomplete
+  excludeFromChart?: boolean; // Left off radar charts (e.g. an overall rating)
+}
+
+/**
+ * How a cup's total is computed from its attribute scores
+ * - sum: sum of the scored attributes
+ * - average: mean of the scored attributes
+ * - weighted: sum of score × weight (unlisted attributes weigh 1)
+ */
+export type TemplateTotal =
+  | { method: 'sum' }
+  | { method: 'average' }
+  | { method: 'weighted'; weights: Record<string, number> };
+
+/**
+ * Scoring template registered with the template service
+ */
+export interface ScoringTemplate {
+  id: string; // Stored in sessions.template_id; stable once sessions use it
+  name: string;
+  description: string;
+  scale: ScoreScale;
+  defaultScore: number; // Starting value on the scoring screen
+  attributes: TemplateAttribute[];
+  total: TemplateTotal;
+  scaOffset?: number; // Added to a score to show it on the SCA 6-10 scale (no SCA view when absent)
+}
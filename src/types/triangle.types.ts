@@ -0,0 +1,40 @@
+/**
+ * Triangle Test Types
+ *
+ * Sets of a triangulation session: three cups, two of one coffee and one
+ * of the other, and the cup the taster picked as the odd one.
+ */
+
+/**
+ * Cup position within a set
+ */
+export type TrianglePosition = 1 | 2 | 3;
+
+/**
+ * One set of three cups
+ */
+export interface TriangleSet {
+  setId: string;
+  setNumber: number; // 1-based, in the order sets were poured
+  oddCoffeeId: string; // Coffee of the odd cup; the other two cups are the session's other coffee
+  oddPosition: TrianglePosition; // Hidden from the taster until the set is answered
+  chosenPosition?: TrianglePosition | null; // Cup the taster picked, null until answered
+  descriptors: number[]; // Flavor IDs the taster noted on the cup they picked
+  notes?: string;
+  createdAt: string; // ISO8601
+  answeredAt?: string | null; // ISO8601
+}
+
+/**
+ * Accuracy of answered sets against guessing.
+ * A taster who cannot tell the coffees apart picks the odd cup one time in
+ * three; pValue is the chance of at least correctSets right by guessing alone.
+ */
+export interface TriangleSummary {
+  totalSets: number; // Answered sets
+  correctSets: number;
+  accuracy: number; // 0-1, 0 when no sets are answered
+  pValue: number; // One-sided binomial, 1 when no sets are answered
+  significant: boolean; // pValue below the significance level
+  minCorrect: number | null; // Correct sets needed for significance at totalSets, null if none suffice
+}
@@ -0,0 +1,349 @@
+/**
+ * Backup Archive
+ *
+ * Encodes backup contents into the archive file format and back. Contents
+ * are serialized as JSON and checksummed with SHA-256; with a passphrase
+ * they are encrypted with XChaCha20-Poly1305 under a key derived by scrypt,
+ * so a wrong passphrase or a tampered payload fails to decrypt. The
+ * unencrypted header fields are bound to the ciphertext as associated data.
+ *
+ * Text and base64 are converted here rather than with TextEncoder/atob,
+ * which the app's JS engine does not provide.
+ */
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import type {
+  BackupArchive,
+  BackupContents,
+  BackupEncryption,
+  BackupReason,
+} from '../types/backup.types';
+import { AppError } from './errorHandling';
+
+/**
+ * Version of the archive format this app writes and reads
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * scrypt cost: ~16 MB of memory and about a second on a phone. Archives
+ * naming other parameters are rejected, so a crafted file cannot make the
+ * key derivation take all the phone's memory.
+ */
+const SCRYPT_PARAMS = { N: 2 ** 14, r: 8, p: 1 } as const;
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 24;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Map(Array.from(BASE64_ALPHABET).map((char, index) => [char, index]));
+
+/**
+ * Source of cryptographically secure random bytes
+ */
+export type RandomBytes = (length: number) => Uint8Array;
+
+/**
+ * Encode bytes as base64 (with padding).
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    chunks.push(
+      BASE64_ALPHABET[(n >> 18) & 63] +
+        BASE64_ALPHABET[(n >> 12) & 63] +
+        (i + 1 < bytes.length ? BASE64_ALPHABET[(n >> 6) & 63] : '=') +
+        (i + 2 < bytes.length ? BASE64_ALPHABET[n & 63] : '=')
+    );
+  }
+  return chunks.join('');
+}
+
+/**
+ * Decode base64 (padding and whitespace optional).
+ *
+ * @throws Error on characters outside the base64 alphabet
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[\s=]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of clean) {
+    const value = BASE64_LOOKUP.get(char);
+    if (value === undefined) {
+      throw new Error(`Invalid base64 character: ${char}`);
+    }
+    buffer = ((buffer << 6) | value) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Encode text as UTF-8.
+ */
+export function utf8ToBytes(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Decode UTF-8 text.
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+  const codes: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    const length = byte < 0x80 ? 1 : byte < 0xe0 ? 2 : byte < 0xf0 ? 3 : 4;
+    let code = length === 1 ? byte : byte & (0xff >> (length + 1));
+    for (let j = 1; j < length; j++) {
+      code = (code << 6) | (bytes[i + j] & 63);
+    }
+    codes.push(code);
+    i += length;
+  }
+
+  // String.fromCodePoint takes a limited number of arguments
+  const chunks: string[] = [];
+  for (let i = 0; i < codes.length; i += 8192) {
+    chunks.push(String.fromCodePoint(...codes.slice(i, i + 8192)));
+  }
+  return chunks.join('');
+}
+
+function invalidBackup(message: string): AppError {
+  return new AppError(
+    `Invalid backup: ${message}`,
+    'INVALID_BACKUP',
+    'This file is not a Cupper backup, or it is damaged.'
+  );
+}
+
+function associatedData(
+  archive: Pick<
+    BackupArchive,
+    'formatVersion' | 'createdAt' | 'reason' | 'schemaVersion' | 'checksum'
+  >
+): Uint8Array {
+  return utf8ToBytes(
+    [
+      'cupper-backup',
+      archive.formatVersion,
+      archive.createdAt,
+      archive.reason,
+      archive.schemaVersion,
+      archive.checksum,
+    ].join('\n')
+  );
+}
+
+async function deriveKey(passphrase: string, encryption: BackupEncryption): Promise<Uint8Array> {
+  return scryptAsync(utf8ToBytes(passphrase), base64ToBytes(encryption.salt), {
+    N: encryption.N,
+    r: encryption.r,
+    p: encryption.p,
+    dkLen: KEY_LENGTH,
+  });
+}
+
+/**
+ * Build an archive of backup contents.
+ *
+ * @param contents - Database and settings to back up
+ * @param meta - Why the backup is made and the database's migration version
+ * @param passphrase - Encrypt with this passphrase (optional)
+ * @param random - Secure random source, for the salt and nonce
+ */
+export async function encodeBackup(
+  contents: BackupContents,
+  meta: { reason: BackupReason; schemaVersion: number },
+  passphrase: string | null,
+  random: RandomBytes
+): Promise<BackupArchive> {
+  const plaintext = utf8ToBytes(JSON.stringify(contents));
+  const header = {
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    reason: meta.reason,
+    schemaVersion: meta.schemaVersion,
+    checksum: bytesToHex(sha256(plaintext)),
+  };
+
+  if (!passphrase) {
+    return {
+      format: 'cupper-backup',
+      ...header,
+      encryption: null,
+      payload: bytesToBase64(plaintext),
+    };
+  }
+
+  const encryption: BackupEncryption = {
+    cipher: 'xchacha20-poly1305',
+    kdf: 'scrypt',
+    ...SCRYPT_PARAMS,
+    salt: bytesToBase64(random(SALT_LENGTH)),
+    nonce: bytesToBase64(random(NONCE_LENGTH)),
+  };
+  const key = await deriveKey(passphrase, encryption);
+  const ciphertext = xchacha20poly1305(
+    key,
+    base64ToBytes(encryption.nonce),
+    associatedData(header)
+  ).encrypt(plaintext);
+
+  return {
+    format: 'cupper-backup',
+    ...header,
+    encryption,
+    payload: bytesToBase64(ciphertext),
+  };
+}
+
+/**
+ * Parse and validate the structure of an archive file.
+ *
+ * @throws AppError INVALID_BACKUP if it is not an archive,
+ * BACKUP_FORMAT_UNSUPPORTED if a newer app wrote it
+ */
+export function parseBackup(text: string): BackupArchive {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw invalidBackup('not JSON');
+  }
+
+  const archive = value as Partial<BackupArchive> | null;
+  if (!archive || typeof archive !== 'object' || archive.format !== 'cupper-backup') {
+    throw invalidBackup('not a backup archive');
+  }
+  if (typeof archive.formatVersion !== 'number' || archive.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new AppError(
+      `Unsupported backup format version: ${String(archive.formatVersion)}`,
+      'BACKUP_FORMAT_UNSUPPORTED',
+      'This backup was made by a newer version of Cupper. Update the app to restore it.'
+    );
+  }
+  if (
+    typeof archive.createdAt !== 'string' ||
+    typeof archive.reason !== 'string' ||
+    typeof archive.schemaVersion !== 'number' ||
+    !Number.isInteger(archive.schemaVersion) ||
+    archive.schemaVersion < 1 ||
+    typeof archive.checksum !== 'string' ||
+    typeof archive.payload !== 'string'
+  ) {
+    throw invalidBackup('missing header fields');
+  }
+
+  const encryption = archive.encryption;
+  if (encryption !== null) {
+    const valid =
+      typeof encryption === 'object' &&
+      encryption.cipher === 'xchacha20-poly1305' &&
+      encryption.kdf === 'scrypt' &&
+      encryption.N === SCRYPT_PARAMS.N &&
+      encryption.r === SCRYPT_PARAMS.r &&
+      encryption.p === SCRYPT_PARAMS.p &&
+      typeof encryption.salt === 'string' &&
+      typeof encryption.nonce === 'string';
+    if (!valid) {
+      throw invalidBackup('unknown encryption');
+    }
+  }
+
+  return archive as BackupArchive;
+}
+
+/**
+ * Decrypt (if needed) and verify the contents of an archive.
+ *
+ * @param archive - Parsed archive
+ * @param passphrase - Passphrase of an encrypted archive
+ * @throws AppError BACKUP_PASSPHRASE_REQUIRED, BACKUP_WRONG_PASSPHRASE, or
+ * BACKUP_CORRUPT if the contents do not match the checksum
+ */
+export async function decodeBackup(
+  archive: BackupArchive,
+  passphrase: string | null
+): Promise<BackupContents> {
+  let plaintext: Uint8Array;
+  try {
+    plaintext = base64ToBytes(archive.payload);
+  } catch {
+    throw invalidBackup('payload is not base64');
+  }
+
+  if (archive.encryption) {
+    if (!passphrase) {
+      throw new AppError(
+        'Backup is encrypted',
+        'BACKUP_PASSPHRASE_REQUIRED',
+        'This backup is encrypted. Enter its passphrase.'
+      );
+    }
+    const key = await deriveKey(passphrase, archive.encryption);
+    try {
+      plaintext = xchacha20poly1305(
+        key,
+        base64ToBytes(archive.encryption.nonce),
+        associatedData(archive)
+      ).decrypt(plaintext);
+    } catch {
+      throw new AppError(
+        'Backup did not decrypt',
+        'BACKUP_WRONG_PASSPHRASE',
+        'Wrong passphrase, or the backup is damaged.'
+      );
+    }
+  }
+
+  const corrupt = new AppError(
+    'Backup checksum mismatch',
+    'BACKUP_CORRUPT',
+    'This backup is damaged and cannot be restored.'
+  );
+  if (bytesToHex(sha256(plaintext)) !== archive.checksum) {
+    throw corrupt;
+  }
+
+  try {
+    const contents = JSON.parse(bytesToUtf8(plaintext)) as Partial<BackupContents>;
+    if (typeof contents.database === 'string' && contents.database.length > 0) {
+      return { database: contents.database, settings: contents.settings ?? null };
+    }
+  } catch {
+    // Fall through
+  }
+  throw corrupt;
+}
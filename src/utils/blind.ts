@@ -0,0 +1,106 @@
+/**
+ * Blind Cupping
+ *
+ * Codes for the coffees of blind sessions, and helpers that hide a sealed
+ * session's coffees behind those codes until it is revealed.
+ */
+
+import type { BlindCoding, CoffeeEntry, Session } from '../types/session.types';
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Letter code of the nth coffee (0-based): A-Z, then AA, AB...
+ */
+function toLetterCode(index: number): string {
+  let code = '';
+  let n = index;
+  do {
+    code = LETTERS[n % LETTERS.length] + code;
+    n = Math.floor(n / LETTERS.length) - 1;
+  } while (n >= 0);
+  return code;
+}
+
+/**
+ * Next code for a coffee of a blind session: the first unused letter, or a
+ * random unused 3-digit code.
+ *
+ * @param coding - Coding style of the session
+ * @param taken - Codes already given to the session's coffees
+ * @returns Blind code, e.g. 'C' or '482'
+ */
+export function generateBlindCode(coding: BlindCoding, taken: string[]): string {
+  const used = new Set(taken);
+
+  if (coding === 'letters') {
+    let index = 0;
+    while (used.has(toLetterCode(index))) index++;
+    return toLetterCode(index);
+  }
+
+  // 900 codes to pick from; a session never holds anywhere near that many coffees
+  let code: string;
+  do {
+    code = String(100 + Math.floor(Math.random() * 900));
+  } while (used.has(code));
+  return code;
+}
+
+/**
+ * Label shown in place of a sealed coffee's name
+ * @example formatBlindCode('B') → 'Coffee B'
+ */
+export function formatBlindCode(code: string): string {
+  return `Coffee ${code}`;
+}
+
+/**
+ * Whether a session's coffees are still hidden behind their blind codes
+ */
+export function isSealed(session: Pick<Session, 'blindCoding' | 'revealedAt'>): boolean {
+  return !!session.blindCoding && !session.revealedAt;
+}
+
+/**
+ * Whether a revealed blind session was changed after the reveal, so not all
+ * of its scores were given blind
+ */
+export function hasSightedEdits(
+  session: Pick<Session, 'blindCoding' | 'revealedAt' | 'updatedAt'>
+): boolean {
+  return !!session.blindCoding && !!session.revealedAt && session.updatedAt > session.revealedAt;
+}
+
+/**
+ * A coffee as shown while its session is sealed: the name becomes the blind
+ * code and everything that identifies the coffee is left out.
+ */
+export function sealCoffee<T extends Omit<CoffeeEntry, 'cups'>>(coffee: T): T {
+  return {
+    ...coffee,
+    name: coffee.blindCode ? formatBlindCode(coffee.blindCode) : 'Uncoded coffee',
+    catalogId: null,
+    roaster: undefined,
+    origin: undefined,
+    process: undefined,
+    variety: undefined,
+    altitude: undefined,
+    roastLevel: undefined,
+    roastDate: undefined,
+  };
+}
+
+/**
+ * A session as shown to the cupper: a sealed session has its coffees sealed,
+ * any other session is returned unchanged. Only for display - never save a
+ * sealed session back.
+ */
+export function sealSession<
+  T extends Pick<Session, 'blindCoding' | 'revealedAt'> & {
+    coffees: Array<Omit<CoffeeEntry, 'cups'>>;
+  },
+>(session: T): T {
+  if (!isSealed(session)) return session;
+  return { ...session, coffees: session.coffees.map(sealCoffee) as T['coffees'] };
+}
@@ -0,0 +1,156 @@
+/**
+ * Change Log
+ *
+ * Helpers for the local change log: the changes a session update makes,
+ * field by field, and how a run of changes collapses once only the latest
+ * state of each record matters.
+ */
+
+import type { ChangeInput, ChangeLogEntry } from '../types/changeLog.types';
+import type { CoffeeEntry, Cup, Session } from '../types/session.types';
+
+/**
+ * Fields updateSession writes, per record
+ */
+const SESSION_FIELDS = ['notes', 'tags'] as const;
+const COFFEE_FIELDS = [
+  'name',
+  'roaster',
+  'origin',
+  'brewMethod',
+  'roastLevel',
+  'roastDate',
+  'scaForm',
+] as const;
+const CUP_FIELDS = ['notes', 'flavors', 'defects', 'cvaDescriptive', 'cvaAffective'] as const;
+
+/**
+ * Comparable form of a field value: unset and empty are the same, and
+ * lists stored without an order (flavors, defects) are sorted
+ */
+function normalize(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return 'null';
+  if (field === 'flavors' && Array.isArray(value)) {
+    return JSON.stringify([...value].sort((a, b) => a.flavorId - b.flavorId));
+  }
+  if (field === 'defects' && Array.isArray(value)) {
+    return JSON.stringify([...value].sort((a, b) => a.defectId.localeCompare(b.defectId)));
+  }
+  return JSON.stringify(value);
+}
+
+function changedFields<T>(before: T, after: T, fields: ReadonlyArray<keyof T & string>): string[] {
+  return fields.filter(field => normalize(field, before[field]) !== normalize(field, after[field]));
+}
+
+/**
+ * Attributes whose score was added, changed or removed
+ *
+ * @example changedRatings({ acidity: 3 }, { acidity: 4, body: 2 }) → ['ratings.acidity', 'ratings.body']
+ */
+export function changedRatings(before: Cup['ratings'], after: Cup['ratings']): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys)
+    .filter(key => before[key] !== after[key])
+    .map(key => `ratings.${key}`);
+}
+
+/**
+ * Changes an update writes over a stored session: one update per session,
+ * coffee and cup with fields that differ. Coffees and cups not stored yet
+ * are left out, as updateSession does not insert them.
+ *
+ * @param before - Session as stored
+ * @param after - Session being saved
+ */
+export function diffSession(before: Session, after: Session): ChangeInput[] {
+  const changes: ChangeInput[] = [];
+  const push = (entity: ChangeInput['entity'], entityId: string, fields: string[]) => {
+    if (fields.length > 0) {
+      changes.push({ sessionId: before.id, entity, entityId, operation: 'update', fields });
+    }
+  };
+
+  push('session', before.id, changedFields(before, after, SESSION_FIELDS));
+
+  const storedCoffees = new Map<string, CoffeeEntry>(before.coffees.map(c => [c.coffeeId, c]));
+  for (const coffee of after.coffees) {
+    const stored = storedCoffees.get(coffee.coffeeId);
+    if (!stored) continue;
+    push('coffee', coffee.coffeeId, changedFields(stored, coffee, COFFEE_FIELDS));
+
+    const storedCups = new Map(stored.cups.map(cup => [cup.cupId, cup]));
+    for (const cup of coffee.cups) {
+      const storedCup = storedCups.get(cup.cupId);
+      if (!storedCup) continue;
+      push('cup', cup.cupId, [
+        ...changedRatings(storedCup.ratings, cup.ratings),
+        ...changedFields(storedCup, cup, CUP_FIELDS),
+      ]);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Collapse changes to one per record, at the position of its latest change:
+ * fields are merged, a record inserted and then deleted drops out, one
+ * deleted and then inserted again counts as inserted, and everything
+ * recorded against a session whose latest change deletes it goes with it.
+ *
+ * @param entries - Changes, oldest first
+ * @returns Entries to keep (with merged operation and fields) and the
+ * sequence numbers of those absorbed or dropped
+ */
+export function compactChanges(entries: ChangeLogEntry[]): {
+  keep: ChangeLogEntry[];
+  drop: number[];
+} {
+  const byRecord = new Map<string, ChangeLogEntry[]>();
+  for (const entry of entries) {
+    const key = `${entry.entity}:${entry.entityId}`;
+    byRecord.set(key, [...(byRecord.get(key) || []), entry]);
+  }
+
+  // Sessions whose latest change removes them; one deleted and then
+  // inserted again (an import overwrite) is still there
+  const lastSessionChange = new Map<string, ChangeLogEntry>();
+  for (const entry of entries) {
+    if (entry.entity === 'session') lastSessionChange.set(entry.sessionId, entry);
+  }
+  const deletedSessions = new Set(
+    Array.from(lastSessionChange.values())
+      .filter(entry => entry.operation === 'delete')
+      .map(entry => entry.sessionId)
+  );
+
+  const keep: ChangeLogEntry[] = [];
+  const drop: number[] = [];
+  for (const changes of byRecord.values()) {
+    const first = changes[0];
+    const last = changes[changes.length - 1];
+    const isSession = first.entity === 'session';
+
+    const removed =
+      (first.operation === 'insert' && last.operation === 'delete') ||
+      (!isSession && deletedSessions.has(first.sessionId));
+    if (removed) {
+      drop.push(...changes.map(change => change.seq));
+      continue;
+    }
+
+    const operation =
+      last.operation === 'delete'
+        ? 'delete'
+        : first.operation === 'insert' || last.operation === 'insert'
+          ? 'insert'
+          : 'update';
+    const fields =
+      operation === 'delete' ? [] : Array.from(new Set(changes.flatMap(change => change.fields)));
+    drop.push(...changes.slice(0, -1).map(change => change.seq));
+    keep.push({ ...last, operation, fields });
+  }
+
+  return { keep: keep.sort((a, b) => a.seq - b.seq), drop: drop.sort((a, b) => a - b) };
+}
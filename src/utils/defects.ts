@@ -0,0 +1,291 @@
+/**
+ * Defects
+ *
+ * Catalog of defect types that can be recorded against a cup, and helpers
+ * to look them up, describe them and validate a cup's defects.
+ */
+
+import type { CupDefect, DefectCategory, DefectSeverity, DefectType } from '../types/defect.types';
+import type { ValidationError } from '../types/session.types';
+
+/**
+ * Every defect type, grouped by category in display order
+ */
+export const DEFECT_CATALOG: DefectType[] = [
+  // Cup defects found when tasting
+  {
+    id: 'phenolic',
+    label: 'Phenolic',
+    category: 'cup',
+    defaultSeverity: 'fault',
+    countsBeans: false,
+    flavorId: 104,
+    description: 'Medicinal, plastic or band-aid character',
+  },
+  {
+    id: 'ferment',
+    label: 'Ferment',
+    category: 'cup',
+    defaultSeverity: 'fault',
+    countsBeans: false,
+    flavorId: 31,
+    description: 'Overripe, vinegary or rotten fruit character',
+  },
+  {
+    id: 'potato',
+    label: 'Potato',
+    category: 'cup',
+    defaultSeverity: 'taint',
+    countsBeans: false,
+    flavorId: 32,
+    description: 'Raw potato or pea aroma from antestia bug damage',
+  },
+  {
+    id: 'rioy',
+    label: 'Rioy',
+    category: 'cup',
+    defaultSeverity: 'fault',
+    countsBeans: false,
+    flavorId: 34,
+    description: 'Iodine-like, medicinal harshness',
+  },
+  {
+    id: 'moldy',
+    label: 'Moldy',
+    category: 'cup',
+    defaultSeverity: 'fault',
+    countsBeans: false,
+    flavorId: 62,
+    description: 'Mold or mildew from damp storage',
+  },
+  {
+    id: 'musty',
+    label: 'Musty/Earthy',
+    category: 'cup',
+    defaultSeverity: 'taint',
+    countsBeans: false,
+    flavorId: 98,
+    description: 'Dusty, damp cellar character',
+  },
+  {
+    id: 'rubber',
+    label: 'Rubber',
+    category: 'cup',
+    defaultSeverity: 'taint',
+    countsBeans: false,
+    flavorId: 69,
+    description: 'Hot tire or rubber band character',
+  },
+  {
+    id: 'petroleum',
+    label: 'Petroleum',
+    category: 'cup',
+    defaultSeverity: 'fault',
+    countsBeans: false,
+    flavorId: 68,
+    description: 'Diesel, kerosene or chemical contamination',
+  },
+  {
+    id: 'baggy',
+    label: 'Baggy/Papery',
+    category: 'cup',
+    defaultSeverity: 'taint',
+    countsBeans: false,
+    flavorId: 7,
+    description: 'Jute bag, cardboard or stale character from storage',
+  },
+  {
+    id: 'past-crop',
+    label: 'Past Crop',
+    category: 'cup',
+    defaultSeverity: 'taint',
+    countsBeans: false,
+    flavorId: 96,
+    description: 'Woody, faded flavor of aged green coffee',
+  },
+  // Roast defects
+  {
+    id: 'quakers',
+    label: 'Quakers',
+    category: 'roast',
+    defaultSeverity: 'taint',
+    countsBeans: true,
+    flavorId: 72,
+    description: 'Pale, unripe beans that stay light in the roast and taste grainy',
+  },
+  {
+    id: 'scorched',
+    label: 'Scorched/Tipped',
+    category: 'roast',
+    defaultSeverity: 'taint',
+    countsBeans: true,
+    flavorId: 36,
+    description: 'Burnt faces or tips from too much heat',
+  },
+  {
+    id: 'baked',
+    label: 'Baked',
+    category: 'roast',
+    defaultSeverity: 'taint',
+    countsBeans: false,
+    description: 'Flat, bready character from a stalled roast',
+  },
+  {
+    id: 'smoky',
+    label: 'Smoky',
+    category: 'roast',
+    defaultSeverity: 'taint',
+    countsBeans: false,
+    flavorId: 108,
+    description: 'Ashy smoke from the roaster',
+  },
+  // Green coffee defects
+  {
+    id: 'full-black',
+    label: 'Full Black',
+    category: 'green',
+    defaultSeverity: 'fault',
+    countsBeans: true,
+    description: 'Fully black beans from over-fermentation or dead cherries',
+  },
+  {
+    id: 'full-sour',
+    label: 'Full Sour',
+    category: 'green',
+    defaultSeverity: 'fault',
+    countsBeans: true,
+    flavorId: 67,
+    description: 'Yellow-brown, over-fermented beans',
+  },
+  {
+    id: 'fungus-damage',
+    label: 'Fungus Damage',
+    category: 'green',
+    defaultSeverity: 'fault',
+    countsBeans: true,
+    description: 'Beans with yellow or red-brown fungal spots',
+  },
+  {
+    id: 'insect-damage',
+    label: 'Insect Damage',
+    category: 'green',
+    defaultSeverity: 'taint',
+    countsBeans: true,
+    description: 'Beans bored by the coffee berry borer',
+  },
+  {
+    id: 'foreign-matter',
+    label: 'Foreign Matter',
+    category: 'green',
+    defaultSeverity: 'fault',
+    countsBeans: true,
+    description: 'Stones, sticks or other non-coffee material',
+  },
+];
+
+/**
+ * Display names of the defect categories
+ */
+export const DEFECT_CATEGORY_LABELS: Record<DefectCategory, string> = {
+  cup: 'Cup',
+  roast: 'Roast',
+  green: 'Green',
+};
+
+/**
+ * Most cups a single defect entry can cover (one SCA sample)
+ */
+export const MAX_DEFECT_CUPS = 5;
+
+const SEVERITIES: DefectSeverity[] = ['taint', 'fault'];
+
+const DEFECTS_BY_ID = new Map(DEFECT_CATALOG.map(defect => [defect.id, defect]));
+
+/**
+ * Get a defect type by ID.
+ *
+ * @returns Defect type, or null if the catalog has no such defect
+ */
+export function getDefectType(id: string): DefectType | null {
+  return DEFECTS_BY_ID.get(id) || null;
+}
+
+/**
+ * Display name of a defect (falls back to the ID for unknown defects)
+ */
+export function getDefectLabel(id: string): string {
+  return DEFECTS_BY_ID.get(id)?.label ?? id;
+}
+
+/**
+ * A new defect entry with the catalog's default severity on one cup
+ */
+export function createCupDefect(defect: DefectType): CupDefect {
+  return {
+    defectId: defect.id,
+    severity: defect.defaultSeverity,
+    cupCount: 1,
+    beanCount: defect.countsBeans ? 1 : null,
+  };
+}
+
+/**
+ * One-line description of a recorded defect
+ * @example formatCupDefect({ defectId: 'quakers', severity: 'taint', cupCount: 2, beanCount: 3 })
+ *   → 'Quakers · taint · 2 cups · 3 beans'
+ */
+export function formatCupDefect(defect: CupDefect): string {
+  const parts = [getDefectLabel(defect.defectId), defect.severity];
+  parts.push(`${defect.cupCount} ${defect.cupCount === 1 ? 'cup' : 'cups'}`);
+  if (defect.beanCount) {
+    parts.push(`${defect.beanCount} ${defect.beanCount === 1 ? 'bean' : 'beans'}`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Check a cup's defects against the catalog and the cup_defects CHECK
+ * constraints: known defect types, each at most once, 1-5 affected cups
+ * and a whole, non-negative bean count.
+ *
+ * @returns Validation errors keyed by list index (empty when valid)
+ */
+export function validateCupDefects(defects: CupDefect[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+
+  defects.forEach((defect, index) => {
+    const error = (field: string, message: string) =>
+      errors.push({ field: `[${index}].${field}`, message });
+
+    if (!getDefectType(defect.defectId)) {
+      error('defectId', 'Unknown defect type');
+    } else if (seen.has(defect.defectId)) {
+      error('defectId', 'Defect is recorded more than once');
+    }
+    seen.add(defect.defectId);
+
+    if (!SEVERITIES.includes(defect.severity)) {
+      error('severity', `Severity must be one of: ${SEVERITIES.join(', ')}`);
+    }
+    if (
+      !Number.isInteger(defect.cupCount) ||
+      defect.cupCount < 1 ||
+      defect.cupCount > MAX_DEFECT_CUPS
+    ) {
+      error('cupCount', `Cup count must be a whole number from 1 to ${MAX_DEFECT_CUPS}`);
+    }
+    if (
+      defect.beanCount !== undefined &&
+      defect.beanCount !== null &&
+      (!Number.isInteger(defect.beanCount) || defect.beanCount < 0)
+    ) {
+      error('beanCount', 'Bean count must be a whole number of 0 or more, or null');
+    }
+    if (defect.notes !== undefined && typeof defect.notes !== 'string') {
+      error('notes', 'Notes must be text');
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,222 @@
+/**
+ * Group Cupping
+ *
+ * Helpers for sessions scored by several tasters on one shared device:
+ * who scores next, when the group's scores may be shown, and the group
+ * mean and spread of each attribute, with the agreement statistics
+ * (rank concordance, descriptor overlap) of calibration reports.
+ */
+
+import type { SelectedFlavor } from '../types/flavor.types';
+import type { Cup, CupScores, Session } from '../types/session.types';
+import type {
+  GroupAttributeScores,
+  ScoreSpread,
+  SessionTaster,
+  TasterScoreSet,
+} from '../types/taster.types';
+import type { ScoringTemplate } from '../types/template.types';
+import { averageScores, roundToScale } from './scoringTemplates';
+
+/**
+ * Fewest tasters of a group session
+ */
+export const MIN_GROUP_TASTERS = 2;
+
+/**
+ * Whether a session is scored by a group of tasters
+ */
+export function isGroupSession(session: Pick<Session, 'tasters'>): boolean {
+  return session.tasters.length > 0;
+}
+
+/**
+ * Whether every taster of a group session has submitted. Until then each
+ * taster's scores stay private, and the cups carry no group mean.
+ */
+export function isGroupComplete(session: Pick<Session, 'tasters'>): boolean {
+  return isGroupSession(session) && session.tasters.every(taster => !!taster.submittedAt);
+}
+
+/**
+ * Next taster to hand the device to: the first, in hand-around order, who
+ * has not submitted
+ *
+ * @returns Taster, or null when everyone has submitted
+ */
+export function getNextTaster(tasters: SessionTaster[]): SessionTaster | null {
+  const pending = tasters.filter(taster => !taster.submittedAt);
+  if (pending.length === 0) return null;
+  return pending.reduce((next, taster) => (taster.position < next.position ? taster : next));
+}
+
+/**
+ * Mean and spread of the tasters' scores of one attribute
+ *
+ * @returns Spread, or null when there are no scores
+ * @example summarizeSpread([3, 4, 5]) → { mean: 4, min: 3, max: 5, range: 2, stdDev: 0.82, count: 3 }
+ */
+export function summarizeSpread(values: number[]): ScoreSpread | null {
+  if (values.length === 0) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return {
+    mean,
+    min,
+    max,
+    range: max - min,
+    stdDev: Math.sqrt(variance),
+    count: values.length,
+  };
+}
+
+/**
+ * A taster's average score per attribute over a coffee's cups
+ */
+export function getTasterAverages(
+  template: ScoringTemplate,
+  cups: Array<Pick<Cup, 'tasterScores'>>,
+  tasterId: string
+): CupScores {
+  return averageScores(
+    template,
+    cups.flatMap(cup =>
+      cup.tasterScores.filter(set => set.tasterId === tasterId).map(set => set.ratings)
+    )
+  );
+}
+
+/**
+ * Each taster's scores of a coffee with the group mean and spread, one row
+ * per template attribute
+ */
+export function summarizeGroupScores(
+  template: ScoringTemplate,
+  cups: Array<Pick<Cup, 'tasterScores'>>,
+  tasters: SessionTaster[]
+): GroupAttributeScores[] {
+  const averages = new Map(
+    tasters.map(taster => [taster.tasterId, getTasterAverages(template, cups, taster.tasterId)])
+  );
+
+  return template.attributes.map(attribute => {
+    const byTaster: Record<string, number | undefined> = {};
+    for (const taster of tasters) {
+      byTaster[taster.tasterId] = averages.get(taster.tasterId)?.[attribute.key];
+    }
+    const values = Object.values(byTaster).filter((value): value is number => value !== undefined);
+    return {
+      key: attribute.key,
+      label: attribute.shortLabel ?? attribute.label,
+      byTaster,
+      spread: summarizeSpread(values),
+    };
+  });
+}
+
+/**
+ * Group mean of a cup's scores across its tasters, rounded to the template's
+ * scale so it can be stored as the cup's own scores. The exact means are
+ * shown from the tasters' scores (summarizeGroupScores).
+ */
+export function computeGroupMean(template: ScoringTemplate, sets: TasterScoreSet[]): CupScores {
+  const means = averageScores(
+    template,
+    sets.map(set => set.ratings)
+  );
+  for (const key of Object.keys(means)) {
+    means[key] = roundToScale(template.scale, means[key]);
+  }
+  return means;
+}
+
+/**
+ * Flavors of a cup across its tasters: every flavor any taster picked, at
+ * the mean intensity of those who picked it, and dominant when at least
+ * half of them marked it so.
+ */
+export function mergeGroupFlavors(sets: TasterScoreSet[]): SelectedFlavor[] {
+  const picks = new Map<number, SelectedFlavor[]>();
+  for (const flavor of sets.flatMap(set => set.flavors)) {
+    picks.set(flavor.flavorId, [...(picks.get(flavor.flavorId) || []), flavor]);
+  }
+
+  return Array.from(picks, ([flavorId, flavors]) => ({
+    flavorId,
+    intensity: Math.round(
+      flavors.reduce((sum, flavor) => sum + flavor.intensity, 0) / flavors.length
+    ) as SelectedFlavor['intensity'],
+    dominant: flavors.filter(flavor => flavor.dominant).length * 2 >= flavors.length,
+  })).sort((a, b) => Number(b.dominant) - Number(a.dominant) || b.intensity - a.intensity);
+}
+
+/**
+ * Ranks of values, lowest first, ties sharing their average rank
+ *
+ * @example rankValues([7, 5, 7]) → [2.5, 1, 2.5]
+ */
+export function rankValues(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = rank;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Kendall's coefficient of concordance: how alike the tasters rank the
+ * coffees, from 0 (no agreement) to 1 (identical rankings), corrected for
+ * ties.
+ *
+ * @param scores - One row per taster, one column per coffee
+ * @returns W, or null with fewer than two tasters or coffees, or when every
+ * taster scored every coffee the same
+ */
+export function kendallsW(scores: number[][]): number | null {
+  const raters = scores.length;
+  const subjects = raters > 0 ? scores[0].length : 0;
+  if (raters < 2 || subjects < 2) return null;
+
+  const ranks = scores.map(rankValues);
+  const rankSums = Array.from({ length: subjects }, (_, j) =>
+    ranks.reduce((sum, row) => sum + row[j], 0)
+  );
+  const meanRankSum = (raters * (subjects + 1)) / 2;
+  const s = rankSums.reduce((sum, rankSum) => sum + (rankSum - meanRankSum) ** 2, 0);
+
+  // Σ(t³ - t) over each taster's groups of tied scores
+  let ties = 0;
+  for (const row of scores) {
+    const counts = new Map<number, number>();
+    for (const value of row) counts.set(value, (counts.get(value) || 0) + 1);
+    for (const t of counts.values()) ties += t ** 3 - t;
+  }
+
+  const denominator = raters ** 2 * (subjects ** 3 - subjects) - raters * ties;
+  if (denominator <= 0) return null;
+  return (12 * s) / denominator;
+}
+
+/**
+ * Jaccard overlap of two descriptor sets: shared over combined
+ *
+ * @returns 0-1, or null when neither set has descriptors
+ * @example jaccardIndex([1, 2, 3], [2, 3, 4]) → 0.5
+ */
+export function jaccardIndex(a: number[], b: number[]): number | null {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const union = new Set([...setA, ...setB]);
+  if (union.size === 0) return null;
+  const shared = [...setA].filter(id => setB.has(id)).length;
+  return shared / union.size;
+}
@@ -0,0 +1,292 @@
+/**
+ * Scoring Utilities
+ *
+ * Conversions from template scores to the SCA-equivalent scale,
+ * and scoring for the pro protocols: the SCA cupping form and the CVA forms.
+ */
+
+import type {
+  SCAForm,
+  SCAResult,
+  CVADescriptiveForm,
+  CVAAffectiveForm,
+} from '../types/session.types';
+import type { ScoringTemplate } from '../types/template.types';
+import type { CupDefect } from '../types/defect.types';
+
+/**
+ * SCA cupping form quality scale: 6.00-10.00 in quarter points
+ */
+export const SCA_SCALE = { min: 6, max: 10, step: 0.25 } as const;
+
+/**
+ * Cups per sample on the SCA form
+ */
+export const SCA_CUPS = 5;
+
+/**
+ * Defect intensities: each affected cup subtracts this many points
+ */
+export const SCA_DEFECT_INTENSITY = { taint: 2, fault: 4 } as const;
+
+/**
+ * Quality attributes scored on the 6-10 scale, in form order
+ */
+export const SCA_QUALITY_ATTRIBUTES: Array<{
+  key: 'fragranceAroma' | 'flavor' | 'aftertaste' | 'acidity' | 'body' | 'balance' | 'overall';
+  label: string;
+}> = [
+  { key: 'fragranceAroma', label: 'Fragrance/Aroma' },
+  { key: 'flavor', label: 'Flavor' },
+  { key: 'aftertaste', label: 'Aftertaste' },
+  { key: 'acidity', label: 'Acidity' },
+  { key: 'body', label: 'Body' },
+  { key: 'balance', label: 'Balance' },
+  { key: 'overall', label: 'Overall' },
+];
+
+/**
+ * Per-cup checks worth 2 points per passing cup, in form order
+ */
+export const SCA_CUP_CHECKS: Array<{
+  key: 'uniformity' | 'cleanCup' | 'sweetness';
+  label: string;
+}> = [
+  { key: 'uniformity', label: 'Uniformity' },
+  { key: 'cleanCup', label: 'Clean Cup' },
+  { key: 'sweetness', label: 'Sweetness' },
+];
+
+/**
+ * A new SCA form: every quality attribute at the 7.50 midpoint of "Very Good",
+ * every cup passing its checks and no defects.
+ */
+export function createDefaultSCAForm(): SCAForm {
+  return {
+    fragranceAroma: 7.5,
+    dryIntensity: 3,
+    breakIntensity: 3,
+    flavor: 7.5,
+    aftertaste: 7.5,
+    acidity: 7.5,
+    acidityIntensity: 3,
+    body: 7.5,
+    bodyLevel: 3,
+    balance: 7.5,
+    overall: 7.5,
+    uniformity: Array(SCA_CUPS).fill(true),
+    cleanCup: Array(SCA_CUPS).fill(true),
+    sweetness: Array(SCA_CUPS).fill(true),
+    taintCups: 0,
+    faultCups: 0,
+  };
+}
+
+/**
+ * Clamp a value to the SCA quality scale and round it to the nearest quarter point.
+ */
+export function toSCAQuarterPoint(value: number): number {
+  const clamped = Math.min(SCA_SCALE.max, Math.max(SCA_SCALE.min, value));
+  return Math.round(clamped / SCA_SCALE.step) * SCA_SCALE.step;
+}
+
+/**
+ * Points subtracted for defects recorded against cups: affected cups × intensity
+ */
+export function getDefectDeduction(defects: CupDefect[]): number {
+  return defects.reduce(
+    (sum, defect) => sum + defect.cupCount * SCA_DEFECT_INTENSITY[defect.severity],
+    0
+  );
+}
+
+/**
+ * Score an SCA cupping form.
+ * Total = the seven quality attributes + 2 points per passing cup for uniformity,
+ * clean cup and sweetness. Defects = taint cups × 2 + fault cups × 4, where the
+ * form's taint and fault cups are added to the defects recorded on the sample's cups.
+ *
+ * @param form - SCA cupping form
+ * @param cupDefects - Defects recorded on the sample's cups
+ * @returns Total, defects and final score
+ */
+export function calculateSCAScore(form: SCAForm, cupDefects: CupDefect[] = []): SCAResult {
+  const quality = SCA_QUALITY_ATTRIBUTES.reduce((sum, { key }) => sum + form[key], 0);
+  const cupPoints = SCA_CUP_CHECKS.reduce(
+    (sum, { key }) => sum + form[key].filter(Boolean).length * 2,
+    0
+  );
+  const totalScore = quality + cupPoints;
+  const defects =
+    form.taintCups * SCA_DEFECT_INTENSITY.taint +
+    form.faultCups * SCA_DEFECT_INTENSITY.fault +
+    getDefectDeduction(cupDefects);
+
+  return {
+    totalScore,
+    defects,
+    finalScore: totalScore - defects,
+  };
+}
+
+/**
+ * SCA quality classification of a final score
+ */
+export function getSCAQualityLabel(finalScore: number): string {
+  if (finalScore >= 90) return 'Outstanding';
+  if (finalScore >= 85) return 'Excellent';
+  if (finalScore >= 80) return 'Very Good';
+  return 'Below Specialty';
+}
+
+/**
+ * Convert a template score to the SCA-equivalent 6-10 scale.
+ * Formula: SCA = score + template.scaOffset (5 for Cupper Classic)
+ *
+ * @returns SCA-equivalent score, or null for templates without an SCA view
+ */
+export function toSCAValue(template: ScoringTemplate, score: number): number | null {
+  return template.scaOffset === undefined ? null : score + template.scaOffset;
+}
+
+/**
+ * CVA descriptive intensity scale (0-15) and affective hedonic scale (1-9)
+ */
+export const CVA_INTENSITY_SCALE = { min: 0, max: 15 } as const;
+export const CVA_HEDONIC_SCALE = { min: 1, max: 9 } as const;
+
+/**
+ * Check-all-that-apply descriptors allowed per section
+ */
+export const CVA_MAX_DESCRIPTORS = 5;
+
+type CVAIntensityKey = Exclude<
+  keyof CVADescriptiveForm,
+  'aromaDescriptors' | 'flavorDescriptors' | 'notes'
+>;
+type CVAHedonicKey = Exclude<keyof CVAAffectiveForm, 'nonUniform' | 'defective' | 'notes'>;
+
+/**
+ * Descriptive form intensity attributes, in form order
+ */
+export const CVA_DESCRIPTIVE_ATTRIBUTES: Array<{ key: CVAIntensityKey; label: string }> = [
+  { key: 'fragrance', label: 'Fragrance' },
+  { key: 'aroma', label: 'Aroma' },
+  { key: 'flavor', label: 'Flavor' },
+  { key: 'aftertaste', label: 'Aftertaste' },
+  { key: 'acidity', label: 'Acidity' },
+  { key: 'sweetness', label: 'Sweetness' },
+  { key: 'mouthfeel', label: 'Mouthfeel' },
+];
+
+/**
+ * Affective form hedonic attributes, in form order
+ */
+export const CVA_AFFECTIVE_ATTRIBUTES: Array<{ key: CVAHedonicKey; label: string }> = [
+  ...CVA_DESCRIPTIVE_ATTRIBUTES,
+  { key: 'overall', label: 'Overall' },
+];
+
+/**
+ * Hedonic anchors of the 1-9 scale
+ */
+export const CVA_HEDONIC_LABELS: Record<number, string> = {
+  1: 'Extremely low',
+  2: 'Very low',
+  3: 'Moderately low',
+  4: 'Slightly low',
+  5: 'Neither high nor low',
+  6: 'Slightly high',
+  7: 'Moderately high',
+  8: 'Very high',
+  9: 'Extremely high',
+};
+
+/**
+ * A new descriptive form: mid-scale intensities and no descriptors.
+ */
+export function createDefaultCVADescriptiveForm(): CVADescriptiveForm {
+  return {
+    fragrance: 8,
+    aroma: 8,
+    flavor: 8,
+    aftertaste: 8,
+    acidity: 8,
+    sweetness: 8,
+    mouthfeel: 8,
+    aromaDescriptors: [],
+    flavorDescriptors: [],
+  };
+}
+
+/**
+ * A new affective form: every attribute at the neutral midpoint (5).
+ */
+export function createDefaultCVAAffectiveForm(): CVAAffectiveForm {
+  return {
+    fragrance: 5,
+    aroma: 5,
+    flavor: 5,
+    aftertaste: 5,
+    acidity: 5,
+    sweetness: 5,
+    mouthfeel: 5,
+    overall: 5,
+    nonUniform: false,
+    defective: false,
+  };
+}
+
+/**
+ * CVA score formula: S = 0.65625 × Σh + 52.75 − 2u − 4d,
+ * where Σh is the sum of the eight hedonic scores, u the non-uniform cups
+ * and d the defective cups. All 9s with no flags scores 100; all 1s scores 58.
+ */
+export function calculateCVAScore(
+  hedonicSum: number,
+  nonUniformCups: number,
+  defectiveCups: number
+): number {
+  const score = 0.65625 * hedonicSum + 52.75 - 2 * nonUniformCups - 4 * defectiveCups;
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Sum of the eight hedonic scores of an affective form
+ */
+export function getCVAHedonicSum(form: CVAAffectiveForm): number {
+  return CVA_AFFECTIVE_ATTRIBUTES.reduce((sum, { key }) => sum + form[key], 0);
+}
+
+/**
+ * Affective form with the cup's recorded defects applied: a cup with any
+ * recorded defect counts as defective.
+ */
+export function withCupDefects(form: CVAAffectiveForm, defects: CupDefect[]): CVAAffectiveForm {
+  return defects.length > 0 && !form.defective ? { ...form, defective: true } : form;
+}
+
+/**
+ * CVA score of a single cup (its own flags count as u and d).
+ */
+export function calculateCVACupScore(form: CVAAffectiveForm): number {
+  return calculateCVAScore(getCVAHedonicSum(form), form.nonUniform ? 1 : 0, form.defective ? 1 : 0);
+}
+
+/**
+ * CVA score of a sample scored over several cups: the mean hedonic sum,
+ * less 2 per non-uniform cup and 4 per defective cup.
+ *
+ * @param forms - Affective forms of the sample's scored cups
+ * @returns Sample score, or null when no cup has been scored
+ */
+export function calculateCVASampleScore(forms: CVAAffectiveForm[]): number | null {
+  if (forms.length === 0) return null;
+  const meanHedonicSum =
+    forms.reduce((sum, form) => sum + getCVAHedonicSum(form), 0) / forms.length;
+  return calculateCVAScore(
+    meanHedonicSum,
+    forms.filter(form => form.nonUniform).length,
+    forms.filter(form => form.defective).length
+  );
+}
@@ -0,0 +1,228 @@
+/**
+ * Scoring Templates
+ *
+ * Built-in scoring templates and the pure helpers that score a cup against
+ * a template: scale values, defaults, completeness and the cup total.
+ */
+
+import type { CupScores } from '../types/session.types';
+import type { ScoringTemplate, ScoreScale, TemplateAttribute } from '../types/template.types';
+
+/**
+ * Template of every session created before scoring templates existed
+ */
+export const DEFAULT_TEMPLATE_ID = 'cupper-classic';
+
+/**
+ * Cupper Classic: five structural attributes and an optional overall
+ * enjoyment rating, each on a 1-5 scale. The total is the sum (max 30).
+ */
+export const CUPPER_CLASSIC_TEMPLATE: ScoringTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Cupper Classic',
+  description: 'Five structural attributes and overall enjoyment, scored 1-5',
+  scale: { min: 1, max: 5, step: 1 },
+  defaultScore: 3,
+  total: { method: 'sum' },
+  scaOffset: 5,
+  attributes: [
+    {
+      key: 'acidity',
+      label: 'Acidity',
+      leftLabel: 'Flat',
+      rightLabel: 'Bright',
+      description: 'The brightness and liveliness of the coffee',
+      helpText: {
+        1: 'Flat: little to no perceivable acidity',
+        2: 'Soft: gentle, rounded acidity',
+        3: 'Balanced: noticeable but not dominant',
+        4: 'Bright: lively, crisp acidity',
+        5: 'Vibrant: intense, sparkling acidity',
+      },
+    },
+    {
+      key: 'sweetness',
+      label: 'Sweetness',
+      shortLabel: 'Sweet',
+      leftLabel: 'Lacking',
+      rightLabel: 'Intense',
+      description: 'The natural sweetness and pleasant taste',
+      helpText: {
+        1: 'Lacking: no perceivable sweetness',
+        2: 'Faint: a hint of sweetness',
+        3: 'Moderate: clearly sweet',
+        4: 'Rich: pronounced, syrupy sweetness',
+        5: 'Intense: candy-like sweetness',
+      },
+    },
+    {
+      key: 'body',
+      label: 'Body',
+      leftLabel: 'Light',
+      rightLabel: 'Heavy',
+      description: 'The weight and texture in the mouth',
+      helpText: {
+        1: 'Watery: thin, tea-like',
+        2: 'Light: delicate mouthfeel',
+        3: 'Medium: round, smooth',
+        4: 'Full: creamy, coating',
+        5: 'Heavy: syrupy, dense',
+      },
+    },
+    {
+      key: 'clarity',
+      label: 'Clarity',
+      leftLabel: 'Muddy',
+      rightLabel: 'Clear',
+      description: 'The cleanness and definition of flavors',
+      helpText: {
+        1: 'Muddy: flavors blur together',
+        2: 'Hazy: some flavors stand out',
+        3: 'Clean: flavors are distinct',
+        4: 'Defined: each flavor is easy to pick out',
+        5: 'Transparent: crystal-clear separation',
+      },
+    },
+    {
+      key: 'finish',
+      label: 'Finish',
+      leftLabel: 'Short',
+      rightLabel: 'Long',
+      description: 'How long the flavors linger after swallowing',
+      helpText: {
+        1: 'Abrupt: gone immediately',
+        2: 'Short: fades within seconds',
+        3: 'Moderate: lingers briefly',
+        4: 'Long: pleasant, lasting aftertaste',
+        5: 'Lingering: persists well after swallowing',
+      },
+    },
+    {
+      key: 'enjoyment',
+      label: 'Overall Enjoyment',
+      shortLabel: 'Overall',
+      leftLabel: 'Poor',
+      rightLabel: 'Excellent',
+      description: 'Your overall impression of this coffee',
+      optional: true,
+      excludeFromChart: true,
+    },
+  ],
+};
+
+/**
+ * Templates registered at startup
+ */
+export const BUILT_IN_TEMPLATES: ScoringTemplate[] = [CUPPER_CLASSIC_TEMPLATE];
+
+/**
+ * Every score on a scale, lowest first
+ * @example getScaleValues({ min: 1, max: 5, step: 1 }) → [1, 2, 3, 4, 5]
+ */
+export function getScaleValues(scale: ScoreScale): number[] {
+  const count = Math.round((scale.max - scale.min) / scale.step);
+  return Array.from({ length: count + 1 }, (_, i) =>
+    Number((scale.min + i * scale.step).toFixed(4))
+  );
+}
+
+/**
+ * Whether a value lies on the template's scale (in range and on a step)
+ */
+export function isOnScale(scale: ScoreScale, value: unknown): value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return false;
+  if (value < scale.min || value > scale.max) return false;
+  const steps = (value - scale.min) / scale.step;
+  return Math.abs(steps - Math.round(steps)) < 1e-6;
+}
+
+/**
+ * Nearest value on the template's scale
+ * @example roundToScale({ min: 1, max: 5, step: 1 }, 3.6) → 4
+ */
+export function roundToScale(scale: ScoreScale, value: number): number {
+  const steps = Math.round((value - scale.min) / scale.step);
+  const rounded = Number((scale.min + steps * scale.step).toFixed(4));
+  return Math.min(scale.max, Math.max(scale.min, rounded));
+}
+
+/**
+ * Starting scores for a new cup: every attribute at the template default
+ */
+export function createDefaultScores(template: ScoringTemplate): CupScores {
+  const scores: CupScores = {};
+  for (const attribute of template.attributes) {
+    scores[attribute.key] = template.defaultScore;
+  }
+  return scores;
+}
+
+/**
+ * Attributes drawn on radar charts
+ */
+export function getChartAttributes(template: ScoringTemplate): TemplateAttribute[] {
+  return template.attributes.filter(attribute => !attribute.excludeFromChart);
+}
+
+/**
+ * Whether every required attribute of the template has a score
+ */
+export function isCupScored(template: ScoringTemplate, scores: CupScores): boolean {
+  return template.attributes.every(
+    attribute => attribute.optional || scores[attribute.key] !== undefined
+  );
+}
+
+/**
+ * Compute a cup's total with the template's total method.
+ * Only the template's own attributes count; unscored attributes are skipped.
+ *
+ * @returns Total, or null when no attribute is scored
+ */
+export function computeTemplateTotal(template: ScoringTemplate, scores: CupScores): number | null {
+  const scored = template.attributes.filter(attribute => scores[attribute.key] !== undefined);
+  if (scored.length === 0) return null;
+
+  const total = template.total;
+  switch (total.method) {
+    case 'sum':
+      return scored.reduce((sum, attribute) => sum + scores[attribute.key], 0);
+    case 'average':
+      return scored.reduce((sum, attribute) => sum + scores[attribute.key], 0) / scored.length;
+    case 'weighted':
+      return scored.reduce(
+        (sum, attribute) => sum + scores[attribute.key] * (total.weights[attribute.key] ?? 1),
+        0
+      );
+  }
+}
+
+/**
+ * Highest possible total on the template (every attribute at the scale max)
+ */
+export function getMaxTotal(template: ScoringTemplate): number {
+  return computeTemplateTotal(template, createMaxScores(template)) ?? 0;
+}
+
+function createMaxScores(template: ScoringTemplate): CupScores {
+  const scores: CupScores = {};
+  for (const attribute of template.attributes) {
+    scores[attribute.key] = template.scale.max;
+  }
+  return scores;
+}
+
+/**
+ * Average score per template attribute across cups; attributes no cup
+ * scored are left out.
+ */
+export function averageScores(template: ScoringTemplate, cups: CupScores[]): CupScores {
+  const averages: CupScores = {};
+  for (const { key } of template.attributes) {
+    const values = cups.map(scores => scores[key]).filter(value => value !== undefined);
+    if (values.length > 0) {
+      averages[key] = values.reduce((sum, value) => sum + value, 0) / values.length;
+    }
+  }
+  return averages;
+}
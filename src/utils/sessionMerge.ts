@@ -0,0 +1,485 @@
+/**
+ * Session Merge
+ *
+ * Three-way merge of a session changed on this device (local) and on the
+ * sync server (remote) since the copy both started from (base). Fields are
+ * compared one by one: a field changed on one side takes that change, and
+ * only a field changed differently on both sides is a conflict. Notes are
+ * merged line by line, tags as sets, and coffees, cups, flavors, defects,
+ * group scores and triangle sets by their IDs.
+ */
+
+import type { ChangeEntity } from '../types/changeLog.types';
+import type { MergeChoices, MergeConflict, SessionMergeResult } from '../types/merge.types';
+import type { CoffeeEntry, Cup, Session } from '../types/session.types';
+import type { TriangleSet } from '../types/triangle.types';
+
+interface MergeContext {
+  choices: MergeChoices;
+  conflicts: MergeConflict[];
+}
+
+const SESSION_FIELDS = [
+  'mode',
+  'protocol',
+  'templateId',
+  'blindCoding',
+  'revealedAt',
+  'sessionType',
+  'userId',
+  'deletedAt',
+] as const;
+const COFFEE_FIELDS = [
+  'catalogId',
+  'name',
+  'roaster',
+  'origin',
+  'process',
+  'variety',
+  'altitude',
+  'brewMethod',
+  'roastLevel',
+  'roastDate',
+  'scaForm',
+  'blindCode',
+] as const;
+const CUP_FIELDS = ['position', 'cvaDescriptive', 'cvaAffective'] as const;
+const TRIANGLE_SET_FIELDS = [
+  'setNumber',
+  'oddCoffeeId',
+  'oddPosition',
+  'chosenPosition',
+  'answeredAt',
+] as const;
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Comparable form of a value: object keys sorted and empty fields left out,
+ * so copies that went through different app versions compare equal
+ */
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => !isEmpty(field))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, field]) => [key, canonical(field)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Whether two values are the same; unset and empty count as equal
+ */
+function isSame(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+function conflictId(entity: ChangeEntity, entityId: string, field: string | null): string {
+  return field ? `${entity}:${entityId}.${field}` : `${entity}:${entityId}`;
+}
+
+/**
+ * Merge one value: the side that changed it wins, and a value changed on
+ * both sides takes the side picked for it or is reported as a conflict
+ * (keeping the local value meanwhile). undefined stands for a record that
+ * does not exist on that side.
+ */
+function mergeValue<T>(
+  ctx: MergeContext,
+  entity: ChangeEntity,
+  entityId: string,
+  field: string | null,
+  base: T | undefined,
+  local: T,
+  remote: T
+): T {
+  if (isSame(local, remote) || isSame(base, remote)) return local;
+  if (isSame(base, local)) return remote;
+
+  const id = conflictId(entity, entityId, field);
+  const choice = ctx.choices[id];
+  if (choice) return choice === 'remote' ? remote : local;
+
+  ctx.conflicts.push({ id, entity, entityId, field, base, local, remote });
+  return local;
+}
+
+function mergeFields<T extends object, K extends keyof T & string>(
+  ctx: MergeContext,
+  entity: ChangeEntity,
+  entityId: string,
+  fields: ReadonlyArray<K>,
+  base: T | undefined,
+  local: T,
+  remote: T
+): Pick<T, K> {
+  const merged = {} as Pick<T, K>;
+  for (const field of fields) {
+    merged[field] = mergeValue(
+      ctx,
+      entity,
+      entityId,
+      field,
+      base?.[field],
+      local[field],
+      remote[field]
+    );
+  }
+  return merged;
+}
+
+function lastUpdated(local: string, remote: string): string {
+  return local > remote ? local : remote;
+}
+
+/**
+ * Pairs of equal lines in the longest common subsequence of two texts,
+ * as a map from line index in a to line index in b
+ */
+function matchLines(a: string[], b: string[]): Map<number, number> {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.set(i++, j++);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Three-way merge of a text, line by line. Lines kept on both sides anchor
+ * the merge; between anchors, the side that changed its lines wins.
+ *
+ * @returns Merged text, or null if both sides changed the same lines differently
+ * @example mergeText('a\nb', 'x\na\nb', 'a\nb\ny') → 'x\na\nb\ny'
+ */
+export function mergeText(base: string, local: string, remote: string): string | null {
+  if (local === remote || base === remote) return local;
+  if (base === local) return remote;
+
+  const baseLines = base.split('\n');
+  const localLines = local.split('\n');
+  const remoteLines = remote.split('\n');
+  const toLocal = matchLines(baseLines, localLines);
+  const toRemote = matchLines(baseLines, remoteLines);
+
+  const merged: string[] = [];
+  let b = 0;
+  let l = 0;
+  let r = 0;
+  const mergeChunk = (baseEnd: number, localEnd: number, remoteEnd: number): boolean => {
+    const baseChunk = baseLines.slice(b, baseEnd).join('\n');
+    const localChunk = localLines.slice(l, localEnd);
+    const remoteChunk = remoteLines.slice(r, remoteEnd);
+    if (localChunk.join('\n') === remoteChunk.join('\n') || baseChunk === remoteChunk.join('\n')) {
+      merged.push(...localChunk);
+    } else if (baseChunk === localChunk.join('\n')) {
+      merged.push(...remoteChunk);
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  for (let i = 0; i < baseLines.length; i++) {
+    const li = toLocal.get(i);
+    const ri = toRemote.get(i);
+    if (li === undefined || ri === undefined) continue;
+
+    if (!mergeChunk(i, li, ri)) return null;
+    merged.push(baseLines[i]);
+    b = i + 1;
+    l = li + 1;
+    r = ri + 1;
+  }
+  if (!mergeChunk(baseLines.length, localLines.length, remoteLines.length)) return null;
+
+  return merged.join('\n');
+}
+
+/**
+ * Three-way merge of a set: items added on either side are kept, and items
+ * removed on either side are dropped.
+ *
+ * @example mergeSet(['a', 'b'], ['a', 'c'], ['a', 'b', 'd']) → ['a', 'c', 'd']
+ */
+export function mergeSet<T>(base: T[], local: T[], remote: T[]): T[] {
+  const removed = new Set(base.filter(item => !local.includes(item) || !remote.includes(item)));
+  return Array.from(new Set([...local, ...remote])).filter(item => !removed.has(item));
+}
+
+function mergeNotes(
+  ctx: MergeContext,
+  entity: ChangeEntity,
+  entityId: string,
+  base: string | undefined,
+  local: string | undefined,
+  remote: string | undefined
+): string | undefined {
+  const text = mergeText(base ?? '', local ?? '', remote ?? '');
+  if (text !== null) return text || undefined;
+  return mergeValue(ctx, entity, entityId, 'notes', base, local, remote);
+}
+
+function byKey<T>(items: T[] | undefined, key: (item: T) => string | number): Map<string, T> {
+  return new Map((items ?? []).map(item => [String(key(item)), item]));
+}
+
+/**
+ * Keys of three lists of items: local order first, then items only on the
+ * server, then items removed on both sides
+ */
+function mergedKeys<T>(base: Map<string, T>, local: Map<string, T>, remote: Map<string, T>) {
+  return new Set([...local.keys(), ...remote.keys(), ...base.keys()]);
+}
+
+/**
+ * Merge a list of values by key (e.g. a cup's flavors by flavor ID), each
+ * value as a whole: added, removed and changed values are taken from the
+ * side that made the change.
+ */
+function mergeKeyed<T>(
+  ctx: MergeContext,
+  entity: ChangeEntity,
+  entityId: string,
+  field: string,
+  key: (item: T) => string | number,
+  base: T[] | undefined,
+  local: T[],
+  remote: T[]
+): T[] {
+  const baseItems = byKey(base, key);
+  const localItems = byKey(local, key);
+  const remoteItems = byKey(remote, key);
+
+  const merged: T[] = [];
+  for (const itemKey of mergedKeys(baseItems, localItems, remoteItems)) {
+    const item = mergeValue(
+      ctx,
+      entity,
+      entityId,
+      `${field}.${itemKey}`,
+      baseItems.get(itemKey),
+      localItems.get(itemKey),
+      remoteItems.get(itemKey)
+    );
+    if (item !== undefined) merged.push(item);
+  }
+  return merged;
+}
+
+/**
+ * Merge a list of records by ID. Records on both sides are merged field by
+ * field; a record removed on one side and changed on the other is a
+ * conflict on the whole record.
+ */
+function mergeRecords<T>(
+  ctx: MergeContext,
+  entity: ChangeEntity,
+  key: (item: T) => string,
+  base: T[] | undefined,
+  local: T[],
+  remote: T[],
+  mergeRecord: (base: T | undefined, local: T, remote: T) => T
+): T[] {
+  const baseItems = byKey(base, key);
+  const localItems = byKey(local, key);
+  const remoteItems = byKey(remote, key);
+
+  const merged: T[] = [];
+  for (const id of mergedKeys(baseItems, localItems, remoteItems)) {
+    const baseItem = baseItems.get(id);
+    const localItem = localItems.get(id);
+    const remoteItem = remoteItems.get(id);
+    const item =
+      localItem && remoteItem
+        ? mergeRecord(baseItem, localItem, remoteItem)
+        : mergeValue(ctx, entity, id, null, baseItem, localItem, remoteItem);
+    if (item !== undefined) merged.push(item);
+  }
+  return merged;
+}
+
+function mergeCup(ctx: MergeContext, base: Cup | undefined, local: Cup, remote: Cup): Cup {
+  const id = local.cupId;
+
+  const ratings: Cup['ratings'] = {};
+  const attributes = new Set([
+    ...Object.keys(local.ratings),
+    ...Object.keys(remote.ratings),
+    ...Object.keys(base?.ratings ?? {}),
+  ]);
+  for (const attribute of attributes) {
+    const value = mergeValue(
+      ctx,
+      'cup',
+      id,
+      `ratings.${attribute}`,
+      base?.ratings[attribute],
+      local.ratings[attribute],
+      remote.ratings[attribute]
+    );
+    if (value !== undefined) ratings[attribute] = value;
+  }
+
+  return {
+    ...local,
+    ...mergeFields(ctx, 'cup', id, CUP_FIELDS, base, local, remote),
+    ratings,
+    flavors: mergeKeyed(
+      ctx,
+      'cup',
+      id,
+      'flavors',
+      flavor => flavor.flavorId,
+      base?.flavors,
+      local.flavors,
+      remote.flavors
+    ),
+    tasterScores: mergeKeyed(
+      ctx,
+      'cup',
+      id,
+      'tasterScores',
+      set => set.tasterId,
+      base?.tasterScores,
+      local.tasterScores,
+      remote.tasterScores
+    ),
+    defects: mergeKeyed(
+      ctx,
+      'cup',
+      id,
+      'defects',
+      defect => defect.defectId,
+      base?.defects,
+      local.defects,
+      remote.defects
+    ),
+    notes: mergeNotes(ctx, 'cup', id, base?.notes, local.notes, remote.notes),
+    updatedAt: lastUpdated(local.updatedAt, remote.updatedAt),
+  };
+}
+
+function mergeCoffee(
+  ctx: MergeContext,
+  base: CoffeeEntry | undefined,
+  local: CoffeeEntry,
+  remote: CoffeeEntry
+): CoffeeEntry {
+  const cups = mergeRecords(
+    ctx,
+    'cup',
+    cup => cup.cupId,
+    base?.cups,
+    local.cups,
+    remote.cups,
+    (baseCup, localCup, remoteCup) => mergeCup(ctx, baseCup, localCup, remoteCup)
+  );
+
+  return {
+    ...local,
+    ...mergeFields(ctx, 'coffee', local.coffeeId, COFFEE_FIELDS, base, local, remote),
+    cups: cups.sort((a, b) => a.position - b.position),
+  };
+}
+
+function mergeTriangleSet(
+  ctx: MergeContext,
+  base: TriangleSet | undefined,
+  local: TriangleSet,
+  remote: TriangleSet
+): TriangleSet {
+  const id = local.setId;
+  return {
+    ...local,
+    ...mergeFields(ctx, 'triangle-set', id, TRIANGLE_SET_FIELDS, base, local, remote),
+    descriptors: mergeSet(base?.descriptors ?? [], local.descriptors, remote.descriptors),
+    notes: mergeNotes(ctx, 'triangle-set', id, base?.notes, local.notes, remote.notes),
+  };
+}
+
+/**
+ * Merge the local and server copies of a session.
+ *
+ * @param base - Copy both sides were last synced at, or null if unknown
+ *   (then a field set differently on each side is a conflict, and tags are joined)
+ * @param local - Session on this device
+ * @param remote - Session on the server
+ * @param choices - Sides already picked for conflicts
+ * @returns Merged session and the conflicts left to decide
+ */
+export function mergeSessions(
+  base: Session | null,
+  local: Session,
+  remote: Session,
+  choices: MergeChoices = {}
+): SessionMergeResult {
+  const ctx: MergeContext = { choices, conflicts: [] };
+  const id = local.id;
+  const baseSession = base ?? undefined;
+
+  const tags = mergeSet(base?.tags ?? [], local.tags ?? [], remote.tags ?? []);
+
+  const session: Session = {
+    ...local,
+    ...mergeFields(ctx, 'session', id, SESSION_FIELDS, baseSession, local, remote),
+    updatedAt: lastUpdated(local.updatedAt, remote.updatedAt),
+    notes: mergeNotes(ctx, 'session', id, base?.notes, local.notes, remote.notes),
+    tags: tags.length > 0 ? tags : undefined,
+    tasters: mergeKeyed(
+      ctx,
+      'session',
+      id,
+      'tasters',
+      taster => taster.tasterId,
+      base?.tasters,
+      local.tasters,
+      remote.tasters
+    ),
+    coffees: mergeRecords(
+      ctx,
+      'coffee',
+      coffee => coffee.coffeeId,
+      base?.coffees,
+      local.coffees,
+      remote.coffees,
+      (baseCoffee, localCoffee, remoteCoffee) =>
+        mergeCoffee(ctx, baseCoffee, localCoffee, remoteCoffee)
+    ),
+    triangleSets: mergeRecords(
+      ctx,
+      'triangle-set',
+      set => set.setId,
+      base?.triangleSets,
+      local.triangleSets,
+      remote.triangleSets,
+      (baseSet, localSet, remoteSet) => mergeTriangleSet(ctx, baseSet, localSet, remoteSet)
+    ),
+  };
+
+  return { session, conflicts: ctx.conflicts };
+}
@@ -0,0 +1,153 @@
+/**
+ * Triangle Tests
+ *
+ * Random cup layouts for triangulation sets, and the binomial statistics
+ * that tell a taster's hits apart from lucky guesses.
+ */
+
+import type { TrianglePosition, TriangleSet, TriangleSummary } from '../types/triangle.types';
+
+/**
+ * Cups poured per set
+ */
+export const TRIANGLE_CUPS = 3;
+
+/**
+ * Chance of picking the odd cup by guessing
+ */
+export const TRIANGLE_CHANCE = 1 / TRIANGLE_CUPS;
+
+/**
+ * Significance level of the accuracy readout (one-sided)
+ */
+export const TRIANGLE_ALPHA = 0.05;
+
+export const TRIANGLE_POSITIONS: TrianglePosition[] = [1, 2, 3];
+
+/**
+ * Most descriptors noted on the picked cup
+ */
+export const TRIANGLE_MAX_DESCRIPTORS = 5;
+
+/**
+ * Random layout of a new set: which of the two coffees is the odd one, and
+ * where its cup goes. Both are drawn uniformly, so neither coffee nor any
+ * position is favored over many sets.
+ *
+ * @param coffeeIds - The session's two coffees
+ */
+export function createTriangleLayout(coffeeIds: [string, string]): {
+  oddCoffeeId: string;
+  oddPosition: TrianglePosition;
+} {
+  return {
+    oddCoffeeId: coffeeIds[Math.floor(Math.random() * coffeeIds.length)],
+    oddPosition: TRIANGLE_POSITIONS[Math.floor(Math.random() * TRIANGLE_CUPS)],
+  };
+}
+
+/**
+ * Coffee poured in a cup of a set
+ *
+ * @param coffeeIds - The session's two coffees
+ */
+export function getCupCoffeeId(
+  set: Pick<TriangleSet, 'oddCoffeeId' | 'oddPosition'>,
+  position: TrianglePosition,
+  coffeeIds: [string, string]
+): string {
+  if (position === set.oddPosition) return set.oddCoffeeId;
+  return coffeeIds[0] === set.oddCoffeeId ? coffeeIds[1] : coffeeIds[0];
+}
+
+/**
+ * Whether a set has been answered
+ */
+export function isTriangleAnswered(set: Pick<TriangleSet, 'chosenPosition'>): boolean {
+  return set.chosenPosition !== undefined && set.chosenPosition !== null;
+}
+
+/**
+ * Whether the taster picked the odd cup (false while unanswered)
+ */
+export function isTriangleCorrect(
+  set: Pick<TriangleSet, 'chosenPosition' | 'oddPosition'>
+): boolean {
+  return isTriangleAnswered(set) && set.chosenPosition === set.oddPosition;
+}
+
+/**
+ * Natural log of n choose k
+ */
+function logChoose(n: number, k: number): number {
+  let result = 0;
+  for (let i = 1; i <= k; i++) {
+    result += Math.log(n - k + i) - Math.log(i);
+  }
+  return result;
+}
+
+/**
+ * Probability of at least k successes in n trials with success chance p.
+ * Terms are summed in log space so long runs of sets do not overflow.
+ *
+ * @example binomialTailProbability(6, 5, 1 / 3) → 0.0178
+ */
+export function binomialTailProbability(n: number, k: number, p: number): number {
+  if (k <= 0) return 1;
+  if (k > n) return 0;
+
+  let total = 0;
+  for (let i = k; i <= n; i++) {
+    total += Math.exp(logChoose(n, i) + i * Math.log(p) + (n - i) * Math.log(1 - p));
+  }
+  return Math.min(1, total);
+}
+
+/**
+ * Fewest correct sets out of n that beat guessing at the significance level
+ *
+ * @returns Correct sets needed, or null if even n out of n is not enough
+ */
+export function minimumCorrect(n: number, alpha: number = TRIANGLE_ALPHA): number | null {
+  for (let k = 0; k <= n; k++) {
+    if (binomialTailProbability(n, k, TRIANGLE_CHANCE) < alpha) return k;
+  }
+  return null;
+}
+
+/**
+ * Summarize how often a taster found the odd cup
+ *
+ * @param correctSets - Sets where the odd cup was picked
+ * @param totalSets - Answered sets
+ */
+export function summarizeTriangleResults(correctSets: number, totalSets: number): TriangleSummary {
+  const pValue = binomialTailProbability(totalSets, correctSets, TRIANGLE_CHANCE);
+  return {
+    totalSets,
+    correctSets,
+    accuracy: totalSets > 0 ? correctSets / totalSets : 0,
+    pValue,
+    significant: totalSets > 0 && pValue < TRIANGLE_ALPHA,
+    minCorrect: minimumCorrect(totalSets),
+  };
+}
+
+/**
+ * Summarize the sets of a session (unanswered sets are ignored)
+ */
+export function summarizeTriangleSets(
+  sets: Array<Pick<TriangleSet, 'chosenPosition' | 'oddPosition'>>
+): TriangleSummary {
+  const answered = sets.filter(isTriangleAnswered);
+  return summarizeTriangleResults(answered.filter(isTriangleCorrect).length, answered.length);
+}
+
+/**
+ * Format a p-value for display
+ * @example formatPValue(0.01779) → 'p = 0.018', formatPValue(0.00002) → 'p < 0.001'
+ */
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+}